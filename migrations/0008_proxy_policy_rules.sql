@@ -0,0 +1,27 @@
+PRAGMA foreign_keys = ON;
+
+-- Auto-approve / auto-deny rules evaluated when a proxy request is created.
+-- Unlike proxy_always_allow_rules (exact endpoint match), these support
+-- host/path globs, path templates, method sets, query-param constraints and
+-- explicit deny rules. NULL scope columns mean "any".
+CREATE TABLE IF NOT EXISTS proxy_policy_rules (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  api_key_id TEXT REFERENCES api_keys(id) ON DELETE CASCADE,
+  requester_ip TEXT,
+  provider_id TEXT,
+  effect TEXT NOT NULL CHECK (effect IN ('allow', 'deny')),
+  priority INTEGER NOT NULL DEFAULT 0,
+  -- JSON array of upper-case methods.
+  methods_json TEXT,
+  host_pattern TEXT,
+  path_pattern TEXT,
+  -- JSON object: param name -> glob (or null to require the param be absent).
+  query_constraints_json TEXT,
+  description TEXT,
+  created_at TEXT NOT NULL,
+  revoked_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_proxy_policy_rules_user
+  ON proxy_policy_rules(user_id, revoked_at, priority);
@@ -0,0 +1,24 @@
+PRAGMA foreign_keys = ON;
+
+-- Temporary approvals created from the Telegram approval UI
+-- ("Allow for 1 hour" / "Allow next 20 calls").
+-- Scoped like proxy_always_allow_rules (api key + requester IP + endpoint), but
+-- bounded by an expiry time and/or a maximum number of auto-approved requests.
+CREATE TABLE IF NOT EXISTS proxy_approval_grants (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  api_key_id TEXT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  requester_ip TEXT NOT NULL,
+  method TEXT NOT NULL,
+  upstream_host TEXT NOT NULL,
+  upstream_path TEXT NOT NULL,
+  source_request_id TEXT REFERENCES proxy_requests(id) ON DELETE SET NULL,
+  expires_at TEXT,
+  max_uses INTEGER,
+  use_count INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  revoked_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_proxy_approval_grants_scope
+  ON proxy_approval_grants(user_id, api_key_id, requester_ip, method, upstream_host, upstream_path);
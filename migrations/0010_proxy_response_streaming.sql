@@ -0,0 +1,7 @@
+PRAGMA foreign_keys = ON;
+
+-- Execute responses are buffered (1 MiB cap) by default. 'stream' pipes the
+-- upstream body to the caller, counting bytes against max_response_bytes (or
+-- the provider/server default when NULL).
+ALTER TABLE proxy_requests ADD COLUMN response_mode TEXT NOT NULL DEFAULT 'buffer';
+ALTER TABLE proxy_requests ADD COLUMN max_response_bytes INTEGER;
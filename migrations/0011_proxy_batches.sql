@@ -0,0 +1,31 @@
+PRAGMA foreign_keys = ON;
+
+-- A batch groups several proxy requests under a single Telegram approval prompt.
+-- Each item is still a regular proxy_requests row (executed individually via
+-- /requests/:id/execute); the batch only carries the shared decision.
+CREATE TABLE IF NOT EXISTS proxy_batches (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  api_key_id TEXT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  api_key_label_snapshot TEXT NOT NULL,
+  consent_hint TEXT,
+  idempotency_key TEXT,
+  status TEXT NOT NULL,
+  item_count INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  approval_expires_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proxy_batches_idempotency
+  ON proxy_batches(api_key_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_proxy_batches_status_expires
+  ON proxy_batches(status, approval_expires_at);
+
+ALTER TABLE proxy_requests ADD COLUMN batch_id TEXT REFERENCES proxy_batches(id) ON DELETE SET NULL;
+ALTER TABLE proxy_requests ADD COLUMN batch_index INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_proxy_requests_batch
+  ON proxy_requests(batch_id, batch_index);
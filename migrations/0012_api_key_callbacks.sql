@@ -0,0 +1,7 @@
+PRAGMA foreign_keys = ON;
+
+-- Optional per-key webhook notified when a proxy request is approved, denied
+-- or expires. The signing secret is shown once in Telegram and stored
+-- encrypted (APP_SECRET) so the broker can sign deliveries.
+ALTER TABLE api_keys ADD COLUMN callback_url TEXT;
+ALTER TABLE api_keys ADD COLUMN callback_secret_ciphertext BLOB;
@@ -0,0 +1,20 @@
+PRAGMA foreign_keys = ON;
+
+-- Opt-in "approve and execute": the broker calls upstream right after approval
+-- and keeps the (encrypted) response until it is fetched once or expires.
+ALTER TABLE proxy_requests ADD COLUMN execute_on_approval INTEGER NOT NULL DEFAULT 0;
+
+-- proxy_requests.result_state tracks the stored copy:
+-- NONE | STORED | CONSUMED | EXPIRED
+CREATE TABLE IF NOT EXISTS proxy_request_results (
+  request_id TEXT PRIMARY KEY REFERENCES proxy_requests(id) ON DELETE CASCADE,
+  body_ciphertext BLOB NOT NULL,
+  content_type TEXT,
+  http_status INTEGER NOT NULL,
+  bytes INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_proxy_request_results_expires
+  ON proxy_request_results(expires_at);
@@ -0,0 +1,12 @@
+PRAGMA foreign_keys = ON;
+
+-- Several active accounts per provider are allowed. Callers pick one with an
+-- `account` selector (account id, provider_user_id or label); the chosen
+-- account is pinned on the proxy request / git session at creation time.
+ALTER TABLE linked_accounts ADD COLUMN label TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_linked_accounts_user_provider_identity
+  ON linked_accounts(user_id, provider, provider_user_id);
+
+ALTER TABLE proxy_requests ADD COLUMN linked_account_id TEXT;
+ALTER TABLE git_sessions ADD COLUMN linked_account_id TEXT;
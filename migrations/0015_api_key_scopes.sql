@@ -0,0 +1,5 @@
+PRAGMA foreign_keys = ON;
+
+-- Optional per-key restriction on what a key may request (providers,
+-- host/path prefixes, methods, read-only). JSON; NULL means unrestricted.
+ALTER TABLE api_keys ADD COLUMN scopes_json TEXT;
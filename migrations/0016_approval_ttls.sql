@@ -0,0 +1,9 @@
+PRAGMA foreign_keys = ON;
+
+-- Upper bound for `approval_ttl_seconds` on requests made with this key
+-- (NULL: server-wide APPROVAL_TTL_MAX_SECONDS applies).
+ALTER TABLE api_keys ADD COLUMN max_approval_ttl_seconds INTEGER;
+
+-- Idle time after which an approved git session expires (NULL: the 2 minute
+-- window sessions used before this was configurable).
+ALTER TABLE git_sessions ADD COLUMN inactivity_timeout_seconds INTEGER;
@@ -0,0 +1,18 @@
+PRAGMA foreign_keys = ON;
+
+-- User-defined redaction rules, applied (together with built-in and
+-- provider-defined rules) before request content is shown in Telegram,
+-- written to audit_events or returned from listing APIs.
+-- provider_id NULL means the rule applies to every provider.
+CREATE TABLE IF NOT EXISTS redaction_rules (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider_id TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('json_path', 'header', 'query_param', 'regex')),
+  pattern TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  revoked_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_redaction_rules_user
+  ON redaction_rules(user_id, revoked_at);
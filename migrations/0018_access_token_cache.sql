@@ -0,0 +1,7 @@
+PRAGMA foreign_keys = ON;
+
+-- Cached OAuth access token per linked account (AES-GCM, same key as the
+-- refresh token), so executes don't hit the provider's token endpoint every
+-- time. Cleared whenever the account is relinked or revoked.
+ALTER TABLE linked_accounts ADD COLUMN access_token_ciphertext BLOB;
+ALTER TABLE linked_accounts ADD COLUMN access_token_expires_at TEXT;
@@ -0,0 +1,11 @@
+PRAGMA foreign_keys = ON;
+
+-- Background credential checks (see src/accounts/health.ts). An account whose
+-- credential is rejected moves to status 'needs_reauth' until it is
+-- reconnected; health_error keeps the last failure (or the reason it needs
+-- reconnecting).
+ALTER TABLE linked_accounts ADD COLUMN health_checked_at TEXT;
+ALTER TABLE linked_accounts ADD COLUMN health_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_linked_accounts_health
+  ON linked_accounts(status, health_checked_at);
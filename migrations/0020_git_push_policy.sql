@@ -0,0 +1,10 @@
+PRAGMA foreign_keys = ON;
+
+-- Per-session push constraints (see src/git/pushPolicy.ts). ref_patterns_json
+-- and protected_paths_json are JSON string arrays (NULL: unrestricted / none).
+-- advertised_branches_json keeps the branch tips from the push handshake for
+-- force-push detection.
+ALTER TABLE git_sessions ADD COLUMN ref_patterns_json TEXT;
+ALTER TABLE git_sessions ADD COLUMN deny_force_push INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE git_sessions ADD COLUMN protected_paths_json TEXT;
+ALTER TABLE git_sessions ADD COLUMN advertised_branches_json TEXT;
@@ -0,0 +1,20 @@
+PRAGMA foreign_keys = ON;
+
+-- "Review before forwarding" for push sessions: the receive-pack request is
+-- held while the approver reviews a summary of the pushed commits
+-- (summary_json, see src/git/pushSummary.ts) and forwards or rejects it.
+ALTER TABLE git_sessions ADD COLUMN review_push INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS git_push_reviews (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL REFERENCES git_sessions(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('PENDING', 'FORWARDED', 'REJECTED', 'EXPIRED')),
+  summary_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  decided_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_git_push_reviews_session
+  ON git_push_reviews(session_id, created_at);
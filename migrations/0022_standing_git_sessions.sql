@@ -0,0 +1,11 @@
+PRAGMA foreign_keys = ON;
+
+-- Standing git sessions: reusable for many fetch/push cycles until
+-- expires_at (set on approval from standing_duration_seconds) or until
+-- max_pushes pushes were forwarded. Revoked sessions get status REVOKED.
+ALTER TABLE git_sessions ADD COLUMN standing INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE git_sessions ADD COLUMN standing_duration_seconds INTEGER;
+ALTER TABLE git_sessions ADD COLUMN expires_at TEXT;
+ALTER TABLE git_sessions ADD COLUMN max_pushes INTEGER;
+ALTER TABLE git_sessions ADD COLUMN push_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE git_sessions ADD COLUMN revoked_at TEXT;
@@ -0,0 +1,27 @@
+PRAGMA foreign_keys = ON;
+
+-- Web dashboard (/ui) sign-in. The bot's /dashboard command issues a
+-- single-use login token; redeeming it starts a cookie session. Only hashes
+-- of the token and the session secret are stored.
+CREATE TABLE IF NOT EXISTS web_login_tokens (
+  token_hash TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  used_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS web_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  secret_hash TEXT NOT NULL UNIQUE,
+  -- Sent back with every form post.
+  csrf_token TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL,
+  revoked_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_web_sessions_user
+  ON web_sessions(user_id, created_at);
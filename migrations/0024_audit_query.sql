@@ -0,0 +1,20 @@
+PRAGMA foreign_keys = ON;
+
+-- GET /v1/audit pages newest-first over audit event ids (ULIDs) and can
+-- filter by request id. Proxy requests now record the provider they were
+-- routed to so audit entries can be filtered by provider; older rows fall
+-- back to their pinned linked account.
+CREATE INDEX IF NOT EXISTS idx_audit_events_user_id
+  ON audit_events(user_id, id);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_request
+  ON audit_events(request_id);
+
+ALTER TABLE proxy_requests ADD COLUMN provider TEXT;
+
+UPDATE proxy_requests
+SET provider = (
+  SELECT la.provider FROM linked_accounts la
+  WHERE la.id = proxy_requests.linked_account_id
+)
+WHERE provider IS NULL AND linked_account_id IS NOT NULL;
@@ -0,0 +1,10 @@
+PRAGMA foreign_keys = ON;
+
+-- Tamper-evident audit log: each user's events form a hash chain in id order.
+-- `hash` = sha256(prev_hash + canonical event); rows are sealed right after
+-- they are written (existing rows are sealed on first start).
+ALTER TABLE audit_events ADD COLUMN prev_hash TEXT;
+ALTER TABLE audit_events ADD COLUMN hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_unsealed
+  ON audit_events(id) WHERE hash IS NULL;
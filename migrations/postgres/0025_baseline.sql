@@ -0,0 +1,353 @@
+-- Postgres schema equivalent to SQLite migrations 0001-0025. Later changes
+-- get a file of the same name here and in migrations/.
+--
+-- Timestamps are ISO-8601 TEXT and flags 0/1 integers, as in SQLite, so the
+-- same queries run on both. Integers are BIGINT: Telegram ids exceed 32 bits.
+
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,
+  telegram_user_id BIGINT NOT NULL UNIQUE,
+  created_at TEXT NOT NULL,
+  status TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  revoked_at TEXT,
+  last_used_at TEXT,
+  callback_url TEXT,
+  callback_secret_ciphertext BYTEA,
+  scopes_json TEXT,
+  max_approval_ttl_seconds BIGINT,
+  UNIQUE(user_id, label)
+);
+
+CREATE TABLE IF NOT EXISTS linked_accounts (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_user_id TEXT NOT NULL,
+  scopes TEXT NOT NULL,
+  refresh_token_ciphertext BYTEA NOT NULL,
+  status TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  revoked_at TEXT,
+  label TEXT,
+  access_token_ciphertext BYTEA,
+  access_token_expires_at TEXT,
+  health_checked_at TEXT,
+  health_error TEXT
+);
+
+CREATE TABLE IF NOT EXISTS oauth_states (
+  state TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  used_at TEXT,
+  pkce_verifier TEXT
+);
+
+CREATE TABLE IF NOT EXISTS proxy_batches (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  api_key_id TEXT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  api_key_label_snapshot TEXT NOT NULL,
+  consent_hint TEXT,
+  idempotency_key TEXT,
+  status TEXT NOT NULL,
+  item_count BIGINT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  approval_expires_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS proxy_requests (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  api_key_id TEXT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  api_key_label_snapshot TEXT NOT NULL,
+  upstream_url TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  consent_hint TEXT,
+  status TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  approval_expires_at TEXT NOT NULL,
+  idempotency_key TEXT,
+  upstream_http_status BIGINT,
+  upstream_content_type TEXT,
+  upstream_bytes BIGINT,
+  result_state TEXT NOT NULL,
+  error_code TEXT,
+  error_message TEXT,
+  method TEXT NOT NULL DEFAULT 'GET',
+  request_headers_json TEXT,
+  request_body_base64 TEXT,
+  requester_ip TEXT,
+  response_mode TEXT NOT NULL DEFAULT 'buffer',
+  max_response_bytes BIGINT,
+  batch_id TEXT REFERENCES proxy_batches(id) ON DELETE SET NULL,
+  batch_index BIGINT,
+  execute_on_approval BIGINT NOT NULL DEFAULT 0,
+  linked_account_id TEXT,
+  provider TEXT
+);
+
+CREATE TABLE IF NOT EXISTS approvals (
+  request_id TEXT PRIMARY KEY REFERENCES proxy_requests(id) ON DELETE CASCADE,
+  telegram_chat_id BIGINT NOT NULL,
+  telegram_message_id BIGINT NOT NULL,
+  decision TEXT NOT NULL,
+  decided_at TEXT NOT NULL,
+  decided_by_telegram_user_id BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  id TEXT PRIMARY KEY,
+  created_at TEXT NOT NULL,
+  user_id TEXT,
+  request_id TEXT,
+  actor_type TEXT NOT NULL,
+  actor_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  event_json TEXT NOT NULL,
+  prev_hash TEXT,
+  hash TEXT
+);
+
+CREATE TABLE IF NOT EXISTS telegram_state (
+  id BIGINT PRIMARY KEY CHECK (id = 1),
+  last_update_id BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS telegram_pending_inputs (
+  user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  action TEXT NOT NULL,
+  target_id TEXT,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS git_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  api_key_id TEXT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  repo_owner TEXT NOT NULL,
+  repo_name TEXT NOT NULL,
+  status TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  approval_expires_at TEXT NOT NULL,
+  last_activity_at TEXT,
+  session_secret_hash TEXT NOT NULL,
+  allow_default_branch_push BIGINT NOT NULL,
+  deny_deletes BIGINT NOT NULL,
+  deny_tag_updates BIGINT NOT NULL,
+  default_branch_ref TEXT,
+  error_code TEXT,
+  error_message TEXT,
+  session_secret_ciphertext BYTEA,
+  linked_account_id TEXT,
+  inactivity_timeout_seconds BIGINT,
+  ref_patterns_json TEXT,
+  deny_force_push BIGINT NOT NULL DEFAULT 0,
+  protected_paths_json TEXT,
+  advertised_branches_json TEXT,
+  review_push BIGINT NOT NULL DEFAULT 0,
+  standing BIGINT NOT NULL DEFAULT 0,
+  standing_duration_seconds BIGINT,
+  expires_at TEXT,
+  max_pushes BIGINT,
+  push_count BIGINT NOT NULL DEFAULT 0,
+  revoked_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS connect_states (
+  state TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  used_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS proxy_always_allow_rules (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  api_key_id TEXT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  requester_ip TEXT NOT NULL,
+  method TEXT NOT NULL,
+  upstream_host TEXT NOT NULL,
+  upstream_path TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  revoked_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS proxy_policy_rules (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  api_key_id TEXT REFERENCES api_keys(id) ON DELETE CASCADE,
+  requester_ip TEXT,
+  provider_id TEXT,
+  effect TEXT NOT NULL CHECK (effect IN ('allow', 'deny')),
+  priority BIGINT NOT NULL DEFAULT 0,
+  -- JSON array of upper-case methods.
+  methods_json TEXT,
+  host_pattern TEXT,
+  path_pattern TEXT,
+  -- JSON object: param name -> glob (or null to require the param be absent).
+  query_constraints_json TEXT,
+  description TEXT,
+  created_at TEXT NOT NULL,
+  revoked_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS proxy_approval_grants (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  api_key_id TEXT NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  requester_ip TEXT NOT NULL,
+  method TEXT NOT NULL,
+  upstream_host TEXT NOT NULL,
+  upstream_path TEXT NOT NULL,
+  source_request_id TEXT REFERENCES proxy_requests(id) ON DELETE SET NULL,
+  expires_at TEXT,
+  max_uses BIGINT,
+  use_count BIGINT NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  revoked_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS proxy_request_results (
+  request_id TEXT PRIMARY KEY REFERENCES proxy_requests(id) ON DELETE CASCADE,
+  body_ciphertext BYTEA NOT NULL,
+  content_type TEXT,
+  http_status BIGINT NOT NULL,
+  bytes BIGINT NOT NULL,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS redaction_rules (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider_id TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('json_path', 'header', 'query_param', 'regex')),
+  pattern TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  revoked_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS git_push_reviews (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL REFERENCES git_sessions(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('PENDING', 'FORWARDED', 'REJECTED', 'EXPIRED')),
+  summary_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  decided_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS web_login_tokens (
+  token_hash TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  used_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS web_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  secret_hash TEXT NOT NULL UNIQUE,
+  -- Sent back with every form post.
+  csrf_token TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL,
+  revoked_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_linked_accounts_user_provider_status
+  ON linked_accounts(user_id, provider, status);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uidx_proxy_requests_idempotency
+  ON proxy_requests(api_key_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_proxy_requests_status_expires
+  ON proxy_requests(status, approval_expires_at);
+
+CREATE INDEX IF NOT EXISTS idx_proxy_requests_user_created
+  ON proxy_requests(user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_user_created
+  ON audit_events(user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_git_sessions_user_status
+  ON git_sessions(user_id, status, approval_expires_at);
+
+CREATE INDEX IF NOT EXISTS idx_git_sessions_api_key
+  ON git_sessions(api_key_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_connect_states_user_provider_expires
+  ON connect_states(user_id, provider, expires_at);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uidx_proxy_always_allow_rules_scope_endpoint
+  ON proxy_always_allow_rules(user_id, api_key_id, requester_ip, method, upstream_host, upstream_path);
+
+CREATE INDEX IF NOT EXISTS idx_proxy_always_allow_rules_user
+  ON proxy_always_allow_rules(user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_proxy_policy_rules_user
+  ON proxy_policy_rules(user_id, revoked_at, priority);
+
+CREATE INDEX IF NOT EXISTS idx_proxy_approval_grants_scope
+  ON proxy_approval_grants(user_id, api_key_id, requester_ip, method, upstream_host, upstream_path);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proxy_batches_idempotency
+  ON proxy_batches(api_key_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_proxy_batches_status_expires
+  ON proxy_batches(status, approval_expires_at);
+
+CREATE INDEX IF NOT EXISTS idx_proxy_requests_batch
+  ON proxy_requests(batch_id, batch_index);
+
+CREATE INDEX IF NOT EXISTS idx_proxy_request_results_expires
+  ON proxy_request_results(expires_at);
+
+CREATE INDEX IF NOT EXISTS idx_linked_accounts_user_provider_identity
+  ON linked_accounts(user_id, provider, provider_user_id);
+
+CREATE INDEX IF NOT EXISTS idx_redaction_rules_user
+  ON redaction_rules(user_id, revoked_at);
+
+CREATE INDEX IF NOT EXISTS idx_linked_accounts_health
+  ON linked_accounts(status, health_checked_at);
+
+CREATE INDEX IF NOT EXISTS idx_git_push_reviews_session
+  ON git_push_reviews(session_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_web_sessions_user
+  ON web_sessions(user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_user_id
+  ON audit_events(user_id, id);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_request
+  ON audit_events(request_id);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_unsealed
+  ON audit_events(id) WHERE hash IS NULL;
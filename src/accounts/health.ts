@@ -0,0 +1,212 @@
+import { auditEvent } from "../audit/audit";
+import { createConnectUrl } from "../connect/links";
+import { decryptUtf8 } from "../crypto/aesgcm";
+import { db } from "../db/client";
+import { env } from "../env";
+import type { CredentialHealth, ProxyProviderId } from "../proxy/provider";
+import { listProxyProviders } from "../proxy/providerRegistry";
+import { telegramApi } from "../telegram/api";
+import { describeLinkedAccount, getLinkedAccountForUser } from "./linked";
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Accounts checked per sweep; the rest wait for the next one.
+const HEALTH_CHECK_BATCH_SIZE = 10;
+
+// Reconnect links in notifications outlive the usual 10-minute connect link:
+// the user may only read the message hours later.
+const RECONNECT_LINK_TTL_MS = 24 * 60 * 60_000;
+
+export type LinkedAccountHealthStatus =
+  | "healthy"
+  | "needs_reauth"
+  | "check_failed"
+  | "unchecked";
+
+// Health as exposed by GET /v1/accounts.
+export function describeLinkedAccountHealth(row: {
+  status: string;
+  health_checked_at: string | null;
+  health_error: string | null;
+}): {
+  status: LinkedAccountHealthStatus;
+  checked_at: string | null;
+  error: string | null;
+} {
+  const status: LinkedAccountHealthStatus =
+    row.status === "needs_reauth"
+      ? "needs_reauth"
+      : !row.health_checked_at
+        ? "unchecked"
+        : row.health_error
+          ? "check_failed"
+          : "healthy";
+  return {
+    status,
+    checked_at: row.health_checked_at,
+    error: row.health_error,
+  };
+}
+
+async function notifyNeedsReauth(params: {
+  userId: string;
+  accountId: string;
+  reason: string;
+}): Promise<void> {
+  if (!env.TELEGRAM_BOT_TOKEN) return;
+
+  const telegram = (await db()
+    .query("SELECT telegram_user_id FROM users WHERE id = ?;")
+    .get(params.userId)) as { telegram_user_id: number } | null;
+  const account = await getLinkedAccountForUser({
+    accountId: params.accountId,
+    userId: params.userId,
+  });
+  if (!telegram?.telegram_user_id || !account) return;
+
+  const text = `Your ${account.provider} account ${describeLinkedAccount(account)} needs to be reconnected: ${params.reason}.\n\nRequests using it fail until you reconnect.`;
+
+  let url: string | null = null;
+  try {
+    url = await createConnectUrl({
+      userId: params.userId,
+      providerId: account.provider,
+      ttlMs: RECONNECT_LINK_TTL_MS,
+    });
+  } catch {
+    // Fall back to the command; the user gets the error there.
+  }
+
+  await telegramApi().sendMessage(
+    telegram.telegram_user_id,
+    url ? text : `${text} Use /connect ${account.provider}.`,
+    url
+      ? {
+          reply_markup: {
+            inline_keyboard: [[{ text: `Reconnect ${account.provider}`, url }]],
+          },
+        }
+      : undefined
+  );
+}
+
+// Move an active account to needs_reauth, audit it and tell the user (once,
+// on the transition). Returns false when the account was not active.
+export async function markLinkedAccountNeedsReauth(params: {
+  accountId: string;
+  reason: string;
+  actorId: string;
+}): Promise<boolean> {
+  const row = (await db()
+    .query(
+      "UPDATE linked_accounts SET status = 'needs_reauth', health_checked_at = ?, health_error = ?, access_token_ciphertext = NULL, access_token_expires_at = NULL WHERE id = ? AND status = 'active' RETURNING user_id, provider;"
+    )
+    .get(nowIso(), params.reason, params.accountId)) as {
+    user_id: string;
+    provider: string;
+  } | null;
+  if (!row) return false;
+
+  await auditEvent({
+    userId: row.user_id,
+    actorType: "system",
+    actorId: params.actorId,
+    eventType: "linked_account_needs_reauth",
+    event: {
+      provider: row.provider,
+      account_id: params.accountId,
+      reason: params.reason,
+    },
+  });
+
+  notifyNeedsReauth({
+    userId: row.user_id,
+    accountId: params.accountId,
+    reason: params.reason,
+  }).catch(() => {});
+  return true;
+}
+
+// Validate one account's stored credential with its provider and record the
+// outcome. Transient failures (network, 5xx) are kept in health_error without
+// changing the status.
+export async function checkLinkedAccountHealth(
+  accountId: string
+): Promise<CredentialHealth> {
+  const row = (await db()
+    .query(
+      "SELECT provider, refresh_token_ciphertext FROM linked_accounts WHERE id = ? AND status = 'active';"
+    )
+    .get(accountId)) as {
+    provider: string;
+    refresh_token_ciphertext: Uint8Array;
+  } | null;
+  if (!row) {
+    return { ok: false, needsReauth: false, message: "account not active" };
+  }
+
+  const provider = listProxyProviders().find(
+    (p) => p.id === (row.provider as ProxyProviderId)
+  );
+
+  let health: CredentialHealth;
+  if (!provider?.checkCredential) {
+    health = { ok: true };
+  } else {
+    try {
+      const storedCredential = await decryptUtf8(row.refresh_token_ciphertext);
+      health = await provider.checkCredential({
+        storedCredential,
+        linkedAccountId: accountId,
+      });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      health = { ok: false, needsReauth: false, message: msg };
+    }
+  }
+
+  if (!health.ok && health.needsReauth) {
+    await markLinkedAccountNeedsReauth({
+      accountId,
+      reason: health.message,
+      actorId: "account_health",
+    });
+    return health;
+  }
+
+  await db()
+    .query(
+      "UPDATE linked_accounts SET health_checked_at = ?, health_error = ? WHERE id = ? AND status = 'active';"
+    )
+    .run(nowIso(), health.ok ? null : health.message, accountId);
+  return health;
+}
+
+let sweeping = false;
+
+// Check active accounts not checked within
+// LINKED_ACCOUNT_HEALTH_CHECK_INTERVAL_SECONDS. Called from the sweeper loop
+// without awaiting; overlapping calls return immediately.
+export async function sweepLinkedAccountHealth(): Promise<number> {
+  if (sweeping || !env.APP_SECRET) return 0;
+  sweeping = true;
+  try {
+    const cutoff = new Date(
+      Date.now() - env.LINKED_ACCOUNT_HEALTH_CHECK_INTERVAL_SECONDS * 1000
+    ).toISOString();
+    const due = (await db()
+      .query(
+        "SELECT id FROM linked_accounts WHERE status = 'active' AND (health_checked_at IS NULL OR health_checked_at < ?) ORDER BY health_checked_at IS NOT NULL, health_checked_at ASC LIMIT ?;"
+      )
+      .all(cutoff, HEALTH_CHECK_BATCH_SIZE)) as { id: string }[];
+
+    for (const { id } of due) {
+      await checkLinkedAccountHealth(id);
+    }
+    return due.length;
+  } finally {
+    sweeping = false;
+  }
+}
@@ -0,0 +1,282 @@
+import { ulid } from "ulid";
+
+import { db } from "../db/client";
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// OAuth callbacks that can't resolve the provider identity store this as
+// provider_user_id (and reconnects update that row in place).
+export const UNKNOWN_PROVIDER_USER_ID = "unknown";
+
+export type LinkedAccount = {
+  id: string;
+  provider: string;
+  providerUserId: string;
+  label: string | null;
+  scopes: string;
+  status: string;
+  createdAt: string;
+};
+
+type LinkedAccountRow = {
+  id: string;
+  provider: string;
+  provider_user_id: string;
+  label: string | null;
+  scopes: string;
+  status: string;
+  created_at: string;
+};
+
+const SELECT_COLUMNS =
+  "id, provider, provider_user_id, label, scopes, status, created_at";
+
+function toLinkedAccount(r: LinkedAccountRow): LinkedAccount {
+  return {
+    id: r.id,
+    provider: r.provider,
+    providerUserId: r.provider_user_id,
+    label: r.label,
+    scopes: r.scopes,
+    status: r.status,
+    createdAt: r.created_at,
+  };
+}
+
+export async function listActiveLinkedAccounts(params: {
+  userId: string;
+  provider: string;
+}): Promise<LinkedAccount[]> {
+  return await listLinkedAccountsWithStatus({ ...params, status: "active" });
+}
+
+// Accounts whose credential was rejected (see accounts/health). They are not
+// used for requests until reconnected.
+export async function listLinkedAccountsNeedingReauth(params: {
+  userId: string;
+  provider: string;
+}): Promise<LinkedAccount[]> {
+  return await listLinkedAccountsWithStatus({
+    ...params,
+    status: "needs_reauth",
+  });
+}
+
+async function listLinkedAccountsWithStatus(params: {
+  userId: string;
+  provider: string;
+  status: string;
+}): Promise<LinkedAccount[]> {
+  const rows = (await db()
+    .query(
+      `SELECT ${SELECT_COLUMNS} FROM linked_accounts WHERE user_id = ? AND provider = ? AND status = ? ORDER BY created_at ASC, id ASC;`
+    )
+    .all(params.userId, params.provider, params.status)) as LinkedAccountRow[];
+  return rows.map(toLinkedAccount);
+}
+
+export async function getLinkedAccountForUser(params: {
+  accountId: string;
+  userId: string;
+}): Promise<LinkedAccount | null> {
+  const row = (await db()
+    .query(
+      `SELECT ${SELECT_COLUMNS} FROM linked_accounts WHERE id = ? AND user_id = ?;`
+    )
+    .get(params.accountId, params.userId)) as LinkedAccountRow | null;
+  return row ? toLinkedAccount(row) : null;
+}
+
+// Human-readable name for prompts and messages.
+export function describeLinkedAccount(account: LinkedAccount): string {
+  if (account.label) return account.label;
+  if (account.providerUserId !== UNKNOWN_PROVIDER_USER_ID) {
+    return account.providerUserId;
+  }
+  return account.id;
+}
+
+export type LinkedAccountSelection =
+  | { ok: true; account: LinkedAccount | null }
+  | {
+      ok: false;
+      error: "account_not_found" | "ambiguous_account";
+      message: string;
+      accounts: { id: string; label: string | null }[];
+    };
+
+// Pick the active account a request should run as.
+// `selector` matches an account id, provider_user_id or label (labels are
+// compared case-insensitively). Without a selector a single linked account is
+// used implicitly; with several the caller must choose. No linked account at
+// all is not an error here (`account: null`) since some operations work
+// unauthenticated and execution reports no_linked_account itself.
+export async function selectLinkedAccount(params: {
+  userId: string;
+  provider: string;
+  selector?: string;
+}): Promise<LinkedAccountSelection> {
+  const active = await listActiveLinkedAccounts(params);
+  const choices = active.map((a) => ({ id: a.id, label: a.label }));
+  const selector = params.selector?.trim();
+
+  if (!selector) {
+    if (active.length <= 1) return { ok: true, account: active[0] ?? null };
+    return {
+      ok: false,
+      error: "ambiguous_account",
+      message: `multiple ${params.provider} accounts are linked; pass account`,
+      accounts: choices,
+    };
+  }
+
+  const byId = active.find((a) => a.id === selector);
+  if (byId) return { ok: true, account: byId };
+
+  const lowered = selector.toLowerCase();
+  const matches = active.filter(
+    (a) => a.providerUserId === selector || a.label?.toLowerCase() === lowered
+  );
+  if (matches.length === 1) return { ok: true, account: matches[0] };
+
+  if (matches.length > 1) {
+    return {
+      ok: false,
+      error: "ambiguous_account",
+      message: `account matches ${matches.length} ${params.provider} accounts; use the account id`,
+      accounts: matches.map((a) => ({ id: a.id, label: a.label })),
+    };
+  }
+
+  return {
+    ok: false,
+    error: "account_not_found",
+    message: `no active ${params.provider} account matches: ${selector}`,
+    accounts: choices,
+  };
+}
+
+// Store credentials for a (provider, provider_user_id) identity. Reconnecting
+// the same identity updates its row; a different identity adds a new account
+// next to the existing ones. `ciphertext` may be null to keep the stored
+// credential (e.g. the provider didn't return a new refresh token).
+export async function upsertLinkedAccount(params: {
+  userId: string;
+  provider: string;
+  providerUserId: string;
+  label?: string;
+  scopes: string;
+  ciphertext: Uint8Array | null;
+}): Promise<{ accountId: string; created: boolean } | null> {
+  let existing = (await db()
+    .query(
+      "SELECT id, label FROM linked_accounts WHERE user_id = ? AND provider = ? AND provider_user_id = ? ORDER BY status = 'active' DESC, created_at DESC LIMIT 1;"
+    )
+    .get(params.userId, params.provider, params.providerUserId)) as {
+    id: string;
+    label: string | null;
+  } | null;
+
+  // Accounts linked before identities were recorded: adopt the sole
+  // unidentified row instead of adding a duplicate.
+  if (!existing && params.providerUserId !== UNKNOWN_PROVIDER_USER_ID) {
+    const legacy = (await db()
+      .query(
+        "SELECT id, label FROM linked_accounts WHERE user_id = ? AND provider = ? AND provider_user_id = ? AND status = 'active';"
+      )
+      .all(params.userId, params.provider, UNKNOWN_PROVIDER_USER_ID)) as {
+      id: string;
+      label: string | null;
+    }[];
+    if (legacy.length === 1) existing = legacy[0];
+  }
+
+  if (existing) {
+    const label = existing.label ?? params.label ?? null;
+    if (params.ciphertext) {
+      await db()
+        .query(
+          "UPDATE linked_accounts SET provider_user_id = ?, label = ?, scopes = ?, refresh_token_ciphertext = ?, access_token_ciphertext = NULL, access_token_expires_at = NULL, status = 'active', revoked_at = NULL, health_checked_at = ?, health_error = NULL WHERE id = ?;"
+        )
+        .run(
+          params.providerUserId,
+          label,
+          params.scopes,
+          params.ciphertext,
+          nowIso(),
+          existing.id
+        );
+    } else {
+      // Without a new credential a revoked or needs_reauth account keeps its
+      // status: the stored one is still the one that was rejected.
+      await db()
+        .query(
+          "UPDATE linked_accounts SET provider_user_id = ?, label = ?, scopes = ?, access_token_ciphertext = NULL, access_token_expires_at = NULL WHERE id = ?;"
+        )
+        .run(params.providerUserId, label, params.scopes, existing.id);
+    }
+    return { accountId: existing.id, created: false };
+  }
+
+  if (!params.ciphertext) return null;
+
+  const accountId = ulid();
+  await db()
+    .query(
+      "INSERT INTO linked_accounts (id, user_id, provider, provider_user_id, label, scopes, refresh_token_ciphertext, status, created_at, revoked_at) VALUES (?, ?, ?, ?, ?, ?, ?, 'active', ?, NULL);"
+    )
+    .run(
+      accountId,
+      params.userId,
+      params.provider,
+      params.providerUserId,
+      params.label ?? null,
+      params.scopes,
+      params.ciphertext,
+      nowIso()
+    );
+  return { accountId, created: true };
+}
+
+// Labels must be unique (case-insensitively) among a user's active accounts
+// for the same provider so they work as selectors.
+export async function setLinkedAccountLabel(params: {
+  accountId: string;
+  userId: string;
+  label: string | null;
+}): Promise<{ ok: true } | { ok: false; error: "not_found" | "label_taken" }> {
+  const account = await getLinkedAccountForUser(params);
+  if (!account || account.status !== "active") {
+    return { ok: false, error: "not_found" };
+  }
+
+  if (params.label) {
+    const lowered = params.label.toLowerCase();
+    const taken = (
+      await listActiveLinkedAccounts({
+        userId: params.userId,
+        provider: account.provider,
+      })
+    ).some((a) => a.id !== account.id && a.label?.toLowerCase() === lowered);
+    if (taken) return { ok: false, error: "label_taken" };
+  }
+
+  await db()
+    .query("UPDATE linked_accounts SET label = ? WHERE id = ? AND user_id = ?;")
+    .run(params.label, params.accountId, params.userId);
+  return { ok: true };
+}
+
+export async function revokeLinkedAccount(params: {
+  accountId: string;
+  userId: string;
+}): Promise<boolean> {
+  const res = await db()
+    .query(
+      "UPDATE linked_accounts SET status = 'revoked', revoked_at = ?, access_token_ciphertext = NULL, access_token_expires_at = NULL WHERE id = ? AND user_id = ? AND status IN ('active', 'needs_reauth');"
+    )
+    .run(nowIso(), params.accountId, params.userId);
+  return res.changes > 0;
+}
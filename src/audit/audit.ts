@@ -1,32 +1,54 @@
-import { ulid } from "ulid";
+import { monotonicFactory } from "ulid";
 
 import { db } from "../db/client";
+import { loadRedaction, redactJson } from "../proxy/redaction";
+import { appendableChainHead, auditEventHash } from "./chain";
+import type { AuditEventInput } from "./events";
+
+// Monotonic so ids keep insertion order within a millisecond; /v1/audit
+// pages by id.
+const nextAuditId = monotonicFactory();
 
 function nowIso(): string {
   return new Date().toISOString();
 }
 
-export function auditEvent(params: {
-  userId?: string;
-  requestId?: string;
-  actorType: "api_key" | "telegram" | "system";
-  actorId: string;
-  eventType: string;
-  event: unknown;
-}): void {
-  const eventJson = JSON.stringify(params.event ?? {});
-  db()
-    .query(
-      "INSERT INTO audit_events (id, created_at, user_id, request_id, actor_type, actor_id, event_type, event_json) VALUES (?, ?, ?, ?, ?, ?, ?, ?);"
-    )
-    .run(
-      ulid(),
-      nowIso(),
-      params.userId ?? null,
-      params.requestId ?? null,
-      params.actorType,
-      params.actorId,
-      params.eventType,
-      eventJson
-    );
+export async function auditEvent(params: AuditEventInput): Promise<void> {
+  // Events often carry upstream URLs and request fragments; store them with
+  // the user's redaction rules applied.
+  const redaction = await loadRedaction({ userId: params.userId });
+  const eventJson = JSON.stringify(redactJson(redaction, params.event ?? {}));
+  await db().transaction(async () => {
+    // The id is taken under the append lock so id order is chain order.
+    const prevHash = await appendableChainHead(params.userId ?? null);
+    const row = {
+      id: nextAuditId(),
+      created_at: nowIso(),
+      user_id: params.userId ?? null,
+      request_id: params.requestId ?? null,
+      actor_type: params.actorType,
+      actor_id: params.actorId,
+      event_type: params.eventType,
+      event_json: eventJson,
+      prev_hash: prevHash,
+      hash: null,
+    };
+    const hash = await auditEventHash(prevHash, row);
+    await db()
+      .query(
+        "INSERT INTO audit_events (id, created_at, user_id, request_id, actor_type, actor_id, event_type, event_json, prev_hash, hash) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?);"
+      )
+      .run(
+        row.id,
+        row.created_at,
+        row.user_id,
+        row.request_id,
+        row.actor_type,
+        row.actor_id,
+        row.event_type,
+        row.event_json,
+        prevHash,
+        hash
+      );
+  });
 }
@@ -0,0 +1,347 @@
+import { appendFileSync, existsSync, readFileSync } from "node:fs";
+
+import { hmacSha256Hex } from "../crypto/hmac";
+import { sha256Hex } from "../crypto/sha256";
+import { db } from "../db/client";
+import { env } from "../env";
+
+// Tamper-evident audit log. Each user's events (and the user-less system
+// events) form a chain in id order: prev_hash is the previous event's hash,
+// hash = sha256(prev_hash + "\n" + canonical event). auditEvent seals each
+// event in the transaction that inserts it. Signed checkpoints of each
+// chain's head catch truncation of the tail.
+
+export const AUDIT_CHAIN_GENESIS = "0".repeat(64);
+
+const SEAL_BATCH_SIZE = 500;
+const VERIFY_BATCH_SIZE = 1000;
+// Postgres advisory lock serializing appends across server processes.
+const APPEND_LOCK_KEY = 0x617564;
+
+export type ChainRow = {
+  id: string;
+  created_at: string;
+  user_id: string | null;
+  request_id: string | null;
+  actor_type: string;
+  actor_id: string;
+  event_type: string;
+  event_json: string;
+  prev_hash: string | null;
+  hash: string | null;
+};
+
+const CHAIN_COLUMNS =
+  "id, created_at, user_id, request_id, actor_type, actor_id, event_type, event_json, prev_hash, hash";
+
+export function canonicalAuditEvent(row: ChainRow): string {
+  return JSON.stringify([
+    row.id,
+    row.created_at,
+    row.user_id,
+    row.request_id,
+    row.actor_type,
+    row.actor_id,
+    row.event_type,
+    row.event_json,
+  ]);
+}
+
+export function auditEventHash(
+  prevHash: string,
+  row: ChainRow
+): Promise<string> {
+  return sha256Hex(`${prevHash}\n${canonicalAuditEvent(row)}`);
+}
+
+async function chainHead(userId: string | null): Promise<string> {
+  const row = (await db()
+    .query(
+      "SELECT hash FROM audit_events WHERE user_id IS NOT DISTINCT FROM ? AND hash IS NOT NULL ORDER BY id DESC LIMIT 1;"
+    )
+    .get(userId)) as { hash: string } | null;
+  return row?.hash ?? AUDIT_CHAIN_GENESIS;
+}
+
+// The hash the next event in a chain links to. Must run in the transaction
+// that inserts that event. A chain with nothing sealed yet may hold events
+// written before chaining existed; those are sealed first, in id order, so
+// they stay at its start.
+export async function appendableChainHead(
+  userId: string | null
+): Promise<string> {
+  if (db().dialect === "postgres") {
+    await db().query("SELECT pg_advisory_xact_lock(?);").get(APPEND_LOCK_KEY);
+  }
+  let head = await chainHead(userId);
+  if (head !== AUDIT_CHAIN_GENESIS) return head;
+  for (;;) {
+    const rows = (await db()
+      .query(
+        `SELECT ${CHAIN_COLUMNS} FROM audit_events WHERE user_id IS NOT DISTINCT FROM ? AND hash IS NULL ORDER BY id LIMIT ?;`
+      )
+      .all(userId, SEAL_BATCH_SIZE)) as ChainRow[];
+    if (rows.length === 0) return head;
+    for (const row of rows) {
+      const hash = await auditEventHash(head, row);
+      await db()
+        .query("UPDATE audit_events SET prev_hash = ?, hash = ? WHERE id = ?;")
+        .run(head, hash, row.id);
+      head = hash;
+    }
+  }
+}
+
+// Seals events written before chaining existed, for chains that get no new
+// event to do it. Runs once when the sweeper starts.
+export async function backfillAuditChains(): Promise<void> {
+  for (const userId of await listAuditChainUsers()) {
+    await db().transaction(() => appendableChainHead(userId));
+  }
+}
+
+export type AuditChainBreak = {
+  id: string;
+  // unsealed: a hash was removed; prev_hash_mismatch: an earlier event was
+  // deleted or reordered; hash_mismatch: this event was edited.
+  reason: "unsealed" | "prev_hash_mismatch" | "hash_mismatch";
+};
+
+export type AuditChainReport = {
+  ok: boolean;
+  checked: number;
+  // Events not sealed: written before chaining and not backfilled yet.
+  pending: number;
+  headId: string | null;
+  headHash: string | null;
+  broken: AuditChainBreak | null;
+};
+
+// Walks one chain (userId null = system events) and reports the first broken
+// link.
+export async function verifyAuditChain(
+  userId: string | null
+): Promise<AuditChainReport> {
+  const report: AuditChainReport = {
+    ok: true,
+    checked: 0,
+    pending: 0,
+    headId: null,
+    headHash: null,
+    broken: null,
+  };
+  let expectedPrev = AUDIT_CHAIN_GENESIS;
+  let firstUnsealed: string | null = null;
+  let cursor = "";
+
+  for (;;) {
+    const rows = (await db()
+      .query(
+        `SELECT ${CHAIN_COLUMNS} FROM audit_events WHERE user_id IS NOT DISTINCT FROM ? AND id > ? ORDER BY id LIMIT ?;`
+      )
+      .all(userId, cursor, VERIFY_BATCH_SIZE)) as ChainRow[];
+    if (rows.length === 0) return report;
+
+    for (const row of rows) {
+      cursor = row.id;
+      if (row.hash === null) {
+        report.pending++;
+        firstUnsealed ??= row.id;
+        continue;
+      }
+
+      let reason: AuditChainBreak["reason"] | null = null;
+      if (firstUnsealed) reason = "unsealed";
+      else if (row.prev_hash !== expectedPrev) reason = "prev_hash_mismatch";
+      else if ((await auditEventHash(expectedPrev, row)) !== row.hash) {
+        reason = "hash_mismatch";
+      }
+      if (reason) {
+        return {
+          ...report,
+          ok: false,
+          broken: { id: firstUnsealed ?? row.id, reason },
+        };
+      }
+
+      expectedPrev = row.hash;
+      report.checked++;
+      report.headId = row.id;
+      report.headHash = row.hash;
+    }
+  }
+}
+
+export async function listAuditChainUsers(): Promise<(string | null)[]> {
+  const rows = (await db()
+    .query("SELECT DISTINCT user_id FROM audit_events ORDER BY user_id;")
+    .all()) as { user_id: string | null }[];
+  return rows.map((r) => r.user_id);
+}
+
+export type AuditCheckpoint = {
+  created_at: string;
+  user_id: string | null;
+  last_id: string;
+  last_hash: string;
+  // Sealed events up to and including last_id.
+  count: number;
+  sig: string;
+};
+
+async function checkpointSignature(
+  cp: Omit<AuditCheckpoint, "sig">
+): Promise<string> {
+  if (!env.APP_SECRET) {
+    throw new Error("APP_SECRET is required for audit checkpoints");
+  }
+  // Separate key so checkpoint signatures can't be confused with other
+  // APP_SECRET HMACs.
+  const key = await hmacSha256Hex(env.APP_SECRET, "audit-checkpoint");
+  return hmacSha256Hex(
+    key,
+    JSON.stringify([
+      cp.created_at,
+      cp.user_id,
+      cp.last_id,
+      cp.last_hash,
+      cp.count,
+    ])
+  );
+}
+
+// Appends one signed line per chain head to `path` (JSON Lines). Returns the
+// number of checkpoints written.
+export async function writeAuditCheckpoint(path: string): Promise<number> {
+  const heads = (await db()
+    .query(
+      "SELECT a.user_id, a.id, a.hash, h.count FROM " +
+        "(SELECT user_id, MAX(id) AS last_id, COUNT(*) AS count FROM audit_events WHERE hash IS NOT NULL GROUP BY user_id) h " +
+        "JOIN audit_events a ON a.id = h.last_id ORDER BY a.user_id;"
+    )
+    .all()) as {
+    user_id: string | null;
+    id: string;
+    hash: string;
+    count: number;
+  }[];
+
+  const createdAt = new Date().toISOString();
+  const lines: string[] = [];
+  for (const h of heads) {
+    const cp = {
+      created_at: createdAt,
+      user_id: h.user_id,
+      last_id: h.id,
+      last_hash: h.hash,
+      count: h.count,
+    };
+    const sig = await checkpointSignature(cp);
+    lines.push(`${JSON.stringify({ ...cp, sig })}\n`);
+  }
+  if (lines.length) appendFileSync(path, lines.join(""));
+  return lines.length;
+}
+
+// Newest checkpoint per chain; unparseable lines are skipped.
+export function readLatestAuditCheckpoints(
+  path: string
+): Map<string | null, AuditCheckpoint> {
+  const latest = new Map<string | null, AuditCheckpoint>();
+  if (!existsSync(path)) return latest;
+  for (const line of readFileSync(path, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const cp = JSON.parse(line) as AuditCheckpoint;
+      latest.set(cp.user_id ?? null, cp);
+    } catch {
+      // ignore partial writes
+    }
+  }
+  return latest;
+}
+
+export type AuditCheckpointCheck = {
+  ok: boolean;
+  reason?:
+    | "bad_signature"
+    | "missing_event"
+    | "hash_mismatch"
+    | "count_mismatch";
+};
+
+// A valid checkpoint must still match the chain: its head event exists with
+// the same hash and nothing before it was added or removed.
+export async function verifyAuditCheckpoint(
+  cp: AuditCheckpoint
+): Promise<AuditCheckpointCheck> {
+  const { sig, ...fields } = cp;
+  if ((await checkpointSignature(fields)) !== sig) {
+    return { ok: false, reason: "bad_signature" };
+  }
+  const row = (await db()
+    .query(
+      "SELECT hash FROM audit_events WHERE id = ? AND user_id IS NOT DISTINCT FROM ?;"
+    )
+    .get(cp.last_id, cp.user_id)) as { hash: string | null } | null;
+  if (!row) return { ok: false, reason: "missing_event" };
+  if (row.hash !== cp.last_hash) return { ok: false, reason: "hash_mismatch" };
+  const count = (await db()
+    .query(
+      "SELECT COUNT(*) AS n FROM audit_events WHERE user_id IS NOT DISTINCT FROM ? AND id <= ?;"
+    )
+    .get(cp.user_id, cp.last_id)) as { n: number };
+  if (count.n !== cp.count) return { ok: false, reason: "count_mismatch" };
+  return { ok: true };
+}
+
+let lastCheckpointAt = 0;
+
+// Called from the sweeper loop; writes a checkpoint every
+// AUDIT_CHECKPOINT_INTERVAL_SECONDS when AUDIT_CHECKPOINT_PATH is set.
+export async function sweepAuditCheckpoint(): Promise<boolean> {
+  if (!env.AUDIT_CHECKPOINT_PATH || !env.APP_SECRET) return false;
+  if (
+    Date.now() - lastCheckpointAt <
+    env.AUDIT_CHECKPOINT_INTERVAL_SECONDS * 1000
+  ) {
+    return false;
+  }
+  lastCheckpointAt = Date.now();
+  await writeAuditCheckpoint(env.AUDIT_CHECKPOINT_PATH);
+  return true;
+}
+
+// `bun run audit:verify`: checks every chain and, when configured, the latest
+// checkpoint of each. Exits non-zero on the first problem found per chain.
+if (import.meta.main) {
+  const checkpoints = env.AUDIT_CHECKPOINT_PATH
+    ? readLatestAuditCheckpoints(env.AUDIT_CHECKPOINT_PATH)
+    : new Map<string | null, AuditCheckpoint>();
+  let failed = false;
+
+  for (const userId of await listAuditChainUsers()) {
+    const name = userId ?? "(system)";
+    const report = await verifyAuditChain(userId);
+    const pending = report.pending ? `, ${report.pending} unsealed` : "";
+    if (report.broken) {
+      failed = true;
+      console.log(
+        `${name}: broken at ${report.broken.id} (${report.broken.reason}) after ${report.checked} events`
+      );
+    } else {
+      console.log(`${name}: ok, ${report.checked} events${pending}`);
+    }
+
+    const cp = checkpoints.get(userId);
+    if (cp) {
+      const check = await verifyAuditCheckpoint(cp);
+      if (!check.ok) failed = true;
+      console.log(
+        `${name}: checkpoint ${cp.created_at} ${check.ok ? "ok" : `failed (${check.reason})`}`
+      );
+    }
+  }
+
+  process.exit(failed ? 1 : 0);
+}
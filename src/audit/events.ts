@@ -0,0 +1,185 @@
+import type { ProxyRequestStatus } from "../proxy/transitions";
+
+// Every audit event type and the shape of its payload. auditEvent only
+// accepts types listed here, so a new event (or a changed payload) is a
+// compile-time change in one place. Payloads are stored as JSON after
+// redaction; key names are part of the stored format, so don't rename them.
+
+export type AuditActorType = "api_key" | "telegram" | "web" | "system";
+
+export type AuditActor = {
+  actorType: AuditActorType;
+  actorId: string;
+};
+
+// Shared by every proxy_requests status change (see proxy/transitions).
+export type ProxyRequestTransitionEvent = {
+  from: ProxyRequestStatus;
+  status: ProxyRequestStatus;
+  error_code?: string;
+  error_message?: string;
+  // Set when upstream answered (SUCCEEDED, or FAILED with an HTTP error).
+  upstream_status?: number;
+  bytes?: number;
+  response_mode?: string;
+  result_expires_at?: string;
+  // What decided it when no one was asked.
+  rule_id?: string;
+  grant_id?: string;
+  batch_id?: string;
+  via?: "requests_list" | "key_revoke";
+};
+
+type ApiKeyRef = { apiKeyId: string };
+type GitSessionRef = { sessionId: string };
+type RuleRef = { rule_id: string };
+
+type LinkedAccountConnected = {
+  provider: string;
+  account_id: string;
+  scopes: string;
+  app_id?: string;
+  installation_id?: string;
+};
+
+type EndpointRef = {
+  api_key_id: string;
+  requester_ip: string | null;
+  method: string;
+  upstream_url: string;
+};
+
+type ProxyCallbackOutcome = {
+  status: string;
+  http_status: number | null;
+  error: string | null;
+};
+
+export type AuditEventCatalog = {
+  user_created: Record<string, never>;
+  web_session_started: { session_id: string; expires_at: string };
+
+  api_key_created: ApiKeyRef & { label: string; scope: string };
+  api_key_renamed: ApiKeyRef & { newLabel: string };
+  api_key_revoked: ApiKeyRef;
+  api_key_rotated: { oldApiKeyId: string; newApiKeyId: string; label: string };
+  api_key_scope_updated: ApiKeyRef & { scope: string };
+  api_key_max_ttl_updated: ApiKeyRef & {
+    maxApprovalTtlSeconds: number | null;
+  };
+  api_key_callback_set: ApiKeyRef & { callbackUrl: string };
+  api_key_callback_cleared: ApiKeyRef;
+  api_key_grants_revoked: ApiKeyRef & {
+    git_sessions: number;
+    always_allow_rules: number;
+    policy_rules: number;
+    approval_grants: number;
+    request_ids: string[];
+  };
+  api_key_scope_violation: {
+    reason: string;
+    provider?: string;
+    operation?: string;
+    repo?: string;
+    method?: string;
+    upstream_url?: string;
+  };
+
+  // OAuth, GitHub App, iCloud and static-credential connects.
+  linked_account_added: LinkedAccountConnected;
+  linked_account_updated: LinkedAccountConnected;
+  linked_account_labeled: { account_id: string; label: string | null };
+  linked_account_revoked: { provider: string; account_id: string };
+  linked_account_needs_reauth: {
+    provider: string;
+    account_id: string;
+    reason: string;
+  };
+
+  git_session_created: GitSessionRef & {
+    provider: string;
+    operation: string;
+    repo: string;
+    standing?: boolean;
+    max_duration_seconds?: number;
+    max_pushes?: number | null;
+    ref_patterns?: string[] | null;
+    deny_force_push?: boolean;
+    protected_paths?: string[];
+    review_push?: boolean;
+  };
+  git_session_approved: GitSessionRef & {
+    operation: string;
+    allowDefaultBranchPush?: boolean;
+    reviewPush?: boolean;
+  };
+  git_session_denied: GitSessionRef;
+  git_session_revoked: GitSessionRef;
+  git_session_expired: GitSessionRef & {
+    reason: "approval_timeout" | "inactivity" | "max_duration";
+  };
+  git_push_review_requested: GitSessionRef & {
+    reviewId: string;
+    refs: string[];
+    commits: number;
+  };
+  git_push_review_forwarded: { reviewId: string; sessionId?: string };
+  git_push_review_rejected: { reviewId: string; sessionId?: string };
+
+  proxy_request_created: {
+    upstream_url: string;
+    api_key_label: string;
+    matched_rule?: { rule_id: string; source: string; effect: string };
+    batch_id?: string;
+    batch_index?: number;
+  };
+  proxy_request_approved: ProxyRequestTransitionEvent;
+  proxy_request_denied: ProxyRequestTransitionEvent;
+  proxy_request_expired: ProxyRequestTransitionEvent;
+  proxy_request_execution_started: ProxyRequestTransitionEvent;
+  // Upstream was called; `status` is SUCCEEDED or FAILED (HTTP error).
+  proxy_request_executed: ProxyRequestTransitionEvent;
+  // The broker gave up before or while calling upstream (error_code says why).
+  proxy_request_failed: ProxyRequestTransitionEvent;
+  proxy_request_result_retrieved: { bytes: number };
+  proxy_requests_bulk_denied: { request_ids: string[] };
+  proxy_callback_delivered: ProxyCallbackOutcome;
+  proxy_callback_failed: ProxyCallbackOutcome;
+
+  proxy_batch_created: {
+    batch_id: string;
+    api_key_label: string;
+    item_count: number;
+    pending_count: number;
+  };
+  proxy_batch_approved: { batch_id: string; request_ids: string[] };
+  proxy_batch_denied: { batch_id: string; request_ids: string[] };
+
+  proxy_always_allow_created: RuleRef & EndpointRef;
+  proxy_always_allow_revoked: RuleRef;
+  proxy_approval_grant_created: EndpointRef & {
+    grant_id: string;
+    expires_at: string | null;
+    max_uses: number | null;
+  };
+  proxy_approval_grant_revoked: { grant_id: string };
+  proxy_policy_rule_created: RuleRef & { spec: string };
+  proxy_policy_rule_revoked: RuleRef;
+  redaction_rule_created: RuleRef & {
+    kind: string;
+    provider_id: string | null;
+  };
+  redaction_rule_revoked: RuleRef;
+};
+
+export type AuditEventType = keyof AuditEventCatalog;
+
+// One variant per event type, so `eventType` narrows `event`.
+export type AuditEventInput = {
+  [T in AuditEventType]: AuditActor & {
+    userId?: string;
+    requestId?: string;
+    eventType: T;
+    event: AuditEventCatalog[T];
+  };
+}[AuditEventType];
@@ -0,0 +1,339 @@
+import { db } from "../db/client";
+import { jsonTextSql } from "../db/dialect";
+import type { Dialect } from "../db/storage";
+import { loadRedaction, redactUrl } from "../proxy/redaction";
+
+// Read side of audit_events: filtered, newest-first pages keyed by event id
+// (ULIDs sort by creation time), each entry joined with the proxy request or
+// git session it refers to.
+
+export const AUDIT_PAGE_MAX = 500;
+export const AUDIT_EXPORT_MAX = 10_000;
+
+export type AuditQuery = {
+  userId: string;
+  // ISO timestamps; `from` inclusive, `to` exclusive.
+  from?: string;
+  to?: string;
+  // Exact names, or a prefix ending in `*` (e.g. `git_*`).
+  eventTypes?: string[];
+  apiKeyId?: string;
+  provider?: string;
+  // Proxy request id, or a git session id.
+  requestId?: string;
+  // Id of the last entry of the previous page; returns strictly older ones.
+  cursor?: string;
+  limit: number;
+};
+
+export type AuditProxyRequest = {
+  id: string;
+  api_key_id: string;
+  api_key_label: string;
+  provider: string | null;
+  method: string;
+  upstream_url: string;
+  status: string;
+  error_code: string | null;
+  created_at: string;
+  // Who decided the Telegram/dashboard prompt; null for automatic decisions.
+  decision: {
+    decision: string;
+    decided_at: string;
+    decided_by_telegram_user_id: number;
+  } | null;
+};
+
+export type AuditGitSession = {
+  id: string;
+  api_key_id: string;
+  api_key_label: string | null;
+  provider: string;
+  operation: string;
+  repo: string;
+  status: string;
+  created_at: string;
+};
+
+export type AuditEntry = {
+  id: string;
+  created_at: string;
+  event_type: string;
+  actor_type: string;
+  actor_id: string;
+  request_id: string | null;
+  event: unknown;
+  // Hash chain links (see audit/chain); null for events from before chaining
+  // that aren't backfilled yet.
+  prev_hash: string | null;
+  hash: string | null;
+  proxy_request: AuditProxyRequest | null;
+  git_session: AuditGitSession | null;
+};
+
+type AuditRow = {
+  id: string;
+  created_at: string;
+  event_type: string;
+  actor_type: string;
+  actor_id: string;
+  request_id: string | null;
+  event_json: string;
+  prev_hash: string | null;
+  hash: string | null;
+  pr_id: string | null;
+  pr_api_key_id: string | null;
+  pr_api_key_label: string | null;
+  pr_provider: string | null;
+  pr_method: string | null;
+  pr_upstream_url: string | null;
+  pr_status: string | null;
+  pr_error_code: string | null;
+  pr_created_at: string | null;
+  ap_decision: string | null;
+  ap_decided_at: string | null;
+  ap_decided_by: number | null;
+  gs_id: string | null;
+  gs_api_key_id: string | null;
+  gs_api_key_label: string | null;
+  gs_provider: string | null;
+  gs_operation: string | null;
+  gs_repo: string | null;
+  gs_status: string | null;
+  gs_created_at: string | null;
+};
+
+// Git events name their session in the payload rather than in request_id.
+function sessionIdSql(dialect: Dialect): string {
+  return jsonTextSql(dialect, "a.event_json", "sessionId");
+}
+
+// The key an event is about: the request's or session's key, the key that
+// acted, or the key an owner action targeted.
+function apiKeySql(dialect: Dialect): string {
+  return `COALESCE(pr.api_key_id, gs.api_key_id, CASE WHEN a.actor_type = 'api_key' THEN a.actor_id END, ${jsonTextSql(dialect, "a.event_json", "apiKeyId")})`;
+}
+
+function providerSql(dialect: Dialect): string {
+  return `COALESCE(pr.provider, prla.provider, gs.provider, ${jsonTextSql(dialect, "a.event_json", "provider")})`;
+}
+
+// Accepts an ISO timestamp or a relative age such as `30m`, `24h` or `7d`.
+export function parseAuditTime(raw: string, now = Date.now()): string {
+  const rel = /^(\d+)([mhd])$/.exec(raw.trim());
+  if (rel) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[
+      rel[2] as "m" | "h" | "d"
+    ];
+    return new Date(now - Number(rel[1]) * unitMs).toISOString();
+  }
+  const ms = Date.parse(raw);
+  if (Number.isNaN(ms)) throw new Error(`invalid time: ${raw}`);
+  return new Date(ms).toISOString();
+}
+
+// API key filters take an id or a label; revoked keys still resolve so their
+// history stays reachable.
+export async function resolveAuditApiKey(
+  userId: string,
+  idOrLabel: string
+): Promise<string | null> {
+  const row = (await db()
+    .query(
+      "SELECT id FROM api_keys WHERE user_id = ? AND (id = ? OR label = ?) ORDER BY revoked_at IS NOT NULL, created_at DESC LIMIT 1;"
+    )
+    .get(userId, idOrLabel, idOrLabel)) as { id: string } | null;
+  return row?.id ?? null;
+}
+
+function likePrefix(value: string): string {
+  return `${value.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`;
+}
+
+export async function queryAuditEvents(query: AuditQuery): Promise<{
+  entries: AuditEntry[];
+  nextCursor: string | null;
+}> {
+  const { dialect } = db();
+  const conditions = ["a.user_id = ?"];
+  const args: (string | number)[] = [query.userId];
+
+  if (query.from) {
+    conditions.push("a.created_at >= ?");
+    args.push(query.from);
+  }
+  if (query.to) {
+    conditions.push("a.created_at < ?");
+    args.push(query.to);
+  }
+  if (query.eventTypes?.length) {
+    const ors = query.eventTypes.map((t) => {
+      if (t.endsWith("*")) {
+        args.push(likePrefix(t.slice(0, -1)));
+        return "a.event_type LIKE ? ESCAPE '\\'";
+      }
+      args.push(t);
+      return "a.event_type = ?";
+    });
+    conditions.push(`(${ors.join(" OR ")})`);
+  }
+  if (query.apiKeyId) {
+    conditions.push(`${apiKeySql(dialect)} = ?`);
+    args.push(query.apiKeyId);
+  }
+  if (query.provider) {
+    conditions.push(`${providerSql(dialect)} = ?`);
+    args.push(query.provider);
+  }
+  if (query.requestId) {
+    conditions.push(`(a.request_id = ? OR ${sessionIdSql(dialect)} = ?)`);
+    args.push(query.requestId, query.requestId);
+  }
+  if (query.cursor) {
+    conditions.push("a.id < ?");
+    args.push(query.cursor);
+  }
+
+  // One extra row tells whether another page exists.
+  args.push(query.limit + 1);
+  const rows = (await db()
+    .query(
+      "SELECT a.id, a.created_at, a.event_type, a.actor_type, a.actor_id, a.request_id, a.event_json, a.prev_hash, a.hash, " +
+        "pr.id AS pr_id, pr.api_key_id AS pr_api_key_id, pr.api_key_label_snapshot AS pr_api_key_label, " +
+        "COALESCE(pr.provider, prla.provider) AS pr_provider, pr.method AS pr_method, pr.upstream_url AS pr_upstream_url, " +
+        "pr.status AS pr_status, pr.error_code AS pr_error_code, pr.created_at AS pr_created_at, " +
+        "ap.decision AS ap_decision, ap.decided_at AS ap_decided_at, ap.decided_by_telegram_user_id AS ap_decided_by, " +
+        "gs.id AS gs_id, gs.api_key_id AS gs_api_key_id, gk.label AS gs_api_key_label, gs.provider AS gs_provider, " +
+        "gs.operation AS gs_operation, gs.repo_owner || '/' || gs.repo_name AS gs_repo, gs.status AS gs_status, gs.created_at AS gs_created_at " +
+        "FROM audit_events a " +
+        "LEFT JOIN proxy_requests pr ON pr.id = a.request_id AND pr.user_id = a.user_id " +
+        "LEFT JOIN linked_accounts prla ON prla.id = pr.linked_account_id " +
+        "LEFT JOIN approvals ap ON ap.request_id = pr.id " +
+        `LEFT JOIN git_sessions gs ON gs.id = ${sessionIdSql(dialect)} AND gs.user_id = a.user_id ` +
+        "LEFT JOIN api_keys gk ON gk.id = gs.api_key_id " +
+        `WHERE ${conditions.join(" AND ")} ORDER BY a.id DESC LIMIT ?;`
+    )
+    .all(...args)) as AuditRow[];
+
+  const hasMore = rows.length > query.limit;
+  const page = hasMore ? rows.slice(0, query.limit) : rows;
+  const redaction = await loadRedaction({ userId: query.userId });
+
+  const entries = page.map(
+    (r): AuditEntry => ({
+      id: r.id,
+      created_at: r.created_at,
+      event_type: r.event_type,
+      actor_type: r.actor_type,
+      actor_id: r.actor_id,
+      request_id: r.request_id,
+      event: JSON.parse(r.event_json),
+      prev_hash: r.prev_hash,
+      hash: r.hash,
+      proxy_request: r.pr_id
+        ? {
+            id: r.pr_id,
+            api_key_id: r.pr_api_key_id ?? "",
+            api_key_label: r.pr_api_key_label ?? "",
+            provider: r.pr_provider,
+            method: r.pr_method ?? "",
+            upstream_url: redactUrl(redaction, r.pr_upstream_url ?? ""),
+            status: r.pr_status ?? "",
+            error_code: r.pr_error_code,
+            created_at: r.pr_created_at ?? "",
+            decision: r.ap_decision
+              ? {
+                  decision: r.ap_decision,
+                  decided_at: r.ap_decided_at ?? "",
+                  decided_by_telegram_user_id: r.ap_decided_by ?? 0,
+                }
+              : null,
+          }
+        : null,
+      git_session: r.gs_id
+        ? {
+            id: r.gs_id,
+            api_key_id: r.gs_api_key_id ?? "",
+            api_key_label: r.gs_api_key_label,
+            provider: r.gs_provider ?? "",
+            operation: r.gs_operation ?? "",
+            repo: r.gs_repo ?? "",
+            status: r.gs_status ?? "",
+            created_at: r.gs_created_at ?? "",
+          }
+        : null,
+    })
+  );
+
+  return {
+    entries,
+    nextCursor: hasMore ? (page[page.length - 1]?.id ?? null) : null,
+  };
+}
+
+// Flat columns for spreadsheet exports; the event payload stays JSON.
+export const AUDIT_CSV_COLUMNS = [
+  "id",
+  "created_at",
+  "event_type",
+  "actor_type",
+  "actor_id",
+  "request_id",
+  "api_key_id",
+  "api_key_label",
+  "provider",
+  "target",
+  "target_status",
+  "decision",
+  "decided_by_telegram_user_id",
+  "decided_at",
+  "event_json",
+  "hash",
+] as const;
+
+function csvCell(value: string | number | null): string {
+  const s = value === null ? "" : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replaceAll('"', '""')}"` : s;
+}
+
+export function auditEntryToCsvRow(entry: AuditEntry): string {
+  const pr = entry.proxy_request;
+  const gs = entry.git_session;
+  const values: Record<
+    (typeof AUDIT_CSV_COLUMNS)[number],
+    string | number | null
+  > = {
+    id: entry.id,
+    created_at: entry.created_at,
+    event_type: entry.event_type,
+    actor_type: entry.actor_type,
+    actor_id: entry.actor_id,
+    request_id: entry.request_id,
+    api_key_id: pr?.api_key_id ?? gs?.api_key_id ?? null,
+    api_key_label: pr?.api_key_label ?? gs?.api_key_label ?? null,
+    provider: pr?.provider ?? gs?.provider ?? null,
+    target: pr
+      ? `${pr.method} ${pr.upstream_url}`
+      : gs
+        ? `git ${gs.operation} ${gs.provider}:${gs.repo}`
+        : null,
+    target_status: pr?.status ?? gs?.status ?? null,
+    decision: pr?.decision?.decision ?? null,
+    decided_by_telegram_user_id:
+      pr?.decision?.decided_by_telegram_user_id ?? null,
+    decided_at: pr?.decision?.decided_at ?? null,
+    event_json: JSON.stringify(entry.event),
+    hash: entry.hash,
+  };
+  return AUDIT_CSV_COLUMNS.map((c) => csvCell(values[c])).join(",");
+}
+
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const lines = [AUDIT_CSV_COLUMNS.join(",")];
+  for (const e of entries) lines.push(auditEntryToCsvRow(e));
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+export function auditEntriesToJsonLines(entries: AuditEntry[]): string {
+  return entries.map((e) => `${JSON.stringify(e)}\n`).join("");
+}
@@ -2,11 +2,16 @@ import type { MiddlewareHandler } from "hono";
 
 import { sha256Hex } from "../crypto/sha256";
 import { db } from "../db/client";
+import { type ApiKeyScope, parseStoredApiKeyScope } from "./scopes";
 
 export type ApiKeyAuth = {
   userId: string;
   apiKeyId: string;
   apiKeyLabel: string;
+  // null = unrestricted.
+  scope: ApiKeyScope | null;
+  // null = server-wide maximum.
+  maxApprovalTtlSeconds: number | null;
 };
 
 declare module "hono" {
@@ -32,21 +37,23 @@ export const requireApiKey: MiddlewareHandler = async (c, next) => {
   if (!token) return c.json({ error: "missing_api_key" }, 401);
 
   const keyHash = await sha256Hex(token);
-  const row = db()
+  const row = (await db()
     .query(
-      "SELECT id, user_id, label, revoked_at FROM api_keys WHERE key_hash = ? LIMIT 1;"
+      "SELECT id, user_id, label, revoked_at, scopes_json, max_approval_ttl_seconds FROM api_keys WHERE key_hash = ? LIMIT 1;"
     )
-    .get(keyHash) as {
+    .get(keyHash)) as {
     id: string;
     user_id: string;
     label: string;
     revoked_at: string | null;
+    scopes_json: string | null;
+    max_approval_ttl_seconds: number | null;
   } | null;
 
   if (!row) return c.json({ error: "invalid_api_key" }, 401);
   if (row.revoked_at) return c.json({ error: "api_key_revoked" }, 403);
 
-  db()
+  await db()
     .query("UPDATE api_keys SET last_used_at = ? WHERE id = ?;")
     .run(nowIso(), row.id);
 
@@ -54,6 +61,8 @@ export const requireApiKey: MiddlewareHandler = async (c, next) => {
     userId: row.user_id,
     apiKeyId: row.id,
     apiKeyLabel: row.label,
+    scope: parseStoredApiKeyScope(row.scopes_json),
+    maxApprovalTtlSeconds: row.max_approval_ttl_seconds,
   });
 
   await next();
@@ -0,0 +1,213 @@
+// Per-API-key scope: what a key may ask for at all, checked before a request
+// or git session is created (and therefore before any Telegram prompt).
+// null fields mean "any"; a key without a scope is unrestricted.
+export type ApiKeyScope = {
+  providers: string[] | null;
+  // `host` or `host/path/prefix`. Paths match on segment boundaries, so
+  // `api.github.com/repos/acme` covers `/repos/acme/x` but not `/repos/acme-x`.
+  prefixes: string[] | null;
+  methods: string[] | null;
+  readOnly: boolean;
+};
+
+// Methods that don't modify upstream state (WebDAV reads included for iCloud).
+export const READ_ONLY_METHODS = new Set([
+  "GET",
+  "HEAD",
+  "OPTIONS",
+  "PROPFIND",
+  "REPORT",
+]);
+
+export const API_KEY_SCOPE_HELP = [
+  "Scope options (space separated, all optional):",
+  "provider=<id>[,<id>...]   e.g. provider=github,google",
+  "prefix=<host>[/path]      repeatable, e.g. prefix=api.github.com/repos/acme",
+  "method=<M>[,<M>...]       e.g. method=GET,POST",
+  "readonly                  only GET/HEAD/OPTIONS/PROPFIND/REPORT; git: clone/fetch/pull",
+  "",
+  "Git sessions are checked against the repository URL on the git remote, e.g. github.com/<owner>/<repo>.",
+].join("\n");
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+export function isApiKeyScopeToken(tok: string): boolean {
+  const t = tok.toLowerCase();
+  return t === "readonly" || t === "read-only" || /^[a-z]+=/.test(t);
+}
+
+function normalizePrefix(raw: string): string {
+  const s = raw.trim().replace(/^https:\/\//i, "");
+  const slash = s.indexOf("/");
+  const host = (slash === -1 ? s : s.slice(0, slash)).toLowerCase();
+  if (!host || !/^[a-z0-9.-]+$/.test(host)) {
+    throw new Error(`invalid prefix: ${raw}`);
+  }
+  const path = slash === -1 ? "" : s.slice(slash).replace(/\/+$/, "");
+  return `${host}${path}`;
+}
+
+// Parse e.g. `provider=github method=GET prefix=api.github.com/repos/acme readonly`.
+// Returns null for an empty spec (unrestricted).
+export function parseApiKeyScopeSpec(spec: string): ApiKeyScope | null {
+  const tokens = spec.trim().split(/\s+/).filter(Boolean);
+  if (!tokens.length) return null;
+
+  const scope: ApiKeyScope = {
+    providers: null,
+    prefixes: null,
+    methods: null,
+    readOnly: false,
+  };
+
+  for (const tok of tokens) {
+    const lower = tok.toLowerCase();
+    if (lower === "readonly" || lower === "read-only") {
+      scope.readOnly = true;
+      continue;
+    }
+
+    const eq = tok.indexOf("=");
+    if (eq <= 0) throw new Error(`unknown scope option: ${tok}`);
+    const key = lower.slice(0, eq);
+    const value = tok.slice(eq + 1);
+    if (!value) throw new Error(`missing value for ${key}`);
+
+    if (key === "provider" || key === "providers") {
+      scope.providers = [
+        ...(scope.providers ?? []),
+        ...splitList(value.toLowerCase()),
+      ];
+    } else if (key === "prefix" || key === "prefixes") {
+      scope.prefixes = [
+        ...(scope.prefixes ?? []),
+        ...splitList(value).map(normalizePrefix),
+      ];
+    } else if (key === "method" || key === "methods") {
+      const methods = splitList(value.toUpperCase());
+      if (methods.some((m) => !/^[A-Z]+$/.test(m))) {
+        throw new Error(`invalid method list: ${value}`);
+      }
+      scope.methods = [...(scope.methods ?? []), ...methods];
+    } else {
+      throw new Error(`unknown scope option: ${key}`);
+    }
+  }
+
+  return scope;
+}
+
+export function formatApiKeyScope(scope: ApiKeyScope | null): string {
+  if (!scope) return "any";
+  const parts: string[] = [];
+  if (scope.providers) parts.push(`provider=${scope.providers.join(",")}`);
+  if (scope.prefixes) {
+    for (const p of scope.prefixes) parts.push(`prefix=${p}`);
+  }
+  if (scope.methods) parts.push(`method=${scope.methods.join(",")}`);
+  if (scope.readOnly) parts.push("readonly");
+  return parts.length ? parts.join(" ") : "any";
+}
+
+export function parseStoredApiKeyScope(
+  json: string | null
+): ApiKeyScope | null {
+  if (!json) return null;
+  try {
+    const raw = JSON.parse(json) as Partial<ApiKeyScope>;
+    const list = (v: unknown) =>
+      Array.isArray(v)
+        ? (v.filter((x) => typeof x === "string") as string[])
+        : null;
+    return {
+      providers: list(raw.providers),
+      prefixes: list(raw.prefixes),
+      methods: list(raw.methods),
+      readOnly: raw.readOnly === true,
+    };
+  } catch {
+    // Fail closed: an unreadable scope must not grant everything.
+    return { providers: [], prefixes: null, methods: null, readOnly: true };
+  }
+}
+
+function matchesPrefix(prefix: string, url: URL): boolean {
+  const slash = prefix.indexOf("/");
+  const host = slash === -1 ? prefix : prefix.slice(0, slash);
+  if (url.hostname.toLowerCase() !== host) return false;
+  if (slash === -1) return true;
+
+  const path = prefix.slice(slash);
+  return url.pathname === path || url.pathname.startsWith(`${path}/`);
+}
+
+export type ApiKeyScopeCheck =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+export function checkApiKeyScope(
+  scope: ApiKeyScope | null,
+  req: { providerId: string; method: string; url: URL }
+): ApiKeyScopeCheck {
+  if (!scope) return { allowed: true };
+
+  if (scope.providers && !scope.providers.includes(req.providerId)) {
+    return {
+      allowed: false,
+      reason: `provider ${req.providerId} is not allowed for this key`,
+    };
+  }
+
+  const method = req.method.toUpperCase();
+  if (scope.methods && !scope.methods.includes(method)) {
+    return {
+      allowed: false,
+      reason: `method ${method} is not allowed for this key`,
+    };
+  }
+  if (scope.readOnly && !READ_ONLY_METHODS.has(method)) {
+    return { allowed: false, reason: "this key is read-only" };
+  }
+
+  if (
+    scope.prefixes &&
+    !scope.prefixes.some((p) => matchesPrefix(p, req.url))
+  ) {
+    return {
+      allowed: false,
+      reason: `${req.url.hostname}${req.url.pathname} is outside this key's prefixes`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+// Git sessions map onto the same checks: reads are GET-equivalent and push is
+// a write (POST to git-receive-pack). The URL is the repository on the git
+// remote, e.g. github.com/<owner>/<repo> or gitlab.com/<group>/<sub>/<repo>.
+export function checkGitSessionScope(
+  scope: ApiKeyScope | null,
+  session: {
+    providerId: string;
+    remoteBaseUrl: string;
+    operation: string;
+    repoOwner: string;
+    repoName: string;
+  }
+): ApiKeyScopeCheck {
+  const isRead = session.operation !== "push";
+  const repo = session.repoName.replace(/\.git$/, "");
+  const path = [...session.repoOwner.split("/"), repo]
+    .map(encodeURIComponent)
+    .join("/");
+  return checkApiKeyScope(scope, {
+    providerId: session.providerId,
+    method: isRead ? "GET" : "POST",
+    url: new URL(`${session.remoteBaseUrl.replace(/\/$/, "")}/${path}`),
+  });
+}
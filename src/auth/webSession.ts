@@ -0,0 +1,172 @@
+import type { MiddlewareHandler } from "hono";
+import { deleteCookie, getCookie, setCookie } from "hono/cookie";
+import { ulid } from "ulid";
+
+import { randomBase64Url } from "../crypto/random";
+import { sha256Hex } from "../crypto/sha256";
+import { db } from "../db/client";
+import { env } from "../env";
+
+// Web dashboard sign-in: a single-use magic link sent by the bot starts a
+// cookie session scoped to /ui.
+
+export type WebSessionAuth = {
+  userId: string;
+  sessionId: string;
+  csrfToken: string;
+};
+
+declare module "hono" {
+  interface ContextVariableMap {
+    webSession: WebSessionAuth;
+  }
+}
+
+export const WEB_SESSION_COOKIE = "pb_ui";
+
+const LOGIN_LINK_TTL_MS = 10 * 60_000;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+export async function createWebLoginUrl(params: {
+  userId: string;
+}): Promise<{ url: string; expiresAt: string }> {
+  if (!env.APP_BASE_URL) {
+    throw new Error("APP_BASE_URL is not configured; cannot create web link.");
+  }
+
+  const token = `wl_${randomBase64Url(32)}`;
+  const expiresAt = new Date(Date.now() + LOGIN_LINK_TTL_MS).toISOString();
+  await db()
+    .query(
+      "INSERT INTO web_login_tokens (token_hash, user_id, created_at, expires_at, used_at) VALUES (?, ?, ?, ?, NULL);"
+    )
+    .run(await sha256Hex(token), params.userId, nowIso(), expiresAt);
+
+  const base = env.APP_BASE_URL.replace(/\/$/, "");
+  return {
+    url: `${base}/ui/login?token=${encodeURIComponent(token)}`,
+    expiresAt,
+  };
+}
+
+// Marks the token used and returns its user; null when unknown, expired or
+// already used.
+export async function redeemWebLoginToken(
+  token: string
+): Promise<string | null> {
+  const now = nowIso();
+  const row = (await db()
+    .query(
+      "UPDATE web_login_tokens SET used_at = ? WHERE token_hash = ? AND used_at IS NULL AND expires_at > ? RETURNING user_id;"
+    )
+    .get(now, await sha256Hex(token), now)) as { user_id: string } | null;
+  return row?.user_id ?? null;
+}
+
+export async function startWebSession(params: {
+  userId: string;
+}): Promise<{ sessionId: string; secret: string; expiresAt: string }> {
+  const sessionId = ulid();
+  const secret = `ws_${randomBase64Url(32)}`;
+  const now = nowIso();
+  const expiresAt = new Date(
+    Date.now() + env.WEB_SESSION_TTL_SECONDS * 1000
+  ).toISOString();
+  await db()
+    .query(
+      "INSERT INTO web_sessions (id, user_id, secret_hash, csrf_token, created_at, expires_at, last_seen_at, revoked_at) VALUES (?, ?, ?, ?, ?, ?, ?, NULL);"
+    )
+    .run(
+      sessionId,
+      params.userId,
+      await sha256Hex(secret),
+      randomBase64Url(24),
+      now,
+      expiresAt,
+      now
+    );
+  return { sessionId, secret, expiresAt };
+}
+
+export async function endWebSession(sessionId: string): Promise<void> {
+  await db()
+    .query(
+      "UPDATE web_sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL;"
+    )
+    .run(nowIso(), sessionId);
+}
+
+function secureCookies(): boolean {
+  return env.APP_BASE_URL?.startsWith("https://") ?? false;
+}
+
+export function setWebSessionCookie(
+  c: Parameters<typeof setCookie>[0],
+  params: { secret: string; expiresAt: string }
+): void {
+  setCookie(c, WEB_SESSION_COOKIE, params.secret, {
+    path: "/ui",
+    httpOnly: true,
+    secure: secureCookies(),
+    sameSite: "Lax",
+    expires: new Date(params.expiresAt),
+  });
+}
+
+export function clearWebSessionCookie(
+  c: Parameters<typeof deleteCookie>[0]
+): void {
+  deleteCookie(c, WEB_SESSION_COOKIE, { path: "/ui" });
+}
+
+async function lookupWebSession(
+  secret: string | undefined
+): Promise<WebSessionAuth | null> {
+  if (!secret) return null;
+  const row = (await db()
+    .query(
+      "SELECT s.id, s.user_id, s.csrf_token, s.expires_at, s.revoked_at, u.status AS user_status " +
+        "FROM web_sessions s JOIN users u ON u.id = s.user_id WHERE s.secret_hash = ? LIMIT 1;"
+    )
+    .get(await sha256Hex(secret))) as {
+    id: string;
+    user_id: string;
+    csrf_token: string;
+    expires_at: string;
+    revoked_at: string | null;
+    user_status: string;
+  } | null;
+
+  if (!row || row.revoked_at || row.user_status !== "active") return null;
+  if (Date.now() > Date.parse(row.expires_at)) return null;
+
+  await db()
+    .query("UPDATE web_sessions SET last_seen_at = ? WHERE id = ?;")
+    .run(nowIso(), row.id);
+  return { userId: row.user_id, sessionId: row.id, csrfToken: row.csrf_token };
+}
+
+// Pages answer signed-out visitors with 401 and a pointer to /dashboard;
+// form posts must also carry the session's CSRF token.
+export const requireWebSession: MiddlewareHandler = async (c, next) => {
+  const auth = await lookupWebSession(getCookie(c, WEB_SESSION_COOKIE));
+  if (!auth) {
+    return c.html(
+      "<!doctype html><title>Signed out</title><p>Signed out. Send <code>/dashboard</code> to the Telegram bot for a sign-in link.</p>",
+      401
+    );
+  }
+
+  if (c.req.method === "POST") {
+    const form = await c.req.parseBody();
+    if (form.csrf !== auth.csrfToken) {
+      return c.text("invalid form token; reload the page", 403);
+    }
+  }
+
+  c.set("webSession", auth);
+  await next();
+};
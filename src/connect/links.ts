@@ -0,0 +1,82 @@
+import * as oauth from "oauth4webapi";
+
+import { env } from "../env";
+import { buildAuthorizationUrl } from "../oauth/flow";
+import type { OAuthProviderConfig } from "../oauth/provider";
+import { getProvider } from "../oauth/registry";
+import { createOauthState } from "../oauth/state";
+import { listProxyProviders } from "../proxy/providerRegistry";
+import { createConnectState } from "./state";
+
+const DEFAULT_CONNECT_LINK_TTL_MS = 10 * 60_000;
+
+// Link that connects (or reconnects) a provider account for the user: a
+// broker-hosted form for iCloud, GitHub App installations (`github-app`,
+// stored as a github account) and static-credential providers, the
+// provider's authorization page otherwise.
+export async function createConnectUrl(params: {
+  userId: string;
+  providerId: string;
+  ttlMs?: number;
+}): Promise<string> {
+  if (!env.APP_BASE_URL) {
+    throw new Error(
+      "APP_BASE_URL is not configured; cannot create connect link."
+    );
+  }
+
+  if (!env.APP_SECRET) {
+    throw new Error(
+      "APP_SECRET is not configured; cannot store refresh tokens."
+    );
+  }
+
+  const ttlMs = params.ttlMs ?? DEFAULT_CONNECT_LINK_TTL_MS;
+
+  if (params.providerId === "icloud" || params.providerId === "github-app") {
+    const { state } = await createConnectState({
+      userId: params.userId,
+      provider: params.providerId,
+      ttlMs,
+    });
+    const base = env.APP_BASE_URL.replace(/\/$/, "");
+    return `${base}/v1/accounts/connect/${params.providerId}?state=${encodeURIComponent(state)}`;
+  }
+
+  const staticProvider = listProxyProviders().find(
+    (p) => p.id === params.providerId && p.staticCredentialForm
+  );
+  if (staticProvider) {
+    const { state } = await createConnectState({
+      userId: params.userId,
+      provider: staticProvider.id,
+      ttlMs,
+    });
+    const base = env.APP_BASE_URL.replace(/\/$/, "");
+    return `${base}/v1/accounts/connect/${staticProvider.id}?state=${encodeURIComponent(state)}`;
+  }
+
+  let provider: OAuthProviderConfig;
+  try {
+    provider = getProvider(params.providerId);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`OAuth provider not configured. ${msg}`);
+  }
+
+  const redirectUri = `${env.APP_BASE_URL}/v1/accounts/callback/${params.providerId}`;
+  const codeVerifier = oauth.generateRandomCodeVerifier();
+  const { state } = await createOauthState({
+    userId: params.userId,
+    provider: provider.id,
+    ttlMs,
+    pkceVerifier: codeVerifier,
+  });
+
+  return buildAuthorizationUrl({
+    provider,
+    redirectUri,
+    state,
+    codeVerifier,
+  });
+}
@@ -1,12 +1,20 @@
-import type { Database } from "bun:sqlite";
-
 import { openDb } from "./db";
+import { currentTransaction, type Storage } from "./storage";
 
-let _db: Database | undefined;
+let _db: Storage | undefined;
 
-export function db(): Database {
+// The shared storage, or the transaction the caller is running in.
+export function db(): Storage {
+  const tx = currentTransaction();
+  if (tx) return tx;
   if (!_db) {
     _db = openDb();
   }
   return _db;
 }
+
+export async function closeDb(): Promise<void> {
+  const open = _db;
+  _db = undefined;
+  await open?.close();
+}
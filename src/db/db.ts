@@ -1,15 +1,11 @@
-import { Database } from "bun:sqlite";
-import { mkdirSync } from "node:fs";
-import { dirname } from "node:path";
-
 import { env } from "../env";
+import { openPostgres } from "./postgres";
+import { openSqlite } from "./sqlite";
+import { isPostgresUrl, type Storage } from "./storage";
 
-export function openDb(): Database {
-  mkdirSync(dirname(env.DB_PATH), { recursive: true });
-
-  const db = new Database(env.DB_PATH);
-  db.exec("PRAGMA foreign_keys = ON;");
-  db.exec("PRAGMA journal_mode = WAL;");
-  db.exec("PRAGMA synchronous = NORMAL;");
-  return db;
+// DB_PATH is a SQLite file path or a postgres:// URL.
+export function openDb(): Storage {
+  return isPostgresUrl(env.DB_PATH)
+    ? openPostgres(env.DB_PATH)
+    : openSqlite(env.DB_PATH);
 }
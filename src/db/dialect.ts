@@ -0,0 +1,27 @@
+import type { Dialect } from "./storage";
+
+// SQL fragments that SQLite and Postgres spell differently. Arguments are SQL
+// expressions (column names or `?`), not values.
+
+// Timestamps are stored as ISO strings (2024-01-02T03:04:05.678Z); returns
+// `ts` moved by `seconds`, formatted the same way so it compares as text.
+export function isoPlusSecondsSql(
+  dialect: Dialect,
+  ts: string,
+  seconds: string
+): string {
+  if (dialect === "postgres") {
+    return `to_char((${ts})::timestamptz AT TIME ZONE 'UTC' + (${seconds}) * INTERVAL '1 second', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')`;
+  }
+  return `strftime('%Y-%m-%dT%H:%M:%fZ', ${ts}, '+' || (${seconds}) || ' seconds')`;
+}
+
+// A top-level string field of a JSON text column.
+export function jsonTextSql(
+  dialect: Dialect,
+  column: string,
+  key: string
+): string {
+  if (dialect === "postgres") return `((${column})::jsonb ->> '${key}')`;
+  return `json_extract(${column}, '$.${key}')`;
+}
@@ -1,22 +1,51 @@
 import { readdirSync, readFileSync } from "node:fs";
 import { join } from "node:path";
 
-import { openDb } from "./db";
+import { closeDb, db } from "./client";
+import type { Dialect, Storage } from "./storage";
+
+// SQLite migrations live in migrations/; Postgres ones in
+// migrations/postgres/, which starts from a baseline equivalent to every
+// SQLite migration up to its number. After that, each schema change ships in
+// both directories under the same file name.
+const MIGRATIONS_ROOT = join(import.meta.dir, "..", "..", "migrations");
 
 function nowIso(): string {
   return new Date().toISOString();
 }
 
-function ensureSchemaMigrations(db: ReturnType<typeof openDb>) {
-  db.exec(
+export function migrationsDir(dialect: Dialect): string {
+  return dialect === "postgres"
+    ? join(MIGRATIONS_ROOT, "postgres")
+    : MIGRATIONS_ROOT;
+}
+
+export function migrationFiles(dialect: Dialect): string[] {
+  return readdirSync(migrationsDir(dialect))
+    .filter((f) => f.endsWith(".sql"))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+// SQLite migrations newer than the Postgres baseline that have no Postgres
+// counterpart.
+export function missingPostgresMigrations(): string[] {
+  const postgres = migrationFiles("postgres");
+  const baseline = postgres[0] ?? "";
+  return migrationFiles("sqlite").filter(
+    (f) => f.slice(0, 4) > baseline.slice(0, 4) && !postgres.includes(f)
+  );
+}
+
+async function ensureSchemaMigrations(db: Storage) {
+  await db.exec(
     "CREATE TABLE IF NOT EXISTS schema_migrations (id TEXT PRIMARY KEY, applied_at TEXT NOT NULL);"
   );
 }
 
-function getApplied(db: ReturnType<typeof openDb>): Set<string> {
-  const rows = db
+async function getApplied(db: Storage): Promise<Set<string>> {
+  const rows = (await db
     .query("SELECT id FROM schema_migrations ORDER BY id;")
-    .all() as {
+    .all()) as {
     id: string;
   }[];
   return new Set(rows.map((r) => r.id));
@@ -40,37 +69,42 @@ function isIgnorableMigrationError(err: unknown, file: string): boolean {
   return false;
 }
 
-export function migrate(): void {
-  const db = openDb();
-  ensureSchemaMigrations(db);
-
-  const applied = getApplied(db);
-  const migrationsDir = join(import.meta.dir, "..", "..", "migrations");
+export async function migrate(): Promise<void> {
+  const storage = db();
+  if (storage.dialect === "postgres") {
+    const missing = missingPostgresMigrations();
+    if (missing.length) {
+      throw new Error(
+        `migrations missing from migrations/postgres: ${missing.join(", ")}`
+      );
+    }
+  }
+  await ensureSchemaMigrations(storage);
 
-  const files = readdirSync(migrationsDir)
-    .filter((f) => f.endsWith(".sql"))
-    .sort((a, b) => a.localeCompare(b));
+  const applied = await getApplied(storage);
+  const dir = migrationsDir(storage.dialect);
 
-  for (const file of files) {
+  for (const file of migrationFiles(storage.dialect)) {
     if (applied.has(file)) continue;
 
-    const sql = readFileSync(join(migrationsDir, file), "utf8");
+    const sql = readFileSync(join(dir, file), "utf8");
 
-    db.transaction(() => {
+    await storage.transaction(async () => {
       try {
-        db.exec(sql);
+        await db().exec(sql);
       } catch (err) {
         if (!isIgnorableMigrationError(err, file)) throw err;
       }
 
-      db.query(
-        "INSERT INTO schema_migrations (id, applied_at) VALUES (?, ?);"
-      ).run(file, nowIso());
-    })();
+      await db()
+        .query("INSERT INTO schema_migrations (id, applied_at) VALUES (?, ?);")
+        .run(file, nowIso());
+    });
   }
 }
 
 if (import.meta.main) {
-  migrate();
+  await migrate();
+  await closeDb();
   console.log("migrations applied");
 }
@@ -0,0 +1,87 @@
+import { SQL } from "bun";
+
+import {
+  runInTransaction,
+  type SqlValue,
+  type Statement,
+  type Storage,
+} from "./storage";
+
+// Queries are written with SQLite's `?` placeholders; Postgres wants $1, $2,
+// ... Question marks inside string literals and quoted names are left alone.
+export function toPositionalParams(sql: string): string {
+  let out = "";
+  let n = 0;
+  let quote: string | null = null;
+  for (const ch of sql) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "?") {
+      out += `$${++n}`;
+      continue;
+    }
+    out += ch;
+  }
+  return out;
+}
+
+// Flags are stored as 0/1 integers, as in SQLite.
+function toParam(value: SqlValue): SqlValue {
+  if (value === true) return 1;
+  if (value === false) return 0;
+  return value;
+}
+
+// Integer columns are BIGINT (Telegram ids don't fit in 32 bits); callers
+// expect numbers, as bun:sqlite returns.
+function fromRow(row: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    out[key] = typeof value === "bigint" ? Number(value) : value;
+  }
+  return out;
+}
+
+export function openPostgres(url: string): Storage {
+  // A single connection, like SQLite: statements run in the order they are
+  // issued and a transaction holds everything else off until it ends.
+  const pool = new SQL({ url, max: 1, bigint: true });
+
+  const storage = (conn: SQL, inTransaction: boolean): Storage => ({
+    dialect: "postgres",
+    query(sql: string): Statement {
+      const text = toPositionalParams(sql);
+      const exec = (args: SqlValue[]): Promise<Record<string, unknown>[]> =>
+        conn.unsafe(text, args.map(toParam));
+      return {
+        async get(...args: SqlValue[]) {
+          const [row] = await exec(args);
+          return row ? fromRow(row) : null;
+        },
+        async all(...args: SqlValue[]) {
+          return (await exec(args)).map(fromRow);
+        },
+        async run(...args: SqlValue[]) {
+          const rows = (await exec(args)) as { count?: number | bigint };
+          return { changes: Number(rows.count ?? 0) };
+        },
+      };
+    },
+    async exec(sql: string) {
+      await conn.unsafe(sql).simple();
+    },
+    async transaction<T>(fn: () => Promise<T>): Promise<T> {
+      if (inTransaction) return fn();
+      return (await pool.begin((tx) =>
+        runInTransaction(storage(tx, true), fn)
+      )) as T;
+    },
+    async close() {
+      await pool.close();
+    },
+  });
+
+  return storage(pool, false);
+}
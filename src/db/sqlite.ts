@@ -0,0 +1,80 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+import {
+  runInTransaction,
+  type SqlValue,
+  type Statement,
+  type Storage,
+} from "./storage";
+
+// bun:sqlite is synchronous and has one connection, so an open transaction
+// would otherwise see every query issued meanwhile. Queries from outside the
+// transaction wait until it ends.
+export function openSqlite(path: string): Storage {
+  mkdirSync(dirname(path), { recursive: true });
+
+  const conn = new Database(path);
+  conn.exec("PRAGMA foreign_keys = ON;");
+  conn.exec("PRAGMA journal_mode = WAL;");
+  conn.exec("PRAGMA synchronous = NORMAL;");
+
+  // Waiters re-check the lock after every wake-up and then run with no await
+  // in between, so nothing slips in once another waiter has taken it.
+  let lock: Promise<void> | null = null;
+
+  const storage = (inTransaction: boolean): Storage => {
+    return {
+      dialect: "sqlite",
+      query(sql: string): Statement {
+        return {
+          async get(...args: SqlValue[]) {
+            while (!inTransaction && lock) await lock;
+            return conn.query(sql).get(...args) ?? null;
+          },
+          async all(...args: SqlValue[]) {
+            while (!inTransaction && lock) await lock;
+            return conn.query(sql).all(...args);
+          },
+          async run(...args: SqlValue[]) {
+            while (!inTransaction && lock) await lock;
+            return { changes: conn.query(sql).run(...args).changes };
+          },
+        };
+      },
+      async exec(sql: string) {
+        while (!inTransaction && lock) await lock;
+        conn.exec(sql);
+      },
+      async transaction<T>(fn: () => Promise<T>): Promise<T> {
+        if (inTransaction) return fn();
+        while (lock) await lock;
+        let release = () => {};
+        lock = new Promise((resolve) => {
+          release = resolve;
+        });
+        try {
+          conn.exec("BEGIN IMMEDIATE;");
+          try {
+            const result = await runInTransaction(storage(true), fn);
+            conn.exec("COMMIT;");
+            return result;
+          } catch (err) {
+            conn.exec("ROLLBACK;");
+            throw err;
+          }
+        } finally {
+          lock = null;
+          release();
+        }
+      },
+      async close() {
+        while (lock) await lock;
+        conn.close();
+      },
+    };
+  };
+
+  return storage(false);
+}
@@ -0,0 +1,57 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// The broker talks to its database through this interface so the same
+// queries run on SQLite (bun:sqlite) and PostgreSQL (Bun.SQL). Statements use
+// `?` placeholders and the SQL both accept; where they differ, branch on
+// `dialect` (see ./dialect).
+
+export type Dialect = "sqlite" | "postgres";
+
+export type SqlValue = string | number | bigint | boolean | null | Uint8Array;
+
+export type Statement = {
+  // First row, or null.
+  get(...args: SqlValue[]): Promise<unknown>;
+  all(...args: SqlValue[]): Promise<unknown[]>;
+  run(...args: SqlValue[]): Promise<{ changes: number }>;
+};
+
+export type Storage = {
+  readonly dialect: Dialect;
+  query(sql: string): Statement;
+  // One or more statements without parameters (migrations, test resets).
+  exec(sql: string): Promise<void>;
+  // Runs fn in a transaction: db() returns the transaction inside it, and it
+  // commits when fn resolves or rolls back when it throws. Nested calls join
+  // the outer transaction.
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+};
+
+export function isPostgresUrl(path: string): boolean {
+  return /^postgres(ql)?:\/\//.test(path);
+}
+
+// A transaction's handle while its callback (and anything it started) runs.
+// `done` is set once it commits or rolls back, after which stragglers
+// started inside it fall back to the shared connection.
+export type TransactionHandle = { storage: Storage; done: boolean };
+
+const activeTransaction = new AsyncLocalStorage<TransactionHandle>();
+
+export function currentTransaction(): Storage | undefined {
+  const tx = activeTransaction.getStore();
+  return tx && !tx.done ? tx.storage : undefined;
+}
+
+export async function runInTransaction<T>(
+  storage: Storage,
+  fn: () => Promise<T>
+): Promise<T> {
+  const tx: TransactionHandle = { storage, done: false };
+  try {
+    return await activeTransaction.run(tx, fn);
+  } finally {
+    tx.done = true;
+  }
+}
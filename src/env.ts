@@ -43,6 +43,77 @@ const EnvSchema = z.object({
   GITHUB_OAUTH_CLIENT_SECRET: z.string().min(1).optional(),
   SPOTIFY_OAUTH_CLIENT_ID: z.string().min(1).optional(),
   SPOTIFY_OAUTH_CLIENT_SECRET: z.string().min(1).optional(),
+  // Directory of declarative provider definitions (*.json, *.ts) loaded at
+  // startup; see providers/declarative.
+  PROVIDER_DEFINITIONS_DIR: z.string().min(1).optional(),
+  // Approval windows: default for single requests, and the upper bound for
+  // caller-requested `approval_ttl_seconds` (API keys may set a lower one).
+  APPROVAL_TTL_DEFAULT_SECONDS: z.coerce.number().int().positive().default(120),
+  APPROVAL_TTL_MAX_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(24 * 60 * 60),
+  // Idle window after which approved git sessions expire.
+  GIT_SESSION_INACTIVITY_DEFAULT_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(120),
+  GIT_SESSION_INACTIVITY_MAX_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(60 * 60),
+  // Lifetime of standing (reusable) git sessions after approval.
+  GIT_STANDING_SESSION_DEFAULT_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(24 * 60 * 60),
+  GIT_STANDING_SESSION_MAX_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(7 * 24 * 60 * 60),
+  // Comma-separated paths every push session protects, in addition to the
+  // session's own `protected_paths` (e.g. `.github/workflows/,CODEOWNERS`).
+  GIT_PUSH_PROTECTED_PATHS: z.string().default(""),
+  // How long a push held for review waits for the approver.
+  GIT_PUSH_REVIEW_TIMEOUT_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(5 * 60),
+  // How often each linked account's credential is validated in the
+  // background (see accounts/health).
+  LINKED_ACCOUNT_HEALTH_CHECK_INTERVAL_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(6 * 60 * 60),
+  // Lifetime of a web dashboard (/ui) sign-in.
+  WEB_SESSION_TTL_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(12 * 60 * 60),
+  // Optional JSON Lines file that receives a signed checkpoint of every audit
+  // chain head (see audit/chain) every AUDIT_CHECKPOINT_INTERVAL_SECONDS.
+  AUDIT_CHECKPOINT_PATH: z.string().min(1).optional(),
+  AUDIT_CHECKPOINT_INTERVAL_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(60 * 60),
+  // How long results of execute_on_approval requests are kept (encrypted).
+  PROXY_RESULT_TTL_SECONDS: z.coerce.number().int().positive().default(600),
+  // Default cap for streamed execute responses (providers may override).
+  PROXY_STREAM_MAX_BYTES: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(100 * 1024 * 1024),
   PB_TEST_BYPASS_OAUTH: z.coerce
     .boolean()
     .optional()
@@ -0,0 +1,248 @@
+import { createHash } from "node:crypto";
+import { inflateSync } from "node:zlib";
+
+// Minimal packfile reader for push inspection: resolves every object (and
+// delta) in a pushed pack so commits and trees can be examined before the
+// push is forwarded. See: https://git-scm.com/docs/pack-format
+
+export type GitObjectType = "commit" | "tree" | "blob" | "tag";
+
+export type PackObject = { type: GitObjectType; data: Uint8Array };
+
+export type ParsedPack = {
+  objects: Map<string, PackObject>;
+  // Deltas whose base is not in the pack (thin packs). Their object ids are
+  // unknown.
+  unresolved: number;
+};
+
+// Decompressed size limit for packs inspected before forwarding a push.
+export const MAX_INSPECTED_PACK_BYTES = 256 * 1024 * 1024;
+
+const OBJECT_TYPES: Record<number, GitObjectType> = {
+  1: "commit",
+  2: "tree",
+  3: "blob",
+  4: "tag",
+};
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+type RawEntry =
+  | { kind: "object"; type: GitObjectType; data: Uint8Array }
+  | { kind: "ofs_delta"; baseOffset: number; delta: Uint8Array }
+  | { kind: "ref_delta"; baseSha: string; delta: Uint8Array };
+
+function objectSha(type: GitObjectType, data: Uint8Array): string {
+  return createHash("sha1")
+    .update(`${type} ${data.byteLength}\0`)
+    .update(data)
+    .digest("hex");
+}
+
+function readDeltaSize(delta: Uint8Array, pos: number): [number, number] {
+  let size = 0;
+  let shift = 0;
+  let c: number;
+  do {
+    c = delta[pos++] ?? 0;
+    size += (c & 0x7f) * 2 ** shift;
+    shift += 7;
+  } while (c & 0x80 && pos < delta.length);
+  return [size, pos];
+}
+
+export function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+  let [srcSize, pos] = readDeltaSize(delta, 0);
+  if (srcSize !== base.byteLength) throw new Error("delta base size mismatch");
+  let dstSize: number;
+  [dstSize, pos] = readDeltaSize(delta, pos);
+
+  const out = new Uint8Array(dstSize);
+  let outPos = 0;
+  while (pos < delta.length) {
+    const op = delta[pos++] ?? 0;
+    if (op & 0x80) {
+      let offset = 0;
+      let size = 0;
+      for (let i = 0; i < 4; i++) {
+        if (op & (1 << i)) offset |= (delta[pos++] ?? 0) << (8 * i);
+      }
+      for (let i = 0; i < 3; i++) {
+        if (op & (1 << (4 + i))) size |= (delta[pos++] ?? 0) << (8 * i);
+      }
+      if (size === 0) size = 0x10000;
+      offset >>>= 0;
+      if (offset + size > base.byteLength || outPos + size > dstSize) {
+        throw new Error("invalid delta copy");
+      }
+      out.set(base.subarray(offset, offset + size), outPos);
+      outPos += size;
+    } else if (op > 0) {
+      if (pos + op > delta.length || outPos + op > dstSize) {
+        throw new Error("invalid delta insert");
+      }
+      out.set(delta.subarray(pos, pos + op), outPos);
+      outPos += op;
+      pos += op;
+    } else {
+      throw new Error("invalid delta opcode");
+    }
+  }
+  if (outPos !== dstSize) throw new Error("delta size mismatch");
+  return out;
+}
+
+// `maxInflatedBytes` bounds the total decompressed size (declared sizes are
+// checked before inflating) so a small pack can't exhaust memory.
+export function parsePackfile(
+  bytes: Uint8Array,
+  opts: { maxInflatedBytes: number }
+): ParsedPack {
+  const buf = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (buf.byteLength < 12 || buf.toString("latin1", 0, 4) !== "PACK") {
+    throw new Error("not a packfile");
+  }
+  const version = buf.readUInt32BE(4);
+  if (version !== 2 && version !== 3) {
+    throw new Error(`unsupported pack version ${version}`);
+  }
+  const count = buf.readUInt32BE(8);
+
+  const entries = new Map<number, RawEntry>();
+  let inflatedTotal = 0;
+  let pos = 12;
+  for (let n = 0; n < count; n++) {
+    const start = pos;
+    let c = buf[pos++] ?? 0;
+    const typeNum = (c >> 4) & 7;
+    let size = c & 0x0f;
+    let shift = 4;
+    while (c & 0x80) {
+      if (pos >= buf.byteLength) throw new Error("truncated packfile");
+      c = buf[pos++] ?? 0;
+      size += (c & 0x7f) * 2 ** shift;
+      shift += 7;
+    }
+
+    let baseOffset = 0;
+    let baseSha = "";
+    if (typeNum === OFS_DELTA) {
+      c = buf[pos++] ?? 0;
+      let off = c & 0x7f;
+      while (c & 0x80) {
+        c = buf[pos++] ?? 0;
+        off = (off + 1) * 128 + (c & 0x7f);
+      }
+      baseOffset = start - off;
+    } else if (typeNum === REF_DELTA) {
+      baseSha = buf.toString("hex", pos, pos + 20);
+      pos += 20;
+    } else if (!OBJECT_TYPES[typeNum]) {
+      throw new Error(`invalid object type ${typeNum}`);
+    }
+
+    inflatedTotal += size;
+    if (inflatedTotal > opts.maxInflatedBytes) {
+      throw new Error("packfile too large to inspect");
+    }
+    if (pos >= buf.byteLength) throw new Error("truncated packfile");
+    // `info` reports how many input bytes the zlib stream used.
+    const inflated = inflateSync(buf.subarray(pos), {
+      info: true,
+      maxOutputLength: Math.max(size, 1),
+    }) as unknown as {
+      buffer: Buffer;
+      engine: { bytesWritten: number };
+    };
+    pos += inflated.engine.bytesWritten;
+    const data = new Uint8Array(inflated.buffer);
+    if (data.byteLength !== size) throw new Error("object size mismatch");
+
+    const objectType = OBJECT_TYPES[typeNum];
+    if (objectType) {
+      entries.set(start, { kind: "object", type: objectType, data });
+    } else if (typeNum === OFS_DELTA) {
+      entries.set(start, { kind: "ofs_delta", baseOffset, delta: data });
+    } else {
+      entries.set(start, { kind: "ref_delta", baseSha, delta: data });
+    }
+  }
+
+  // Resolve deltas. REF_DELTA bases may appear anywhere in the pack, so
+  // repeat until no more progress is made.
+  const resolved = new Map<number, PackObject>();
+  const objects = new Map<string, PackObject>();
+  let inflatedDeltas = 0;
+  let pending = [...entries.keys()];
+  for (;;) {
+    const next: number[] = [];
+    for (const offset of pending) {
+      const entry = entries.get(offset);
+      if (!entry) continue;
+      let obj: PackObject | null = null;
+      if (entry.kind === "object") {
+        obj = { type: entry.type, data: entry.data };
+      } else {
+        const base =
+          entry.kind === "ofs_delta"
+            ? resolved.get(entry.baseOffset)
+            : objects.get(entry.baseSha);
+        if (base) {
+          const data = applyDelta(base.data, entry.delta);
+          inflatedDeltas += data.byteLength;
+          if (inflatedTotal + inflatedDeltas > opts.maxInflatedBytes) {
+            throw new Error("packfile too large to inspect");
+          }
+          obj = { type: base.type, data };
+        }
+      }
+      if (!obj) {
+        next.push(offset);
+        continue;
+      }
+      resolved.set(offset, obj);
+      objects.set(objectSha(obj.type, obj.data), obj);
+    }
+    if (next.length === pending.length) break;
+    pending = next;
+  }
+
+  return { objects, unresolved: pending.length };
+}
+
+export function parseCommit(data: Uint8Array): {
+  tree: string;
+  parents: string[];
+} {
+  const text = new TextDecoder().decode(data);
+  const header = text.split("\n\n", 1)[0] ?? "";
+  let tree = "";
+  const parents: string[] = [];
+  for (const line of header.split("\n")) {
+    if (line.startsWith("tree ")) tree = line.slice(5).trim();
+    else if (line.startsWith("parent ")) parents.push(line.slice(7).trim());
+  }
+  return { tree, parents };
+}
+
+export type TreeEntry = { mode: string; name: string; sha: string };
+
+export function parseTree(data: Uint8Array): TreeEntry[] {
+  const entries: TreeEntry[] = [];
+  const decoder = new TextDecoder();
+  let pos = 0;
+  while (pos < data.byteLength) {
+    const space = data.indexOf(0x20, pos);
+    const nul = data.indexOf(0, space + 1);
+    if (space === -1 || nul === -1 || nul + 21 > data.byteLength) {
+      throw new Error("invalid tree object");
+    }
+    const mode = decoder.decode(data.subarray(pos, space));
+    const name = decoder.decode(data.subarray(space + 1, nul));
+    const sha = Buffer.from(data.subarray(nul + 1, nul + 21)).toString("hex");
+    entries.push({ mode, name, sha });
+    pos = nul + 21;
+  }
+  return entries;
+}
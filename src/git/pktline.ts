@@ -68,3 +68,90 @@ export function parseReceivePackCommands(
 export function isAllZeroSha(sha: string): boolean {
   return /^0{40}$/.test(sha);
 }
+
+// pkt-lines from `start`; a flush is returned as a null payload. With
+// `untilFlush`, reading stops after the first flush (e.g. before a pack).
+function readPktLines(
+  data: Uint8Array,
+  opts: { start?: number; untilFlush?: boolean } = {}
+): { start: number; payload: Uint8Array | null }[] {
+  const lines: { start: number; payload: Uint8Array | null }[] = [];
+  let i = opts.start ?? 0;
+  while (i + 4 <= data.length) {
+    const len = Number.parseInt(readAscii(data.slice(i, i + 4)), 16);
+    if (!Number.isFinite(len)) break;
+    if (len === 0) {
+      lines.push({ start: i, payload: null });
+      i += 4;
+      if (opts.untilFlush) break;
+      continue;
+    }
+    if (len < 4 || i + len > data.length) break;
+    lines.push({ start: i, payload: data.slice(i + 4, i + len) });
+    i += len;
+  }
+  return lines;
+}
+
+// Ref tips from an /info/refs advertisement (refs/heads/* only), keyed by
+// ref name.
+export function parseAdvertisedBranches(
+  infoRefs: Uint8Array
+): Record<string, string> {
+  const refs: Record<string, string> = {};
+  for (const line of readPktLines(infoRefs)) {
+    if (!line.payload) continue;
+    const text = readAscii(line.payload).split("\0", 1)[0]?.trim() ?? "";
+    const m = text.match(/^([0-9a-f]{40}) (refs\/heads\/\S+)$/);
+    if (m) refs[m[2]] = m[1];
+  }
+  return refs;
+}
+
+// Append a capability (e.g. `no-thin`) to the first advertised ref line.
+// Returns the input unchanged when no capability list is found.
+export function addAdvertisedCapability(
+  infoRefs: Uint8Array,
+  capability: string
+): Uint8Array {
+  for (const line of readPktLines(infoRefs)) {
+    if (!line.payload || !line.payload.includes(0)) continue;
+    const text = readAscii(line.payload).replace(/\n$/, "");
+    const payload = new TextEncoder().encode(`${text} ${capability}\n`);
+    const header = new TextEncoder().encode(
+      (payload.byteLength + 4).toString(16).padStart(4, "0")
+    );
+    const oldEnd = line.start + 4 + line.payload.byteLength;
+    const out = new Uint8Array(
+      infoRefs.byteLength - (oldEnd - line.start) + 4 + payload.byteLength
+    );
+    out.set(infoRefs.subarray(0, line.start), 0);
+    out.set(header, line.start);
+    out.set(payload, line.start + 4);
+    out.set(infoRefs.subarray(oldEnd), line.start + 4 + payload.byteLength);
+    return out;
+  }
+  return infoRefs;
+}
+
+// The packfile following the command section (and push options, if any)
+// of a receive-pack request; null when the push sends no pack.
+export function extractReceivePackPackfile(
+  body: Uint8Array
+): Uint8Array | null {
+  const isPack = (at: number) => readAscii(body.slice(at, at + 4)) === "PACK";
+
+  const commandsFlush = readPktLines(body, { untilFlush: true }).at(-1);
+  if (!commandsFlush || commandsFlush.payload) return null;
+  let packStart = commandsFlush.start + 4;
+  if (!isPack(packStart)) {
+    // Push options (if negotiated) follow as another pkt-line section.
+    const optionsFlush = readPktLines(body, {
+      start: packStart,
+      untilFlush: true,
+    }).at(-1);
+    if (!optionsFlush || optionsFlush.payload) return null;
+    packStart = optionsFlush.start + 4;
+  }
+  return isPack(packStart) ? body.subarray(packStart) : null;
+}
@@ -0,0 +1,255 @@
+import {
+  MAX_INSPECTED_PACK_BYTES,
+  type PackObject,
+  type ParsedPack,
+  parseCommit,
+  parsePackfile,
+  parseTree,
+} from "./packfile";
+import { isAllZeroSha, type ReceivePackCommand } from "./pktline";
+
+// Per-session push constraints chosen at creation and shown in the approval
+// prompt, on top of the fixed rules (no deletes, no tags, default branch
+// only when allowed).
+export type PushPolicy = {
+  // Ref globs the push may update; null allows any branch.
+  refPatterns: string[] | null;
+  // Reject updates that don't fast-forward the advertised ref tip.
+  denyForcePush: boolean;
+  // Paths (`dir/` for a directory) the pushed commits may not change.
+  protectedPaths: string[];
+};
+
+// `agent/*` -> `refs/heads/agent/*`. `*` matches within one path segment,
+// `**` across segments.
+export function normalizeRefPattern(raw: string): string {
+  const p = raw.trim();
+  if (!p || !/^[A-Za-z0-9._/*-]+$/.test(p) || p.includes("..")) {
+    throw new Error(`invalid ref pattern: ${raw}`);
+  }
+  return p.startsWith("refs/") ? p : `refs/heads/${p}`;
+}
+
+function refPatternRegex(pattern: string): RegExp {
+  const re = pattern
+    .split("**")
+    .map((part) =>
+      part
+        .split("*")
+        .map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[^/]*")
+    )
+    .join(".*");
+  return new RegExp(`^${re}$`);
+}
+
+export function refMatchesPatterns(ref: string, patterns: string[]): boolean {
+  return patterns.some((p) => refPatternRegex(p).test(ref));
+}
+
+// `/.github/workflows` -> `.github/workflows/` when marked as a directory;
+// paths are repository-relative.
+export function normalizeProtectedPath(raw: string): string {
+  const p = raw.trim().replace(/^\/+/, "");
+  const segments = p.replace(/\/$/, "").split("/");
+  if (!p || segments.some((s) => !s || s === "." || s === "..")) {
+    throw new Error(`invalid protected path: ${raw}`);
+  }
+  return p;
+}
+
+export type PushPolicyCheck = { ok: true } | { ok: false; message: string };
+
+function isFastForward(
+  pack: ParsedPack,
+  baseSha: string,
+  newSha: string
+): boolean {
+  // Walk the pushed commits back from the new tip. Commits the remote
+  // already has aren't in the pack; reaching the advertised tip through the
+  // pack proves the update fast-forwards it.
+  const seen = new Set<string>();
+  const queue = [newSha];
+  while (queue.length) {
+    const sha = queue.shift() ?? "";
+    if (sha === baseSha) return true;
+    if (seen.has(sha)) continue;
+    seen.add(sha);
+    const obj = pack.objects.get(sha);
+    if (obj?.type !== "commit") continue;
+    queue.push(...parseCommit(obj.data).parents);
+  }
+  return false;
+}
+
+const TREE_MODE = "40000";
+
+// Whether `path` differs between two root trees (null for a root commit's
+// missing parent). Unchanged subtrees share an object id, so only trees on
+// the path that differ need to be read; one that can't be read counts as a
+// change.
+function pathChanged(
+  objects: Map<string, PackObject>,
+  oldTree: string | null,
+  newTree: string,
+  path: string
+): boolean {
+  const segments = path.replace(/\/$/, "").split("/");
+  let before: string | null = oldTree;
+  let after = newTree;
+  for (let i = 0; i < segments.length; i++) {
+    if (before === after) return false;
+    const entries = (sha: string | null) => {
+      if (sha === null) return [];
+      const obj = objects.get(sha);
+      return obj?.type === "tree" ? parseTree(obj.data) : null;
+    };
+    const oldEntries = entries(before);
+    const newEntries = entries(after);
+    if (!oldEntries || !newEntries) return true;
+    const a = oldEntries.find((e) => e.name === segments[i]);
+    const b = newEntries.find((e) => e.name === segments[i]);
+    if (!a && !b) return false;
+    if (!a || !b) return true;
+    if (a.sha === b.sha && a.mode === b.mode) return false;
+    if (i === segments.length - 1) return true;
+    if (a.mode !== TREE_MODE || b.mode !== TREE_MODE) return true;
+    before = a.sha;
+    after = b.sha;
+  }
+  return false;
+}
+
+export async function checkPushPolicy(params: {
+  policy: PushPolicy;
+  commands: ReceivePackCommand[];
+  // Branch tips advertised in the session's /info/refs handshake.
+  advertisedBranches: Record<string, string> | null;
+  packfile: Uint8Array | null;
+  // Commits (and their trees) the remote already has, for comparing pushed
+  // commits with parents that aren't in the pack.
+  loadRemoteCommits: (shas: string[]) => Promise<Map<string, PackObject>>;
+}): Promise<PushPolicyCheck> {
+  const { policy, commands } = params;
+  const updates = commands.filter((c) => !isAllZeroSha(c.newSha));
+
+  if (policy.refPatterns) {
+    for (const cmd of updates) {
+      if (!refMatchesPatterns(cmd.ref, policy.refPatterns)) {
+        return {
+          ok: false,
+          message: `${cmd.ref} is outside this session's allowed refs (${policy.refPatterns.join(", ")})`,
+        };
+      }
+    }
+  }
+
+  if (!policy.denyForcePush && !policy.protectedPaths.length) {
+    return { ok: true };
+  }
+
+  let pack: ParsedPack = { objects: new Map(), unresolved: 0 };
+  if (params.packfile) {
+    try {
+      pack = parsePackfile(params.packfile, {
+        maxInflatedBytes: MAX_INSPECTED_PACK_BYTES,
+      });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      return { ok: false, message: `push could not be inspected: ${msg}` };
+    }
+  }
+
+  if (policy.denyForcePush) {
+    if (!params.advertisedBranches) {
+      return {
+        ok: false,
+        message: "push could not be inspected: no ref advertisement",
+      };
+    }
+    for (const cmd of updates) {
+      const advertised = params.advertisedBranches[cmd.ref];
+      if (advertised === undefined) {
+        // A new branch; anything else means the client saw different refs.
+        if (isAllZeroSha(cmd.oldSha)) continue;
+        return { ok: false, message: `${cmd.ref} was not advertised` };
+      }
+      if (cmd.oldSha !== advertised) {
+        return {
+          ok: false,
+          message: `${cmd.ref} changed since the handshake`,
+        };
+      }
+      if (
+        cmd.newSha !== advertised &&
+        !isFastForward(pack, advertised, cmd.newSha)
+      ) {
+        return {
+          ok: false,
+          message: `non-fast-forward (force) push to ${cmd.ref} is not allowed`,
+        };
+      }
+    }
+  }
+
+  if (policy.protectedPaths.length) {
+    // The handshake asks for a self-contained pack (`no-thin`), so every
+    // object must resolve.
+    if (pack.unresolved) {
+      return {
+        ok: false,
+        message:
+          "push could not be inspected: thin pack (retry with --no-thin)",
+      };
+    }
+    // Each pushed commit is compared with every parent, so a merge can't
+    // bring back an older version of a protected path either.
+    const commits = [...pack.objects]
+      .filter(([, obj]) => obj.type === "commit")
+      .map(([sha, obj]) => ({ sha, ...parseCommit(obj.data) }));
+    const remoteParents = [
+      ...new Set(commits.flatMap((c) => c.parents)),
+    ].filter((sha) => !pack.objects.has(sha));
+    const objects = new Map(pack.objects);
+    if (remoteParents.length) {
+      try {
+        for (const [sha, obj] of await params.loadRemoteCommits(
+          remoteParents
+        )) {
+          if (!objects.has(sha)) objects.set(sha, obj);
+        }
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        return {
+          ok: false,
+          message: `push could not be inspected: parent commits unavailable (${msg})`,
+        };
+      }
+    }
+    for (const commit of commits) {
+      const parentTrees: (string | null)[] = [];
+      for (const parent of commit.parents) {
+        const obj = objects.get(parent);
+        if (obj?.type !== "commit") {
+          return {
+            ok: false,
+            message: `push could not be inspected: parent ${parent.slice(0, 12)} of ${commit.sha.slice(0, 12)} unavailable`,
+          };
+        }
+        parentTrees.push(parseCommit(obj.data).tree);
+      }
+      if (!parentTrees.length) parentTrees.push(null);
+      const path = policy.protectedPaths.find((p) =>
+        parentTrees.some((t) => pathChanged(objects, t, commit.tree, p))
+      );
+      if (path) {
+        return {
+          ok: false,
+          message: `commit ${commit.sha.slice(0, 12)} changes protected path ${path}`,
+        };
+      }
+    }
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,118 @@
+import { ulid } from "ulid";
+
+import { db } from "../db/client";
+import type { PushSummary } from "./pushSummary";
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+export type PushReviewStatus = "PENDING" | "FORWARDED" | "REJECTED" | "EXPIRED";
+
+export type PushReviewRow = {
+  id: string;
+  session_id: string;
+  user_id: string;
+  status: PushReviewStatus;
+  summary_json: string;
+  created_at: string;
+  expires_at: string;
+  decided_at: string | null;
+};
+
+// In-process waiters: the held receive-pack request waits here until the
+// Telegram decision (decidePushReview) wakes it.
+const waiters = new Map<string, Set<() => void>>();
+
+export async function createPushReview(params: {
+  sessionId: string;
+  userId: string;
+  summary: PushSummary;
+  ttlMs: number;
+}): Promise<{ reviewId: string; expiresAt: string }> {
+  const reviewId = ulid();
+  const now = nowIso();
+  const expiresAt = new Date(Date.now() + params.ttlMs).toISOString();
+  await db()
+    .query(
+      "INSERT INTO git_push_reviews (id, session_id, user_id, status, summary_json, created_at, expires_at, decided_at) VALUES (?, ?, ?, 'PENDING', ?, ?, ?, NULL);"
+    )
+    .run(
+      reviewId,
+      params.sessionId,
+      params.userId,
+      JSON.stringify(params.summary),
+      now,
+      expiresAt
+    );
+  return { reviewId, expiresAt };
+}
+
+export async function getPushReview(params: {
+  reviewId: string;
+  userId: string;
+}): Promise<PushReviewRow | null> {
+  return (await db()
+    .query(
+      "SELECT id, session_id, user_id, status, summary_json, created_at, expires_at, decided_at FROM git_push_reviews WHERE id = ? AND user_id = ?;"
+    )
+    .get(params.reviewId, params.userId)) as PushReviewRow | null;
+}
+
+// PENDING -> FORWARDED/REJECTED/EXPIRED; false when the review was already
+// decided (or, for a human decision, has expired).
+export async function decidePushReview(params: {
+  reviewId: string;
+  userId: string;
+  status: Exclude<PushReviewStatus, "PENDING">;
+}): Promise<boolean> {
+  const now = nowIso();
+  const res =
+    params.status === "EXPIRED"
+      ? await db()
+          .query(
+            "UPDATE git_push_reviews SET status = 'EXPIRED', decided_at = ? WHERE id = ? AND user_id = ? AND status = 'PENDING';"
+          )
+          .run(now, params.reviewId, params.userId)
+      : await db()
+          .query(
+            "UPDATE git_push_reviews SET status = ?, decided_at = ? WHERE id = ? AND user_id = ? AND status = 'PENDING' AND expires_at > ?;"
+          )
+          .run(params.status, now, params.reviewId, params.userId, now);
+  if (res.changes !== 1) return false;
+
+  const set = waiters.get(params.reviewId);
+  if (set) {
+    for (const wake of [...set]) wake();
+  }
+  return true;
+}
+
+// Resolves when the review is decided, on timeout, or when `signal` aborts
+// (the git client disconnected).
+export function waitForPushReviewDecision(params: {
+  reviewId: string;
+  timeoutMs: number;
+  signal?: AbortSignal;
+}): Promise<void> {
+  return new Promise((resolve) => {
+    let set = waiters.get(params.reviewId);
+    if (!set) {
+      set = new Set();
+      waiters.set(params.reviewId, set);
+    }
+
+    const done = () => {
+      clearTimeout(timer);
+      params.signal?.removeEventListener("abort", done);
+      const s = waiters.get(params.reviewId);
+      s?.delete(done);
+      if (s && s.size === 0) waiters.delete(params.reviewId);
+      resolve();
+    };
+    const timer = setTimeout(done, params.timeoutMs);
+
+    set.add(done);
+    params.signal?.addEventListener("abort", done, { once: true });
+  });
+}
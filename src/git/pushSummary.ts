@@ -0,0 +1,241 @@
+import { type ParsedPack, parseCommit, parseTree } from "./packfile";
+import { isAllZeroSha, type ReceivePackCommand } from "./pktline";
+
+// What a push would change, read from its packfile, for the review prompt
+// sent before the push is forwarded.
+
+export type PushFileChange = {
+  path: string;
+  // `changed`: the previous version lives on the remote (not in the pack),
+  // so whether the path is new or modified, and by how much, is unknown.
+  status: "added" | "modified" | "deleted" | "changed";
+  additions: number | null;
+  deletions: number | null;
+};
+
+export type PushCommitSummary = {
+  sha: string;
+  author: string;
+  subject: string;
+  files: PushFileChange[];
+  // Files beyond MAX_FILES_PER_COMMIT.
+  omittedFiles: number;
+};
+
+export type PushSummary = {
+  refs: ReceivePackCommand[];
+  // Newest first.
+  commits: PushCommitSummary[];
+  // Commits beyond MAX_COMMITS.
+  omittedCommits: number;
+};
+
+const MAX_COMMITS = 20;
+const MAX_FILES_PER_COMMIT = 50;
+const TREE_MODE = "40000";
+
+function parseCommitMeta(data: Uint8Array): {
+  author: string;
+  subject: string;
+} {
+  const text = new TextDecoder().decode(data);
+  const split = text.indexOf("\n\n");
+  const header = split === -1 ? text : text.slice(0, split);
+  const message = split === -1 ? "" : text.slice(split + 2);
+  const authorLine =
+    header.split("\n").find((l) => l.startsWith("author ")) ?? "";
+  // `author Name <email> 1700000000 +0000`
+  const author = authorLine
+    .slice("author ".length)
+    .replace(/\s+\d+\s+[+-]\d{4}$/, "");
+  const subject = message.split("\n", 1)[0]?.trim() ?? "";
+  return { author, subject };
+}
+
+function countLines(data: Uint8Array): number {
+  if (!data.byteLength) return 0;
+  let n = 0;
+  for (const b of data) if (b === 0x0a) n++;
+  return data[data.byteLength - 1] === 0x0a ? n : n + 1;
+}
+
+// Line-multiset diffstat: cheap and close to `git diff --stat` for typical
+// edits (moved lines count as unchanged).
+function lineDiff(
+  oldData: Uint8Array,
+  newData: Uint8Array
+): { additions: number; deletions: number } {
+  const decoder = new TextDecoder();
+  const counts = new Map<string, number>();
+  const oldLines = decoder.decode(oldData).split("\n");
+  const newLines = decoder.decode(newData).split("\n");
+  if (oldLines.at(-1) === "") oldLines.pop();
+  if (newLines.at(-1) === "") newLines.pop();
+  for (const l of oldLines) counts.set(l, (counts.get(l) ?? 0) + 1);
+  let additions = 0;
+  for (const l of newLines) {
+    const c = counts.get(l) ?? 0;
+    if (c > 0) counts.set(l, c - 1);
+    else additions++;
+  }
+  let deletions = 0;
+  for (const c of counts.values()) deletions += c;
+  return { additions, deletions };
+}
+
+type TreeEntries = Map<string, { mode: string; sha: string }>;
+
+function treeEntries(pack: ParsedPack, sha: string): TreeEntries | null {
+  const obj = pack.objects.get(sha);
+  if (obj?.type !== "tree") return null;
+  return new Map(
+    parseTree(obj.data).map((e) => [e.name, { mode: e.mode, sha: e.sha }])
+  );
+}
+
+function blobLines(pack: ParsedPack, sha: string): number | null {
+  const obj = pack.objects.get(sha);
+  return obj?.type === "blob" ? countLines(obj.data) : null;
+}
+
+// Changes from `oldTree` to `newTree` ("" for the empty tree). A null old
+// tree means the parent commit is on the remote: only paths whose new objects
+// are in the pack are known to have changed.
+function diffTrees(
+  pack: ParsedPack,
+  oldTree: string | null,
+  newTree: string,
+  prefix: string,
+  out: PushFileChange[]
+): void {
+  const next = treeEntries(pack, newTree);
+  if (!next) return;
+  let prev: TreeEntries | null = null;
+  if (oldTree === "") prev = new Map();
+  else if (oldTree !== null) prev = treeEntries(pack, oldTree);
+
+  for (const [name, entry] of next) {
+    const path = `${prefix}${name}`;
+    const before = prev?.get(name);
+    if (before?.sha === entry.sha) continue;
+    const isTree = entry.mode === TREE_MODE;
+
+    if (!prev) {
+      if (!pack.objects.has(entry.sha)) continue;
+      if (isTree) diffTrees(pack, null, entry.sha, `${path}/`, out);
+      else {
+        out.push({
+          path,
+          status: "changed",
+          additions: blobLines(pack, entry.sha),
+          deletions: null,
+        });
+      }
+      continue;
+    }
+
+    if (isTree) {
+      const beforeTree = before?.mode === TREE_MODE ? before.sha : null;
+      if (beforeTree && !pack.objects.has(beforeTree)) {
+        // The old subtree is on the remote; diff what the pack has.
+        diffTrees(pack, null, entry.sha, `${path}/`, out);
+      } else {
+        diffTrees(pack, beforeTree ?? "", entry.sha, `${path}/`, out);
+      }
+      if (before && before.mode !== TREE_MODE) {
+        out.push({
+          path,
+          status: "deleted",
+          additions: 0,
+          deletions: blobLines(pack, before.sha),
+        });
+      }
+      continue;
+    }
+
+    if (!before) {
+      out.push({
+        path,
+        status: "added",
+        additions: blobLines(pack, entry.sha),
+        deletions: 0,
+      });
+      continue;
+    }
+    const oldBlob = pack.objects.get(before.sha);
+    const newBlob = pack.objects.get(entry.sha);
+    const stat =
+      oldBlob?.type === "blob" && newBlob?.type === "blob"
+        ? lineDiff(oldBlob.data, newBlob.data)
+        : { additions: null, deletions: null };
+    out.push({ path, status: "modified", ...stat });
+  }
+
+  if (!prev) return;
+  for (const [name, entry] of prev) {
+    if (next.has(name)) continue;
+    const path = `${prefix}${name}`;
+    if (entry.mode === TREE_MODE) {
+      out.push({
+        path: `${path}/`,
+        status: "deleted",
+        additions: 0,
+        deletions: null,
+      });
+    } else {
+      out.push({
+        path,
+        status: "deleted",
+        additions: 0,
+        deletions: blobLines(pack, entry.sha),
+      });
+    }
+  }
+}
+
+export function summarizePush(params: {
+  commands: ReceivePackCommand[];
+  pack: ParsedPack;
+}): PushSummary {
+  const { pack } = params;
+
+  // Pushed commits reachable from the new tips, newest first.
+  const order: string[] = [];
+  const seen = new Set<string>();
+  const queue = params.commands
+    .filter((c) => !isAllZeroSha(c.newSha))
+    .map((c) => c.newSha);
+  while (queue.length) {
+    const sha = queue.shift() ?? "";
+    if (seen.has(sha)) continue;
+    seen.add(sha);
+    const obj = pack.objects.get(sha);
+    if (obj?.type !== "commit") continue;
+    order.push(sha);
+    queue.push(...parseCommit(obj.data).parents);
+  }
+
+  const commits: PushCommitSummary[] = [];
+  for (const sha of order.slice(0, MAX_COMMITS)) {
+    const data = pack.objects.get(sha)?.data ?? new Uint8Array();
+    const { tree, parents } = parseCommit(data);
+    const parent = parents[0] ? pack.objects.get(parents[0]) : undefined;
+    const parentTree =
+      parent?.type === "commit" ? parseCommit(parent.data).tree : null;
+    // Root commits are diffed against an empty tree.
+    const files: PushFileChange[] = [];
+    diffTrees(pack, parents.length ? parentTree : "", tree, "", files);
+    commits.push({
+      sha,
+      ...parseCommitMeta(data),
+      files: files.slice(0, MAX_FILES_PER_COMMIT),
+      omittedFiles: Math.max(0, files.length - MAX_FILES_PER_COMMIT),
+    });
+  }
+
+  return {
+    refs: params.commands,
+    commits,
+    omittedCommits: Math.max(0, order.length - MAX_COMMITS),
+  };
+}
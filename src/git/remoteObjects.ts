@@ -0,0 +1,118 @@
+import {
+  MAX_INSPECTED_PACK_BYTES,
+  type PackObject,
+  parsePackfile,
+} from "./packfile";
+
+// Commits and trees the remote already has, fetched from the upstream with a
+// protocol v2 `fetch` (one commit deep, no blobs) so a push can be compared
+// with the commits it builds on. See:
+// https://git-scm.com/docs/protocol-v2#_fetch
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function pktLine(text: string): string {
+  return `${(encoder.encode(text).byteLength + 4).toString(16).padStart(4, "0")}${text}`;
+}
+
+// Payloads of a v2 response; flush (0000), delimiter (0001) and response-end
+// (0002) packets are returned as null.
+function readV2PktLines(data: Uint8Array): (Uint8Array | null)[] {
+  const lines: (Uint8Array | null)[] = [];
+  let i = 0;
+  while (i + 4 <= data.length) {
+    const len = Number.parseInt(decoder.decode(data.subarray(i, i + 4)), 16);
+    if (!Number.isFinite(len)) throw new Error("invalid pkt-line length");
+    if (len < 4) {
+      lines.push(null);
+      i += 4;
+      continue;
+    }
+    if (i + len > data.length) throw new Error("truncated pkt-line");
+    lines.push(data.subarray(i + 4, i + len));
+    i += len;
+  }
+  return lines;
+}
+
+// `fetch=shallow filter` -> ["shallow", "filter"].
+function fetchFeatures(advertisement: Uint8Array): string[] | null {
+  for (const payload of readV2PktLines(advertisement)) {
+    if (!payload) continue;
+    const line = decoder.decode(payload).trim();
+    if (line === "fetch") return [];
+    if (line.startsWith("fetch=")) return line.slice(6).split(" ");
+  }
+  return null;
+}
+
+function packFromResponse(data: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let inPack = false;
+  for (const payload of readV2PktLines(data)) {
+    if (!payload) continue;
+    if (!inPack) {
+      const line = decoder.decode(payload).trim();
+      if (line.startsWith("ERR ")) throw new Error(line.slice(4));
+      inPack = line === "packfile";
+      continue;
+    }
+    // Side-band: 1 pack data, 2 progress, 3 error.
+    if (payload[0] === 1) chunks.push(payload.subarray(1));
+    else if (payload[0] === 3) {
+      throw new Error(decoder.decode(payload.subarray(1)).trim());
+    }
+  }
+  if (!inPack) throw new Error("no packfile in upload-pack response");
+  const pack = new Uint8Array(chunks.reduce((n, c) => n + c.byteLength, 0));
+  let off = 0;
+  for (const c of chunks) {
+    pack.set(c, off);
+    off += c.byteLength;
+  }
+  return pack;
+}
+
+export async function fetchCommitTrees(params: {
+  // The repository URL, ending in `.git`.
+  repoUrl: string;
+  authorization: string | null;
+  commits: string[];
+}): Promise<Map<string, PackObject>> {
+  const headers = new Headers({ "git-protocol": "version=2" });
+  if (params.authorization) headers.set("authorization", params.authorization);
+  const signal = AbortSignal.timeout(60_000);
+
+  const refs = await fetch(
+    `${params.repoUrl}/info/refs?service=git-upload-pack`,
+    { headers, signal }
+  );
+  if (!refs.ok) throw new Error(`upstream returned ${refs.status}`);
+  const features = fetchFeatures(new Uint8Array(await refs.arrayBuffer()));
+  if (!features?.includes("shallow")) {
+    throw new Error("upstream does not support shallow protocol v2 fetches");
+  }
+
+  const body =
+    pktLine("command=fetch\n") +
+    "0001" +
+    params.commits.map((sha) => pktLine(`want ${sha}\n`)).join("") +
+    pktLine("deepen 1\n") +
+    (features.includes("filter") ? pktLine("filter blob:none\n") : "") +
+    pktLine("no-progress\n") +
+    pktLine("done\n") +
+    "0000";
+  headers.set("content-type", "application/x-git-upload-pack-request");
+  headers.set("accept", "application/x-git-upload-pack-result");
+  const res = await fetch(`${params.repoUrl}/git-upload-pack`, {
+    method: "POST",
+    headers,
+    body,
+    signal,
+  });
+  if (!res.ok) throw new Error(`upstream returned ${res.status}`);
+  const pack = packFromResponse(new Uint8Array(await res.arrayBuffer()));
+  return parsePackfile(pack, { maxInflatedBytes: MAX_INSPECTED_PACK_BYTES })
+    .objects;
+}
@@ -4,6 +4,8 @@ import { encryptUtf8 } from "../crypto/aesgcm";
 import { randomBase64Url } from "../crypto/random";
 import { sha256Hex } from "../crypto/sha256";
 import { db } from "../db/client";
+import { isoPlusSecondsSql } from "../db/dialect";
+import type { PushPolicy } from "./pushPolicy";
 
 function nowIso(): string {
   return new Date().toISOString();
@@ -27,15 +29,48 @@ export type GitSessionRow = {
   deny_deletes: number;
   deny_tag_updates: number;
   default_branch_ref: string | null;
+  linked_account_id: string | null;
+  ref_patterns_json: string | null;
+  deny_force_push: number;
+  protected_paths_json: string | null;
+  review_push: number;
+  standing: number;
+  expires_at: string | null;
+  max_pushes: number | null;
+  push_count: number;
 };
 
+export type StandingGitSessionLimits = {
+  durationSeconds: number;
+  maxPushes: number | null;
+};
+
+export function pushPolicyFromRow(row: GitSessionRow): PushPolicy {
+  return {
+    refPatterns: row.ref_patterns_json
+      ? (JSON.parse(row.ref_patterns_json) as string[])
+      : null,
+    denyForcePush: row.deny_force_push === 1,
+    protectedPaths: row.protected_paths_json
+      ? (JSON.parse(row.protected_paths_json) as string[])
+      : [],
+  };
+}
+
 export async function createGitSession(params: {
   userId: string;
   apiKeyId: string;
+  provider: string;
   operation: GitOperation;
   repoOwner: string;
   repoName: string;
+  linkedAccountId?: string;
   approvalTtlMs: number;
+  inactivityTimeoutSeconds: number;
+  pushPolicy?: PushPolicy;
+  reviewPush?: boolean;
+  // Reusable across fetch/push cycles until the limits are reached.
+  standing?: StandingGitSessionLimits;
 }): Promise<{
   sessionId: string;
   sessionSecret: string;
@@ -53,16 +88,18 @@ export async function createGitSession(params: {
   const allowDefault = 0;
   const denyDeletes = 1;
   const denyTags = 1;
+  const policy = params.pushPolicy;
 
-  db()
+  await db()
     .query(
-      "INSERT INTO git_sessions (id, user_id, api_key_id, provider, operation, repo_owner, repo_name, status, created_at, updated_at, approval_expires_at, last_activity_at, session_secret_hash, session_secret_ciphertext, allow_default_branch_push, deny_deletes, deny_tag_updates, default_branch_ref, error_code, error_message) " +
-        "VALUES (?, ?, ?, 'github', ?, ?, ?, 'PENDING_APPROVAL', ?, ?, ?, NULL, ?, ?, ?, ?, ?, NULL, NULL, NULL);"
+      "INSERT INTO git_sessions (id, user_id, api_key_id, provider, operation, repo_owner, repo_name, status, created_at, updated_at, approval_expires_at, last_activity_at, session_secret_hash, session_secret_ciphertext, allow_default_branch_push, deny_deletes, deny_tag_updates, default_branch_ref, linked_account_id, inactivity_timeout_seconds, error_code, error_message, ref_patterns_json, deny_force_push, protected_paths_json, review_push, standing, standing_duration_seconds, max_pushes) " +
+        "VALUES (?, ?, ?, ?, ?, ?, ?, 'PENDING_APPROVAL', ?, ?, ?, NULL, ?, ?, ?, ?, ?, NULL, ?, ?, NULL, NULL, ?, ?, ?, ?, ?, ?, ?);"
     )
     .run(
       sessionId,
       params.userId,
       params.apiKeyId,
+      params.provider,
       params.operation,
       params.repoOwner,
       params.repoName,
@@ -73,38 +110,49 @@ export async function createGitSession(params: {
       sessionSecretCiphertext,
       allowDefault,
       denyDeletes,
-      denyTags
+      denyTags,
+      params.linkedAccountId ?? null,
+      params.inactivityTimeoutSeconds,
+      policy?.refPatterns ? JSON.stringify(policy.refPatterns) : null,
+      policy?.denyForcePush ? 1 : 0,
+      policy?.protectedPaths.length
+        ? JSON.stringify(policy.protectedPaths)
+        : null,
+      params.reviewPush ? 1 : 0,
+      params.standing ? 1 : 0,
+      params.standing?.durationSeconds ?? null,
+      params.standing?.maxPushes ?? null
     );
 
   return { sessionId, sessionSecret, approvalExpiresAt };
 }
 
-export function getGitSessionKeyScoped(params: {
+export async function getGitSessionKeyScoped(params: {
   sessionId: string;
   userId: string;
   apiKeyId: string;
-}): GitSessionRow | null {
-  return db()
+}): Promise<GitSessionRow | null> {
+  return (await db()
     .query(
-      "SELECT id, user_id, api_key_id, provider, operation, repo_owner, repo_name, status, approval_expires_at, session_secret_hash, allow_default_branch_push, deny_deletes, deny_tag_updates, default_branch_ref FROM git_sessions WHERE id = ? AND user_id = ? AND api_key_id = ?;"
+      "SELECT id, user_id, api_key_id, provider, operation, repo_owner, repo_name, status, approval_expires_at, session_secret_hash, allow_default_branch_push, deny_deletes, deny_tag_updates, default_branch_ref, linked_account_id, ref_patterns_json, deny_force_push, protected_paths_json, review_push, standing, expires_at, max_pushes, push_count FROM git_sessions WHERE id = ? AND user_id = ? AND api_key_id = ?;"
     )
     .get(
       params.sessionId,
       params.userId,
       params.apiKeyId
-    ) as GitSessionRow | null;
+    )) as GitSessionRow | null;
 }
 
-export function getGitSessionSecretCiphertextKeyScoped(params: {
+export async function getGitSessionSecretCiphertextKeyScoped(params: {
   sessionId: string;
   userId: string;
   apiKeyId: string;
-}): Uint8Array | null {
-  const row = db()
+}): Promise<Uint8Array | null> {
+  const row = (await db()
     .query(
       "SELECT session_secret_ciphertext FROM git_sessions WHERE id = ? AND user_id = ? AND api_key_id = ?;"
     )
-    .get(params.sessionId, params.userId, params.apiKeyId) as {
+    .get(params.sessionId, params.userId, params.apiKeyId)) as {
     session_secret_ciphertext: Uint8Array;
   } | null;
 
@@ -115,11 +163,11 @@ export async function validateGitSessionSecret(params: {
   sessionId: string;
   secret: string;
 }): Promise<GitSessionRow | null> {
-  const row = db()
+  const row = (await db()
     .query(
-      "SELECT id, user_id, api_key_id, provider, operation, repo_owner, repo_name, status, approval_expires_at, session_secret_hash, allow_default_branch_push, deny_deletes, deny_tag_updates, default_branch_ref FROM git_sessions WHERE id = ?;"
+      "SELECT id, user_id, api_key_id, provider, operation, repo_owner, repo_name, status, approval_expires_at, session_secret_hash, allow_default_branch_push, deny_deletes, deny_tag_updates, default_branch_ref, linked_account_id, ref_patterns_json, deny_force_push, protected_paths_json, review_push, standing, expires_at, max_pushes, push_count FROM git_sessions WHERE id = ?;"
     )
-    .get(params.sessionId) as GitSessionRow | null;
+    .get(params.sessionId)) as GitSessionRow | null;
 
   if (!row) return null;
   const h = await sha256Hex(params.secret);
@@ -127,58 +175,163 @@ export async function validateGitSessionSecret(params: {
   return row;
 }
 
-export function setGitSessionStatus(params: {
+// Decides a pending session; false when it was already decided, revoked or
+// past its approval window, so a stale button can't revive it.
+export async function setGitSessionStatus(params: {
   sessionId: string;
   userId: string;
   status: string;
   allowDefaultBranchPush?: boolean;
-}): void {
+  // Only ever turned on: the approver can require review, not waive it.
+  reviewPush?: boolean;
+}): Promise<boolean> {
   const now = nowIso();
-  if (typeof params.allowDefaultBranchPush === "boolean") {
-    db()
+  return db().transaction(async () => {
+    const res = await db()
       .query(
-        "UPDATE git_sessions SET status = ?, allow_default_branch_push = ?, updated_at = ? WHERE id = ? AND user_id = ?;"
+        "UPDATE git_sessions SET status = ?, allow_default_branch_push = COALESCE(?, allow_default_branch_push), updated_at = ? WHERE id = ? AND user_id = ? AND status = 'PENDING_APPROVAL' AND approval_expires_at > ?;"
       )
       .run(
         params.status,
-        params.allowDefaultBranchPush ? 1 : 0,
+        typeof params.allowDefaultBranchPush === "boolean"
+          ? params.allowDefaultBranchPush
+            ? 1
+            : 0
+          : null,
         now,
         params.sessionId,
-        params.userId
+        params.userId,
+        now
       );
-  } else {
-    db()
-      .query(
-        "UPDATE git_sessions SET status = ?, updated_at = ? WHERE id = ? AND user_id = ?;"
-      )
-      .run(params.status, now, params.sessionId, params.userId);
-  }
+    if (res.changes !== 1) return false;
+    if (params.reviewPush) {
+      await db()
+        .query(
+          "UPDATE git_sessions SET review_push = 1 WHERE id = ? AND user_id = ?;"
+        )
+        .run(params.sessionId, params.userId);
+    }
+    if (params.status === "APPROVED") {
+      // Standing sessions run for their duration from the approval.
+      await db()
+        .query(
+          `UPDATE git_sessions SET expires_at = ${isoPlusSecondsSql(db().dialect, "?", "standing_duration_seconds")} ` +
+            "WHERE id = ? AND user_id = ? AND standing = 1 AND expires_at IS NULL;"
+        )
+        .run(now, params.sessionId, params.userId);
+    }
+    return true;
+  });
+}
+
+// Ends a session before its limits; false when it wasn't live.
+export async function revokeGitSession(params: {
+  sessionId: string;
+  userId: string;
+}): Promise<boolean> {
+  const now = nowIso();
+  const res = await db()
+    .query(
+      "UPDATE git_sessions SET status = 'REVOKED', revoked_at = ?, updated_at = ? WHERE id = ? AND user_id = ? AND status IN ('PENDING_APPROVAL', 'APPROVED', 'ACTIVE');"
+    )
+    .run(now, now, params.sessionId, params.userId);
+  return res.changes === 1;
+}
+
+// Ends every unfinished session created with the API key; returns how many.
+export async function revokeGitSessionsForApiKey(params: {
+  apiKeyId: string;
+  userId: string;
+}): Promise<number> {
+  const now = nowIso();
+  const res = await db()
+    .query(
+      "UPDATE git_sessions SET status = 'REVOKED', revoked_at = ?, updated_at = ? WHERE api_key_id = ? AND user_id = ? AND status IN ('PENDING_APPROVAL', 'APPROVED', 'ACTIVE');"
+    )
+    .run(now, now, params.apiKeyId, params.userId);
+  return res.changes;
 }
 
-export function touchGitSessionActivity(sessionId: string): void {
+export type LiveGitSession = {
+  id: string;
+  provider: string;
+  operation: GitOperation;
+  repo_owner: string;
+  repo_name: string;
+  status: string;
+  standing: number;
+  expires_at: string | null;
+  max_pushes: number | null;
+  push_count: number;
+  api_key_id: string;
+  api_key_label: string | null;
+};
+
+// Approved sessions that can still be used, newest first.
+export async function listLiveGitSessions(
+  userId: string
+): Promise<LiveGitSession[]> {
+  return (await db()
+    .query(
+      "SELECT s.id, s.provider, s.operation, s.repo_owner, s.repo_name, s.status, s.standing, s.expires_at, s.max_pushes, s.push_count, s.api_key_id, k.label AS api_key_label " +
+        "FROM git_sessions s LEFT JOIN api_keys k ON k.id = s.api_key_id " +
+        "WHERE s.user_id = ? AND s.status IN ('APPROVED', 'ACTIVE') ORDER BY s.created_at DESC;"
+    )
+    .all(userId)) as LiveGitSession[];
+}
+
+export async function touchGitSessionActivity(
+  sessionId: string
+): Promise<void> {
   const now = nowIso();
-  db()
+  await db()
     .query(
       "UPDATE git_sessions SET last_activity_at = ?, updated_at = ? WHERE id = ?;"
     )
     .run(now, now, sessionId);
 }
 
-export function markGitSessionUsed(sessionId: string): void {
-  db()
+// Counts a forwarded push. One-off sessions are used up by it; standing
+// sessions once they reach max_pushes.
+export async function markGitSessionUsed(sessionId: string): Promise<void> {
+  await db()
     .query(
-      "UPDATE git_sessions SET status = 'USED', updated_at = ? WHERE id = ?;"
+      "UPDATE git_sessions SET push_count = push_count + 1, " +
+        "status = CASE WHEN standing = 1 AND (max_pushes IS NULL OR push_count + 1 < max_pushes) THEN status ELSE 'USED' END, " +
+        "updated_at = ? WHERE id = ?;"
     )
     .run(nowIso(), sessionId);
 }
 
-export function storeDefaultBranchRef(params: {
+export async function storeDefaultBranchRef(params: {
   sessionId: string;
   ref: string;
-}): void {
-  db()
+}): Promise<void> {
+  await db()
     .query(
       "UPDATE git_sessions SET default_branch_ref = ?, updated_at = ? WHERE id = ? AND default_branch_ref IS NULL;"
     )
     .run(params.ref, nowIso(), params.sessionId);
 }
+
+// Branch tips from the latest push handshake, for force-push detection.
+export async function storeAdvertisedBranches(params: {
+  sessionId: string;
+  branches: Record<string, string>;
+}): Promise<void> {
+  await db()
+    .query(
+      "UPDATE git_sessions SET advertised_branches_json = ?, updated_at = ? WHERE id = ?;"
+    )
+    .run(JSON.stringify(params.branches), nowIso(), params.sessionId);
+}
+
+export async function getAdvertisedBranches(
+  sessionId: string
+): Promise<Record<string, string> | null> {
+  const row = (await db()
+    .query("SELECT advertised_branches_json FROM git_sessions WHERE id = ?;")
+    .get(sessionId)) as { advertised_branches_json: string | null } | null;
+  if (!row?.advertised_branches_json) return null;
+  return JSON.parse(row.advertised_branches_json) as Record<string, string>;
+}
@@ -1,25 +1,65 @@
+import { auditEvent } from "../audit/audit";
+import type { AuditEventCatalog } from "../audit/events";
 import { db } from "../db/client";
+import { isoPlusSecondsSql } from "../db/dialect";
 
 function nowIso(): string {
   return new Date().toISOString();
 }
 
-export function sweepGitSessions(): void {
+type ExpiredSession = { id: string; user_id: string };
+
+async function auditExpired(
+  rows: ExpiredSession[],
+  reason: AuditEventCatalog["git_session_expired"]["reason"]
+): Promise<void> {
+  for (const row of rows) {
+    await auditEvent({
+      userId: row.user_id,
+      actorType: "system",
+      actorId: "sweeper",
+      eventType: "git_session_expired",
+      event: { sessionId: row.id, reason },
+    });
+  }
+}
+
+export async function sweepGitSessions(): Promise<void> {
   const now = nowIso();
 
   // Expire pending approvals.
-  db()
-    .query(
-      "UPDATE git_sessions SET status = 'EXPIRED', updated_at = ? WHERE status = 'PENDING_APPROVAL' AND approval_expires_at < ?;"
-    )
-    .run(now, now);
+  await auditExpired(
+    (await db()
+      .query(
+        "UPDATE git_sessions SET status = 'EXPIRED', updated_at = ? WHERE status = 'PENDING_APPROVAL' AND approval_expires_at < ? RETURNING id, user_id;"
+      )
+      .all(now, now)) as ExpiredSession[],
+    "approval_timeout"
+  );
+
+  // Expire approved/active sessions after their inactivity window (per
+  // session; 2 minutes for sessions created before it was configurable).
+  // Timestamps are ISO strings, so the cutoff is formatted the same way.
+  // A push held for review isn't idle. Standing sessions don't idle out;
+  // they end at expires_at.
+  await auditExpired(
+    (await db()
+      .query(
+        "UPDATE git_sessions SET status = 'EXPIRED', updated_at = ? WHERE status IN ('APPROVED', 'ACTIVE') " +
+          "AND standing = 0 AND id NOT IN (SELECT session_id FROM git_push_reviews WHERE status = 'PENDING') " +
+          `AND ${isoPlusSecondsSql(db().dialect, "COALESCE(last_activity_at, updated_at)", "COALESCE(inactivity_timeout_seconds, 120)")} < ? ` +
+          "RETURNING id, user_id;"
+      )
+      .all(now, now)) as ExpiredSession[],
+    "inactivity"
+  );
 
-  // Expire approved/active sessions after short inactivity window.
-  // (Sessions are intended to be short-lived for a single clone/push.)
-  const inactiveCutoff = new Date(Date.now() - 2 * 60_000).toISOString();
-  db()
-    .query(
-      "UPDATE git_sessions SET status = 'EXPIRED', updated_at = ? WHERE status IN ('APPROVED', 'ACTIVE') AND COALESCE(last_activity_at, updated_at) < ?;"
-    )
-    .run(now, inactiveCutoff);
+  await auditExpired(
+    (await db()
+      .query(
+        "UPDATE git_sessions SET status = 'EXPIRED', updated_at = ? WHERE status IN ('APPROVED', 'ACTIVE') AND standing = 1 AND expires_at < ? RETURNING id, user_id;"
+      )
+      .all(now, now)) as ExpiredSession[],
+    "max_duration"
+  );
 }
@@ -1,3 +1,10 @@
+export type OAuthAccountIdentity = {
+  // Stable provider-side id, stored as linked_accounts.provider_user_id.
+  providerUserId: string;
+  // Default label for the account (login, email, display name).
+  displayName?: string;
+};
+
 export type OAuthProviderConfig = {
   id: string;
   issuer: string;
@@ -8,4 +15,7 @@ export type OAuthProviderConfig = {
   scopes: string[];
   pkceRequired: boolean;
   extraAuthorizeParams?: Record<string, string>;
+  // Identifies the account behind a fresh access token so reconnecting the
+  // same account updates it and a different account is added alongside.
+  fetchAccountIdentity?: (accessToken: string) => Promise<OAuthAccountIdentity>;
 };
@@ -3,9 +3,28 @@ import { googleProvider } from "../providers/google/oauth";
 import { spotifyProvider } from "../providers/spotify/oauth";
 import type { OAuthProviderConfig } from "./provider";
 
+// OAuth providers from declarative definitions (see providers/declarative).
+// Factories run per use so missing client credentials surface as errors at
+// connect time, like the built-ins.
+const registered = new Map<string, () => OAuthProviderConfig>();
+
+export function registerOAuthProvider(
+  providerId: string,
+  factory: () => OAuthProviderConfig
+): void {
+  registered.set(providerId, factory);
+}
+
+// For tests.
+export function unregisterOAuthProvider(providerId: string): void {
+  registered.delete(providerId);
+}
+
 export function getProvider(providerId: string): OAuthProviderConfig {
   if (providerId === "google") return googleProvider();
   if (providerId === "github") return githubProvider();
   if (providerId === "spotify") return spotifyProvider();
+  const factory = registered.get(providerId);
+  if (factory) return factory();
   throw new Error(`unknown provider: ${providerId}`);
 }
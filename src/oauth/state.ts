@@ -5,17 +5,17 @@ function nowIso(): string {
   return new Date().toISOString();
 }
 
-export function createOauthState(params: {
+export async function createOauthState(params: {
   userId: string;
   provider: string;
   ttlMs: number;
   pkceVerifier?: string;
-}): { state: string } {
+}): Promise<{ state: string }> {
   const state = randomBase64Url(32);
   const createdAt = nowIso();
   const expiresAt = new Date(Date.now() + params.ttlMs).toISOString();
 
-  db()
+  await db()
     .query(
       "INSERT INTO oauth_states (state, user_id, provider, created_at, expires_at, used_at, pkce_verifier) VALUES (?, ?, ?, ?, ?, NULL, ?);"
     )
@@ -31,15 +31,18 @@ export function createOauthState(params: {
   return { state };
 }
 
-export function getOauthState(params: { state: string; provider: string }): {
+export async function getOauthState(params: {
+  state: string;
+  provider: string;
+}): Promise<{
   userId: string;
   pkceVerifier: string | null;
-} {
-  const row = db()
+}> {
+  const row = (await db()
     .query(
       "SELECT user_id, pkce_verifier, expires_at, used_at FROM oauth_states WHERE state = ? AND provider = ?;"
     )
-    .get(params.state, params.provider) as {
+    .get(params.state, params.provider)) as {
     user_id: string;
     pkce_verifier: string | null;
     expires_at: string;
@@ -55,8 +58,8 @@ export function getOauthState(params: { state: string; provider: string }): {
   return { userId: row.user_id, pkceVerifier: row.pkce_verifier };
 }
 
-export function markOauthStateUsed(state: string): void {
-  db()
+export async function markOauthStateUsed(state: string): Promise<void> {
+  await db()
     .query("UPDATE oauth_states SET used_at = ? WHERE state = ?;")
     .run(nowIso(), state);
 }
@@ -0,0 +1,148 @@
+import type * as oauth from "oauth4webapi";
+
+import { decryptUtf8, encryptUtf8 } from "../crypto/aesgcm";
+import { db } from "../db/client";
+import type { CredentialHealth } from "../proxy/provider";
+import { OAuthTokenRefreshError } from "./flow";
+
+// Access tokens are cached per linked account (encrypted, in
+// linked_accounts) until shortly before they expire, so executes don't call
+// the provider's token endpoint every time.
+
+// Treat a cached token as expired this long before its real expiry, to cover
+// clock skew and the upstream call itself.
+const EXPIRY_SKEW_MS = 60_000;
+// Within this window a still-valid token is returned, and a refresh starts in
+// the background so the next caller gets a fresh one.
+const PROACTIVE_REFRESH_MS = 5 * 60_000;
+
+// One refresh per linked account at a time: concurrent executes share it
+// (and a rotated refresh token is only used once).
+const inFlight = new Map<string, Promise<string>>();
+
+async function refreshAndStore(params: {
+  linkedAccountId: string;
+  refresh: () => Promise<oauth.TokenEndpointResponse>;
+}): Promise<string> {
+  const token = await params.refresh();
+
+  const expiresAt =
+    typeof token.expires_in === "number" && token.expires_in > 0
+      ? new Date(Date.now() + token.expires_in * 1000).toISOString()
+      : null;
+  // Without an expiry there is nothing safe to cache.
+  const accessCiphertext = expiresAt
+    ? await encryptUtf8(token.access_token)
+    : null;
+
+  if (token.refresh_token) {
+    // Providers that rotate refresh tokens invalidate the old one; persist
+    // the new one with the access token.
+    const refreshCiphertext = await encryptUtf8(token.refresh_token);
+    await db()
+      .query(
+        "UPDATE linked_accounts SET access_token_ciphertext = ?, access_token_expires_at = ?, refresh_token_ciphertext = ? WHERE id = ? AND status = 'active';"
+      )
+      .run(
+        accessCiphertext,
+        expiresAt,
+        refreshCiphertext,
+        params.linkedAccountId
+      );
+  } else {
+    await db()
+      .query(
+        "UPDATE linked_accounts SET access_token_ciphertext = ?, access_token_expires_at = ? WHERE id = ? AND status = 'active';"
+      )
+      .run(accessCiphertext, expiresAt, params.linkedAccountId);
+  }
+
+  return token.access_token;
+}
+
+function refreshOnce(params: {
+  linkedAccountId: string;
+  refresh: () => Promise<oauth.TokenEndpointResponse>;
+}): Promise<string> {
+  const existing = inFlight.get(params.linkedAccountId);
+  if (existing) return existing;
+
+  const p = refreshAndStore(params).finally(() => {
+    inFlight.delete(params.linkedAccountId);
+  });
+  inFlight.set(params.linkedAccountId, p);
+  return p;
+}
+
+// Return an access token for the linked account, using the cached one while
+// it is valid. `refresh` performs the refresh-token grant; without a
+// linkedAccountId nothing is cached.
+export async function getCachedAccessToken(params: {
+  linkedAccountId?: string;
+  refresh: () => Promise<oauth.TokenEndpointResponse>;
+}): Promise<string> {
+  const { linkedAccountId } = params;
+  if (!linkedAccountId) return (await params.refresh()).access_token;
+
+  const row = (await db()
+    .query(
+      "SELECT access_token_ciphertext, access_token_expires_at FROM linked_accounts WHERE id = ? AND status = 'active';"
+    )
+    .get(linkedAccountId)) as {
+    access_token_ciphertext: Uint8Array | null;
+    access_token_expires_at: string | null;
+  } | null;
+
+  if (row?.access_token_ciphertext && row.access_token_expires_at) {
+    const remainingMs = Date.parse(row.access_token_expires_at) - Date.now();
+    if (remainingMs > EXPIRY_SKEW_MS) {
+      if (remainingMs < PROACTIVE_REFRESH_MS) {
+        refreshOnce({ linkedAccountId, refresh: params.refresh }).catch(
+          () => {}
+        );
+      }
+      return decryptUtf8(row.access_token_ciphertext);
+    }
+  }
+
+  return refreshOnce({ linkedAccountId, refresh: params.refresh });
+}
+
+// Drop the cached access token, e.g. after the upstream rejected it.
+export async function clearCachedAccessToken(
+  linkedAccountId: string
+): Promise<void> {
+  await db()
+    .query(
+      "UPDATE linked_accounts SET access_token_ciphertext = NULL, access_token_expires_at = NULL WHERE id = ?;"
+    )
+    .run(linkedAccountId);
+}
+
+// Run the refresh-token grant (sharing an in-flight one) to find out whether
+// the provider still accepts the refresh token. `invalid_grant` means it was
+// revoked or expired and the user has to reconnect.
+export async function checkRefreshTokenHealth(params: {
+  linkedAccountId?: string;
+  refresh: () => Promise<oauth.TokenEndpointResponse>;
+}): Promise<CredentialHealth> {
+  const { linkedAccountId } = params;
+  try {
+    if (linkedAccountId) {
+      await refreshOnce({ linkedAccountId, refresh: params.refresh });
+    } else {
+      await params.refresh();
+    }
+    return { ok: true };
+  } catch (err) {
+    if (err instanceof OAuthTokenRefreshError) {
+      return {
+        ok: false,
+        needsReauth: err.oauthError === "invalid_grant",
+        message: err.message,
+      };
+    }
+    const msg = err instanceof Error ? err.message : String(err);
+    return { ok: false, needsReauth: false, message: msg };
+  }
+}
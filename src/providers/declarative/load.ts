@@ -0,0 +1,98 @@
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+
+import { registerOAuthProvider } from "../../oauth/registry";
+import {
+  listProxyProviders,
+  registerProxyProvider,
+} from "../../proxy/providerRegistry";
+import { validateRedactionRule } from "../../proxy/redaction";
+import {
+  buildDeclarativeOAuthProvider,
+  buildDeclarativeProxyProvider,
+} from "./provider";
+import { type ProviderDefinition, ProviderDefinitionSchema } from "./schema";
+
+function formatIssues(err: {
+  issues: { path: PropertyKey[]; message: string }[];
+}): string {
+  return err.issues
+    .map((i) => `${i.path.map(String).join(".") || "(root)"}: ${i.message}`)
+    .join("; ");
+}
+
+// Validate a definition and add it to the proxy (and, for oauth2, OAuth)
+// registries. Ids and hosts must not collide with already registered
+// providers, since URL-based provider selection takes the first match.
+export function registerProviderDefinition(raw: unknown): ProviderDefinition {
+  const parsed = ProviderDefinitionSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `invalid provider definition: ${formatIssues(parsed.error)}`
+    );
+  }
+  const def = parsed.data;
+
+  for (const rule of def.redaction_rules) {
+    try {
+      validateRedactionRule(rule);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      throw new Error(`${def.id}: invalid redaction rule: ${msg}`);
+    }
+  }
+
+  if (
+    def.auth.type === "api_key" &&
+    (def.extra_allowed_request_headers.includes(def.auth.header_name) ||
+      def.auth.header_name in def.default_headers)
+  ) {
+    throw new Error(
+      `${def.id}: ${def.auth.header_name} carries the credential and cannot be forwarded or defaulted`
+    );
+  }
+
+  for (const existing of listProxyProviders()) {
+    if (existing.id === def.id) {
+      throw new Error(`${def.id}: provider id already registered`);
+    }
+    const host = def.hosts.find((h) =>
+      existing.matchesUrl(new URL(`https://${h}/`))
+    );
+    if (host) {
+      throw new Error(`${def.id}: host ${host} belongs to ${existing.id}`);
+    }
+  }
+
+  registerProxyProvider(buildDeclarativeProxyProvider(def));
+  if (def.auth.type === "oauth2") {
+    registerOAuthProvider(def.id, () => buildDeclarativeOAuthProvider(def));
+  }
+  return def;
+}
+
+// Load every *.json / *.ts definition in `dir` (TS modules default-export
+// the definition). Fails startup on the first invalid file rather than
+// running with a partial provider set.
+export async function loadProviderDefinitions(
+  dir: string
+): Promise<ProviderDefinition[]> {
+  const files = (await readdir(dir))
+    .filter((f) => f.endsWith(".json") || f.endsWith(".ts"))
+    .sort();
+
+  const loaded: ProviderDefinition[] = [];
+  for (const file of files) {
+    const full = path.resolve(dir, file);
+    try {
+      const raw = file.endsWith(".json")
+        ? await Bun.file(full).json()
+        : ((await import(full)) as { default?: unknown }).default;
+      loaded.push(registerProviderDefinition(raw));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      throw new Error(`provider definition ${file}: ${msg}`);
+    }
+  }
+  return loaded;
+}
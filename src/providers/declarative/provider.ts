@@ -0,0 +1,311 @@
+import { refreshAccessToken } from "../../oauth/flow";
+import type {
+  OAuthAccountIdentity,
+  OAuthProviderConfig,
+} from "../../oauth/provider";
+import {
+  checkRefreshTokenHealth,
+  getCachedAccessToken,
+} from "../../oauth/tokenCache";
+import type {
+  InterpretedRequest,
+  ProxyInterpretInput,
+} from "../../proxy/interpret";
+import type { CredentialHealth, ProxyProvider } from "../../proxy/provider";
+import type { ProviderDefinition, ProviderInterpretation } from "./schema";
+
+function truncate(s: string, max: number): string {
+  if (s.length <= max) return s;
+  return `${s.slice(0, max - 1)}…`;
+}
+
+function readField(value: unknown, path: string): unknown {
+  let cur = value;
+  for (const key of path.split(".")) {
+    if (cur == null || typeof cur !== "object") return undefined;
+    cur = (cur as Record<string, unknown>)[key];
+  }
+  return cur;
+}
+
+// Path params for `pattern` (`/v1/pages/:id`, `/v1/files/*`), or null when
+// the path does not match.
+function matchPath(
+  pattern: string,
+  pathname: string
+): Record<string, string> | null {
+  const want = pattern.split("/").filter(Boolean);
+  const have = pathname.split("/").filter(Boolean);
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < want.length; i++) {
+    const w = want[i];
+    if (w === "*" && i === want.length - 1) return params;
+    const h = have[i];
+    if (h === undefined) return null;
+    if (w.startsWith(":")) {
+      try {
+        params[w.slice(1)] = decodeURIComponent(h);
+      } catch {
+        params[w.slice(1)] = h;
+      }
+    } else if (w !== h) {
+      return null;
+    }
+  }
+  return have.length === want.length ? params : null;
+}
+
+function fillTemplate(
+  template: string,
+  values: Record<string, string>
+): string | null {
+  let missing = false;
+  const out = template.replace(/\{([A-Za-z0-9_]+)\}/g, (_, name: string) => {
+    const v = values[name];
+    if (v === undefined) {
+      missing = true;
+      return "";
+    }
+    return truncate(v, 120);
+  });
+  return missing ? null : out;
+}
+
+function interpretDeclarative(
+  interpretations: ProviderInterpretation[],
+  input: ProxyInterpretInput
+): InterpretedRequest | null {
+  for (const it of interpretations) {
+    if (it.method) {
+      const methods: string[] = Array.isArray(it.method)
+        ? it.method
+        : [it.method];
+      if (!methods.includes(input.method.toUpperCase())) continue;
+    }
+    const params = matchPath(it.path, input.url.pathname);
+    if (!params) continue;
+
+    const values = { ...params, method: input.method.toUpperCase() };
+    return {
+      summary: fillTemplate(it.summary, values) ?? it.summary,
+      // Detail lines whose placeholders can't be filled are dropped.
+      details: it.details
+        .map((d) => fillTemplate(d, values))
+        .filter((d): d is string => Boolean(d)),
+    };
+  }
+  return null;
+}
+
+// Function replacer: `$` sequences in tokens must not be interpreted.
+function renderAuthHeader(def: ProviderDefinition, token: string): string {
+  return def.auth_header_template.replace("{token}", () => token);
+}
+
+function matchesPathPrefix(prefix: string, pathname: string): boolean {
+  const p = prefix.replace(/\/$/, "");
+  return !p || pathname === p || pathname.startsWith(`${p}/`);
+}
+
+// OAuth client config for an oauth2 definition; throws (like the built-in
+// providers) when the client credentials are not configured.
+export function buildDeclarativeOAuthProvider(
+  def: ProviderDefinition
+): OAuthProviderConfig {
+  const auth = def.auth;
+  if (auth.type !== "oauth2") {
+    throw new Error(`${def.id} is not an OAuth provider`);
+  }
+
+  const clientId = process.env[auth.client_id_env];
+  const clientSecret = process.env[auth.client_secret_env];
+  if (!clientId || !clientSecret) {
+    throw new Error(
+      `${auth.client_id_env} and ${auth.client_secret_env} are required`
+    );
+  }
+
+  const identity = auth.identity;
+  const fetchAccountIdentity = identity
+    ? async (accessToken: string): Promise<OAuthAccountIdentity> => {
+        const res = await fetch(identity.url, {
+          headers: {
+            authorization: renderAuthHeader(def, accessToken),
+            accept: "application/json",
+            ...def.default_headers,
+          },
+        });
+        if (!res.ok) {
+          throw new Error(`${def.id} identity failed: ${res.status}`);
+        }
+        const j = (await res.json()) as unknown;
+        const id = readField(j, identity.id_field);
+        if (typeof id !== "string" && typeof id !== "number") {
+          throw new Error(`${def.id} identity returned no id`);
+        }
+        const name = identity.name_field
+          ? readField(j, identity.name_field)
+          : undefined;
+        return {
+          providerUserId: String(id),
+          displayName: typeof name === "string" ? name : undefined,
+        };
+      }
+    : undefined;
+
+  return {
+    id: def.id,
+    issuer: auth.issuer ?? new URL(auth.authorization_endpoint).origin,
+    authorizationEndpoint: auth.authorization_endpoint,
+    tokenEndpoint: auth.token_endpoint,
+    clientId,
+    clientSecret,
+    scopes: auth.scopes,
+    pkceRequired: auth.pkce_required,
+    extraAuthorizeParams: auth.extra_authorize_params,
+    fetchAccountIdentity,
+  };
+}
+
+export function buildDeclarativeProxyProvider(
+  def: ProviderDefinition
+): ProxyProvider {
+  const hosts = new Set(def.hosts);
+  const usesRefreshTokens =
+    def.auth.type === "oauth2" && def.auth.refresh_tokens;
+
+  const accessToken = async (params: {
+    storedCredential: string;
+    linkedAccountId?: string;
+  }): Promise<string> => {
+    if (!usesRefreshTokens) return params.storedCredential;
+    return getCachedAccessToken({
+      linkedAccountId: params.linkedAccountId,
+      refresh: () =>
+        refreshAccessToken({
+          provider: buildDeclarativeOAuthProvider(def),
+          refreshToken: params.storedCredential,
+        }),
+    });
+  };
+
+  const authorization = (token: string) => renderAuthHeader(def, token);
+  const authHeaderName =
+    def.auth.type === "api_key" ? def.auth.header_name : "authorization";
+
+  return {
+    id: def.id,
+
+    matchesUrl(url: URL): boolean {
+      return hosts.has(url.hostname.toLowerCase());
+    },
+
+    async isAllowedUpstreamUrl(params: {
+      userId: string;
+      url: URL;
+      storedCredential?: string;
+    }): Promise<{ allowed: boolean; message?: string }> {
+      if (!hosts.has(params.url.hostname.toLowerCase())) {
+        return { allowed: false };
+      }
+      if (
+        def.path_prefixes &&
+        !def.path_prefixes.some((p) =>
+          matchesPathPrefix(p, params.url.pathname)
+        )
+      ) {
+        return {
+          allowed: false,
+          message: `path must start with one of: ${def.path_prefixes.join(", ")}`,
+        };
+      }
+      return { allowed: true };
+    },
+
+    allowedMethods: new Set(def.allowed_methods),
+    maxStreamResponseBytes: def.max_stream_response_bytes,
+    extraAllowedRequestHeaders: new Set([
+      ...def.extra_allowed_request_headers,
+      ...Object.keys(def.default_headers),
+    ]),
+    redactionRules: [
+      ...def.redaction_rules,
+      { kind: "header", pattern: authHeaderName },
+    ],
+    authHeaderName,
+    staticCredentialForm:
+      def.auth.type === "api_key"
+        ? { credentialLabel: def.auth.credential_label, help: def.auth.help }
+        : undefined,
+
+    async getAuthorizationHeaderValue(params: {
+      storedCredential: string;
+      linkedAccountId?: string;
+    }): Promise<string> {
+      return authorization(await accessToken(params));
+    },
+
+    gitRemote: def.git
+      ? {
+          baseUrl: def.git.base_url.replace(/\/$/, ""),
+          username: def.git.username,
+          nestedNamespaces: def.git.nested_namespaces,
+          getToken: accessToken,
+        }
+      : undefined,
+
+    async checkCredential(params: {
+      storedCredential: string;
+      linkedAccountId?: string;
+    }): Promise<CredentialHealth> {
+      if (usesRefreshTokens) {
+        return checkRefreshTokenHealth({
+          linkedAccountId: params.linkedAccountId,
+          refresh: () =>
+            refreshAccessToken({
+              provider: buildDeclarativeOAuthProvider(def),
+              refreshToken: params.storedCredential,
+            }),
+        });
+      }
+      if (!def.credential_check_url) return { ok: true };
+
+      const res = await fetch(def.credential_check_url, {
+        headers: {
+          ...def.default_headers,
+          [authHeaderName]: authorization(params.storedCredential),
+        },
+        signal: AbortSignal.timeout(10_000),
+      });
+      await res.body?.cancel();
+      if (res.status === 401 || res.status === 403) {
+        return {
+          ok: false,
+          needsReauth: true,
+          message: `credential was rejected (${res.status})`,
+        };
+      }
+      if (!res.ok) {
+        return {
+          ok: false,
+          needsReauth: false,
+          message: `${def.id} credential check failed: ${res.status}`,
+        };
+      }
+      return { ok: true };
+    },
+
+    applyUpstreamRequestHeaderDefaults(params: {
+      headers: Record<string, string>;
+    }): void {
+      for (const [k, v] of Object.entries(def.default_headers)) {
+        if (!params.headers[k]) params.headers[k] = v;
+      }
+    },
+
+    interpretRequest(input: ProxyInterpretInput): InterpretedRequest | null {
+      return interpretDeclarative(def.interpretations, input);
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import { z } from "zod";
+
+import { REDACTION_RULE_KINDS } from "../../proxy/redaction";
+
+// Declarative provider definitions: simple OAuth2 or API-key providers
+// described in JSON (or a TS module default-exporting the same shape) and
+// loaded from PROVIDER_DEFINITIONS_DIR at startup. See README "Provider
+// definitions".
+
+const HttpsUrl = z
+  .string()
+  .url()
+  .refine((u) => u.startsWith("https://"), "must be an https URL");
+
+const Method = z
+  .string()
+  .transform((m) => m.toUpperCase())
+  .pipe(z.enum(["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE"]));
+
+const HeaderName = z
+  .string()
+  .regex(/^[A-Za-z0-9-]+$/, "invalid header name")
+  .transform((h) => h.toLowerCase());
+
+// `Bearer {token}`, `token {token}`, ...: the stored (or refreshed access)
+// token is substituted for `{token}`.
+const AuthHeaderTemplate = z
+  .string()
+  .refine((t) => t.includes("{token}"), "must contain {token}");
+
+const OAuth2AuthSchema = z.object({
+  type: z.literal("oauth2"),
+  issuer: HttpsUrl.optional(),
+  authorization_endpoint: HttpsUrl,
+  token_endpoint: HttpsUrl,
+  scopes: z.array(z.string().min(1)).default([]),
+  // Names of the environment variables holding the client credentials.
+  client_id_env: z.string().regex(/^[A-Z][A-Z0-9_]*$/),
+  client_secret_env: z.string().regex(/^[A-Z][A-Z0-9_]*$/),
+  pkce_required: z.boolean().default(true),
+  extra_authorize_params: z.record(z.string(), z.string()).default({}),
+  // false for providers that issue long-lived access tokens and no refresh
+  // token (e.g. Slack bot tokens); the stored token is then used as is.
+  refresh_tokens: z.boolean().default(true),
+  // Optional identity lookup so reconnecting the same account updates it
+  // and a different account is added alongside.
+  identity: z
+    .object({
+      url: HttpsUrl,
+      // Dot paths into the JSON response.
+      id_field: z.string().min(1),
+      name_field: z.string().min(1).optional(),
+    })
+    .optional(),
+});
+
+// Static credentials (API keys, bearer tokens) pasted into the broker-hosted
+// connect form (/v1/accounts/connect/:provider).
+const ApiKeyAuthSchema = z.object({
+  type: z.literal("api_key"),
+  // Header carrying the credential, e.g. `x-api-key` with template `{token}`.
+  header_name: HeaderName.default("authorization"),
+  // Form field label and an optional hint on where to create the key.
+  credential_label: z.string().min(1).max(64).default("API key"),
+  help: z.string().max(500).optional(),
+});
+
+const InterpretationSchema = z.object({
+  // Omitted: any allowed method.
+  method: z.union([Method, z.array(Method).min(1)]).optional(),
+  // `/v1/pages/:page_id`; a trailing `/*` matches any remaining segments.
+  path: z.string().startsWith("/"),
+  // `{param}` placeholders refer to `:param` path segments (and `{method}`).
+  summary: z.string().min(1),
+  details: z.array(z.string()).default([]),
+});
+
+export const ProviderDefinitionSchema = z.object({
+  id: z
+    .string()
+    .regex(
+      /^[a-z][a-z0-9_-]{1,31}$/,
+      "id must be lowercase letters, digits, _ or - (2-32 chars)"
+    ),
+  hosts: z.array(z.string().min(1).toLowerCase()).min(1),
+  // Restrict requests to these path prefixes (segment boundaries). Omitted:
+  // any path on the hosts.
+  path_prefixes: z.array(z.string().startsWith("/")).optional(),
+  allowed_methods: z.array(Method).min(1).default(["GET"]),
+  // Caller-supplied headers forwarded upstream in addition to the common ones.
+  extra_allowed_request_headers: z.array(HeaderName).default([]),
+  // Headers added when the caller did not set them (e.g. an API version).
+  default_headers: z.record(HeaderName, z.string()).default({}),
+  auth: z.discriminatedUnion("type", [OAuth2AuthSchema, ApiKeyAuthSchema]),
+  auth_header_template: AuthHeaderTemplate.default("Bearer {token}"),
+  // GET endpoint used by the account health checker; 401/403 means the
+  // credential was revoked. OAuth2 providers with refresh tokens are checked
+  // with a refresh instead.
+  credential_check_url: HttpsUrl.optional(),
+  max_stream_response_bytes: z.number().int().positive().optional(),
+  // Git smart-HTTP remote using the same accounts (GitLab, Gitea, any HTTPS
+  // git server with token auth); enables git sessions for this provider.
+  git: z
+    .object({
+      // Repositories live at `<base_url>/<owner>/<name>.git`.
+      base_url: HttpsUrl,
+      // Basic-auth user sent with the token; GitLab accepts `oauth2`.
+      username: z.string().min(1).max(64).default("oauth2"),
+      // `group/subgroup/name` repository paths.
+      nested_namespaces: z.boolean().default(true),
+    })
+    .optional(),
+  interpretations: z.array(InterpretationSchema).default([]),
+  redaction_rules: z
+    .array(
+      z.object({
+        kind: z.enum(REDACTION_RULE_KINDS),
+        pattern: z.string().min(1),
+      })
+    )
+    .default([]),
+});
+
+export type ProviderDefinition = z.infer<typeof ProviderDefinitionSchema>;
+export type ProviderInterpretation =
+  ProviderDefinition["interpretations"][number];
@@ -0,0 +1,252 @@
+import { createPrivateKey, sign } from "node:crypto";
+
+import type { CredentialHealth } from "../../proxy/provider";
+
+// GitHub App installations as an alternative to classic OAuth user tokens.
+// The user connects an installation (app id, installation id, app private
+// key); the broker signs an app JWT and mints a short-lived installation
+// token per proxy call or git request, limited to the repository and
+// permissions that call needs.
+
+const GITHUB_API = "https://api.github.com";
+
+// Stored (encrypted) in linked_accounts.refresh_token_ciphertext for
+// provider `github`, next to plain OAuth tokens.
+export type GitHubAppCredential = {
+  type: "github_app";
+  appId: string;
+  installationId: string;
+  privateKey: string;
+};
+
+export type GitHubPermissionLevel = "read" | "write";
+
+export type GitHubAppTokenScope = {
+  // Repository names (without owner); omitted: every repository the
+  // installation can access.
+  repositories?: string[];
+  // Omitted: the installation's full permission set.
+  permissions?: Record<string, GitHubPermissionLevel>;
+};
+
+export function parseGitHubAppCredential(
+  stored: string
+): GitHubAppCredential | null {
+  // OAuth tokens are stored as-is; only app credentials are JSON.
+  if (!stored.startsWith("{")) return null;
+  try {
+    const j = JSON.parse(stored) as Record<string, unknown>;
+    if (
+      j.type !== "github_app" ||
+      typeof j.appId !== "string" ||
+      typeof j.installationId !== "string" ||
+      typeof j.privateKey !== "string"
+    ) {
+      return null;
+    }
+    return {
+      type: "github_app",
+      appId: j.appId,
+      installationId: j.installationId,
+      privateKey: j.privateKey,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function base64Url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+// App JWT (RS256), valid for 9 minutes; iat is backdated for clock skew as
+// GitHub recommends. Accepts PKCS#1 (as downloaded from GitHub) and PKCS#8.
+export function createGitHubAppJwt(params: {
+  appId: string;
+  privateKey: string;
+  nowMs?: number;
+}): string {
+  const now = Math.floor((params.nowMs ?? Date.now()) / 1000);
+  const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const payload = base64Url(
+    JSON.stringify({ iat: now - 60, exp: now + 9 * 60, iss: params.appId })
+  );
+  const key = createPrivateKey(params.privateKey);
+  const signature = sign("sha256", Buffer.from(`${header}.${payload}`), key);
+  return `${header}.${payload}.${base64Url(signature)}`;
+}
+
+function appHeaders(credential: GitHubAppCredential): Record<string, string> {
+  return {
+    authorization: `Bearer ${createGitHubAppJwt(credential)}`,
+    accept: "application/vnd.github+json",
+    "x-github-api-version": "2022-11-28",
+    "user-agent": "permissions-broker",
+  };
+}
+
+export async function mintGitHubInstallationToken(params: {
+  credential: GitHubAppCredential;
+  scope: GitHubAppTokenScope;
+  apiBaseUrl?: string;
+}): Promise<{ token: string; expiresAt: string }> {
+  const base = params.apiBaseUrl ?? GITHUB_API;
+  const res = await fetch(
+    `${base}/app/installations/${encodeURIComponent(params.credential.installationId)}/access_tokens`,
+    {
+      method: "POST",
+      headers: {
+        ...appHeaders(params.credential),
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({
+        repositories: params.scope.repositories,
+        permissions: params.scope.permissions,
+      }),
+      signal: AbortSignal.timeout(10_000),
+    }
+  );
+  if (!res.ok) {
+    const text = (await res.text()).slice(0, 200);
+    throw new Error(`github installation token failed: ${res.status} ${text}`);
+  }
+  const j = (await res.json()) as { token?: string; expires_at?: string };
+  if (!j.token) throw new Error("github installation token missing");
+  return { token: j.token, expiresAt: j.expires_at ?? "" };
+}
+
+// Installation lookup used when connecting (to label the account) and by
+// the health checker. 401: the key was revoked; 404: the app was uninstalled.
+export async function fetchGitHubInstallation(params: {
+  credential: GitHubAppCredential;
+  apiBaseUrl?: string;
+}): Promise<
+  | { ok: true; accountLogin: string | null }
+  | { ok: false; status: number; message: string }
+> {
+  const base = params.apiBaseUrl ?? GITHUB_API;
+  const res = await fetch(
+    `${base}/app/installations/${encodeURIComponent(params.credential.installationId)}`,
+    {
+      headers: appHeaders(params.credential),
+      signal: AbortSignal.timeout(10_000),
+    }
+  );
+  if (!res.ok) {
+    await res.body?.cancel();
+    return {
+      ok: false,
+      status: res.status,
+      message:
+        res.status === 401
+          ? "app private key was rejected"
+          : res.status === 404
+            ? "app installation was removed"
+            : `github installation lookup failed: ${res.status}`,
+    };
+  }
+  const j = (await res.json()) as { account?: { login?: string } | null };
+  return { ok: true, accountLogin: j.account?.login ?? null };
+}
+
+export async function checkGitHubAppCredential(
+  credential: GitHubAppCredential
+): Promise<CredentialHealth> {
+  const r = await fetchGitHubInstallation({ credential });
+  if (r.ok) return { ok: true };
+  return {
+    ok: false,
+    needsReauth: r.status === 401 || r.status === 404,
+    message: r.message,
+  };
+}
+
+// Repository sub-resources and the app permission they need. Anything not
+// listed is refused rather than sent with a broader token.
+const REPO_PERMISSIONS: [RegExp, string][] = [
+  [/^(issues|labels|milestones|assignees)(\/|$)/, "issues"],
+  [/^pulls(\/|$)/, "pull_requests"],
+  [/^actions(\/|$)/, "actions"],
+  [/^(check-runs|check-suites)(\/|$)/, "checks"],
+  [/^(statuses|commits\/[^/]+\/status(es)?)(\/|$)/, "statuses"],
+  [/^deployments(\/|$)/, "deployments"],
+  [/^environments(\/|$)/, "environments"],
+  [/^hooks(\/|$)/, "repository_hooks"],
+  [/^pages(\/|$)/, "pages"],
+  [/^releases(\/|$)/, "contents"],
+  [
+    /^(contents|git|commits|branches|tags|compare|readme|tarball|zipball|merges|dispatches)(\/|$)/,
+    "contents",
+  ],
+  [/^(collaborators|invitations|keys|topics)(\/|$)/, "administration"],
+];
+
+// Endpoints outside /repos/<owner>/<repo> that an installation token can
+// call, with the permissions to mint for them.
+const INSTALLATION_PERMISSIONS: [
+  RegExp,
+  Record<string, GitHubPermissionLevel>,
+][] = [[/^\/installation\/repositories\/?$/, { metadata: "read" }]];
+
+function permissionLevel(method: string): GitHubPermissionLevel {
+  const m = method.toUpperCase();
+  return m === "GET" || m === "HEAD" ? "read" : "write";
+}
+
+// Narrowest token for one REST call: the repository in the path and the
+// permission its endpoint family needs. Throws for endpoints with no known
+// mapping, so no call gets the installation's full permissions.
+export function githubAppScopeForRequest(params: {
+  method: string;
+  url: URL;
+}): GitHubAppTokenScope {
+  const path = params.url.pathname;
+  const m = path.match(/^\/repos\/[^/]+\/([^/]+)(?:\/(.*))?$/);
+  if (!m) {
+    for (const [re, permissions] of INSTALLATION_PERMISSIONS) {
+      if (re.test(path) && permissionLevel(params.method) === "read") {
+        return { permissions };
+      }
+    }
+    throw new Error(
+      `no GitHub App permission is mapped for ${params.method} ${path}`
+    );
+  }
+
+  const repositories = [decodeURIComponent(m[1])];
+  const rest = (m[2] ?? "").replace(/\/$/, "");
+  if (!rest) {
+    // Reading the repository needs metadata; updating or deleting it is
+    // administration.
+    const level = permissionLevel(params.method);
+    return {
+      repositories,
+      permissions:
+        level === "read" ? { metadata: "read" } : { administration: "write" },
+    };
+  }
+  for (const [re, permission] of REPO_PERMISSIONS) {
+    if (re.test(rest)) {
+      return {
+        repositories,
+        permissions: { [permission]: permissionLevel(params.method) },
+      };
+    }
+  }
+  throw new Error(
+    `no GitHub App permission is mapped for ${params.method} ${path}`
+  );
+}
+
+// Git smart-HTTP: contents read for clone/fetch/pull, write for push.
+export function githubAppScopeForGit(params: {
+  repo: string;
+  operation: string;
+}): GitHubAppTokenScope {
+  return {
+    repositories: [params.repo],
+    permissions: {
+      contents: params.operation === "push" ? "write" : "read",
+    },
+  };
+}
@@ -1,5 +1,24 @@
 import { env } from "../../env";
-import type { OAuthProviderConfig } from "../../oauth/provider";
+import type {
+  OAuthAccountIdentity,
+  OAuthProviderConfig,
+} from "../../oauth/provider";
+
+async function fetchGithubIdentity(
+  accessToken: string
+): Promise<OAuthAccountIdentity> {
+  const res = await fetch("https://api.github.com/user", {
+    headers: {
+      authorization: `Bearer ${accessToken}`,
+      accept: "application/vnd.github+json",
+      "user-agent": "permissions-broker",
+    },
+  });
+  if (!res.ok) throw new Error(`github /user failed: ${res.status}`);
+  const j = (await res.json()) as { id?: number; login?: string };
+  if (j.id == null) throw new Error("github /user returned no id");
+  return { providerUserId: String(j.id), displayName: j.login };
+}
 
 export function githubProvider(): OAuthProviderConfig {
   if (!env.GITHUB_OAUTH_CLIENT_ID || !env.GITHUB_OAUTH_CLIENT_SECRET) {
@@ -16,5 +35,6 @@ export function githubProvider(): OAuthProviderConfig {
     scopes: ["repo"],
     pkceRequired: true,
     extraAuthorizeParams: {},
+    fetchAccountIdentity: fetchGithubIdentity,
   };
 }
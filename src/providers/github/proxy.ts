@@ -2,7 +2,14 @@ import type {
   InterpretedRequest,
   ProxyInterpretInput,
 } from "../../proxy/interpret";
-import type { ProxyProvider } from "../../proxy/provider";
+import type { CredentialHealth, ProxyProvider } from "../../proxy/provider";
+import {
+  checkGitHubAppCredential,
+  githubAppScopeForGit,
+  githubAppScopeForRequest,
+  mintGitHubInstallationToken,
+  parseGitHubAppCredential,
+} from "./app";
 
 function truncate(s: string, max: number): string {
   if (s.length <= max) return s;
@@ -84,15 +91,67 @@ export const githubProxyProvider: ProxyProvider = {
 
   allowedMethods: new Set(["GET", "POST", "PUT", "PATCH", "DELETE"]),
 
+  // Repository archives (tarball/zipball) can be large.
+  maxStreamResponseBytes: 1024 * 1024 * 1024,
+
   extraAllowedRequestHeaders: new Set(["x-github-api-version"]),
 
+  redactionRules: [
+    // Actions/Dependabot secrets are sent pre-encrypted, but still secret.
+    { kind: "json_path", pattern: "encrypted_value" },
+    // Personal access / OAuth / app tokens pasted into bodies or URLs.
+    { kind: "regex", pattern: "\\bgh[pousr]_[A-Za-z0-9]{20,}" },
+  ],
+
   async getAuthorizationHeaderValue(params: {
     storedCredential: string;
+    request?: { method: string; url: URL };
   }): Promise<string> {
+    // GitHub App installation: mint a token for just this call; there is
+    // no installation-wide token.
+    const app = parseGitHubAppCredential(params.storedCredential);
+    if (app) {
+      if (!params.request) {
+        throw new Error("GitHub App tokens are only minted for a request");
+      }
+      const minted = await mintGitHubInstallationToken({
+        credential: app,
+        scope: githubAppScopeForRequest(params.request),
+      });
+      return `Bearer ${minted.token}`;
+    }
     // GitHub OAuth (classic app): treat stored token as an access token.
     return `Bearer ${params.storedCredential}`;
   },
 
+  async checkCredential(params: {
+    storedCredential: string;
+  }): Promise<CredentialHealth> {
+    const app = parseGitHubAppCredential(params.storedCredential);
+    if (app) return checkGitHubAppCredential(app);
+
+    const res = await fetch("https://api.github.com/user", {
+      headers: {
+        authorization: `Bearer ${params.storedCredential}`,
+        accept: "application/vnd.github+json",
+        "user-agent": "permissions-broker",
+      },
+      signal: AbortSignal.timeout(10_000),
+    });
+    // 401 is GitHub's answer for revoked, expired and deleted tokens.
+    if (res.status === 401) {
+      return { ok: false, needsReauth: true, message: "token was revoked" };
+    }
+    if (!res.ok) {
+      return {
+        ok: false,
+        needsReauth: false,
+        message: `github /user failed: ${res.status}`,
+      };
+    }
+    return { ok: true };
+  },
+
   applyUpstreamRequestHeaderDefaults(params: {
     headers: Record<string, string>;
   }): void {
@@ -108,4 +167,28 @@ export const githubProxyProvider: ProxyProvider = {
   interpretRequest(input: ProxyInterpretInput): InterpretedRequest | null {
     return interpretGitHub(input);
   },
+
+  gitRemote: {
+    baseUrl: "https://github.com",
+    username: "x-access-token",
+    nestedNamespaces: false,
+    async getToken(params: {
+      storedCredential: string;
+      repoName: string;
+      operation: string;
+    }): Promise<string> {
+      // GitHub App installations get a fresh token per request, limited to
+      // this repository and to contents read (or write for push).
+      const app = parseGitHubAppCredential(params.storedCredential);
+      if (!app) return params.storedCredential;
+      const minted = await mintGitHubInstallationToken({
+        credential: app,
+        scope: githubAppScopeForGit({
+          repo: params.repoName,
+          operation: params.operation,
+        }),
+      });
+      return minted.token;
+    },
+  },
 };
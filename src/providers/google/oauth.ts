@@ -1,5 +1,28 @@
 import { env } from "../../env";
-import type { OAuthProviderConfig } from "../../oauth/provider";
+import type {
+  OAuthAccountIdentity,
+  OAuthProviderConfig,
+} from "../../oauth/provider";
+
+// No openid/email scope is requested; Drive's about endpoint identifies the
+// user with the drive.readonly scope we already have.
+async function fetchGoogleIdentity(
+  accessToken: string
+): Promise<OAuthAccountIdentity> {
+  const res = await fetch(
+    "https://www.googleapis.com/drive/v3/about?fields=user(permissionId,emailAddress)",
+    { headers: { authorization: `Bearer ${accessToken}` } }
+  );
+  if (!res.ok) throw new Error(`google drive/about failed: ${res.status}`);
+  const j = (await res.json()) as {
+    user?: { permissionId?: string; emailAddress?: string };
+  };
+  if (!j.user?.permissionId) throw new Error("google about returned no user");
+  return {
+    providerUserId: j.user.permissionId,
+    displayName: j.user.emailAddress,
+  };
+}
 
 export function googleProvider(): OAuthProviderConfig {
   if (!env.GOOGLE_OAUTH_CLIENT_ID || !env.GOOGLE_OAUTH_CLIENT_SECRET) {
@@ -27,5 +50,6 @@ export function googleProvider(): OAuthProviderConfig {
       access_type: "offline",
       prompt: "consent",
     },
+    fetchAccountIdentity: fetchGoogleIdentity,
   };
 }
@@ -1,9 +1,13 @@
 import { refreshAccessToken } from "../../oauth/flow";
+import {
+  checkRefreshTokenHealth,
+  getCachedAccessToken,
+} from "../../oauth/tokenCache";
 import type {
   InterpretedRequest,
   ProxyInterpretInput,
 } from "../../proxy/interpret";
-import type { ProxyProvider } from "../../proxy/provider";
+import type { CredentialHealth, ProxyProvider } from "../../proxy/provider";
 import { googleProvider } from "./oauth";
 
 function truncate(s: string, max: number): string {
@@ -139,16 +143,43 @@ export const googleProxyProvider: ProxyProvider = {
   },
 
   allowedMethods: new Set(["GET", "POST", "PUT", "PATCH", "DELETE"]),
+  // Drive exports/downloads can be large.
+  maxStreamResponseBytes: 1024 * 1024 * 1024,
   extraAllowedRequestHeaders: new Set([]),
 
+  redactionRules: [
+    // API keys passed as ?key=... and OAuth access tokens in bodies/URLs.
+    { kind: "query_param", pattern: "key" },
+    { kind: "regex", pattern: "\\bya29\\.[0-9A-Za-z_-]+" },
+  ],
+
   async getAuthorizationHeaderValue(params: {
     storedCredential: string;
+    linkedAccountId?: string;
   }): Promise<string> {
-    const token = await refreshAccessToken({
-      provider: googleProvider(),
-      refreshToken: params.storedCredential,
+    const accessToken = await getCachedAccessToken({
+      linkedAccountId: params.linkedAccountId,
+      refresh: () =>
+        refreshAccessToken({
+          provider: googleProvider(),
+          refreshToken: params.storedCredential,
+        }),
+    });
+    return `Bearer ${accessToken}`;
+  },
+
+  checkCredential(params: {
+    storedCredential: string;
+    linkedAccountId?: string;
+  }): Promise<CredentialHealth> {
+    return checkRefreshTokenHealth({
+      linkedAccountId: params.linkedAccountId,
+      refresh: () =>
+        refreshAccessToken({
+          provider: googleProvider(),
+          refreshToken: params.storedCredential,
+        }),
     });
-    return `Bearer ${token.access_token}`;
   },
 
   applyUpstreamRequestHeaderDefaults(): void {
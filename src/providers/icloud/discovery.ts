@@ -1,4 +1,5 @@
 import { randomBase64Url } from "../../crypto/random";
+import type { CredentialHealth } from "../../proxy/provider";
 
 type DiscoveryResult = {
   allowedHosts: string[];
@@ -152,3 +153,45 @@ export async function discoverIcloudCaldavBounds(params: {
 
   return { allowedHosts, allowedPathPrefixes };
 }
+
+// Cheap credential check: the same root PROPFIND discovery starts with.
+// iCloud answers 401 once the app-specific password is revoked or the Apple
+// ID password changed (which revokes all app-specific passwords).
+export async function checkIcloudCredential(params: {
+  username: string;
+  appSpecificPassword: string;
+}): Promise<CredentialHealth> {
+  const headers = new Headers();
+  headers.set(
+    "authorization",
+    basicAuthHeader(params.username, params.appSpecificPassword)
+  );
+  headers.set("user-agent", `permissions-broker/${randomBase64Url(6)}`);
+  headers.set("content-type", "application/xml; charset=utf-8");
+  headers.set("depth", "0");
+
+  const res = await fetchWithRedirects({
+    url: "https://caldav.icloud.com/",
+    method: "PROPFIND",
+    headers,
+    body: PROPFIND_PRINCIPAL_BODY,
+    maxRedirects: 5,
+  });
+  await res.body?.cancel();
+
+  if (res.status === 401) {
+    return {
+      ok: false,
+      needsReauth: true,
+      message: "app-specific password was rejected",
+    };
+  }
+  if (!res.ok) {
+    return {
+      ok: false,
+      needsReauth: false,
+      message: `caldav check failed: ${res.status}`,
+    };
+  }
+  return { ok: true };
+}
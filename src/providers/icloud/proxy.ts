@@ -2,7 +2,8 @@ import type {
   InterpretedRequest,
   ProxyInterpretInput,
 } from "../../proxy/interpret";
-import type { ProxyProvider } from "../../proxy/provider";
+import type { CredentialHealth, ProxyProvider } from "../../proxy/provider";
+import { checkIcloudCredential } from "./discovery";
 
 type IcloudCredential = {
   username: string;
@@ -486,6 +487,23 @@ export const icloudProxyProvider: ProxyProvider = {
     return basicAuthHeader(cred.username, cred.appSpecificPassword);
   },
 
+  async checkCredential(params: {
+    storedCredential: string;
+  }): Promise<CredentialHealth> {
+    const cred = parseCredential(params.storedCredential);
+    if (!cred) {
+      return {
+        ok: false,
+        needsReauth: true,
+        message: "invalid iCloud credential",
+      };
+    }
+    return checkIcloudCredential({
+      username: cred.username,
+      appSpecificPassword: cred.appSpecificPassword,
+    });
+  },
+
   applyUpstreamRequestHeaderDefaults(params: {
     headers: Record<string, string>;
   }): void {
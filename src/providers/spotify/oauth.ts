@@ -1,5 +1,20 @@
 import { env } from "../../env";
-import type { OAuthProviderConfig } from "../../oauth/provider";
+import type {
+  OAuthAccountIdentity,
+  OAuthProviderConfig,
+} from "../../oauth/provider";
+
+async function fetchSpotifyIdentity(
+  accessToken: string
+): Promise<OAuthAccountIdentity> {
+  const res = await fetch("https://api.spotify.com/v1/me", {
+    headers: { authorization: `Bearer ${accessToken}` },
+  });
+  if (!res.ok) throw new Error(`spotify /me failed: ${res.status}`);
+  const j = (await res.json()) as { id?: string; display_name?: string };
+  if (!j.id) throw new Error("spotify /me returned no id");
+  return { providerUserId: j.id, displayName: j.display_name ?? j.id };
+}
 
 export function spotifyProvider(): OAuthProviderConfig {
   if (!env.SPOTIFY_OAUTH_CLIENT_ID || !env.SPOTIFY_OAUTH_CLIENT_SECRET) {
@@ -33,5 +48,6 @@ export function spotifyProvider(): OAuthProviderConfig {
       // Ensure we can always obtain a refresh token on reconnect.
       show_dialog: "true",
     },
+    fetchAccountIdentity: fetchSpotifyIdentity,
   };
 }
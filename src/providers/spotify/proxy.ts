@@ -1,9 +1,13 @@
 import { refreshAccessToken } from "../../oauth/flow";
+import {
+  checkRefreshTokenHealth,
+  getCachedAccessToken,
+} from "../../oauth/tokenCache";
 import type {
   InterpretedRequest,
   ProxyInterpretInput,
 } from "../../proxy/interpret";
-import type { ProxyProvider } from "../../proxy/provider";
+import type { CredentialHealth, ProxyProvider } from "../../proxy/provider";
 import { spotifyProvider } from "./oauth";
 
 function truncate(s: string, max: number): string {
@@ -132,13 +136,32 @@ export const spotifyProxyProvider: ProxyProvider = {
 
   async getAuthorizationHeaderValue(params: {
     storedCredential: string;
+    linkedAccountId?: string;
   }): Promise<string> {
     // Spotify stores refresh tokens.
-    const token = await refreshAccessToken({
-      provider: spotifyProvider(),
-      refreshToken: params.storedCredential,
+    const accessToken = await getCachedAccessToken({
+      linkedAccountId: params.linkedAccountId,
+      refresh: () =>
+        refreshAccessToken({
+          provider: spotifyProvider(),
+          refreshToken: params.storedCredential,
+        }),
+    });
+    return `Bearer ${accessToken}`;
+  },
+
+  checkCredential(params: {
+    storedCredential: string;
+    linkedAccountId?: string;
+  }): Promise<CredentialHealth> {
+    return checkRefreshTokenHealth({
+      linkedAccountId: params.linkedAccountId,
+      refresh: () =>
+        refreshAccessToken({
+          provider: spotifyProvider(),
+          refreshToken: params.storedCredential,
+        }),
     });
-    return `Bearer ${token.access_token}`;
   },
 
   applyUpstreamRequestHeaderDefaults(params: {
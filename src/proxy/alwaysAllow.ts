@@ -31,13 +31,23 @@ export function getAlwaysAllowKey(params: {
   };
 }
 
-export function hasAlwaysAllowRule(params: {
+export async function hasAlwaysAllowRule(params: {
   userId: string;
   apiKeyId: string;
   requesterIp: string;
   method: string;
   url: URL;
-}): boolean {
+}): Promise<boolean> {
+  return (await findAlwaysAllowRuleId(params)) != null;
+}
+
+export async function findAlwaysAllowRuleId(params: {
+  userId: string;
+  apiKeyId: string;
+  requesterIp: string;
+  method: string;
+  url: URL;
+}): Promise<string | null> {
   const k = getAlwaysAllowKey({
     apiKeyId: params.apiKeyId,
     requesterIp: params.requesterIp,
@@ -45,7 +55,7 @@ export function hasAlwaysAllowRule(params: {
     url: params.url,
   });
 
-  const row = db()
+  const row = (await db()
     .query(
       "SELECT id FROM proxy_always_allow_rules WHERE user_id = ? AND api_key_id = ? AND requester_ip = ? AND method = ? AND upstream_host = ? AND upstream_path = ? AND revoked_at IS NULL LIMIT 1;"
     )
@@ -56,20 +66,20 @@ export function hasAlwaysAllowRule(params: {
       k.method,
       k.upstreamHost,
       k.upstreamPath
-    ) as {
+    )) as {
     id: string;
   } | null;
 
-  return Boolean(row);
+  return row?.id ?? null;
 }
 
-export function upsertAlwaysAllowRule(params: {
+export async function upsertAlwaysAllowRule(params: {
   userId: string;
   apiKeyId: string;
   requesterIp: string;
   method: string;
   url: URL;
-}): { ruleId: string } {
+}): Promise<{ ruleId: string }> {
   const k = getAlwaysAllowKey({
     apiKeyId: params.apiKeyId,
     requesterIp: params.requesterIp,
@@ -80,7 +90,7 @@ export function upsertAlwaysAllowRule(params: {
   const now = nowIso();
 
   // If the rule already exists (even if previously revoked), re-enable it.
-  db()
+  await db()
     .query(
       "INSERT INTO proxy_always_allow_rules (id, user_id, api_key_id, requester_ip, method, upstream_host, upstream_path, created_at, revoked_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL) " +
         "ON CONFLICT(user_id, api_key_id, requester_ip, method, upstream_host, upstream_path) DO UPDATE SET revoked_at = NULL;"
@@ -97,7 +107,7 @@ export function upsertAlwaysAllowRule(params: {
     );
 
   // Fetch the canonical id (might be the pre-existing row).
-  const row = db()
+  const row = (await db()
     .query(
       "SELECT id FROM proxy_always_allow_rules WHERE user_id = ? AND api_key_id = ? AND requester_ip = ? AND method = ? AND upstream_host = ? AND upstream_path = ? AND revoked_at IS NULL LIMIT 1;"
     )
@@ -108,9 +118,56 @@ export function upsertAlwaysAllowRule(params: {
       k.method,
       k.upstreamHost,
       k.upstreamPath
-    ) as {
+    )) as {
     id: string;
   } | null;
 
   return { ruleId: row?.id ?? id };
 }
+
+export type AlwaysAllowRule = {
+  id: string;
+  api_key_id: string;
+  api_key_label: string | null;
+  requester_ip: string;
+  method: string;
+  upstream_host: string;
+  upstream_path: string;
+  created_at: string;
+};
+
+// Active rules, newest first.
+export async function listAlwaysAllowRules(
+  userId: string
+): Promise<AlwaysAllowRule[]> {
+  return (await db()
+    .query(
+      "SELECT r.id, r.api_key_id, k.label AS api_key_label, r.requester_ip, r.method, r.upstream_host, r.upstream_path, r.created_at " +
+        "FROM proxy_always_allow_rules r LEFT JOIN api_keys k ON k.id = r.api_key_id " +
+        "WHERE r.user_id = ? AND r.revoked_at IS NULL ORDER BY r.created_at DESC, r.id DESC;"
+    )
+    .all(userId)) as AlwaysAllowRule[];
+}
+
+// Revokes one rule (ruleId) or all of a key's rules (apiKeyId); returns how
+// many were active.
+export async function revokeAlwaysAllowRules(params: {
+  userId: string;
+  ruleId?: string;
+  apiKeyId?: string;
+}): Promise<number> {
+  if (!params.ruleId && !params.apiKeyId) return 0;
+  const res = await db()
+    .query(
+      "UPDATE proxy_always_allow_rules SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL AND (CAST(? AS TEXT) IS NULL OR id = ?) AND (CAST(? AS TEXT) IS NULL OR api_key_id = ?);"
+    )
+    .run(
+      nowIso(),
+      params.userId,
+      params.ruleId ?? null,
+      params.ruleId ?? null,
+      params.apiKeyId ?? null,
+      params.apiKeyId ?? null
+    );
+  return res.changes;
+}
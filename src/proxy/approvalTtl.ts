@@ -0,0 +1,112 @@
+import { env } from "../env";
+
+// Approval windows: callers may ask for a TTL (`approval_ttl_seconds`),
+// bounded by the API key's own maximum (if set) and the server-wide maximum.
+
+export const MIN_APPROVAL_TTL_SECONDS = 30;
+
+export type ApprovalTtlResult =
+  | { ok: true; seconds: number }
+  | { ok: false; message: string };
+
+export function maxApprovalTtlSeconds(keyMaxSeconds: number | null): number {
+  const serverMax = env.APPROVAL_TTL_MAX_SECONDS;
+  return keyMaxSeconds != null ? Math.min(keyMaxSeconds, serverMax) : serverMax;
+}
+
+export function resolveApprovalTtlSeconds(params: {
+  requested?: number;
+  keyMaxSeconds: number | null;
+  defaultSeconds: number;
+}): ApprovalTtlResult {
+  const max = maxApprovalTtlSeconds(params.keyMaxSeconds);
+  if (params.requested == null) {
+    return { ok: true, seconds: Math.min(params.defaultSeconds, max) };
+  }
+  if (params.requested < MIN_APPROVAL_TTL_SECONDS) {
+    return {
+      ok: false,
+      message: `approval_ttl_seconds must be at least ${MIN_APPROVAL_TTL_SECONDS}`,
+    };
+  }
+  if (params.requested > max) {
+    return {
+      ok: false,
+      message: `approval_ttl_seconds exceeds the maximum for this key (${max})`,
+    };
+  }
+  return { ok: true, seconds: params.requested };
+}
+
+// Git sessions: how long an approved session may sit idle before the sweeper
+// expires it.
+export function resolveGitInactivitySeconds(
+  requested?: number
+): ApprovalTtlResult {
+  const max = env.GIT_SESSION_INACTIVITY_MAX_SECONDS;
+  if (requested == null) {
+    return {
+      ok: true,
+      seconds: Math.min(env.GIT_SESSION_INACTIVITY_DEFAULT_SECONDS, max),
+    };
+  }
+  if (requested > max) {
+    return {
+      ok: false,
+      message: `inactivity_timeout_seconds exceeds the server maximum (${max})`,
+    };
+  }
+  return { ok: true, seconds: requested };
+}
+
+export function resolveGitStandingSeconds(
+  requested?: number
+): ApprovalTtlResult {
+  const max = env.GIT_STANDING_SESSION_MAX_SECONDS;
+  if (requested == null) {
+    return {
+      ok: true,
+      seconds: Math.min(env.GIT_STANDING_SESSION_DEFAULT_SECONDS, max),
+    };
+  }
+  if (requested > max) {
+    return {
+      ok: false,
+      message: `max_duration_seconds exceeds the server maximum (${max})`,
+    };
+  }
+  return { ok: true, seconds: requested };
+}
+
+// "2h", "30m", "90s", "1d" or a bare number of seconds.
+export function parseDurationSeconds(input: string): number | null {
+  const m = /^(\d+)\s*([smhd]?)$/i.exec(input.trim());
+  if (!m) return null;
+  const n = Number(m[1]);
+  const unit = (m[2] || "s").toLowerCase();
+  const mult =
+    unit === "d" ? 86_400 : unit === "h" ? 3_600 : unit === "m" ? 60 : 1;
+  return n > 0 ? n * mult : null;
+}
+
+export function formatDurationSeconds(seconds: number): string {
+  if (seconds % 86_400 === 0) return `${seconds / 86_400}d`;
+  if (seconds % 3_600 === 0) return `${seconds / 3_600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  if (seconds > 3_600) {
+    return `${Math.floor(seconds / 3_600)}h${Math.round((seconds % 3_600) / 60)}m`;
+  }
+  if (seconds > 60) {
+    return `${Math.floor(seconds / 60)}m${seconds % 60}s`;
+  }
+  return `${seconds}s`;
+}
+
+// Prompt line, e.g. "2h (until 2026-01-02 14:30 UTC)".
+export function describeApprovalWindow(params: {
+  seconds: number;
+  expiresAt: string;
+}): string {
+  const until = params.expiresAt.slice(0, 16).replace("T", " ");
+  return `${formatDurationSeconds(params.seconds)} (until ${until} UTC)`;
+}
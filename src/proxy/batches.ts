@@ -0,0 +1,303 @@
+import { ulid } from "ulid";
+
+import type { AuditActor } from "../audit/events";
+import { db } from "../db/client";
+import { publishProxyRequestDecision } from "./notify";
+import { startExecutionOnApproval } from "./results";
+import { APPROVAL_EXPIRY_ACTOR, transitionProxyRequests } from "./transitions";
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+export const MAX_BATCH_ITEMS = 50;
+
+export type ProxyBatchItem = {
+  index: number;
+  requestId: string;
+  method: string;
+  upstreamUrl: string;
+  status: string;
+  errorCode: string | null;
+  upstreamHttpStatus: number | null;
+  upstreamBytes: number | null;
+};
+
+export type ProxyBatch = {
+  id: string;
+  userId: string;
+  apiKeyId: string;
+  apiKeyLabelSnapshot: string;
+  consentHint: string | null;
+  status: string;
+  itemCount: number;
+  createdAt: string;
+  approvalExpiresAt: string;
+};
+
+type BatchRow = {
+  id: string;
+  user_id: string;
+  api_key_id: string;
+  api_key_label_snapshot: string;
+  consent_hint: string | null;
+  status: string;
+  item_count: number;
+  created_at: string;
+  approval_expires_at: string;
+};
+
+function toBatch(row: BatchRow): ProxyBatch {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    apiKeyId: row.api_key_id,
+    apiKeyLabelSnapshot: row.api_key_label_snapshot,
+    consentHint: row.consent_hint,
+    status: row.status,
+    itemCount: row.item_count,
+    createdAt: row.created_at,
+    approvalExpiresAt: row.approval_expires_at,
+  };
+}
+
+const BATCH_COLUMNS =
+  "id, user_id, api_key_id, api_key_label_snapshot, consent_hint, status, item_count, created_at, approval_expires_at";
+
+export async function findProxyBatchByIdempotencyKey(params: {
+  apiKeyId: string;
+  idempotencyKey: string;
+}): Promise<ProxyBatch | null> {
+  const row = (await db()
+    .query(
+      `SELECT ${BATCH_COLUMNS} FROM proxy_batches WHERE api_key_id = ? AND idempotency_key = ? LIMIT 1;`
+    )
+    .get(params.apiKeyId, params.idempotencyKey)) as BatchRow | null;
+  return row ? toBatch(row) : null;
+}
+
+export async function createProxyBatch(params: {
+  userId: string;
+  apiKeyId: string;
+  apiKeyLabelSnapshot: string;
+  consentHint?: string;
+  idempotencyKey?: string;
+  itemCount: number;
+  approvalTtlMs: number;
+}): Promise<ProxyBatch> {
+  const id = ulid();
+  const now = nowIso();
+  const approvalExpiresAt = new Date(
+    Date.now() + params.approvalTtlMs
+  ).toISOString();
+
+  await db()
+    .query(
+      "INSERT INTO proxy_batches (id, user_id, api_key_id, api_key_label_snapshot, consent_hint, idempotency_key, status, item_count, created_at, updated_at, approval_expires_at) " +
+        "VALUES (?, ?, ?, ?, ?, ?, 'PENDING_APPROVAL', ?, ?, ?, ?);"
+    )
+    .run(
+      id,
+      params.userId,
+      params.apiKeyId,
+      params.apiKeyLabelSnapshot,
+      params.consentHint ?? null,
+      params.idempotencyKey ?? null,
+      params.itemCount,
+      now,
+      now,
+      approvalExpiresAt
+    );
+
+  return {
+    id,
+    userId: params.userId,
+    apiKeyId: params.apiKeyId,
+    apiKeyLabelSnapshot: params.apiKeyLabelSnapshot,
+    consentHint: params.consentHint ?? null,
+    status: "PENDING_APPROVAL",
+    itemCount: params.itemCount,
+    createdAt: now,
+    approvalExpiresAt,
+  };
+}
+
+export async function attachRequestToBatch(params: {
+  batchId: string;
+  requestId: string;
+  index: number;
+}): Promise<void> {
+  await db()
+    .query(
+      "UPDATE proxy_requests SET batch_id = ?, batch_index = ? WHERE id = ?;"
+    )
+    .run(params.batchId, params.index, params.requestId);
+}
+
+// Mark a batch as settled without a prompt (e.g. every item was decided by a
+// policy rule or grant at creation time).
+export async function setProxyBatchStatus(params: {
+  batchId: string;
+  status: string;
+}): Promise<void> {
+  await db()
+    .query("UPDATE proxy_batches SET status = ?, updated_at = ? WHERE id = ?;")
+    .run(params.status, nowIso(), params.batchId);
+}
+
+export async function getProxyBatchForUser(params: {
+  batchId: string;
+  userId: string;
+}): Promise<ProxyBatch | null> {
+  const row = (await db()
+    .query(
+      `SELECT ${BATCH_COLUMNS} FROM proxy_batches WHERE id = ? AND user_id = ?;`
+    )
+    .get(params.batchId, params.userId)) as BatchRow | null;
+  return row ? toBatch(row) : null;
+}
+
+export async function listProxyBatchItems(
+  batchId: string
+): Promise<ProxyBatchItem[]> {
+  const rows = (await db()
+    .query(
+      "SELECT id, batch_index, method, upstream_url, status, error_code, upstream_http_status, upstream_bytes FROM proxy_requests WHERE batch_id = ? ORDER BY batch_index ASC;"
+    )
+    .all(batchId)) as {
+    id: string;
+    batch_index: number;
+    method: string;
+    upstream_url: string;
+    status: string;
+    error_code: string | null;
+    upstream_http_status: number | null;
+    upstream_bytes: number | null;
+  }[];
+
+  return rows.map((r) => ({
+    index: r.batch_index,
+    requestId: r.id,
+    method: r.method,
+    upstreamUrl: r.upstream_url,
+    status: r.status,
+    errorCode: r.error_code,
+    upstreamHttpStatus: r.upstream_http_status,
+    upstreamBytes: r.upstream_bytes,
+  }));
+}
+
+// Apply one Telegram decision to every still-pending item of the batch.
+// Items already decided by a policy rule or grant keep their status.
+export async function decideProxyBatch(params: {
+  batchId: string;
+  userId: string;
+  decision: "approved" | "denied";
+  telegramUserId: number;
+  telegramChatId: number;
+  telegramMessageId: number;
+  // Who to record in the audit log; defaults to the Telegram user.
+  actor?: AuditActor;
+}): Promise<
+  | { ok: true; requestIds: string[] }
+  | { ok: false; reason: "not_found" | "not_pending" | "expired" }
+> {
+  const batch = await getProxyBatchForUser(params);
+  if (!batch) return { ok: false, reason: "not_found" };
+  if (batch.status !== "PENDING_APPROVAL") {
+    return { ok: false, reason: "not_pending" };
+  }
+
+  const now = nowIso();
+  const exp = Date.parse(batch.approvalExpiresAt);
+  if (Number.isFinite(exp) && Date.now() > exp) {
+    await expireProxyBatch(batch.id);
+    return { ok: false, reason: "expired" };
+  }
+
+  const newStatus = params.decision === "approved" ? "APPROVED" : "DENIED";
+  const errorCode = params.decision === "denied" ? "DENIED" : null;
+  const actor: AuditActor = params.actor ?? {
+    actorType: "telegram",
+    actorId: String(params.telegramUserId),
+  };
+
+  const requestIds = await db().transaction(async () => {
+    const pending = (await db()
+      .query(
+        "SELECT id FROM proxy_requests WHERE batch_id = ? AND user_id = ? AND status = 'PENDING_APPROVAL' ORDER BY batch_index ASC;"
+      )
+      .all(batch.id, params.userId)) as { id: string }[];
+
+    for (const { id } of pending) {
+      await transitionProxyRequests({
+        requestId: id,
+        from: "PENDING_APPROVAL",
+        to: newStatus,
+        errorCode,
+        actor,
+        detail: { batch_id: batch.id },
+      });
+      await db()
+        .query(
+          "INSERT INTO approvals (request_id, telegram_chat_id, telegram_message_id, decision, decided_at, decided_by_telegram_user_id) VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT DO NOTHING;"
+        )
+        .run(
+          id,
+          params.telegramChatId,
+          params.telegramMessageId,
+          params.decision,
+          now,
+          params.telegramUserId
+        );
+    }
+
+    await db()
+      .query(
+        "UPDATE proxy_batches SET status = ?, updated_at = ? WHERE id = ? AND status = 'PENDING_APPROVAL';"
+      )
+      .run(newStatus, now, batch.id);
+
+    return pending.map((p) => p.id);
+  });
+
+  for (const requestId of requestIds) {
+    publishProxyRequestDecision({ requestId, status: newStatus });
+    if (newStatus === "APPROVED") await startExecutionOnApproval(requestId);
+  }
+  return { ok: true, requestIds };
+}
+
+async function expireProxyBatch(batchId: string): Promise<void> {
+  const now = nowIso();
+  const expired = await db().transaction(async () => {
+    const rows = await transitionProxyRequests({
+      batchId,
+      from: "PENDING_APPROVAL",
+      to: "EXPIRED",
+      errorCode: "APPROVAL_EXPIRED",
+      actor: APPROVAL_EXPIRY_ACTOR,
+      detail: { batch_id: batchId },
+    });
+    await db()
+      .query(
+        "UPDATE proxy_batches SET status = 'EXPIRED', updated_at = ? WHERE id = ? AND status = 'PENDING_APPROVAL';"
+      )
+      .run(now, batchId);
+    return rows;
+  });
+
+  for (const { id } of expired) {
+    publishProxyRequestDecision({ requestId: id, status: "EXPIRED" });
+  }
+}
+
+export async function sweepBatchExpirations(): Promise<number> {
+  return (
+    await db()
+      .query(
+        "UPDATE proxy_batches SET status = 'EXPIRED', updated_at = ? WHERE status = 'PENDING_APPROVAL' AND approval_expires_at < ?;"
+      )
+      .run(nowIso(), nowIso())
+  ).changes;
+}
@@ -0,0 +1,386 @@
+import { markLinkedAccountNeedsReauth } from "../accounts/health";
+import { selectLinkedAccount } from "../accounts/linked";
+import type { AuditActor } from "../audit/events";
+import { decryptUtf8 } from "../crypto/aesgcm";
+import { db } from "../db/client";
+import { env } from "../env";
+import { OAuthTokenRefreshError } from "../oauth/flow";
+import { clearCachedAccessToken } from "../oauth/tokenCache";
+import type { ProxyProvider } from "./provider";
+import { getProxyProviderForUrl } from "./providerRegistry";
+import { transitionProxyRequests } from "./transitions";
+
+export const BUFFERED_RESPONSE_MAX_BYTES = 1024 * 1024;
+
+export function responseByteCap(params: {
+  responseMode: string;
+  provider?: ProxyProvider;
+}): number {
+  if (params.responseMode !== "stream") return BUFFERED_RESPONSE_MAX_BYTES;
+  return params.provider?.maxStreamResponseBytes ?? env.PROXY_STREAM_MAX_BYTES;
+}
+
+export function effectiveResponseByteCap(params: {
+  responseMode: string;
+  requested: number | null;
+  provider?: ProxyProvider;
+}): number {
+  const cap = responseByteCap(params);
+  return params.requested != null ? Math.min(params.requested, cap) : cap;
+}
+
+// The proxy_requests columns needed to perform the upstream call.
+export type ProxyExecutionRow = {
+  id: string;
+  user_id: string;
+  upstream_url: string;
+  method: string;
+  request_headers_json: string | null;
+  request_body_base64: string | null;
+  // Account pinned at creation; null for requests created without one.
+  linked_account_id: string | null;
+};
+
+// Raised when the broker refuses to call upstream (no linked account, auth
+// failure, ...). The proxy request has already been marked FAILED; `body` is
+// the JSON error returned to the API caller.
+export class ProxyExecutionError extends Error {
+  readonly httpStatus: 400 | 409 | 500 | 502;
+  readonly body: Record<string, unknown>;
+
+  constructor(params: {
+    httpStatus: 400 | 409 | 500 | 502;
+    body: Record<string, unknown>;
+  }) {
+    super(String(params.body.error ?? "execution_failed"));
+    this.name = "ProxyExecutionError";
+    this.httpStatus = params.httpStatus;
+    this.body = params.body;
+  }
+}
+
+async function failRequest(params: {
+  requestId: string;
+  errorCode: string;
+  errorMessage?: string | null;
+  actor: AuditActor;
+}): Promise<void> {
+  await transitionProxyRequests({
+    requestId: params.requestId,
+    from: "EXECUTING",
+    to: "FAILED",
+    errorCode: params.errorCode,
+    errorMessage: params.errorMessage,
+    actor: params.actor,
+  });
+}
+
+export async function fetchWithAllowedRedirects(params: {
+  url: string;
+  init: RequestInit;
+  maxRedirects: number;
+  provider: ProxyProvider;
+  userId: string;
+  storedCredential: string;
+}): Promise<Response> {
+  let current = new URL(params.url);
+
+  for (let i = 0; i <= params.maxRedirects; i++) {
+    const res = await fetch(current.toString(), {
+      ...params.init,
+      redirect: "manual",
+    });
+
+    if (
+      res.status === 301 ||
+      res.status === 302 ||
+      res.status === 303 ||
+      res.status === 307 ||
+      res.status === 308
+    ) {
+      const loc = res.headers.get("location");
+      if (!loc) return res;
+      const next = new URL(loc, current);
+      if (next.protocol !== "https:") throw new Error("redirect to non-https");
+
+      const allow = await params.provider.isAllowedUpstreamUrl({
+        userId: params.userId,
+        url: next,
+        storedCredential: params.storedCredential,
+      });
+      if (!allow.allowed) {
+        throw new Error("redirect disallowed");
+      }
+
+      current = next;
+      continue;
+    }
+
+    return res;
+  }
+
+  throw new Error("too many redirects");
+}
+
+// Perform the upstream call for a claimed (EXECUTING) proxy request.
+// Throws ProxyExecutionError for broker-side refusals; network errors
+// propagate unchanged. `actor` is who the refusal is audited as.
+export async function fetchUpstreamForProxyRequest(
+  row: ProxyExecutionRow,
+  actor: AuditActor
+): Promise<{ res: Response; provider?: ProxyProvider }> {
+  // Test-only escape hatch: allow executing against a stub upstream without OAuth.
+  // This is enabled by the test script (PB_TEST_BYPASS_OAUTH=1) and should not be used in production.
+  if (env.NODE_ENV === "test" && env.PB_TEST_BYPASS_OAUTH) {
+    const ctrl = new AbortController();
+    const timeout = setTimeout(() => ctrl.abort(), 60_000);
+    try {
+      const res = await fetch(row.upstream_url, {
+        method: "GET",
+        signal: ctrl.signal,
+      });
+      return { res };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  const url = new URL(row.upstream_url);
+  const provider = getProxyProviderForUrl(url);
+
+  let accountId = row.linked_account_id;
+  if (!accountId) {
+    const selection = await selectLinkedAccount({
+      userId: row.user_id,
+      provider: provider.id,
+    });
+    if (!selection.ok) {
+      await failRequest({
+        requestId: row.id,
+        actor,
+        errorCode: "ACCOUNT_SELECTION_REQUIRED",
+      });
+      throw new ProxyExecutionError({
+        httpStatus: 409,
+        body: {
+          error: selection.error,
+          message: selection.message,
+          provider: provider.id,
+          request_id: row.id,
+        },
+      });
+    }
+    accountId = selection.account?.id ?? null;
+  }
+
+  // A pinned account that was disconnected since approval is not replaced
+  // by another one.
+  const acct = accountId
+    ? ((await db()
+        .query(
+          "SELECT refresh_token_ciphertext FROM linked_accounts WHERE id = ? AND user_id = ? AND provider = ? AND status = 'active';"
+        )
+        .get(accountId, row.user_id, provider.id)) as {
+        refresh_token_ciphertext: Uint8Array;
+      } | null)
+    : null;
+
+  if (accountId && !acct) {
+    const status = (await db()
+      .query("SELECT status FROM linked_accounts WHERE id = ?;")
+      .get(accountId)) as { status: string } | null;
+    if (status?.status === "needs_reauth") {
+      await failRequest({
+        requestId: row.id,
+        errorCode: "ACCOUNT_NEEDS_REAUTH",
+        actor,
+      });
+      throw new ProxyExecutionError({
+        httpStatus: 409,
+        body: {
+          error: "account_needs_reauth",
+          provider: provider.id,
+          account_id: accountId,
+          request_id: row.id,
+        },
+      });
+    }
+  }
+
+  if (!accountId || !acct) {
+    await failRequest({
+      requestId: row.id,
+      errorCode: "NO_LINKED_ACCOUNT",
+      actor,
+    });
+    throw new ProxyExecutionError({
+      httpStatus: 409,
+      body: {
+        error: "no_linked_account",
+        provider: provider.id,
+        request_id: row.id,
+      },
+    });
+  }
+
+  if (!env.APP_SECRET) {
+    await failRequest({
+      requestId: row.id,
+      errorCode: "APP_SECRET_NOT_CONFIGURED",
+      actor,
+    });
+    throw new ProxyExecutionError({
+      httpStatus: 500,
+      body: { error: "server_misconfigured", request_id: row.id },
+    });
+  }
+
+  const storedCredential = await decryptUtf8(acct.refresh_token_ciphertext);
+
+  const method = (row.method || "GET").toUpperCase();
+  if (!provider.allowedMethods.has(method)) {
+    await failRequest({
+      requestId: row.id,
+      errorCode: "METHOD_NOT_ALLOWED",
+      actor,
+    });
+    throw new ProxyExecutionError({
+      httpStatus: 400,
+      body: { error: "invalid_request", request_id: row.id },
+    });
+  }
+
+  const allow = await provider.isAllowedUpstreamUrl({
+    userId: row.user_id,
+    url,
+    storedCredential,
+  });
+  if (!allow.allowed) {
+    await failRequest({
+      requestId: row.id,
+      actor,
+      errorCode: "DISALLOWED_UPSTREAM_URL",
+      errorMessage: allow.message,
+    });
+    throw new ProxyExecutionError({
+      httpStatus: 400,
+      body: { error: "invalid_upstream_url", request_id: row.id },
+    });
+  }
+
+  let authorization: string;
+  try {
+    authorization = await provider.getAuthorizationHeaderValue({
+      storedCredential,
+      linkedAccountId: accountId,
+      request: { method, url },
+    });
+  } catch (err) {
+    if (err instanceof OAuthTokenRefreshError) {
+      const msg = [
+        `provider=${err.providerId}`,
+        err.status != null ? `status=${err.status}` : "",
+        err.oauthError ? `error=${err.oauthError}` : "",
+        err.oauthErrorDescription
+          ? `description=${err.oauthErrorDescription}`
+          : "",
+      ]
+        .filter(Boolean)
+        .join(" ");
+
+      await failRequest({
+        requestId: row.id,
+        actor,
+        errorCode: "OAUTH_REFRESH_FAILED",
+        errorMessage: msg || err.message,
+      });
+
+      // The refresh token was revoked or expired: no retry will help.
+      if (err.oauthError === "invalid_grant") {
+        await markLinkedAccountNeedsReauth({
+          accountId,
+          reason: err.oauthErrorDescription ?? "refresh token was rejected",
+          actorId: "execute",
+        });
+      }
+      throw new ProxyExecutionError({
+        httpStatus: 502,
+        body: {
+          error: "oauth_refresh_failed",
+          provider: err.providerId,
+          status: err.status,
+          request_id: row.id,
+        },
+      });
+    }
+
+    const em = err instanceof Error ? err.message : String(err);
+    await failRequest({
+      requestId: row.id,
+      actor,
+      errorCode: "AUTH_FAILED",
+      errorMessage: em,
+    });
+    throw new ProxyExecutionError({
+      httpStatus: 502,
+      body: { error: "auth_failed", request_id: row.id },
+    });
+  }
+
+  let reqHeaders: Record<string, string> = {};
+  if (row.request_headers_json) {
+    try {
+      reqHeaders = JSON.parse(row.request_headers_json) as Record<
+        string,
+        string
+      >;
+    } catch {
+      reqHeaders = {};
+    }
+  }
+
+  // Never allow caller-provided Authorization (or the provider's own
+  // credential header).
+  const authHeaderName = provider.authHeaderName ?? "authorization";
+  delete (reqHeaders as Record<string, string>).authorization;
+  delete (reqHeaders as Record<string, string>)[authHeaderName];
+
+  // Internal broker hints (not forwarded upstream).
+  delete (reqHeaders as Record<string, string>)["x-pb-timezone"];
+
+  provider.applyUpstreamRequestHeaderDefaults({ headers: reqHeaders });
+
+  const upstreamHeaders = new Headers();
+  for (const [k, v] of Object.entries(reqHeaders)) {
+    upstreamHeaders.set(k, v);
+  }
+  upstreamHeaders.set(authHeaderName, authorization);
+
+  const bodyBytes = row.request_body_base64
+    ? Buffer.from(row.request_body_base64, "base64")
+    : null;
+
+  const ctrl = new AbortController();
+  const timeout = setTimeout(() => ctrl.abort(), 60_000);
+  try {
+    const res = await fetchWithAllowedRedirects({
+      url: row.upstream_url,
+      init: {
+        method,
+        headers: upstreamHeaders,
+        body: bodyBytes,
+        signal: ctrl.signal,
+      },
+      maxRedirects: 5,
+      provider,
+      userId: row.user_id,
+      storedCredential,
+    });
+    // A cached access token the upstream no longer accepts (revoked early,
+    // scopes changed): refresh on the next execute instead of reusing it.
+    if (res.status === 401) await clearCachedAccessToken(accountId);
+    return { res, provider };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,197 @@
+import { ulid } from "ulid";
+
+import { db } from "../db/client";
+import { getAlwaysAllowKey } from "./alwaysAllow";
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Grant options offered on the Telegram approval keyboard.
+// Each grant use covers exactly one auto-approved (and therefore at most one
+// executed) proxy request.
+export const APPROVAL_GRANT_PRESETS = {
+  "1h": { buttonText: "Allow 1h", label: "for 1 hour", ttlMs: 60 * 60_000 },
+  "20": {
+    buttonText: "Allow next 20",
+    label: "for the next 20 calls",
+    maxUses: 20,
+  },
+} as const satisfies Record<
+  string,
+  { buttonText: string; label: string; ttlMs?: number; maxUses?: number }
+>;
+
+export type ApprovalGrantPresetId = keyof typeof APPROVAL_GRANT_PRESETS;
+
+export function isApprovalGrantPresetId(
+  id: string
+): id is ApprovalGrantPresetId {
+  return Object.hasOwn(APPROVAL_GRANT_PRESETS, id);
+}
+
+export type ApprovalGrantUse = {
+  grantId: string;
+  expiresAt: string | null;
+  maxUses: number | null;
+  useCount: number;
+};
+
+export async function createApprovalGrant(params: {
+  userId: string;
+  apiKeyId: string;
+  requesterIp: string;
+  method: string;
+  url: URL;
+  sourceRequestId?: string;
+  ttlMs?: number;
+  maxUses?: number;
+}): Promise<{
+  grantId: string;
+  expiresAt: string | null;
+  maxUses: number | null;
+}> {
+  if (params.ttlMs == null && params.maxUses == null) {
+    throw new Error("grant requires a ttl or a max use count");
+  }
+
+  const k = getAlwaysAllowKey({
+    apiKeyId: params.apiKeyId,
+    requesterIp: params.requesterIp,
+    method: params.method,
+    url: params.url,
+  });
+  const id = ulid();
+  const expiresAt =
+    params.ttlMs != null
+      ? new Date(Date.now() + params.ttlMs).toISOString()
+      : null;
+
+  await db()
+    .query(
+      "INSERT INTO proxy_approval_grants (id, user_id, api_key_id, requester_ip, method, upstream_host, upstream_path, source_request_id, expires_at, max_uses, use_count, created_at, revoked_at) " +
+        "VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, NULL);"
+    )
+    .run(
+      id,
+      params.userId,
+      k.apiKeyId,
+      k.requesterIp,
+      k.method,
+      k.upstreamHost,
+      k.upstreamPath,
+      params.sourceRequestId ?? null,
+      expiresAt,
+      params.maxUses ?? null,
+      nowIso()
+    );
+
+  return { grantId: id, expiresAt, maxUses: params.maxUses ?? null };
+}
+
+// Atomically take one use from the newest live grant matching the request.
+// Returns null when no grant applies (none, expired, exhausted or revoked), in
+// which case the caller falls back to a normal approval prompt.
+export async function consumeApprovalGrant(params: {
+  userId: string;
+  apiKeyId: string;
+  requesterIp: string;
+  method: string;
+  url: URL;
+}): Promise<ApprovalGrantUse | null> {
+  const k = getAlwaysAllowKey(params);
+  const now = nowIso();
+
+  const row = (await db()
+    .query(
+      "UPDATE proxy_approval_grants SET use_count = use_count + 1 WHERE id = (" +
+        "SELECT id FROM proxy_approval_grants WHERE user_id = ? AND api_key_id = ? AND requester_ip = ? AND method = ? AND upstream_host = ? AND upstream_path = ? " +
+        "AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?) AND (max_uses IS NULL OR use_count < max_uses) " +
+        "ORDER BY created_at DESC LIMIT 1" +
+        ") RETURNING id, expires_at, max_uses, use_count;"
+    )
+    .get(
+      params.userId,
+      k.apiKeyId,
+      k.requesterIp,
+      k.method,
+      k.upstreamHost,
+      k.upstreamPath,
+      now
+    )) as {
+    id: string;
+    expires_at: string | null;
+    max_uses: number | null;
+    use_count: number;
+  } | null;
+
+  if (!row) return null;
+  return {
+    grantId: row.id,
+    expiresAt: row.expires_at,
+    maxUses: row.max_uses,
+    useCount: row.use_count,
+  };
+}
+
+export function describeApprovalGrantUse(use: ApprovalGrantUse): string {
+  const parts: string[] = [];
+  if (use.expiresAt) parts.push(`expires ${use.expiresAt}`);
+  if (use.maxUses != null) {
+    parts.push(
+      `${Math.max(0, use.maxUses - use.useCount)} of ${use.maxUses} uses left`
+    );
+  }
+  return parts.join(", ");
+}
+
+export type LiveApprovalGrant = {
+  id: string;
+  api_key_id: string;
+  api_key_label: string | null;
+  requester_ip: string;
+  method: string;
+  upstream_host: string;
+  upstream_path: string;
+  expires_at: string | null;
+  max_uses: number | null;
+  use_count: number;
+  created_at: string;
+};
+
+// Grants that can still auto-approve a request, newest first.
+export async function listLiveApprovalGrants(
+  userId: string
+): Promise<LiveApprovalGrant[]> {
+  return (await db()
+    .query(
+      "SELECT g.id, g.api_key_id, k.label AS api_key_label, g.requester_ip, g.method, g.upstream_host, g.upstream_path, g.expires_at, g.max_uses, g.use_count, g.created_at " +
+        "FROM proxy_approval_grants g LEFT JOIN api_keys k ON k.id = g.api_key_id " +
+        "WHERE g.user_id = ? AND g.revoked_at IS NULL AND (g.expires_at IS NULL OR g.expires_at > ?) AND (g.max_uses IS NULL OR g.use_count < g.max_uses) " +
+        "ORDER BY g.created_at DESC, g.id DESC;"
+    )
+    .all(userId, nowIso())) as LiveApprovalGrant[];
+}
+
+// Revokes one grant (grantId) or all of a key's grants (apiKeyId); returns
+// how many were not yet revoked.
+export async function revokeApprovalGrants(params: {
+  userId: string;
+  grantId?: string;
+  apiKeyId?: string;
+}): Promise<number> {
+  if (!params.grantId && !params.apiKeyId) return 0;
+  const res = await db()
+    .query(
+      "UPDATE proxy_approval_grants SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL AND (CAST(? AS TEXT) IS NULL OR id = ?) AND (CAST(? AS TEXT) IS NULL OR api_key_id = ?);"
+    )
+    .run(
+      nowIso(),
+      params.userId,
+      params.grantId ?? null,
+      params.grantId ?? null,
+      params.apiKeyId ?? null,
+      params.apiKeyId ?? null
+    );
+  return res.changes;
+}
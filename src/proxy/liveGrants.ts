@@ -0,0 +1,164 @@
+import type { AuditActor } from "../audit/events";
+import {
+  type LiveGitSession,
+  listLiveGitSessions,
+  revokeGitSession,
+  revokeGitSessionsForApiKey,
+} from "../git/sessions";
+import { listAlwaysAllowRules, revokeAlwaysAllowRules } from "./alwaysAllow";
+import { listLiveApprovalGrants, revokeApprovalGrants } from "./grants";
+import {
+  describePolicyRule,
+  listApiKeyAllowRules,
+  revokeApiKeyAllowRules,
+  revokePolicyRule,
+} from "./policy";
+import { denyOpenProxyRequests } from "./requests";
+
+// Everything that currently lets an API key act without a fresh approval:
+// approved git sessions, always-allow rules, allow policy rules scoped to the
+// key and temporary approval grants. Backs the Telegram /sessions view.
+
+export type LiveGrantKind =
+  | "git_session"
+  | "always_allow"
+  | "policy_rule"
+  | "approval_grant";
+
+export type LiveGrant = {
+  kind: LiveGrantKind;
+  id: string;
+  apiKeyId: string;
+  apiKeyLabel: string | null;
+  description: string;
+};
+
+function describeLiveGitSession(s: LiveGitSession): string {
+  const parts = [`${s.operation} ${s.provider}:${s.repo_owner}/${s.repo_name}`];
+  if (s.standing) {
+    if (s.max_pushes) parts.push(`${s.push_count}/${s.max_pushes} pushes`);
+    if (s.expires_at) parts.push(`until ${s.expires_at.slice(0, 16)}Z`);
+  } else {
+    parts.push("one-off");
+  }
+  if (s.api_key_label) parts.push(`key ${s.api_key_label}`);
+  return parts.join(", ");
+}
+
+function withKey(parts: string[], label: string | null): string {
+  if (label) parts.push(`key ${label}`);
+  return parts.join(", ");
+}
+
+// Git sessions first, then always-allow rules, policy rules and grants;
+// newest first within each.
+export async function listLiveGrants(userId: string): Promise<LiveGrant[]> {
+  const out: LiveGrant[] = [];
+  for (const s of await listLiveGitSessions(userId)) {
+    out.push({
+      kind: "git_session",
+      id: s.id,
+      apiKeyId: s.api_key_id,
+      apiKeyLabel: s.api_key_label,
+      description: `git ${describeLiveGitSession(s)}`,
+    });
+  }
+  for (const r of await listAlwaysAllowRules(userId)) {
+    out.push({
+      kind: "always_allow",
+      id: r.id,
+      apiKeyId: r.api_key_id,
+      apiKeyLabel: r.api_key_label,
+      description: withKey(
+        [
+          `always allow ${r.method} ${r.upstream_host}${r.upstream_path}`,
+          `ip ${r.requester_ip}`,
+        ],
+        r.api_key_label
+      ),
+    });
+  }
+  for (const r of await listApiKeyAllowRules(userId)) {
+    out.push({
+      kind: "policy_rule",
+      id: r.id,
+      apiKeyId: r.apiKeyId ?? "",
+      apiKeyLabel: r.apiKeyLabel,
+      description: `rule ${describePolicyRule(r, r.apiKeyLabel ?? undefined)}`,
+    });
+  }
+  for (const g of await listLiveApprovalGrants(userId)) {
+    const parts = [`grant ${g.method} ${g.upstream_host}${g.upstream_path}`];
+    if (g.expires_at) parts.push(`until ${g.expires_at.slice(0, 16)}Z`);
+    if (g.max_uses != null) {
+      parts.push(`${g.max_uses - g.use_count} of ${g.max_uses} uses left`);
+    }
+    parts.push(`ip ${g.requester_ip}`);
+    out.push({
+      kind: "approval_grant",
+      id: g.id,
+      apiKeyId: g.api_key_id,
+      apiKeyLabel: g.api_key_label,
+      description: withKey(parts, g.api_key_label),
+    });
+  }
+  return out;
+}
+
+export async function revokeLiveGrant(params: {
+  userId: string;
+  kind: LiveGrantKind;
+  id: string;
+}): Promise<boolean> {
+  switch (params.kind) {
+    case "git_session":
+      return await revokeGitSession({
+        sessionId: params.id,
+        userId: params.userId,
+      });
+    case "always_allow":
+      return (
+        (await revokeAlwaysAllowRules({
+          userId: params.userId,
+          ruleId: params.id,
+        })) === 1
+      );
+    case "policy_rule":
+      return await revokePolicyRule({
+        userId: params.userId,
+        ruleId: params.id,
+      });
+    case "approval_grant":
+      return (
+        (await revokeApprovalGrants({
+          userId: params.userId,
+          grantId: params.id,
+        })) === 1
+      );
+  }
+}
+
+export type ApiKeyRevocation = {
+  gitSessions: number;
+  alwaysAllowRules: number;
+  policyRules: number;
+  approvalGrants: number;
+  // Open proxy requests that were denied.
+  requestIds: string[];
+};
+
+// "Revoke everything for this key": ends its git sessions, rules and grants,
+// and denies its open proxy requests. The key itself stays usable.
+export async function revokeAllForApiKey(params: {
+  userId: string;
+  apiKeyId: string;
+  actor: AuditActor;
+}): Promise<ApiKeyRevocation> {
+  return {
+    gitSessions: await revokeGitSessionsForApiKey(params),
+    alwaysAllowRules: await revokeAlwaysAllowRules(params),
+    policyRules: await revokeApiKeyAllowRules(params),
+    approvalGrants: await revokeApprovalGrants(params),
+    requestIds: await denyOpenProxyRequests({ ...params, via: "key_revoke" }),
+  };
+}
@@ -0,0 +1,148 @@
+import { auditEvent } from "../audit/audit";
+import { decryptUtf8 } from "../crypto/aesgcm";
+import { hmacSha256Hex } from "../crypto/hmac";
+import { db } from "../db/client";
+
+// In-process waiters for GET /v1/proxy/requests/:id/wait.
+// Decision paths (Telegram callbacks, the sweeper) call
+// publishProxyRequestDecision, which wakes waiters without touching the DB.
+const waiters = new Map<string, Set<() => void>>();
+
+export const CALLBACK_SIGNATURE_HEADER = "X-PB-Signature";
+
+// Resolves true when the request's status was published, false on timeout or
+// when `signal` aborts (e.g. the client disconnected).
+export function waitForProxyRequestDecision(params: {
+  requestId: string;
+  timeoutMs: number;
+  signal?: AbortSignal;
+}): Promise<boolean> {
+  return new Promise((resolve) => {
+    let set = waiters.get(params.requestId);
+    if (!set) {
+      set = new Set();
+      waiters.set(params.requestId, set);
+    }
+
+    const done = (notified: boolean) => {
+      clearTimeout(timer);
+      params.signal?.removeEventListener("abort", onAbort);
+      const s = waiters.get(params.requestId);
+      s?.delete(wake);
+      if (s && s.size === 0) waiters.delete(params.requestId);
+      resolve(notified);
+    };
+    const wake = () => done(true);
+    const onAbort = () => done(false);
+    const timer = setTimeout(() => done(false), params.timeoutMs);
+
+    set.add(wake);
+    params.signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function countProxyRequestWaiters(requestId: string): number {
+  return waiters.get(requestId)?.size ?? 0;
+}
+
+export type ProxyRequestEventType =
+  | "proxy_request.decided"
+  | "proxy_request.result_ready";
+
+// Called after a request leaves PENDING_APPROVAL through a human decision or
+// expiry (and, for execute_on_approval requests, once the result is stored).
+// Wakes long-poll waiters immediately and fires the API key's callback (if
+// configured) in the background.
+export function publishProxyRequestDecision(params: {
+  requestId: string;
+  status: string;
+  event?: ProxyRequestEventType;
+}): void {
+  const set = waiters.get(params.requestId);
+  if (set) {
+    for (const wake of [...set]) wake();
+  }
+
+  deliverDecisionCallback(params).catch(() => {});
+}
+
+export async function signCallbackPayload(params: {
+  secret: string;
+  timestamp: number;
+  body: string;
+}): Promise<string> {
+  const sig = await hmacSha256Hex(
+    params.secret,
+    `${params.timestamp}.${params.body}`
+  );
+  return `t=${params.timestamp},v1=${sig}`;
+}
+
+async function deliverDecisionCallback(params: {
+  requestId: string;
+  status: string;
+  event?: ProxyRequestEventType;
+}): Promise<void> {
+  const row = (await db()
+    .query(
+      "SELECT pr.user_id, pr.api_key_id, pr.batch_id, k.callback_url, k.callback_secret_ciphertext " +
+        "FROM proxy_requests pr JOIN api_keys k ON k.id = pr.api_key_id " +
+        "WHERE pr.id = ? AND k.revoked_at IS NULL;"
+    )
+    .get(params.requestId)) as {
+    user_id: string;
+    api_key_id: string;
+    batch_id: string | null;
+    callback_url: string | null;
+    callback_secret_ciphertext: Uint8Array | null;
+  } | null;
+
+  if (!row?.callback_url || !row.callback_secret_ciphertext) return;
+
+  const secret = await decryptUtf8(row.callback_secret_ciphertext);
+  const body = JSON.stringify({
+    type: params.event ?? "proxy_request.decided",
+    request_id: params.requestId,
+    status: params.status,
+    batch_id: row.batch_id ?? undefined,
+    occurred_at: new Date().toISOString(),
+  });
+  const signature = await signCallbackPayload({
+    secret,
+    timestamp: Math.floor(Date.now() / 1000),
+    body,
+  });
+
+  const ctrl = new AbortController();
+  const timeout = setTimeout(() => ctrl.abort(), 10_000);
+  let upstreamStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const res = await fetch(row.callback_url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        [CALLBACK_SIGNATURE_HEADER]: signature,
+      },
+      body,
+      redirect: "manual",
+      signal: ctrl.signal,
+    });
+    upstreamStatus = res.status;
+    await res.body?.cancel().catch(() => {});
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  const ok = upstreamStatus != null && upstreamStatus < 300;
+  await auditEvent({
+    userId: row.user_id,
+    requestId: params.requestId,
+    actorType: "system",
+    actorId: "callback",
+    eventType: ok ? "proxy_callback_delivered" : "proxy_callback_failed",
+    event: { status: params.status, http_status: upstreamStatus, error },
+  });
+}
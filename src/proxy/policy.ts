@@ -0,0 +1,466 @@
+import { ulid } from "ulid";
+
+import { db } from "../db/client";
+import { findAlwaysAllowRuleId } from "./alwaysAllow";
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+export type PolicyEffect = "allow" | "deny";
+
+export type PolicyRule = {
+  id: string;
+  userId: string;
+  // null scope fields mean "any".
+  apiKeyId: string | null;
+  requesterIp: string | null;
+  providerId: string | null;
+  effect: PolicyEffect;
+  priority: number;
+  methods: string[] | null;
+  // Host glob: `*` matches one DNS label, `**` matches anything.
+  hostPattern: string | null;
+  // Path glob/template: `*` and `{name}` match one segment, `**` matches any
+  // number of segments.
+  pathPattern: string | null;
+  // Query constraints: param -> value glob (`*` matches anything), or null to
+  // require that the param is absent.
+  queryConstraints: Record<string, string | null> | null;
+  description: string | null;
+  createdAt: string;
+};
+
+export type PolicyRequest = {
+  apiKeyId: string;
+  requesterIp: string | null;
+  providerId: string;
+  method: string;
+  url: URL;
+};
+
+export type PolicyMatch = {
+  // "approval_grant" matches come from temporary grants (see ./grants), which
+  // are consulted by the proxy layer after policy evaluation.
+  source: "policy_rule" | "always_allow" | "approval_grant";
+  ruleId: string;
+  effect: PolicyEffect;
+  priority: number;
+};
+
+type PolicyRuleRow = {
+  id: string;
+  user_id: string;
+  api_key_id: string | null;
+  requester_ip: string | null;
+  provider_id: string | null;
+  effect: PolicyEffect;
+  priority: number;
+  methods_json: string | null;
+  host_pattern: string | null;
+  path_pattern: string | null;
+  query_constraints_json: string | null;
+  description: string | null;
+  created_at: string;
+};
+
+function safeJsonParse(s: string | null): unknown {
+  if (s == null) return null;
+  try {
+    return JSON.parse(s);
+  } catch {
+    return null;
+  }
+}
+
+function ruleFromRow(r: PolicyRuleRow): PolicyRule {
+  const methodsRaw = safeJsonParse(r.methods_json);
+  const methods = Array.isArray(methodsRaw)
+    ? (methodsRaw.filter((x) => typeof x === "string") as string[])
+    : null;
+
+  const queryRaw = safeJsonParse(r.query_constraints_json);
+  let queryConstraints: Record<string, string | null> | null = null;
+  if (queryRaw && typeof queryRaw === "object" && !Array.isArray(queryRaw)) {
+    queryConstraints = {};
+    for (const [k, v] of Object.entries(queryRaw)) {
+      if (typeof v === "string" || v === null) queryConstraints[k] = v;
+    }
+  }
+
+  return {
+    id: r.id,
+    userId: r.user_id,
+    apiKeyId: r.api_key_id,
+    requesterIp: r.requester_ip,
+    providerId: r.provider_id,
+    effect: r.effect,
+    priority: r.priority,
+    methods,
+    hostPattern: r.host_pattern,
+    pathPattern: r.path_pattern,
+    queryConstraints,
+    description: r.description,
+    createdAt: r.created_at,
+  };
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Compile a glob where `**` matches anything, and `*` / `{name}` match within
+// a single separator-delimited unit (path segment or DNS label).
+function globToRegExp(pattern: string, separator: string | null): RegExp {
+  const sep = separator ? escapeRegExp(separator) : null;
+  let out = "";
+  let i = 0;
+
+  while (i < pattern.length) {
+    if (pattern.startsWith("**", i)) {
+      out += ".*";
+      i += 2;
+      continue;
+    }
+
+    const ch = pattern[i];
+    if (ch === "*") {
+      out += sep ? `[^${sep}]*` : ".*";
+      i += 1;
+      continue;
+    }
+
+    if (ch === "{") {
+      const end = pattern.indexOf("}", i);
+      if (end > i + 1) {
+        out += sep ? `[^${sep}]+` : ".+";
+        i = end + 1;
+        continue;
+      }
+    }
+
+    out += escapeRegExp(ch);
+    i += 1;
+  }
+
+  return new RegExp(`^${out}$`);
+}
+
+export function matchesHostPattern(pattern: string, host: string): boolean {
+  return globToRegExp(pattern.toLowerCase(), ".").test(host.toLowerCase());
+}
+
+export function matchesPathPattern(pattern: string, path: string): boolean {
+  return globToRegExp(pattern, "/").test(path || "/");
+}
+
+function matchesQueryConstraints(
+  constraints: Record<string, string | null>,
+  url: URL
+): boolean {
+  for (const [param, glob] of Object.entries(constraints)) {
+    const values = url.searchParams.getAll(param);
+    if (glob === null) {
+      if (values.length > 0) return false;
+      continue;
+    }
+
+    // Every occurrence must match, so repeated params can't smuggle values.
+    if (values.length === 0) return false;
+    const re = globToRegExp(glob, null);
+    if (!values.every((v) => re.test(v))) return false;
+  }
+  return true;
+}
+
+export function ruleMatchesRequest(
+  rule: PolicyRule,
+  req: PolicyRequest
+): boolean {
+  if (rule.apiKeyId && rule.apiKeyId !== req.apiKeyId) return false;
+  if (rule.requesterIp && rule.requesterIp !== req.requesterIp) return false;
+  if (rule.providerId && rule.providerId !== req.providerId) return false;
+
+  const method = req.method.toUpperCase();
+  if (rule.methods && !rule.methods.includes(method)) return false;
+
+  if (
+    rule.hostPattern &&
+    !matchesHostPattern(rule.hostPattern, req.url.hostname)
+  )
+    return false;
+  if (
+    rule.pathPattern &&
+    !matchesPathPattern(rule.pathPattern, req.url.pathname)
+  )
+    return false;
+  if (
+    rule.queryConstraints &&
+    !matchesQueryConstraints(rule.queryConstraints, req.url)
+  )
+    return false;
+
+  return true;
+}
+
+// Precedence: higher priority first; at equal priority deny beats allow.
+// Legacy always-allow rules participate as allow rules at priority 0.
+function compareMatches(a: PolicyMatch, b: PolicyMatch): number {
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  if (a.effect !== b.effect) return a.effect === "deny" ? -1 : 1;
+  if (a.source !== b.source) return a.source === "policy_rule" ? -1 : 1;
+  return a.ruleId.localeCompare(b.ruleId);
+}
+
+export async function evaluateProxyPolicy(
+  params: PolicyRequest & { userId: string }
+): Promise<PolicyMatch | null> {
+  const rows = (await db()
+    .query(
+      "SELECT id, user_id, api_key_id, requester_ip, provider_id, effect, priority, methods_json, host_pattern, path_pattern, query_constraints_json, description, created_at " +
+        "FROM proxy_policy_rules WHERE user_id = ? AND revoked_at IS NULL AND (api_key_id IS NULL OR api_key_id = ?);"
+    )
+    .all(params.userId, params.apiKeyId)) as PolicyRuleRow[];
+
+  const matches: PolicyMatch[] = [];
+  for (const r of rows) {
+    const rule = ruleFromRow(r);
+    if (!ruleMatchesRequest(rule, params)) continue;
+    matches.push({
+      source: "policy_rule",
+      ruleId: rule.id,
+      effect: rule.effect,
+      priority: rule.priority,
+    });
+  }
+
+  if (params.requesterIp != null) {
+    const alwaysAllowId = await findAlwaysAllowRuleId({
+      userId: params.userId,
+      apiKeyId: params.apiKeyId,
+      requesterIp: params.requesterIp,
+      method: params.method,
+      url: params.url,
+    });
+    if (alwaysAllowId) {
+      matches.push({
+        source: "always_allow",
+        ruleId: alwaysAllowId,
+        effect: "allow",
+        priority: 0,
+      });
+    }
+  }
+
+  matches.sort(compareMatches);
+  return matches[0] ?? null;
+}
+
+export type PolicyRuleInput = {
+  apiKeyId?: string | null;
+  requesterIp?: string | null;
+  providerId?: string | null;
+  effect: PolicyEffect;
+  priority?: number;
+  methods?: string[] | null;
+  hostPattern?: string | null;
+  pathPattern?: string | null;
+  queryConstraints?: Record<string, string | null> | null;
+  description?: string | null;
+};
+
+const HTTP_METHODS = new Set([
+  "GET",
+  "HEAD",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "OPTIONS",
+]);
+
+function validatePolicyRuleInput(input: PolicyRuleInput): void {
+  if (input.effect !== "allow" && input.effect !== "deny")
+    throw new Error("effect must be allow or deny");
+
+  // An unscoped allow rule would silently approve everything.
+  if (input.effect === "allow" && !input.providerId && !input.hostPattern)
+    throw new Error("allow rules must be scoped to a provider or host");
+
+  if (input.priority != null && !Number.isInteger(input.priority))
+    throw new Error("priority must be an integer");
+
+  for (const m of input.methods ?? []) {
+    if (!HTTP_METHODS.has(m)) throw new Error(`invalid method: ${m}`);
+  }
+
+  if (input.hostPattern && !/^[a-z0-9.*-]+$/i.test(input.hostPattern))
+    throw new Error("invalid host pattern");
+
+  if (input.pathPattern && !input.pathPattern.startsWith("/"))
+    throw new Error("path pattern must start with /");
+}
+
+export async function createPolicyRule(
+  params: PolicyRuleInput & { userId: string }
+): Promise<{ ruleId: string }> {
+  const methods = params.methods?.map((m) => m.trim().toUpperCase()) ?? null;
+  const input = { ...params, methods };
+  validatePolicyRuleInput(input);
+
+  const id = ulid();
+  await db()
+    .query(
+      "INSERT INTO proxy_policy_rules (id, user_id, api_key_id, requester_ip, provider_id, effect, priority, methods_json, host_pattern, path_pattern, query_constraints_json, description, created_at, revoked_at) " +
+        "VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL);"
+    )
+    .run(
+      id,
+      params.userId,
+      params.apiKeyId ?? null,
+      params.requesterIp ?? null,
+      params.providerId ?? null,
+      params.effect,
+      params.priority ?? 0,
+      methods?.length ? JSON.stringify(methods) : null,
+      params.hostPattern?.toLowerCase() ?? null,
+      params.pathPattern ?? null,
+      params.queryConstraints && Object.keys(params.queryConstraints).length
+        ? JSON.stringify(params.queryConstraints)
+        : null,
+      params.description ?? null,
+      nowIso()
+    );
+
+  return { ruleId: id };
+}
+
+export async function listPolicyRules(userId: string): Promise<PolicyRule[]> {
+  const rows = (await db()
+    .query(
+      "SELECT id, user_id, api_key_id, requester_ip, provider_id, effect, priority, methods_json, host_pattern, path_pattern, query_constraints_json, description, created_at " +
+        "FROM proxy_policy_rules WHERE user_id = ? AND revoked_at IS NULL ORDER BY priority DESC, created_at ASC;"
+    )
+    .all(userId)) as PolicyRuleRow[];
+  return rows.map(ruleFromRow);
+}
+
+// Allow rules limited to one API key (other rules restrict rather than grant),
+// newest first, with the key's label.
+export async function listApiKeyAllowRules(
+  userId: string
+): Promise<(PolicyRule & { apiKeyLabel: string | null })[]> {
+  const rows = (await db()
+    .query(
+      "SELECT r.id, r.user_id, r.api_key_id, r.requester_ip, r.provider_id, r.effect, r.priority, r.methods_json, r.host_pattern, r.path_pattern, r.query_constraints_json, r.description, r.created_at, k.label AS api_key_label " +
+        "FROM proxy_policy_rules r LEFT JOIN api_keys k ON k.id = r.api_key_id " +
+        "WHERE r.user_id = ? AND r.revoked_at IS NULL AND r.api_key_id IS NOT NULL AND r.effect = 'allow' ORDER BY r.created_at DESC, r.id DESC;"
+    )
+    .all(userId)) as (PolicyRuleRow & { api_key_label: string | null })[];
+  return rows.map((r) => ({ ...ruleFromRow(r), apiKeyLabel: r.api_key_label }));
+}
+
+// Revokes a key's allow rules; returns how many were active.
+export async function revokeApiKeyAllowRules(params: {
+  userId: string;
+  apiKeyId: string;
+}): Promise<number> {
+  const res = await db()
+    .query(
+      "UPDATE proxy_policy_rules SET revoked_at = ? WHERE user_id = ? AND api_key_id = ? AND effect = 'allow' AND revoked_at IS NULL;"
+    )
+    .run(nowIso(), params.userId, params.apiKeyId);
+  return res.changes;
+}
+
+export async function revokePolicyRule(params: {
+  userId: string;
+  ruleId: string;
+}): Promise<boolean> {
+  const res = await db()
+    .query(
+      "UPDATE proxy_policy_rules SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL;"
+    )
+    .run(nowIso(), params.ruleId, params.userId);
+  return res.changes === 1;
+}
+
+export function describePolicyRule(
+  rule: PolicyRule,
+  apiKeyLabel?: string
+): string {
+  const parts: string[] = [rule.effect.toUpperCase()];
+  parts.push(rule.methods?.join(",") ?? "*");
+  parts.push(`${rule.hostPattern ?? "*"}${rule.pathPattern ?? "/**"}`);
+  if (rule.providerId) parts.push(`provider=${rule.providerId}`);
+  if (rule.apiKeyId) parts.push(`key=${apiKeyLabel ?? rule.apiKeyId}`);
+  if (rule.requesterIp) parts.push(`ip=${rule.requesterIp}`);
+  for (const [k, v] of Object.entries(rule.queryConstraints ?? {})) {
+    parts.push(v === null ? `noquery=${k}` : `query.${k}=${v}`);
+  }
+  if (rule.priority !== 0) parts.push(`priority=${rule.priority}`);
+  return parts.join(" ");
+}
+
+// Parse the compact rule syntax used by the Telegram `/rules add` command:
+//   <allow|deny> [METHODS|*] [host][/path] [provider=<id>] [key=<label>]
+//   [ip=<addr>] [priority=<n>] [query.<param>=<glob>] [noquery=<param>]
+// The key label is returned unresolved; callers map it to an api key id.
+export function parsePolicyRuleSpec(spec: string): {
+  input: PolicyRuleInput;
+  apiKeyLabel?: string;
+} {
+  const tokens = spec.trim().split(/\s+/).filter(Boolean);
+  const effect = tokens.shift()?.toLowerCase();
+  if (effect !== "allow" && effect !== "deny")
+    throw new Error("rule must start with allow or deny");
+
+  const input: PolicyRuleInput = { effect };
+  let apiKeyLabel: string | undefined;
+  const queryConstraints: Record<string, string | null> = {};
+
+  for (const tok of tokens) {
+    const eq = tok.indexOf("=");
+    if (eq > 0) {
+      const key = tok.slice(0, eq).toLowerCase();
+      const value = tok.slice(eq + 1);
+      if (key === "provider") input.providerId = value;
+      else if (key === "key") apiKeyLabel = value;
+      else if (key === "ip") input.requesterIp = value;
+      else if (key === "priority") input.priority = Number(value);
+      else if (key === "noquery") queryConstraints[value] = null;
+      else if (key.startsWith("query."))
+        queryConstraints[tok.slice("query.".length, eq)] = value;
+      else throw new Error(`unknown option: ${key}`);
+      continue;
+    }
+
+    if (tok === "*") {
+      input.methods = null;
+      continue;
+    }
+
+    // A bare word is a method only if it names one (`localhost` is a host);
+    // a comma-separated list must name nothing else.
+    if (/^[A-Za-z]+(,[A-Za-z]+)*$/.test(tok)) {
+      const methods = tok.toUpperCase().split(",");
+      const invalid = methods.find((m) => !HTTP_METHODS.has(m));
+      if (!invalid) {
+        input.methods = methods;
+        continue;
+      }
+      if (methods.length > 1) throw new Error(`invalid method: ${invalid}`);
+    }
+
+    const slash = tok.indexOf("/");
+    const host = slash === -1 ? tok : tok.slice(0, slash);
+    const path = slash === -1 ? "" : tok.slice(slash);
+    if (host && host !== "*" && host !== "**") input.hostPattern = host;
+    if (path && path !== "/**") input.pathPattern = path;
+  }
+
+  if (Object.keys(queryConstraints).length)
+    input.queryConstraints = queryConstraints;
+
+  return { input, apiKeyLabel };
+}
@@ -1,6 +1,36 @@
 import type { InterpretedRequest, ProxyInterpretInput } from "./interpret";
+import type { RedactionRule } from "./redaction";
 
-export type ProxyProviderId = "google" | "github" | "icloud" | "spotify";
+export type BuiltinProxyProviderId = "google" | "github" | "icloud" | "spotify";
+
+// Built-in ids plus ids of providers loaded from declarative definitions.
+export type ProxyProviderId = BuiltinProxyProviderId | (string & {});
+
+// Result of validating a stored credential. `needsReauth` means the provider
+// rejected it (revoked, expired, password changed); other failures are
+// treated as transient.
+export type CredentialHealth =
+  | { ok: true }
+  | { ok: false; needsReauth: boolean; message: string };
+
+// Git smart-HTTP remote backed by a provider's linked accounts (see
+// web/git). Repositories live at `<baseUrl>/<owner>/<name>.git`.
+export type GitRemote = {
+  // e.g. https://github.com, https://gitlab.example.com/scm
+  baseUrl: string;
+  // Basic-auth user sent with the token (`x-access-token`, `oauth2`, ...).
+  username: string;
+  // GitLab-style nested groups: `owner` may itself contain `/`.
+  nestedNamespaces: boolean;
+  // Token for one git request, derived from the stored credential.
+  getToken(params: {
+    storedCredential: string;
+    linkedAccountId?: string;
+    repoOwner: string;
+    repoName: string;
+    operation: string;
+  }): Promise<string>;
+};
 
 export type ProxyProvider = {
   id: ProxyProviderId;
@@ -20,6 +50,10 @@ export type ProxyProvider = {
 
   allowedMethods: Set<string>;
 
+  // Optional cap for streamed execute responses. Falls back to
+  // PROXY_STREAM_MAX_BYTES when unset.
+  maxStreamResponseBytes?: number;
+
   // Provider-specific header keys allowed to be forwarded to upstream.
   // (Common headers are handled in the proxy layer.)
   extraAllowedRequestHeaders: Set<string>;
@@ -30,14 +64,44 @@ export type ProxyProvider = {
   // - Google: "Bearer <access_token>"
   // - GitHub: "Bearer <token>"
   // - iCloud CalDAV: "Basic <base64(username:app_password)>"
+  // `linkedAccountId` lets OAuth providers cache the derived access token
+  // (see oauth/tokenCache). `request` is the upstream call the header is for,
+  // so providers that mint per-request credentials (GitHub App installation
+  // tokens) can scope them to it.
   getAuthorizationHeaderValue(params: {
     storedCredential: string;
+    linkedAccountId?: string;
+    request?: { method: string; url: URL };
   }): Promise<string>;
 
+  // Validate the stored credential without user-visible side effects. Run by
+  // the linked-account health checker (see accounts/health).
+  checkCredential?(params: {
+    storedCredential: string;
+    linkedAccountId?: string;
+  }): Promise<CredentialHealth>;
+
+  // Header the credential is sent in; defaults to `authorization`.
+  authHeaderName?: string;
+
+  // Set for providers linked with a static credential (API key, bearer token)
+  // through the broker-hosted form at /v1/accounts/connect/:provider.
+  staticCredentialForm?: {
+    credentialLabel: string;
+    help?: string;
+  };
+
   // Allow a provider to set defaults or required headers.
   applyUpstreamRequestHeaderDefaults(params: {
     headers: Record<string, string>;
   }): void;
 
   interpretRequest(input: ProxyInterpretInput): InterpretedRequest | null;
+
+  // Provider-specific redaction on top of the built-in rules (see
+  // ./redaction). Applied to approval prompts, audit events and listings.
+  redactionRules?: RedactionRule[];
+
+  // Set for providers whose accounts can also back git sessions.
+  gitRemote?: GitRemote;
 };
@@ -4,6 +4,8 @@ import { icloudProxyProvider } from "../providers/icloud/proxy";
 import { spotifyProxyProvider } from "../providers/spotify/proxy";
 import type { ProxyProvider, ProxyProviderId } from "./provider";
 
+// Built-in providers; definitions from PROVIDER_DEFINITIONS_DIR are added at
+// startup via registerProxyProvider.
 const PROVIDERS: ProxyProvider[] = [
   googleProxyProvider,
   githubProxyProvider,
@@ -11,6 +13,19 @@ const PROVIDERS: ProxyProvider[] = [
   spotifyProxyProvider,
 ];
 
+export function registerProxyProvider(provider: ProxyProvider): void {
+  if (PROVIDERS.some((p) => p.id === provider.id)) {
+    throw new Error(`duplicate proxy provider: ${provider.id}`);
+  }
+  PROVIDERS.push(provider);
+}
+
+// For tests.
+export function unregisterProxyProvider(id: ProxyProviderId): void {
+  const i = PROVIDERS.findIndex((p) => p.id === id);
+  if (i !== -1) PROVIDERS.splice(i, 1);
+}
+
 export function listProxyProviders(): ProxyProvider[] {
   return [...PROVIDERS];
 }
@@ -30,3 +30,74 @@ export async function readBodyWithLimit(
   }
   return out;
 }
+
+export type StreamOutcome = {
+  bytes: number;
+  // Set when the stream did not complete normally.
+  error?: "response_too_large" | "aborted" | "upstream_error";
+  message?: string;
+};
+
+// Pass-through variant of readBodyWithLimit: bytes are forwarded as they
+// arrive and counted against maxBytes. `onDone` fires exactly once, when the
+// stream completes, exceeds the cap, fails upstream, or is cancelled by the
+// consumer.
+export function streamBodyWithLimit(params: {
+  body: ReadableStream<Uint8Array> | null;
+  maxBytes: number;
+  onDone: (outcome: StreamOutcome) => void;
+}): ReadableStream<Uint8Array> {
+  let total = 0;
+  let finished = false;
+  const finish = (outcome: Omit<StreamOutcome, "bytes">) => {
+    if (finished) return;
+    finished = true;
+    params.onDone({ bytes: total, ...outcome });
+  };
+
+  if (!params.body) {
+    finish({});
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.close();
+      },
+    });
+  }
+
+  const reader = params.body.getReader();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let chunk: Awaited<ReturnType<typeof reader.read>>;
+      try {
+        chunk = await reader.read();
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        finish({ error: "upstream_error", message: msg });
+        controller.error(err);
+        return;
+      }
+
+      if (chunk.done) {
+        finish({});
+        controller.close();
+        return;
+      }
+      if (!chunk.value) return;
+
+      total += chunk.value.byteLength;
+      if (total > params.maxBytes) {
+        finish({ error: "response_too_large" });
+        await reader.cancel().catch(() => {});
+        controller.error(new Error("response_too_large"));
+        return;
+      }
+
+      controller.enqueue(chunk.value);
+    },
+    async cancel(reason) {
+      finish({ error: "aborted" });
+      await reader.cancel(reason).catch(() => {});
+    },
+  });
+}
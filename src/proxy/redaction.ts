@@ -0,0 +1,386 @@
+import { ulid } from "ulid";
+
+import { db } from "../db/client";
+import { listProxyProviders } from "./providerRegistry";
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+export const REDACTED = "[REDACTED]";
+
+export type RedactionRuleKind =
+  | "json_path"
+  | "header"
+  | "query_param"
+  | "regex";
+
+// What to hide before request content is shown in Telegram, written to
+// audit_events or returned from listing APIs. Rules come from three places:
+// the built-ins below, the provider definition (`redactionRules`) and the
+// user's own rules (`redaction_rules` table).
+//
+// - json_path: `$.a.b`, `items[*].token`, `**.password` (`*` matches one key
+//   or index, `**` any depth; keys compare case-insensitively)
+// - header: request header name
+// - query_param: query (or form body) parameter name
+// - regex: JavaScript regex, applied case-insensitively to every rendered
+//   string (paths, summaries, text bodies, JSON string values)
+export type RedactionRule = {
+  kind: RedactionRuleKind;
+  pattern: string;
+};
+
+export type UserRedactionRule = RedactionRule & {
+  id: string;
+  providerId: string | null;
+  createdAt: string;
+};
+
+const BUILTIN_REDACTION_RULES: RedactionRule[] = [
+  { kind: "header", pattern: "authorization" },
+  { kind: "header", pattern: "proxy-authorization" },
+  { kind: "header", pattern: "cookie" },
+  { kind: "header", pattern: "x-api-key" },
+  { kind: "query_param", pattern: "access_token" },
+  { kind: "query_param", pattern: "refresh_token" },
+  { kind: "query_param", pattern: "client_secret" },
+  { kind: "query_param", pattern: "api_key" },
+  { kind: "query_param", pattern: "token" },
+  { kind: "json_path", pattern: "**.password" },
+  { kind: "json_path", pattern: "**.access_token" },
+  { kind: "json_path", pattern: "**.refresh_token" },
+  { kind: "json_path", pattern: "**.client_secret" },
+];
+
+export const REDACTION_RULE_KINDS: RedactionRuleKind[] = [
+  "json_path",
+  "header",
+  "query_param",
+  "regex",
+];
+
+// Compiled rule set; build one with loadRedaction() and pass it to the
+// redact* helpers.
+export type Redaction = {
+  jsonPaths: string[][];
+  headers: Set<string>;
+  queryParams: Set<string>;
+  regexes: RegExp[];
+};
+
+function parseJsonPath(pattern: string): string[] {
+  const normalized = pattern
+    .trim()
+    .replace(/^\$\.?/, "")
+    .replace(/\[(\*|\d+)\]/g, ".$1")
+    .replace(/^\./, "");
+  const segments = normalized.split(".");
+  if (!normalized || segments.some((s) => !s)) {
+    throw new Error(`invalid json path: ${pattern}`);
+  }
+  return segments.map((s) => s.toLowerCase());
+}
+
+function compileRegex(pattern: string): RegExp {
+  if (pattern.length > 200) throw new Error("regex too long (max 200)");
+  try {
+    return new RegExp(pattern, "gi");
+  } catch {
+    throw new Error(`invalid regex: ${pattern}`);
+  }
+}
+
+export function validateRedactionRule(rule: RedactionRule): void {
+  if (!REDACTION_RULE_KINDS.includes(rule.kind)) {
+    throw new Error(`kind must be one of: ${REDACTION_RULE_KINDS.join(", ")}`);
+  }
+  if (!rule.pattern.trim()) throw new Error("missing pattern");
+  if (rule.kind === "json_path") parseJsonPath(rule.pattern);
+  if (rule.kind === "regex") {
+    const re = compileRegex(rule.pattern);
+    // A pattern that matches the empty string would redact between every
+    // character.
+    if (re.test("")) throw new Error("regex must not match the empty string");
+  }
+  if (
+    (rule.kind === "header" || rule.kind === "query_param") &&
+    !/^[A-Za-z0-9_.[\]-]+$/.test(rule.pattern)
+  ) {
+    throw new Error(`invalid ${rule.kind} name: ${rule.pattern}`);
+  }
+}
+
+export function compileRedaction(rules: RedactionRule[]): Redaction {
+  const compiled: Redaction = {
+    jsonPaths: [],
+    headers: new Set(),
+    queryParams: new Set(),
+    regexes: [],
+  };
+  for (const r of rules) {
+    // Stored rules were validated on creation; skip anything that no longer
+    // compiles rather than failing the request.
+    try {
+      if (r.kind === "json_path")
+        compiled.jsonPaths.push(parseJsonPath(r.pattern));
+      else if (r.kind === "header")
+        compiled.headers.add(r.pattern.toLowerCase());
+      else if (r.kind === "query_param")
+        compiled.queryParams.add(r.pattern.toLowerCase());
+      else if (r.kind === "regex")
+        compiled.regexes.push(compileRegex(r.pattern));
+    } catch {
+      // ignore
+    }
+  }
+  return compiled;
+}
+
+type UserRedactionRuleRow = {
+  id: string;
+  provider_id: string | null;
+  kind: RedactionRuleKind;
+  pattern: string;
+  created_at: string;
+};
+
+export async function listUserRedactionRules(
+  userId: string
+): Promise<UserRedactionRule[]> {
+  const rows = (await db()
+    .query(
+      "SELECT id, provider_id, kind, pattern, created_at FROM redaction_rules WHERE user_id = ? AND revoked_at IS NULL ORDER BY created_at ASC, id ASC;"
+    )
+    .all(userId)) as UserRedactionRuleRow[];
+  return rows.map((r) => ({
+    id: r.id,
+    providerId: r.provider_id,
+    kind: r.kind,
+    pattern: r.pattern,
+    createdAt: r.created_at,
+  }));
+}
+
+// Rules for one provider, or (providerId omitted) for all of them. Audit
+// events and listings can mention several providers, so they use the
+// broader set.
+export async function loadRedaction(params: {
+  userId?: string | null;
+  providerId?: string;
+}): Promise<Redaction> {
+  const rules = [...BUILTIN_REDACTION_RULES];
+  for (const p of listProxyProviders()) {
+    if (params.providerId && p.id !== params.providerId) continue;
+    rules.push(...(p.redactionRules ?? []));
+  }
+  if (params.userId) {
+    for (const r of await listUserRedactionRules(params.userId)) {
+      if (
+        params.providerId &&
+        r.providerId &&
+        r.providerId !== params.providerId
+      )
+        continue;
+      rules.push(r);
+    }
+  }
+  return compileRedaction(rules);
+}
+
+export function redactText(redaction: Redaction, text: string): string {
+  let out = text;
+  for (const re of redaction.regexes) {
+    re.lastIndex = 0;
+    out = out.replace(re, REDACTED);
+  }
+  return out;
+}
+
+// Display only: values are left decoded so regex rules (e.g. for email
+// addresses) see them as written.
+function redactParams(redaction: Redaction, params: URLSearchParams): string {
+  return [...params.entries()]
+    .map(([k, v]) => {
+      const value = redaction.queryParams.has(k.toLowerCase()) ? REDACTED : v;
+      return `${k}=${value}`;
+    })
+    .join("&");
+}
+
+// Copy of `url` with redacted query values, for code that needs a URL object
+// (e.g. request interpretation). Path redaction happens on rendered strings.
+export function redactUrlParams(redaction: Redaction, url: URL): URL {
+  const out = new URL(url.href);
+  out.search = "";
+  for (const [k, v] of url.searchParams) {
+    out.searchParams.append(
+      k,
+      redaction.queryParams.has(k.toLowerCase())
+        ? REDACTED
+        : redactText(redaction, v)
+    );
+  }
+  return out;
+}
+
+// Display form of a URL: redacted query values, then regex rules over the
+// whole string. Unparseable input is treated as plain text.
+export function redactUrl(redaction: Redaction, url: string | URL): string {
+  let parsed: URL;
+  try {
+    parsed = typeof url === "string" ? new URL(url) : url;
+  } catch {
+    return redactText(redaction, String(url));
+  }
+  const query = parsed.search
+    ? `?${redactParams(redaction, parsed.searchParams)}`
+    : "";
+  return redactText(
+    redaction,
+    `${parsed.origin}${parsed.pathname}${query}${parsed.hash}`
+  );
+}
+
+export function redactHeaders(
+  redaction: Redaction,
+  headers: Record<string, string>
+): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(headers)) {
+    out[k] = redaction.headers.has(k.toLowerCase())
+      ? REDACTED
+      : redactText(redaction, v);
+  }
+  return out;
+}
+
+function matchesJsonPath(pattern: string[], path: string[]): boolean {
+  if (pattern.length === 0) return path.length === 0;
+  const [head, ...rest] = pattern;
+  if (head === "**") {
+    for (let i = 0; i <= path.length; i++) {
+      if (matchesJsonPath(rest, path.slice(i))) return true;
+    }
+    return false;
+  }
+  if (path.length === 0) return false;
+  return (
+    (head === "*" || head === path[0]) && matchesJsonPath(rest, path.slice(1))
+  );
+}
+
+function redactJsonAt(
+  redaction: Redaction,
+  value: unknown,
+  path: string[]
+): unknown {
+  if (
+    path.length &&
+    redaction.jsonPaths.some((p) => matchesJsonPath(p, path))
+  ) {
+    return REDACTED;
+  }
+  if (typeof value === "string") {
+    return /^https?:\/\//i.test(value)
+      ? redactUrl(redaction, value)
+      : redactText(redaction, value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((v, i) =>
+      redactJsonAt(redaction, v, [...path, String(i)])
+    );
+  }
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      out[k] = redactJsonAt(redaction, v, [...path, k.toLowerCase()]);
+    }
+    return out;
+  }
+  return value;
+}
+
+// Deep copy of a JSON value with matching paths replaced by REDACTED, URL
+// strings redacted as URLs and every other string run through the regexes.
+export function redactJson(redaction: Redaction, value: unknown): unknown {
+  return redactJsonAt(redaction, value, []);
+}
+
+// Rendered request body (as shown in the Telegram prompt).
+export function redactBodySummary(
+  redaction: Redaction,
+  params: { contentType?: string; bodyJson?: unknown; bodySummary: string }
+): string {
+  if (params.bodyJson !== undefined) {
+    return JSON.stringify(redactJson(redaction, params.bodyJson));
+  }
+  const ct = params.contentType?.split(";", 1)[0]?.trim().toLowerCase();
+  if (ct === "application/x-www-form-urlencoded") {
+    return redactText(
+      redaction,
+      redactParams(redaction, new URLSearchParams(params.bodySummary))
+    );
+  }
+
+  return redactText(redaction, params.bodySummary);
+}
+
+export async function createRedactionRule(params: {
+  userId: string;
+  providerId?: string | null;
+  kind: RedactionRuleKind;
+  pattern: string;
+}): Promise<{ ruleId: string }> {
+  const pattern = params.pattern.trim();
+  validateRedactionRule({ kind: params.kind, pattern });
+
+  const id = ulid();
+  await db()
+    .query(
+      "INSERT INTO redaction_rules (id, user_id, provider_id, kind, pattern, created_at, revoked_at) VALUES (?, ?, ?, ?, ?, ?, NULL);"
+    )
+    .run(
+      id,
+      params.userId,
+      params.providerId ?? null,
+      params.kind,
+      pattern,
+      nowIso()
+    );
+  return { ruleId: id };
+}
+
+export async function revokeRedactionRule(params: {
+  userId: string;
+  ruleId: string;
+}): Promise<boolean> {
+  const res = await db()
+    .query(
+      "UPDATE redaction_rules SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL;"
+    )
+    .run(nowIso(), params.ruleId, params.userId);
+  return res.changes === 1;
+}
+
+export function describeRedactionRule(rule: UserRedactionRule): string {
+  const provider = rule.providerId ? ` provider=${rule.providerId}` : "";
+  return `${rule.kind} ${rule.pattern}${provider}`;
+}
+
+// Parse the Telegram `/redact add` syntax:
+//   <json_path|header|query_param|regex> <pattern> [provider=<id>]
+// The pattern is everything between the kind and an optional trailing
+// provider option, so regexes may contain spaces.
+export function parseRedactionRuleSpec(spec: string): {
+  kind: RedactionRuleKind;
+  pattern: string;
+  providerId: string | null;
+} {
+  const m = /^(\S+)\s+(.+?)(?:\s+provider=(\S+))?$/.exec(spec.trim());
+  if (!m) throw new Error("expected: <kind> <pattern> [provider=<id>]");
+  const kind = m[1].toLowerCase() as RedactionRuleKind;
+  const pattern = m[2];
+  validateRedactionRule({ kind, pattern });
+  return { kind, pattern, providerId: m[3]?.toLowerCase() ?? null };
+}
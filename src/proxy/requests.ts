@@ -1,7 +1,11 @@
 import { ulid } from "ulid";
 
+import type { AuditActor, ProxyRequestTransitionEvent } from "../audit/events";
 import { sha256Hex } from "../crypto/sha256";
 import { db } from "../db/client";
+import { publishProxyRequestDecision } from "./notify";
+import { startExecutionOnApproval } from "./results";
+import { APPROVAL_EXPIRY_ACTOR, transitionProxyRequests } from "./transitions";
 import { canonicalizeUrl, validateUpstreamUrl } from "./url";
 
 function nowIso(): string {
@@ -20,6 +24,12 @@ export async function createProxyRequest(params: {
   bodyBase64?: string;
   consentHint?: string;
   idempotencyKey?: string;
+  responseMode?: "buffer" | "stream";
+  maxResponseBytes?: number;
+  executeOnApproval?: boolean;
+  linkedAccountId?: string;
+  // Proxy provider id the upstream URL routes to; recorded for audit queries.
+  provider?: string;
   approvalTtlMs: number;
 }): Promise<{
   requestId: string;
@@ -46,15 +56,16 @@ export async function createProxyRequest(params: {
     url: canonicalUrl,
     headers: canonicalHeaders,
     body_base64: params.bodyBase64 ?? null,
+    account: params.linkedAccountId ?? null,
   });
   const requestHash = await sha256Hex(canonicalPayload);
 
   if (params.idempotencyKey) {
-    const existing = db()
+    const existing = (await db()
       .query(
         "SELECT id, upstream_url, request_hash, status, approval_expires_at FROM proxy_requests WHERE api_key_id = ? AND idempotency_key = ? LIMIT 1;"
       )
-      .get(params.apiKeyId, params.idempotencyKey) as {
+      .get(params.apiKeyId, params.idempotencyKey)) as {
       id: string;
       upstream_url: string;
       request_hash: string;
@@ -80,10 +91,10 @@ export async function createProxyRequest(params: {
     Date.now() + params.approvalTtlMs
   ).toISOString();
 
-  db()
+  await db()
     .query(
-      "INSERT INTO proxy_requests (id, user_id, api_key_id, api_key_label_snapshot, requester_ip, upstream_url, method, request_headers_json, request_body_base64, request_hash, consent_hint, status, created_at, updated_at, approval_expires_at, idempotency_key, upstream_http_status, upstream_content_type, upstream_bytes, result_state, error_code, error_message) " +
-        "VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, NULL, NULL, 'NONE', NULL, NULL);"
+      "INSERT INTO proxy_requests (id, user_id, api_key_id, api_key_label_snapshot, requester_ip, upstream_url, method, request_headers_json, request_body_base64, request_hash, consent_hint, status, created_at, updated_at, approval_expires_at, idempotency_key, response_mode, max_response_bytes, execute_on_approval, linked_account_id, provider, upstream_http_status, upstream_content_type, upstream_bytes, result_state, error_code, error_message) " +
+        "VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, NULL, NULL, 'NONE', NULL, NULL);"
     )
     .run(
       requestId,
@@ -101,7 +112,12 @@ export async function createProxyRequest(params: {
       now,
       now,
       approvalExpiresAt,
-      params.idempotencyKey ?? null
+      params.idempotencyKey ?? null,
+      params.responseMode ?? "buffer",
+      params.maxResponseBytes ?? null,
+      params.executeOnApproval ? 1 : 0,
+      params.linkedAccountId ?? null,
+      params.provider ?? null
     );
 
   return {
@@ -114,10 +130,10 @@ export async function createProxyRequest(params: {
   };
 }
 
-export function getProxyRequestForUser(params: {
+export async function getProxyRequestForUser(params: {
   requestId: string;
   userId: string;
-}): {
+}): Promise<{
   id: string;
   user_id: string;
   api_key_label_snapshot: string;
@@ -126,12 +142,12 @@ export function getProxyRequestForUser(params: {
   consent_hint: string | null;
   status: string;
   approval_expires_at: string;
-} | null {
-  return db()
+} | null> {
+  return (await db()
     .query(
       "SELECT id, user_id, api_key_label_snapshot, upstream_url, request_hash, consent_hint, status, approval_expires_at FROM proxy_requests WHERE id = ? AND user_id = ?;"
     )
-    .get(params.requestId, params.userId) as {
+    .get(params.requestId, params.userId)) as {
     id: string;
     user_id: string;
     api_key_label_snapshot: string;
@@ -143,19 +159,21 @@ export function getProxyRequestForUser(params: {
   } | null;
 }
 
-export function decideProxyRequest(params: {
+export async function decideProxyRequest(params: {
   requestId: string;
   userId: string;
   decision: "approved" | "denied";
   telegramUserId: number;
   telegramChatId: number;
   telegramMessageId: number;
-}): { ok: true } | { ok: false; reason: string } {
-  const row = db()
+  // Who to record in the audit log; defaults to the Telegram user.
+  actor?: AuditActor;
+}): Promise<{ ok: true } | { ok: false; reason: string }> {
+  const row = (await db()
     .query(
       "SELECT status, approval_expires_at FROM proxy_requests WHERE id = ? AND user_id = ?;"
     )
-    .get(params.requestId, params.userId) as {
+    .get(params.requestId, params.userId)) as {
     status: string;
     approval_expires_at: string;
   } | null;
@@ -166,11 +184,20 @@ export function decideProxyRequest(params: {
 
   const exp = Date.parse(row.approval_expires_at);
   if (Number.isFinite(exp) && Date.now() > exp) {
-    db()
-      .query(
-        "UPDATE proxy_requests SET status = 'EXPIRED', updated_at = ?, error_code = 'APPROVAL_EXPIRED' WHERE id = ? AND user_id = ? AND status = 'PENDING_APPROVAL';"
-      )
-      .run(nowIso(), params.requestId, params.userId);
+    const expired = await transitionProxyRequests({
+      requestId: params.requestId,
+      userId: params.userId,
+      from: "PENDING_APPROVAL",
+      to: "EXPIRED",
+      errorCode: "APPROVAL_EXPIRED",
+      actor: APPROVAL_EXPIRY_ACTOR,
+    });
+    if (expired.length) {
+      publishProxyRequestDecision({
+        requestId: params.requestId,
+        status: "EXPIRED",
+      });
+    }
     return { ok: false, reason: "expired" };
   }
 
@@ -178,30 +205,120 @@ export function decideProxyRequest(params: {
   const newStatus = params.decision === "approved" ? "APPROVED" : "DENIED";
   const errorCode = params.decision === "denied" ? "DENIED" : null;
 
-  try {
-    db().transaction(() => {
-      db()
-        .query(
-          "UPDATE proxy_requests SET status = ?, updated_at = ?, error_code = ?, error_message = NULL WHERE id = ? AND user_id = ? AND status = 'PENDING_APPROVAL';"
-        )
-        .run(newStatus, now, errorCode, params.requestId, params.userId);
-
-      db()
-        .query(
-          "INSERT INTO approvals (request_id, telegram_chat_id, telegram_message_id, decision, decided_at, decided_by_telegram_user_id) VALUES (?, ?, ?, ?, ?, ?);"
-        )
-        .run(
-          params.requestId,
-          params.telegramChatId,
-          params.telegramMessageId,
-          params.decision,
-          now,
-          params.telegramUserId
-        );
-    })();
-  } catch {
-    return { ok: false, reason: "already_decided" };
-  }
+  // Another decision (or the expiry sweeper) may have got there since the
+  // read above; only the one that moves the request records an approval.
+  const decided = await db().transaction(async () => {
+    const changed = await transitionProxyRequests({
+      requestId: params.requestId,
+      userId: params.userId,
+      from: "PENDING_APPROVAL",
+      to: newStatus,
+      errorCode,
+      actor: params.actor ?? {
+        actorType: "telegram",
+        actorId: String(params.telegramUserId),
+      },
+    });
+    if (!changed.length) return false;
+
+    await db()
+      .query(
+        "INSERT INTO approvals (request_id, telegram_chat_id, telegram_message_id, decision, decided_at, decided_by_telegram_user_id) VALUES (?, ?, ?, ?, ?, ?);"
+      )
+      .run(
+        params.requestId,
+        params.telegramChatId,
+        params.telegramMessageId,
+        params.decision,
+        now,
+        params.telegramUserId
+      );
+    return true;
+  });
+  if (!decided) return { ok: false, reason: "already_decided" };
 
+  publishProxyRequestDecision({
+    requestId: params.requestId,
+    status: newStatus,
+  });
+  if (newStatus === "APPROVED")
+    await startExecutionOnApproval(params.requestId);
   return { ok: true };
 }
+
+export type OpenProxyRequest = {
+  id: string;
+  api_key_id: string;
+  api_key_label_snapshot: string;
+  method: string;
+  upstream_url: string;
+  consent_hint: string | null;
+  status: "PENDING_APPROVAL" | "APPROVED";
+  created_at: string;
+  approval_expires_at: string;
+};
+
+// Requests still waiting for a decision, or approved but not yet executed,
+// newest first.
+export async function listOpenProxyRequests(params: {
+  userId: string;
+  limit: number;
+  offset: number;
+}): Promise<{ requests: OpenProxyRequest[]; total: number }> {
+  const now = nowIso();
+  const where =
+    "WHERE user_id = ? AND status IN ('PENDING_APPROVAL', 'APPROVED') AND approval_expires_at > ?";
+  const total = (await db()
+    .query(`SELECT COUNT(*) AS n FROM proxy_requests ${where};`)
+    .get(params.userId, now)) as { n: number };
+  const requests = (await db()
+    .query(
+      "SELECT id, api_key_id, api_key_label_snapshot, method, upstream_url, consent_hint, status, created_at, approval_expires_at " +
+        `FROM proxy_requests ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?;`
+    )
+    .all(
+      params.userId,
+      now,
+      params.limit,
+      params.offset
+    )) as OpenProxyRequest[];
+  return { requests, total: total.n };
+}
+
+// Denies open requests outside the approval prompt: one request, all of a
+// key's requests, or (pendingOnly) every pending request. Approved requests
+// that haven't run yet are revoked: they end DENIED with error_code REVOKED.
+// Returns the ids that changed.
+export async function denyOpenProxyRequests(params: {
+  userId: string;
+  requestId?: string;
+  apiKeyId?: string;
+  pendingOnly?: boolean;
+  actor: AuditActor;
+  via?: ProxyRequestTransitionEvent["via"];
+}): Promise<string[]> {
+  const deny = async (
+    from: "PENDING_APPROVAL" | "APPROVED",
+    errorCode: "DENIED" | "REVOKED"
+  ) =>
+    transitionProxyRequests({
+      requestId: params.requestId,
+      userId: params.userId,
+      apiKeyId: params.apiKeyId,
+      from,
+      to: "DENIED",
+      errorCode,
+      actor: params.actor,
+      detail: params.via ? { via: params.via } : undefined,
+    });
+
+  const rows = await db().transaction(async () => [
+    ...(await deny("PENDING_APPROVAL", "DENIED")),
+    ...(params.pendingOnly ? [] : await deny("APPROVED", "REVOKED")),
+  ]);
+
+  for (const { id } of rows) {
+    publishProxyRequestDecision({ requestId: id, status: "DENIED" });
+  }
+  return rows.map((r) => r.id);
+}
@@ -0,0 +1,222 @@
+import type { AuditActor } from "../audit/events";
+import { decryptUtf8, encryptUtf8 } from "../crypto/aesgcm";
+import { db } from "../db/client";
+import { env } from "../env";
+import {
+  effectiveResponseByteCap,
+  fetchUpstreamForProxyRequest,
+  ProxyExecutionError,
+} from "./execute";
+import { publishProxyRequestDecision } from "./notify";
+import { readBodyWithLimit } from "./readLimit";
+import { transitionProxyRequests } from "./transitions";
+
+const EXECUTE_ON_APPROVAL_ACTOR: AuditActor = {
+  actorType: "system",
+  actorId: "execute_on_approval",
+};
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Kick off the upstream call for an execute_on_approval request that was just
+// approved. No-op for regular requests; runs in the background.
+export async function startExecutionOnApproval(
+  requestId: string
+): Promise<void> {
+  const row = (await db()
+    .query(
+      "SELECT execute_on_approval, status FROM proxy_requests WHERE id = ?;"
+    )
+    .get(requestId)) as { execute_on_approval: number; status: string } | null;
+  if (!row?.execute_on_approval || row.status !== "APPROVED") return;
+
+  executeAndStoreProxyRequest(requestId).catch(() => {});
+}
+
+export async function executeAndStoreProxyRequest(
+  requestId: string
+): Promise<void> {
+  const claimed = await transitionProxyRequests({
+    requestId,
+    executeOnApproval: true,
+    from: "APPROVED",
+    to: "EXECUTING",
+    actor: EXECUTE_ON_APPROVAL_ACTOR,
+  });
+  // Someone else claimed it (or it's no longer approved).
+  if (claimed.length === 0) return;
+
+  const row = (await db()
+    .query(
+      "SELECT id, user_id, upstream_url, method, request_headers_json, request_body_base64, max_response_bytes, linked_account_id FROM proxy_requests WHERE id = ?;"
+    )
+    .get(requestId)) as {
+    id: string;
+    user_id: string;
+    upstream_url: string;
+    method: string;
+    request_headers_json: string | null;
+    request_body_base64: string | null;
+    max_response_bytes: number | null;
+    linked_account_id: string | null;
+  } | null;
+  if (!row) return;
+
+  let finalStatus = "FAILED";
+  try {
+    const { res, provider } = await fetchUpstreamForProxyRequest(
+      row,
+      EXECUTE_ON_APPROVAL_ACTOR
+    );
+    const contentType = res.headers.get("content-type");
+    const body = await readBodyWithLimit(
+      res.body,
+      effectiveResponseByteCap({
+        responseMode: "buffer",
+        requested: row.max_response_bytes,
+        provider,
+      })
+    );
+
+    const terminalStatus =
+      res.status >= 200 && res.status < 300 ? "SUCCEEDED" : "FAILED";
+    const errorCode =
+      terminalStatus === "FAILED" ? `UPSTREAM_HTTP_${res.status}` : null;
+    const ciphertext = await encryptUtf8(Buffer.from(body).toString("base64"));
+    const now = nowIso();
+    const expiresAt = new Date(
+      Date.now() + env.PROXY_RESULT_TTL_SECONDS * 1000
+    ).toISOString();
+
+    await db().transaction(async () => {
+      await db()
+        .query(
+          "INSERT INTO proxy_request_results (request_id, body_ciphertext, content_type, http_status, bytes, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?);"
+        )
+        .run(
+          row.id,
+          ciphertext,
+          contentType,
+          res.status,
+          body.byteLength,
+          now,
+          expiresAt
+        );
+      await transitionProxyRequests({
+        requestId: row.id,
+        from: "EXECUTING",
+        to: terminalStatus,
+        errorCode,
+        upstream: {
+          httpStatus: res.status,
+          contentType,
+          bytes: body.byteLength,
+        },
+        resultState: "STORED",
+        actor: EXECUTE_ON_APPROVAL_ACTOR,
+        detail: { result_expires_at: expiresAt },
+      });
+    });
+    finalStatus = terminalStatus;
+  } catch (err) {
+    // ProxyExecutionError already marked the request FAILED.
+    if (!(err instanceof ProxyExecutionError)) {
+      const msg = err instanceof Error ? err.message : String(err);
+      const errorCode =
+        msg === "response_too_large" ? "RESPONSE_TOO_LARGE" : "UPSTREAM_FAILED";
+      await transitionProxyRequests({
+        requestId: row.id,
+        from: "EXECUTING",
+        to: "FAILED",
+        errorCode,
+        errorMessage: msg,
+        actor: EXECUTE_ON_APPROVAL_ACTOR,
+      });
+    }
+  } finally {
+    publishProxyRequestDecision({
+      requestId: row.id,
+      status: finalStatus,
+      event: "proxy_request.result_ready",
+    });
+  }
+}
+
+export type TakeResult =
+  | {
+      ok: true;
+      body: Uint8Array;
+      contentType: string | null;
+      httpStatus: number;
+    }
+  | { ok: false; reason: "consumed" | "expired" | "none" };
+
+// Return the stored response exactly once. The row is deleted as it is read,
+// so concurrent callers can't both receive it.
+export async function takeProxyRequestResult(
+  requestId: string
+): Promise<TakeResult> {
+  const stored = (await db()
+    .query(
+      "DELETE FROM proxy_request_results WHERE request_id = ? RETURNING body_ciphertext, content_type, http_status, expires_at;"
+    )
+    .get(requestId)) as {
+    body_ciphertext: Uint8Array;
+    content_type: string | null;
+    http_status: number;
+    expires_at: string;
+  } | null;
+
+  if (!stored) {
+    const row = (await db()
+      .query("SELECT result_state FROM proxy_requests WHERE id = ?;")
+      .get(requestId)) as { result_state: string } | null;
+    if (row?.result_state === "CONSUMED")
+      return { ok: false, reason: "consumed" };
+    if (row?.result_state === "EXPIRED")
+      return { ok: false, reason: "expired" };
+    return { ok: false, reason: "none" };
+  }
+
+  // Sweeper may not have run yet.
+  const exp = Date.parse(stored.expires_at);
+  if (Number.isFinite(exp) && Date.now() > exp) {
+    await markResultState(requestId, "EXPIRED");
+    return { ok: false, reason: "expired" };
+  }
+
+  await markResultState(requestId, "CONSUMED");
+  const b64 = await decryptUtf8(stored.body_ciphertext);
+  return {
+    ok: true,
+    body: new Uint8Array(Buffer.from(b64, "base64")),
+    contentType: stored.content_type,
+    httpStatus: stored.http_status,
+  };
+}
+
+async function markResultState(
+  requestId: string,
+  state: string
+): Promise<void> {
+  await db()
+    .query(
+      "UPDATE proxy_requests SET result_state = ?, updated_at = ? WHERE id = ?;"
+    )
+    .run(state, nowIso(), requestId);
+}
+
+export async function sweepExpiredResults(): Promise<number> {
+  const purged = (await db()
+    .query(
+      "DELETE FROM proxy_request_results WHERE expires_at < ? RETURNING request_id;"
+    )
+    .all(nowIso())) as { request_id: string }[];
+
+  for (const { request_id } of purged) {
+    await markResultState(request_id, "EXPIRED");
+  }
+  return purged.length;
+}
@@ -1,23 +1,43 @@
-import { db } from "../db/client";
+import { sweepLinkedAccountHealth } from "../accounts/health";
+import { backfillAuditChains, sweepAuditCheckpoint } from "../audit/chain";
 import { sweepGitSessions } from "../git/sweeper";
+import { sweepBatchExpirations } from "./batches";
+import { publishProxyRequestDecision } from "./notify";
+import { sweepExpiredResults } from "./results";
+import { APPROVAL_EXPIRY_ACTOR, transitionProxyRequests } from "./transitions";
 
 function nowIso(): string {
   return new Date().toISOString();
 }
 
-function sweepApprovalExpirations(): number {
-  return db()
-    .query(
-      "UPDATE proxy_requests SET status = 'EXPIRED', updated_at = ?, error_code = 'APPROVAL_EXPIRED' " +
-        "WHERE status = 'PENDING_APPROVAL' AND approval_expires_at < ?;"
-    )
-    .run(nowIso(), nowIso()).changes;
+export async function sweepApprovalExpirations(): Promise<number> {
+  const expired = await transitionProxyRequests({
+    approvalExpiredBefore: nowIso(),
+    from: "PENDING_APPROVAL",
+    to: "EXPIRED",
+    errorCode: "APPROVAL_EXPIRED",
+    actor: APPROVAL_EXPIRY_ACTOR,
+  });
+
+  for (const { id } of expired) {
+    publishProxyRequestDecision({ requestId: id, status: "EXPIRED" });
+  }
+  return expired.length;
 }
 
 export async function startSweeperLoop(): Promise<void> {
+  await backfillAuditChains().catch((err) => {
+    console.error("audit chain backfill failed", err);
+  });
   for (;;) {
-    sweepApprovalExpirations();
-    sweepGitSessions();
+    await sweepApprovalExpirations();
+    await sweepBatchExpirations();
+    await sweepExpiredResults();
+    await sweepGitSessions();
+    sweepLinkedAccountHealth().catch(() => {});
+    sweepAuditCheckpoint().catch((err) => {
+      console.error("audit checkpoint failed", err);
+    });
     await new Promise((r) => setTimeout(r, 1000));
   }
 }
@@ -0,0 +1,181 @@
+import { auditEvent } from "../audit/audit";
+import type { AuditActor, ProxyRequestTransitionEvent } from "../audit/events";
+import { db } from "../db/client";
+
+export type ProxyRequestStatus =
+  | "PENDING_APPROVAL"
+  | "APPROVED"
+  | "EXECUTING"
+  | "SUCCEEDED"
+  | "FAILED"
+  | "DENIED"
+  | "EXPIRED";
+
+// The only status changes a proxy request can make. Approved requests can
+// still be revoked (DENIED) or run out of time (EXPIRED) before they execute.
+const ALLOWED_TRANSITIONS: Record<
+  ProxyRequestStatus,
+  readonly ProxyRequestStatus[]
+> = {
+  PENDING_APPROVAL: ["APPROVED", "DENIED", "EXPIRED"],
+  APPROVED: ["EXECUTING", "DENIED", "EXPIRED"],
+  EXECUTING: ["SUCCEEDED", "FAILED"],
+  SUCCEEDED: [],
+  FAILED: [],
+  DENIED: [],
+  EXPIRED: [],
+};
+
+// Timeouts aren't anyone's decision.
+export const APPROVAL_EXPIRY_ACTOR: AuditActor = {
+  actorType: "system",
+  actorId: "approval_ttl",
+};
+
+export type ProxyRequestTransition = {
+  // Rows to move: every given condition must hold, and status must be `from`.
+  requestId?: string;
+  userId?: string;
+  apiKeyId?: string;
+  batchId?: string;
+  executeOnApproval?: boolean;
+  approvalExpiredBefore?: string;
+
+  from: ProxyRequestStatus;
+  to: ProxyRequestStatus;
+  // Both are overwritten; omitted means cleared.
+  errorCode?: string | null;
+  errorMessage?: string | null;
+  // What upstream answered, for SUCCEEDED/FAILED after an upstream call.
+  upstream?: { httpStatus: number; contentType: string | null; bytes: number };
+  resultState?: "STORED";
+
+  actor: AuditActor;
+  // Extra audit payload: what decided it, response details, ...
+  detail?: Pick<
+    ProxyRequestTransitionEvent,
+    | "response_mode"
+    | "result_expires_at"
+    | "rule_id"
+    | "grant_id"
+    | "batch_id"
+    | "via"
+  >;
+};
+
+function transitionEventType(
+  t: ProxyRequestTransition
+):
+  | "proxy_request_approved"
+  | "proxy_request_denied"
+  | "proxy_request_expired"
+  | "proxy_request_execution_started"
+  | "proxy_request_executed"
+  | "proxy_request_failed" {
+  switch (t.to) {
+    case "APPROVED":
+      return "proxy_request_approved";
+    case "DENIED":
+      return "proxy_request_denied";
+    case "EXPIRED":
+      return "proxy_request_expired";
+    case "EXECUTING":
+      return "proxy_request_execution_started";
+    case "SUCCEEDED":
+      return "proxy_request_executed";
+    default:
+      return t.upstream ? "proxy_request_executed" : "proxy_request_failed";
+  }
+}
+
+// Every proxy_requests status change goes through here: it checks the move
+// is allowed, applies it only to rows still in `from` (so racing callers
+// can't both win), and audits each row that changed. Returns those rows.
+export async function transitionProxyRequests(
+  t: ProxyRequestTransition
+): Promise<{ id: string; userId: string }[]> {
+  if (!ALLOWED_TRANSITIONS[t.from].includes(t.to)) {
+    throw new Error(`invalid proxy request transition: ${t.from} -> ${t.to}`);
+  }
+
+  const now = new Date().toISOString();
+  const sets = [
+    "status = ?",
+    "updated_at = ?",
+    "error_code = ?",
+    "error_message = ?",
+  ];
+  const setArgs: (string | number | null)[] = [
+    t.to,
+    now,
+    t.errorCode ?? null,
+    t.errorMessage ?? null,
+  ];
+  if (t.upstream) {
+    sets.push(
+      "upstream_http_status = ?",
+      "upstream_content_type = ?",
+      "upstream_bytes = ?"
+    );
+    setArgs.push(
+      t.upstream.httpStatus,
+      t.upstream.contentType,
+      t.upstream.bytes
+    );
+  }
+  if (t.resultState) {
+    sets.push("result_state = ?");
+    setArgs.push(t.resultState);
+  }
+
+  const conditions = ["status = ?"];
+  const whereArgs: (string | number)[] = [t.from];
+  if (t.requestId) {
+    conditions.push("id = ?");
+    whereArgs.push(t.requestId);
+  }
+  if (t.userId) {
+    conditions.push("user_id = ?");
+    whereArgs.push(t.userId);
+  }
+  if (t.apiKeyId) {
+    conditions.push("api_key_id = ?");
+    whereArgs.push(t.apiKeyId);
+  }
+  if (t.batchId) {
+    conditions.push("batch_id = ?");
+    whereArgs.push(t.batchId);
+  }
+  if (t.executeOnApproval) conditions.push("execute_on_approval = 1");
+  if (t.approvalExpiredBefore) {
+    conditions.push("approval_expires_at < ?");
+    whereArgs.push(t.approvalExpiredBefore);
+  }
+
+  const rows = (await db()
+    .query(
+      `UPDATE proxy_requests SET ${sets.join(", ")} WHERE ${conditions.join(" AND ")} RETURNING id, user_id;`
+    )
+    .all(...setArgs, ...whereArgs)) as { id: string; user_id: string }[];
+
+  const eventType = transitionEventType(t);
+  for (const row of rows) {
+    await auditEvent({
+      userId: row.user_id,
+      requestId: row.id,
+      actorType: t.actor.actorType,
+      actorId: t.actor.actorId,
+      eventType,
+      event: {
+        from: t.from,
+        status: t.to,
+        error_code: t.errorCode ?? undefined,
+        error_message: t.errorMessage ?? undefined,
+        upstream_status: t.upstream?.httpStatus,
+        bytes: t.upstream?.bytes,
+        ...t.detail,
+      },
+    });
+  }
+  return rows.map((r) => ({ id: r.id, userId: r.user_id }));
+}
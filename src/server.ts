@@ -3,12 +3,24 @@ import { migrate } from "./db/migrate";
 import { env } from "./env";
 
 import { accountRouter } from "./web/accounts";
+import { auditRouter } from "./web/audit";
 import { gitRouter } from "./web/git";
 import { proxyRouter } from "./web/proxy";
+import { uiRouter } from "./web/ui";
 import { whoamiRouter } from "./web/whoami";
 
 if (env.NODE_ENV !== "test") {
-  migrate();
+  await migrate();
+}
+
+if (env.PROVIDER_DEFINITIONS_DIR) {
+  const { loadProviderDefinitions } = await import(
+    "./providers/declarative/load"
+  );
+  const loaded = await loadProviderDefinitions(env.PROVIDER_DEFINITIONS_DIR);
+  if (loaded.length) {
+    console.log(`loaded providers: ${loaded.map((d) => d.id).join(", ")}`);
+  }
 }
 
 if (env.TELEGRAM_BOT_TOKEN) {
@@ -33,9 +45,11 @@ app.get("/", (c) => c.text("ok"));
 app.get("/healthz", (c) => c.json({ ok: true }));
 
 app.route("/v1/accounts", accountRouter);
+app.route("/v1/audit", auditRouter);
 app.route("/v1/git", gitRouter);
 app.route("/v1/proxy", proxyRouter);
 app.route("/v1", whoamiRouter);
+app.route("/ui", uiRouter);
 
 Bun.serve({
   port: env.PORT,
@@ -1,22 +1,84 @@
-import { Bot, InlineKeyboard } from "grammy";
-import * as oauth from "oauth4webapi";
+import { Bot, type Context, InlineKeyboard, InputFile } from "grammy";
 import { ulid } from "ulid";
 
+import {
+  describeLinkedAccount,
+  getLinkedAccountForUser,
+  listActiveLinkedAccounts,
+  listLinkedAccountsNeedingReauth,
+  revokeLinkedAccount,
+  setLinkedAccountLabel,
+} from "../accounts/linked";
 import { auditEvent } from "../audit/audit";
-import { createConnectState } from "../connect/state";
+import {
+  AUDIT_EXPORT_MAX,
+  type AuditEntry,
+  type AuditQuery,
+  auditEntriesToCsv,
+  auditEntriesToJsonLines,
+  parseAuditTime,
+  queryAuditEvents,
+  resolveAuditApiKey,
+} from "../audit/query";
+import {
+  API_KEY_SCOPE_HELP,
+  type ApiKeyScope,
+  formatApiKeyScope,
+  isApiKeyScopeToken,
+  parseApiKeyScopeSpec,
+  parseStoredApiKeyScope,
+} from "../auth/scopes";
+import { createWebLoginUrl } from "../auth/webSession";
+import { createConnectUrl } from "../connect/links";
+import { encryptUtf8 } from "../crypto/aesgcm";
 import { randomBase64Url } from "../crypto/random";
 import { sha256Hex } from "../crypto/sha256";
 import { db } from "../db/client";
 import { env } from "../env";
+import { decidePushReview, getPushReview } from "../git/pushReviews";
 import { setGitSessionStatus } from "../git/sessions";
-import { buildAuthorizationUrl } from "../oauth/flow";
-import type { OAuthProviderConfig } from "../oauth/provider";
-import { getProvider } from "../oauth/registry";
-import { createOauthState } from "../oauth/state";
 import { upsertAlwaysAllowRule } from "../proxy/alwaysAllow";
+import {
+  formatDurationSeconds,
+  MIN_APPROVAL_TTL_SECONDS,
+  parseDurationSeconds,
+} from "../proxy/approvalTtl";
+import { decideProxyBatch } from "../proxy/batches";
+import {
+  APPROVAL_GRANT_PRESETS,
+  createApprovalGrant,
+  isApprovalGrantPresetId,
+} from "../proxy/grants";
+import {
+  type LiveGrantKind,
+  listLiveGrants,
+  revokeAllForApiKey,
+  revokeLiveGrant,
+} from "../proxy/liveGrants";
+import {
+  createPolicyRule,
+  describePolicyRule,
+  listPolicyRules,
+  parsePolicyRuleSpec,
+  revokePolicyRule,
+} from "../proxy/policy";
 import type { ProxyProviderId } from "../proxy/provider";
 import { listProxyProviderIds } from "../proxy/providerRegistry";
-import { decideProxyRequest } from "../proxy/requests";
+import {
+  createRedactionRule,
+  describeRedactionRule,
+  listUserRedactionRules,
+  loadRedaction,
+  parseRedactionRuleSpec,
+  redactText,
+  redactUrl,
+  revokeRedactionRule,
+} from "../proxy/redaction";
+import {
+  decideProxyRequest,
+  denyOpenProxyRequests,
+  listOpenProxyRequests,
+} from "../proxy/requests";
 
 function nowIso(): string {
   return new Date().toISOString();
@@ -24,21 +86,21 @@ function nowIso(): string {
 
 type UserRow = { id: string };
 
-function ensureUser(telegramUserId: number): string {
-  const existing = db()
+async function ensureUser(telegramUserId: number): Promise<string> {
+  const existing = (await db()
     .query("SELECT id FROM users WHERE telegram_user_id = ?;")
-    .get(telegramUserId) as UserRow | null;
+    .get(telegramUserId)) as UserRow | null;
 
   if (existing) return existing.id;
 
   const id = ulid();
-  db()
+  await db()
     .query(
       "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
     )
     .run(id, telegramUserId, nowIso(), "active");
 
-  auditEvent({
+  await auditEvent({
     userId: id,
     actorType: "telegram",
     actorId: String(telegramUserId),
@@ -49,16 +111,16 @@ function ensureUser(telegramUserId: number): string {
   return id;
 }
 
-function setPendingInput(params: {
+async function setPendingInput(params: {
   userId: string;
   action: string;
   targetId?: string;
   ttlMs: number;
-}): void {
+}): Promise<void> {
   const createdAt = nowIso();
   const expiresAt = new Date(Date.now() + params.ttlMs).toISOString();
 
-  db()
+  await db()
     .query(
       "INSERT INTO telegram_pending_inputs (user_id, action, target_id, created_at, expires_at) VALUES (?, ?, ?, ?, ?) " +
         "ON CONFLICT(user_id) DO UPDATE SET action=excluded.action, target_id=excluded.target_id, created_at=excluded.created_at, expires_at=excluded.expires_at;"
@@ -72,20 +134,22 @@ function setPendingInput(params: {
     );
 }
 
-function clearPendingInput(userId: string): void {
-  db()
+async function clearPendingInput(userId: string): Promise<void> {
+  await db()
     .query("DELETE FROM telegram_pending_inputs WHERE user_id = ?;")
     .run(userId);
 }
 
-function getPendingInput(
-  userId: string
-): { action: string; target_id: string | null; expires_at: string } | null {
-  return db()
+async function getPendingInput(userId: string): Promise<{
+  action: string;
+  target_id: string | null;
+  expires_at: string;
+} | null> {
+  return (await db()
     .query(
       "SELECT action, target_id, expires_at FROM telegram_pending_inputs WHERE user_id = ?;"
     )
-    .get(userId) as {
+    .get(userId)) as {
     action: string;
     target_id: string | null;
     expires_at: string;
@@ -95,19 +159,25 @@ function getPendingInput(
 async function createApiKey(params: {
   userId: string;
   label: string;
+  scope?: ApiKeyScope | null;
   telegramUserId: number;
 }) {
   const created = await createApiKeyRow({
     userId: params.userId,
     label: params.label,
+    scope: params.scope,
   });
 
-  auditEvent({
+  await auditEvent({
     userId: params.userId,
     actorType: "telegram",
     actorId: String(params.telegramUserId),
     eventType: "api_key_created",
-    event: { apiKeyId: created.id, label: params.label },
+    event: {
+      apiKeyId: created.id,
+      label: params.label,
+      scope: formatApiKeyScope(params.scope ?? null),
+    },
   });
 
   return created;
@@ -116,6 +186,8 @@ async function createApiKey(params: {
 async function createApiKeyRow(params: {
   userId: string;
   label: string;
+  scope?: ApiKeyScope | null;
+  maxApprovalTtlSeconds?: number | null;
 }): Promise<{
   id: string;
   keyPlain: string;
@@ -125,11 +197,20 @@ async function createApiKeyRow(params: {
   const id = ulid();
   const now = nowIso();
 
-  db()
+  await db()
     .query(
-      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at, scopes_json, max_approval_ttl_seconds) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL, ?, ?);"
     )
-    .run(id, params.userId, params.label, keyHash, now, now);
+    .run(
+      id,
+      params.userId,
+      params.label,
+      keyHash,
+      now,
+      now,
+      params.scope ? JSON.stringify(params.scope) : null,
+      params.maxApprovalTtlSeconds ?? null
+    );
 
   return { id, keyPlain };
 }
@@ -144,20 +225,129 @@ function normalizeLabel(label: string): string {
   return label.trim().replace(/\s+/g, " ");
 }
 
-function renderKeysMessage(userId: string): {
+// `/key <label> [scope options]`: scope options start at the first token that
+// looks like one, so labels may still contain spaces.
+function parseKeyCreationInput(raw: string): {
+  label: string;
+  scope: ApiKeyScope | null;
+} {
+  const tokens = raw.trim().split(/\s+/).filter(Boolean);
+  const idx = tokens.findIndex(isApiKeyScopeToken);
+  if (idx === -1) return { label: normalizeLabel(raw), scope: null };
+  return {
+    label: normalizeLabel(tokens.slice(0, idx).join(" ")),
+    scope: parseApiKeyScopeSpec(tokens.slice(idx).join(" ")),
+  };
+}
+
+function renderCallbackSecretMessage(params: {
+  label: string;
+  url: string;
+  secret: string;
+}): string {
+  return [
+    `Callback set for <b>${escapeHtml(params.label)}</b>: <code>${escapeHtml(params.url)}</code>`,
+    "",
+    "Signing secret (shown once):",
+    `<code>${escapeHtml(params.secret)}</code>`,
+    "",
+    "Verify <code>X-PB-Signature: t=&lt;unix&gt;,v1=&lt;hex&gt;</code> as HMAC-SHA256(secret, <code>t + &quot;.&quot; + body</code>).",
+  ].join("\n");
+}
+
+async function handleKeyCallbackInput(params: {
+  ctx: Context;
+  userId: string;
+  apiKeyId: string;
+  text: string;
+}): Promise<void> {
+  const { ctx, userId } = params;
+  const row = (await db()
+    .query(
+      "SELECT id, label FROM api_keys WHERE id = ? AND user_id = ? AND revoked_at IS NULL;"
+    )
+    .get(params.apiKeyId, userId)) as { id: string; label: string } | null;
+  if (!row) {
+    await clearPendingInput(userId);
+    await ctx.reply("Key not found.");
+    return;
+  }
+
+  const actorId = String(ctx.from?.id ?? "");
+
+  if (params.text.toLowerCase() === "off") {
+    await db()
+      .query(
+        "UPDATE api_keys SET callback_url = NULL, callback_secret_ciphertext = NULL, updated_at = ? WHERE id = ? AND user_id = ?;"
+      )
+      .run(nowIso(), row.id, userId);
+    await clearPendingInput(userId);
+    await auditEvent({
+      userId,
+      actorType: "telegram",
+      actorId,
+      eventType: "api_key_callback_cleared",
+      event: { apiKeyId: row.id },
+    });
+    await ctx.reply(`Callback removed for: ${row.label}`);
+    return;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(params.text);
+  } catch {
+    await ctx.reply('Please send a valid https URL (or "off").');
+    return;
+  }
+  if (url.protocol !== "https:") {
+    await ctx.reply("Callback URLs must use https.");
+    return;
+  }
+
+  const secret = `whsec_${randomBase64Url(24)}`;
+  await db()
+    .query(
+      "UPDATE api_keys SET callback_url = ?, callback_secret_ciphertext = ?, updated_at = ? WHERE id = ? AND user_id = ?;"
+    )
+    .run(url.toString(), await encryptUtf8(secret), nowIso(), row.id, userId);
+  await clearPendingInput(userId);
+
+  await auditEvent({
+    userId,
+    actorType: "telegram",
+    actorId,
+    eventType: "api_key_callback_set",
+    event: { apiKeyId: row.id, callbackUrl: url.toString() },
+  });
+
+  await ctx.reply(
+    renderCallbackSecretMessage({
+      label: row.label,
+      url: url.toString(),
+      secret,
+    }),
+    { parse_mode: "HTML" }
+  );
+}
+
+async function renderKeysMessage(userId: string): Promise<{
   text: string;
   keyboard: InlineKeyboard;
-} {
-  const rows = db()
+}> {
+  const rows = (await db()
     .query(
-      "SELECT id, label, created_at, revoked_at, last_used_at FROM api_keys WHERE user_id = ? ORDER BY created_at DESC;"
+      "SELECT id, label, created_at, revoked_at, last_used_at, callback_url, scopes_json, max_approval_ttl_seconds FROM api_keys WHERE user_id = ? ORDER BY created_at DESC;"
     )
-    .all(userId) as {
+    .all(userId)) as {
     id: string;
     label: string;
     created_at: string;
     revoked_at: string | null;
     last_used_at: string | null;
+    callback_url: string | null;
+    scopes_json: string | null;
+    max_approval_ttl_seconds: number | null;
   }[];
 
   if (rows.length === 0) {
@@ -173,12 +363,20 @@ function renderKeysMessage(userId: string): {
     if (!k.revoked_at) {
       kb.text(`Revoke: ${k.label}`, `k:revoke:${k.id}`).row();
       kb.text(`Rotate: ${k.label}`, `k:rotate:${k.id}`).row();
+      kb.text(`Callback: ${k.label}`, `k:callback:${k.id}`).row();
+      kb.text(`Scope: ${k.label}`, `k:scope:${k.id}`).row();
+      kb.text(`Max TTL: ${k.label}`, `k:ttl:${k.id}`).row();
     }
   }
 
   const lines = rows.map((k) => {
     const status = k.revoked_at ? "revoked" : "active";
-    return `- ${k.label} (${status}) created=${k.created_at} last_used=${k.last_used_at ?? "never"}`;
+    const callback = k.callback_url ? ` callback=${k.callback_url}` : "";
+    const scope = formatApiKeyScope(parseStoredApiKeyScope(k.scopes_json));
+    const maxTtl = k.max_approval_ttl_seconds
+      ? ` max_ttl=${formatDurationSeconds(k.max_approval_ttl_seconds)}`
+      : "";
+    return `- ${k.label} (${status}) created=${k.created_at} last_used=${k.last_used_at ?? "never"} scope=[${scope}]${maxTtl}${callback}`;
   });
 
   return {
@@ -187,6 +385,344 @@ function renderKeysMessage(userId: string): {
   };
 }
 
+const POLICY_RULES_HELP = [
+  "Usage:",
+  "/rules — list active auto-approve/deny rules",
+  "/rules add <allow|deny> [METHODS|*] [host][/path] [provider=<id>] [key=<label>] [ip=<addr>] [priority=<n>] [query.<param>=<glob>] [noquery=<param>]",
+  "",
+  "Paths support * and {name} (one segment) and ** (any segments).",
+  "Higher priority wins; at equal priority deny beats allow.",
+  "",
+  "Example: /rules add allow GET www.googleapis.com/drive/v3/files/{id} key=agent",
+].join("\n");
+
+async function renderPolicyRulesMessage(userId: string): Promise<{
+  text: string;
+  keyboard: InlineKeyboard;
+}> {
+  const rules = await listPolicyRules(userId);
+  if (rules.length === 0) {
+    return {
+      text: `No policy rules yet.\n\n${POLICY_RULES_HELP}`,
+      keyboard: new InlineKeyboard(),
+    };
+  }
+
+  const keyLabels = new Map(
+    (
+      (await db()
+        .query("SELECT id, label FROM api_keys WHERE user_id = ?;")
+        .all(userId)) as { id: string; label: string }[]
+    ).map((k) => [k.id, k.label])
+  );
+
+  const kb = new InlineKeyboard();
+  const lines = rules.map((r, i) => {
+    if (i < 20) kb.text(`Revoke #${i + 1}`, `pr:revoke:${r.id}`).row();
+    const label = r.apiKeyId ? keyLabels.get(r.apiKeyId) : undefined;
+    return `#${i + 1} ${describePolicyRule(r, label)}`;
+  });
+
+  return {
+    text: `Policy rules (evaluated on every proxy request):\n${lines.join("\n")}`,
+    keyboard: kb,
+  };
+}
+
+const LIST_PAGE_SIZE = 10;
+
+function pageBounds(
+  total: number,
+  page: number
+): { page: number; pages: number; offset: number } {
+  const pages = Math.max(1, Math.ceil(total / LIST_PAGE_SIZE));
+  const clamped = Math.min(Math.max(0, page), pages - 1);
+  return { page: clamped, pages, offset: clamped * LIST_PAGE_SIZE };
+}
+
+function addPageButtons(
+  kb: InlineKeyboard,
+  prefix: string,
+  page: number,
+  pages: number
+): void {
+  if (pages <= 1) return;
+  if (page > 0) kb.text("« Prev", `${prefix}:page:${page - 1}`);
+  if (page < pages - 1) kb.text("Next »", `${prefix}:page:${page + 1}`);
+  kb.row();
+}
+
+const LIVE_GRANT_KIND_CODES: Record<LiveGrantKind, string> = {
+  git_session: "g",
+  always_allow: "a",
+  policy_rule: "r",
+  approval_grant: "t",
+};
+
+function liveGrantKindFromCode(code: string): LiveGrantKind | null {
+  for (const [kind, c] of Object.entries(LIVE_GRANT_KIND_CODES)) {
+    if (c === code) return kind as LiveGrantKind;
+  }
+  return null;
+}
+
+async function renderLiveGrantsMessage(
+  userId: string,
+  page: number
+): Promise<{
+  text: string;
+  keyboard: InlineKeyboard;
+}> {
+  const grants = await listLiveGrants(userId);
+  if (grants.length === 0) {
+    return {
+      text: "No live grants: no approved git sessions, always-allow rules, key allow rules or temporary grants.",
+      keyboard: new InlineKeyboard(),
+    };
+  }
+
+  const bounds = pageBounds(grants.length, page);
+  const kb = new InlineKeyboard();
+  const lines = grants
+    .slice(bounds.offset, bounds.offset + LIST_PAGE_SIZE)
+    .map((g, i) => {
+      const n = bounds.offset + i + 1;
+      kb.text(
+        `Revoke #${n}`,
+        `lg:revoke:${LIVE_GRANT_KIND_CODES[g.kind]}:${g.id}:${bounds.page}`
+      ).row();
+      return `#${n} ${g.description}`;
+    });
+  addPageButtons(kb, "lg", bounds.page, bounds.pages);
+
+  const keys = new Map<string, string>();
+  for (const g of grants) {
+    if (!keys.has(g.apiKeyId)) keys.set(g.apiKeyId, g.apiKeyLabel ?? "?");
+  }
+  for (const [apiKeyId, label] of [...keys].slice(0, 10)) {
+    kb.text(`Revoke everything for ${label}`, `lg:key:${apiKeyId}`).row();
+  }
+
+  return {
+    text: `Live grants (page ${bounds.page + 1}/${bounds.pages}):\n${lines.join("\n")}`,
+    keyboard: kb,
+  };
+}
+
+async function renderOpenRequestsMessage(
+  userId: string,
+  page: number
+): Promise<{
+  text: string;
+  keyboard: InlineKeyboard;
+}> {
+  let list = await listOpenProxyRequests({
+    userId,
+    limit: LIST_PAGE_SIZE,
+    offset: Math.max(0, page) * LIST_PAGE_SIZE,
+  });
+  if (list.total === 0) {
+    return {
+      text: "No pending or approved proxy requests.",
+      keyboard: new InlineKeyboard(),
+    };
+  }
+
+  // The list may have shrunk since the page button was rendered.
+  const bounds = pageBounds(list.total, page);
+  if (list.requests.length === 0) {
+    list = await listOpenProxyRequests({
+      userId,
+      limit: LIST_PAGE_SIZE,
+      offset: bounds.offset,
+    });
+  }
+  const { requests } = list;
+  const redaction = await loadRedaction({ userId });
+
+  const kb = new InlineKeyboard();
+  const lines = requests.map((r, i) => {
+    const n = bounds.offset + i + 1;
+    const pending = r.status === "PENDING_APPROVAL";
+    kb.text(
+      `${pending ? "Deny" : "Revoke"} #${n}`,
+      `rq:deny:${r.id}:${bounds.page}`
+    ).row();
+    const upstreamUrl = redactUrl(redaction, r.upstream_url);
+    const url =
+      upstreamUrl.length > 120
+        ? `${upstreamUrl.slice(0, 117)}...`
+        : upstreamUrl;
+    const hint = r.consent_hint
+      ? `\n   ${redactText(redaction, r.consent_hint).slice(0, 200)}`
+      : "";
+    return `#${n} ${pending ? "pending" : "approved"} ${r.method} ${url} (key ${r.api_key_label_snapshot}, expires ${r.approval_expires_at.slice(0, 16)}Z)${hint}`;
+  });
+  addPageButtons(kb, "rq", bounds.page, bounds.pages);
+  kb.text("Deny all pending", "rq:denyall").row();
+
+  return {
+    text: `Open proxy requests (page ${bounds.page + 1}/${bounds.pages}):\n${lines.join("\n")}`,
+    keyboard: kb,
+  };
+}
+
+const AUDIT_HELP = [
+  "Usage: /audit [filters] [export=csv|jsonl]",
+  "type=<event>[,<event>...]   prefix with *, e.g. type=git_*",
+  "key=<label>                 events about one API key",
+  "provider=<id>               e.g. provider=github",
+  "request=<id>                one proxy request or git session",
+  "since=<24h|7d|ISO time>     until=<...>",
+  "",
+  "Example: /audit type=proxy_request_* key=agent since=24h",
+].join("\n");
+
+type AuditFilterSpec = {
+  query: Omit<AuditQuery, "userId" | "limit" | "cursor">;
+  exportFormat: "csv" | "jsonl" | null;
+  // Normalized filter tokens, shown in the message header and re-read when
+  // paging (callback data is too small to carry them).
+  spec: string;
+};
+
+async function parseAuditFilterSpec(
+  userId: string,
+  raw: string
+): Promise<AuditFilterSpec> {
+  const out: AuditFilterSpec = { query: {}, exportFormat: null, spec: "" };
+  const kept: string[] = [];
+  for (const tok of raw.trim().split(/\s+/).filter(Boolean)) {
+    const eq = tok.indexOf("=");
+    if (eq === -1) throw new Error(`unknown filter: ${tok}`);
+    const name = tok.slice(0, eq).toLowerCase();
+    const value = tok.slice(eq + 1);
+    if (!value) throw new Error(`empty value for ${name}`);
+    switch (name) {
+      case "type":
+        out.query.eventTypes = value.split(",").filter(Boolean);
+        break;
+      case "key": {
+        const apiKeyId = await resolveAuditApiKey(userId, value);
+        if (!apiKeyId) throw new Error(`unknown API key: ${value}`);
+        out.query.apiKeyId = apiKeyId;
+        break;
+      }
+      case "provider":
+        out.query.provider = value;
+        break;
+      case "request":
+        out.query.requestId = value;
+        break;
+      case "since":
+        out.query.from = parseAuditTime(value);
+        break;
+      case "until":
+        out.query.to = parseAuditTime(value);
+        break;
+      case "export":
+        if (value !== "csv" && value !== "jsonl") {
+          throw new Error("export must be csv or jsonl");
+        }
+        out.exportFormat = value;
+        continue;
+      default:
+        throw new Error(`unknown filter: ${name}`);
+    }
+    // Relative times are pinned so later pages cover the same window.
+    kept.push(
+      name === "since" || name === "until"
+        ? `${name}=${name === "since" ? out.query.from : out.query.to}`
+        : tok
+    );
+  }
+  out.spec = kept.join(" ");
+  return out;
+}
+
+function describeAuditEntry(e: AuditEntry): string {
+  const head = `${e.created_at.slice(0, 16).replace("T", " ")}Z ${e.event_type} by ${e.actor_type}:${e.actor_id}`;
+  const pr = e.proxy_request;
+  if (pr) {
+    const url =
+      pr.upstream_url.length > 120
+        ? `${pr.upstream_url.slice(0, 117)}...`
+        : pr.upstream_url;
+    const decided = pr.decision
+      ? `; ${pr.decision.decision} by ${pr.decision.decided_by_telegram_user_id}`
+      : "";
+    return `${head}\n   ${pr.method} ${url} (key ${pr.api_key_label}, ${pr.status}${decided})`;
+  }
+  const gs = e.git_session;
+  if (gs) {
+    return `${head}\n   git ${gs.operation} ${gs.provider}:${gs.repo} (key ${gs.api_key_label ?? gs.api_key_id}, ${gs.status})`;
+  }
+  return head;
+}
+
+async function renderAuditMessage(
+  userId: string,
+  filters: AuditFilterSpec,
+  cursor?: string
+): Promise<{
+  text: string;
+  keyboard: InlineKeyboard;
+}> {
+  const { entries, nextCursor } = await queryAuditEvents({
+    ...filters.query,
+    userId,
+    cursor,
+    limit: LIST_PAGE_SIZE,
+  });
+  const header = `Audit log${filters.spec ? ` (${filters.spec})` : ""}${cursor ? `, before ${cursor}` : ""}:`;
+  const kb = new InlineKeyboard();
+  if (entries.length === 0) {
+    return { text: `${header}\nNo matching events.`, keyboard: kb };
+  }
+  if (nextCursor) kb.text("Older »", `au:older:${nextCursor}`).row();
+  return {
+    text: `${header}\n${entries.map(describeAuditEntry).join("\n")}`,
+    keyboard: kb,
+  };
+}
+
+const REDACTION_RULES_HELP = [
+  "Usage:",
+  "/redact — list your redaction rules",
+  "/redact add <json_path|header|query_param|regex> <pattern> [provider=<id>]",
+  "",
+  "Redacted values are hidden in approval prompts, the audit log and listings.",
+  "json_path: $.a.b, items[*].token, **.password (** = any depth)",
+  "regex: JavaScript syntax, case-insensitive",
+  "Tokens, passwords and Authorization/Cookie headers are always redacted.",
+  "",
+  "Example: /redact add regex [a-z0-9._%+-]+@[a-z0-9.-]+\\.[a-z]{2,} provider=google",
+].join("\n");
+
+async function renderRedactionRulesMessage(userId: string): Promise<{
+  text: string;
+  keyboard: InlineKeyboard;
+}> {
+  const rules = await listUserRedactionRules(userId);
+  if (rules.length === 0) {
+    return {
+      text: `No redaction rules yet.\n\n${REDACTION_RULES_HELP}`,
+      keyboard: new InlineKeyboard(),
+    };
+  }
+
+  const kb = new InlineKeyboard();
+  const lines = rules.map((r, i) => {
+    if (i < 20) kb.text(`Remove #${i + 1}`, `rr:revoke:${r.id}`).row();
+    return `#${i + 1} ${describeRedactionRule(r)}`;
+  });
+
+  return {
+    text: `Redaction rules (in addition to the built-in ones):\n${lines.join("\n")}`,
+    keyboard: kb,
+  };
+}
+
 function renderApprovalDecisionText(params: {
   originalText: string;
   decision: "approved" | "denied";
@@ -215,11 +751,13 @@ function escapeHtml(s: string): string {
 function renderOneTimeKeyMessage(params: {
   label: string;
   apiKey: string;
+  scope?: ApiKeyScope | null;
 }): string {
   const label = escapeHtml(params.label);
   const apiKey = escapeHtml(params.apiKey);
   const keyBlock = `<span class="tg-spoiler"><code>${apiKey}</code></span>`;
-  return `API key (sent once)\n\nLabel: ${label}\nKey: ${keyBlock}`;
+  const scope = escapeHtml(formatApiKeyScope(params.scope ?? null));
+  return `API key (sent once)\n\nLabel: ${label}\nScope: ${scope}\nKey: ${keyBlock}`;
 }
 
 export function createBot(): Bot {
@@ -231,7 +769,7 @@ export function createBot(): Bot {
 
   bot.command("start", async (ctx) => {
     if (!ctx.from) return;
-    ensureUser(ctx.from.id);
+    await ensureUser(ctx.from.id);
     await ctx.reply(
       "Permissions Broker is running. Use /connect to link a provider and /key to create an API key."
     );
@@ -246,25 +784,25 @@ export function createBot(): Bot {
     return new Date().toISOString();
   }
 
-  function getLinkedAccountsByProvider(userId: string): Map<
-    string,
-    {
-      provider: string;
-      status: string;
-      scopes: string;
-      created_at: string;
-      revoked_at: string | null;
-    }
+  // Most recent account row per provider (any status), for providers with
+  // no active account.
+  async function getLatestLinkedAccountsByProvider(userId: string): Promise<
+    Map<
+      string,
+      {
+        provider: string;
+        status: string;
+        revoked_at: string | null;
+      }
+    >
   > {
-    const rows = db()
+    const rows = (await db()
       .query(
-        "SELECT provider, status, scopes, created_at, revoked_at FROM linked_accounts WHERE user_id = ? ORDER BY created_at DESC;"
+        "SELECT provider, status, revoked_at FROM linked_accounts WHERE user_id = ? ORDER BY created_at DESC;"
       )
-      .all(userId) as {
+      .all(userId)) as {
       provider: string;
       status: string;
-      scopes: string;
-      created_at: string;
       revoked_at: string | null;
     }[];
 
@@ -275,32 +813,42 @@ export function createBot(): Bot {
     return byProvider;
   }
 
-  function renderConnectionsList(userId: string): {
+  async function renderConnectionsList(userId: string): Promise<{
     text: string;
     keyboard: InlineKeyboard;
-  } {
-    const byProvider = getLinkedAccountsByProvider(userId);
+  }> {
+    const latest = await getLatestLinkedAccountsByProvider(userId);
 
     const lines: string[] = [];
+    const kb = new InlineKeyboard();
     for (const p of supportedProviders) {
-      const r = byProvider.get(p);
-      if (!r) {
-        lines.push(`- ${p}: not connected`);
+      const active = await listActiveLinkedAccounts({ userId, provider: p });
+      const needsReauth = await listLinkedAccountsNeedingReauth({
+        userId,
+        provider: p,
+      });
+      if (needsReauth.length) {
+        const names = needsReauth.map((a) => describeLinkedAccount(a));
+        const activeNote = active.length ? `${active.length} active, ` : "";
+        lines.push(
+          `- ${p}: ${activeNote}${needsReauth.length} need reconnecting (${names.join(", ")})`
+        );
+        kb.text(`${p}: reconnect`, `c:connections:provider:${p}`).row();
         continue;
       }
-      lines.push(
-        `- ${p}: ${r.status} scopes=${r.scopes} created=${r.created_at}`
-      );
-    }
-
-    const kb = new InlineKeyboard();
-    for (const p of supportedProviders) {
-      const r = byProvider.get(p);
-      if (r?.status === "active") {
-        kb.text(`${p}: connected`, `c:connections:provider:${p}`).row();
-      } else {
-        kb.text(`Connect ${p}`, `c:connect:${p}`).row();
+      if (active.length) {
+        const names = active.map((a) => describeLinkedAccount(a)).join(", ");
+        lines.push(`- ${p}: ${active.length} active (${names})`);
+        kb.text(
+          `${p}: ${active.length} connected`,
+          `c:connections:provider:${p}`
+        ).row();
+        continue;
       }
+
+      const r = latest.get(p);
+      lines.push(r ? `- ${p}: ${r.status}` : `- ${p}: not connected`);
+      kb.text(`Connect ${p}`, `c:connect:${p}`).row();
     }
 
     return {
@@ -309,92 +857,80 @@ export function createBot(): Bot {
     };
   }
 
-  function renderProviderDetails(
+  async function renderProviderDetails(
     userId: string,
     providerId: SupportedProvider
-  ): {
+  ): Promise<{
     text: string;
     keyboard: InlineKeyboard;
-  } {
-    const byProvider = getLinkedAccountsByProvider(userId);
-    const r = byProvider.get(providerId);
+  }> {
+    const active = await listActiveLinkedAccounts({
+      userId,
+      provider: providerId,
+    });
+    const needsReauth = await listLinkedAccountsNeedingReauth({
+      userId,
+      provider: providerId,
+    });
 
     const kb = new InlineKeyboard();
 
-    if (!r) {
+    if (!active.length && !needsReauth.length) {
+      const r = (await getLatestLinkedAccountsByProvider(userId)).get(
+        providerId
+      );
+      const statusLine = r?.revoked_at
+        ? `Status: ${r.status} (revoked_at=${r.revoked_at})`
+        : "Status: not connected";
       kb.text(`Connect ${providerId}`, `c:connect:${providerId}`).row();
+      if (providerId === "github") {
+        kb.text(
+          "Connect GitHub App installation",
+          "c:connect-github-app"
+        ).row();
+      }
       kb.text("← Back", "c:connections:list");
       return {
-        text: `${providerId}\n\nStatus: not connected`,
+        text: `${providerId}\n\n${statusLine}`,
         keyboard: kb,
       };
     }
 
-    const statusLine = r.revoked_at
-      ? `Status: ${r.status} (revoked_at=${r.revoked_at})`
-      : `Status: ${r.status}`;
-
-    if (r.status === "active") {
-      kb.text("Disconnect", `c:connections:disconnect:${providerId}`).row();
-    }
-    kb.text("Reconnect", `c:connections:reconnect:${providerId}`).row();
-    kb.text("← Back", "c:connections:list");
-
-    return {
-      text: `${providerId}\n\n${statusLine}\nScopes: ${r.scopes}\nConnected: ${r.created_at}`,
-      keyboard: kb,
-    };
-  }
-
-  async function getConnectUrl(params: {
-    userId: string;
-    providerId: string;
-  }): Promise<string> {
-    if (!env.APP_BASE_URL) {
-      throw new Error(
-        "APP_BASE_URL is not configured; cannot create OAuth link."
+    const blocks: string[] = [];
+    for (const a of active) {
+      const name = describeLinkedAccount(a);
+      blocks.push(
+        `${name}\nId: ${a.id}\nScopes: ${a.scopes}\nConnected: ${a.createdAt}`
       );
+      kb.text(`Label: ${name}`, `c:acct:label:${a.id}`)
+        .text(`Disconnect: ${name}`, `c:acct:disconnect:${a.id}`)
+        .row();
     }
-
-    if (!env.APP_SECRET) {
-      throw new Error(
-        "APP_SECRET is not configured; cannot store refresh tokens."
+    for (const a of needsReauth) {
+      const name = describeLinkedAccount(a);
+      blocks.push(
+        `${name}\nId: ${a.id}\nStatus: needs reconnect (the provider rejected the stored credential)`
       );
+      kb.text(`Disconnect: ${name}`, `c:acct:disconnect:${a.id}`).row();
     }
-
-    if (params.providerId === "icloud") {
-      const { state } = createConnectState({
-        userId: params.userId,
-        provider: "icloud",
-        ttlMs: 10 * 60_000,
-      });
-      const base = env.APP_BASE_URL.replace(/\/$/, "");
-      return `${base}/v1/accounts/connect/icloud?state=${encodeURIComponent(state)}`;
-    }
-
-    let provider: OAuthProviderConfig;
-    try {
-      provider = getProvider(params.providerId);
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      throw new Error(`OAuth provider not configured. ${msg}`);
+    kb.text(
+      "Add or reconnect account",
+      `c:connections:reconnect:${providerId}`
+    ).row();
+    if (providerId === "github") {
+      kb.text("Connect GitHub App installation", "c:connect-github-app").row();
     }
+    kb.text("← Back", "c:connections:list");
 
-    const redirectUri = `${env.APP_BASE_URL}/v1/accounts/callback/${params.providerId}`;
-    const codeVerifier = oauth.generateRandomCodeVerifier();
-    const { state } = createOauthState({
-      userId: params.userId,
-      provider: provider.id,
-      ttlMs: 10 * 60_000,
-      pkceVerifier: codeVerifier,
-    });
+    const hint =
+      active.length > 1
+        ? "\n\nSeveral accounts are linked: requests must pass `account` (id, provider user id or label)."
+        : "";
 
-    return buildAuthorizationUrl({
-      provider,
-      redirectUri,
-      state,
-      codeVerifier,
-    });
+    return {
+      text: `${providerId}\n\n${blocks.join("\n\n")}${hint}`,
+      keyboard: kb,
+    };
   }
 
   async function sendConnectLink(params: {
@@ -403,7 +939,7 @@ export function createBot(): Bot {
     providerId: string;
   }): Promise<void> {
     try {
-      const url = await getConnectUrl({
+      const url = await createConnectUrl({
         userId: params.userId,
         providerId: params.providerId,
       });
@@ -416,12 +952,12 @@ export function createBot(): Bot {
 
   bot.command("connect", async (ctx) => {
     if (!ctx.from) return;
-    const userId = ensureUser(ctx.from.id);
+    const userId = await ensureUser(ctx.from.id);
 
     const raw = (ctx.match ?? "").toString().trim();
 
     if (!raw) {
-      const rendered = renderConnectionsList(userId);
+      const rendered = await renderConnectionsList(userId);
       await ctx.reply(rendered.text, { reply_markup: rendered.keyboard });
       return;
     }
@@ -431,8 +967,8 @@ export function createBot(): Bot {
 
   bot.callbackQuery(/c:connections:list/, async (ctx) => {
     if (!ctx.from) return;
-    const userId = ensureUser(ctx.from.id);
-    const rendered = renderConnectionsList(userId);
+    const userId = await ensureUser(ctx.from.id);
+    const rendered = await renderConnectionsList(userId);
 
     await ctx.answerCallbackQuery();
     await ctx.editMessageText(rendered.text, {
@@ -453,7 +989,7 @@ export function createBot(): Bot {
 
   bot.callbackQuery(/^c:connections:provider:/, async (ctx) => {
     if (!ctx.from) return;
-    const userId = ensureUser(ctx.from.id);
+    const userId = await ensureUser(ctx.from.id);
     const providerId = parseProviderIdFromCallbackData(
       "c:connections:provider:",
       ctx.callbackQuery.data
@@ -464,7 +1000,7 @@ export function createBot(): Bot {
       return;
     }
 
-    const rendered = renderProviderDetails(userId, providerId);
+    const rendered = await renderProviderDetails(userId, providerId);
 
     await ctx.answerCallbackQuery();
     await ctx.editMessageText(rendered.text, {
@@ -472,26 +1008,50 @@ export function createBot(): Bot {
     });
   });
 
-  bot.callbackQuery(/^c:connections:disconnect:/, async (ctx) => {
+  bot.callbackQuery(/^c:acct:(disconnect|label):/, async (ctx) => {
     if (!ctx.from) return;
-    const userId = ensureUser(ctx.from.id);
-    const providerId = parseProviderIdFromCallbackData(
-      "c:connections:disconnect:",
-      ctx.callbackQuery.data
-    );
+    const userId = await ensureUser(ctx.from.id);
+    const data = ctx.callbackQuery.data;
+    const [, , action, accountId] = data.split(":");
+
+    const account = accountId
+      ? await getLinkedAccountForUser({ accountId, userId })
+      : null;
+    // Accounts that need reconnecting can still be disconnected.
+    const usable =
+      account?.status === "active" ||
+      (account?.status === "needs_reauth" && action === "disconnect");
+    if (!account || !usable) {
+      await ctx.answerCallbackQuery({ text: "account not found" });
+      return;
+    }
 
-    if (!providerId) {
-      await ctx.answerCallbackQuery({ text: "unknown provider" });
+    if (action === "label") {
+      await setPendingInput({
+        userId,
+        action: "SET_ACCOUNT_LABEL",
+        targetId: account.id,
+        ttlMs: 5 * 60_000,
+      });
+      await ctx.answerCallbackQuery({ text: "Send new label" });
+      await ctx.reply(
+        `Send a label for ${account.provider} account ${describeLinkedAccount(account)} (e.g. work, personal). Send "off" to remove it.`,
+        { reply_markup: { force_reply: true } }
+      );
       return;
     }
 
-    db()
-      .query(
-        "UPDATE linked_accounts SET status = 'revoked', revoked_at = ? WHERE user_id = ? AND provider = ? AND status = 'active';"
-      )
-      .run(nowIso(), userId, providerId);
+    await revokeLinkedAccount({ accountId: account.id, userId });
+    await auditEvent({
+      userId,
+      actorType: "telegram",
+      actorId: String(ctx.from.id),
+      eventType: "linked_account_revoked",
+      event: { provider: account.provider, account_id: account.id },
+    });
 
-    const rendered = renderProviderDetails(userId, providerId);
+    const providerId = account.provider as SupportedProvider;
+    const rendered = await renderProviderDetails(userId, providerId);
     await ctx.answerCallbackQuery({ text: "disconnected" });
     await ctx.editMessageText(rendered.text, {
       reply_markup: rendered.keyboard,
@@ -500,7 +1060,7 @@ export function createBot(): Bot {
 
   bot.callbackQuery(/^c:connections:reconnect:/, async (ctx) => {
     if (!ctx.from) return;
-    const userId = ensureUser(ctx.from.id);
+    const userId = await ensureUser(ctx.from.id);
     const providerId = parseProviderIdFromCallbackData(
       "c:connections:reconnect:",
       ctx.callbackQuery.data
@@ -514,14 +1074,14 @@ export function createBot(): Bot {
     await ctx.answerCallbackQuery({ text: "link generated" });
 
     try {
-      const url = await getConnectUrl({ userId, providerId });
+      const url = await createConnectUrl({ userId, providerId });
       const kb = new InlineKeyboard()
         .text("← Back", "c:connections:list")
         .row()
         .text("Details", `c:connections:provider:${providerId}`);
 
       await ctx.editMessageText(
-        `Reconnect ${providerId}: ${url}\n\nAfter completing OAuth, come back here.`,
+        `Connect ${providerId}: ${url}\n\nSigning in as an account that is already linked refreshes it; a different account is added alongside. After completing the flow, come back here.`,
         { reply_markup: kb }
       );
     } catch (err) {
@@ -530,9 +1090,18 @@ export function createBot(): Bot {
     }
   });
 
+  // GitHub App installations are linked as github accounts through their
+  // own form.
+  bot.callbackQuery(/^c:connect-github-app$/, async (ctx) => {
+    if (!ctx.from) return;
+    const userId = await ensureUser(ctx.from.id);
+    await ctx.answerCallbackQuery({ text: "link generated" });
+    await sendConnectLink({ ctx, userId, providerId: "github-app" });
+  });
+
   bot.callbackQuery(/^c:connect:/, async (ctx) => {
     if (!ctx.from) return;
-    const userId = ensureUser(ctx.from.id);
+    const userId = await ensureUser(ctx.from.id);
     const providerId = parseProviderIdFromCallbackData(
       "c:connect:",
       ctx.callbackQuery.data
@@ -549,16 +1118,32 @@ export function createBot(): Bot {
 
   bot.command("key", async (ctx) => {
     if (!ctx.from) return;
-    const userId = ensureUser(ctx.from.id);
+    const userId = await ensureUser(ctx.from.id);
 
     const raw = (ctx.match ?? "").toString();
-    const label = normalizeLabel(raw);
+
+    let label: string;
+    let scope: ApiKeyScope | null;
+    try {
+      ({ label, scope } = parseKeyCreationInput(raw));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      await ctx.reply(`Invalid scope. ${msg}\n\n${API_KEY_SCOPE_HELP}`);
+      return;
+    }
 
     if (!label) {
-      setPendingInput({ userId, action: "CREATE_KEY", ttlMs: 5 * 60_000 });
-      await ctx.reply("Send the label for this API key (unique per user).", {
-        reply_markup: { force_reply: true },
+      await setPendingInput({
+        userId,
+        action: "CREATE_KEY",
+        ttlMs: 5 * 60_000,
       });
+      await ctx.reply(
+        "Send the label for this API key (unique per user), optionally followed by scope options, e.g.: agent provider=github readonly",
+        {
+          reply_markup: { force_reply: true },
+        }
+      );
       return;
     }
 
@@ -566,10 +1151,11 @@ export function createBot(): Bot {
       const created = await createApiKey({
         userId,
         label,
+        scope,
         telegramUserId: ctx.from.id,
       });
       await ctx.reply(
-        renderOneTimeKeyMessage({ label, apiKey: created.keyPlain }),
+        renderOneTimeKeyMessage({ label, apiKey: created.keyPlain, scope }),
         {
           parse_mode: "HTML",
         }
@@ -582,222 +1168,951 @@ export function createBot(): Bot {
 
   bot.command("keys", async (ctx) => {
     if (!ctx.from) return;
-    const userId = ensureUser(ctx.from.id);
+    const userId = await ensureUser(ctx.from.id);
 
-    const rendered = renderKeysMessage(userId);
+    const rendered = await renderKeysMessage(userId);
     await ctx.reply(rendered.text, { reply_markup: rendered.keyboard });
   });
 
-  bot.callbackQuery(/k:(rename|revoke|rotate):(.+)/, async (ctx) => {
+  bot.command("dashboard", async (ctx) => {
     if (!ctx.from) return;
-    const action = ctx.match?.[1];
-    const apiKeyId = ctx.match?.[2];
-    const userId = ensureUser(ctx.from.id);
+    const userId = await ensureUser(ctx.from.id);
 
-    const row = db()
-      .query(
-        "SELECT id, label, revoked_at FROM api_keys WHERE id = ? AND user_id = ?;"
-      )
-      .get(apiKeyId, userId) as {
-      id: string;
-      label: string;
-      revoked_at: string | null;
-    } | null;
-
-    if (!row) {
-      await ctx.answerCallbackQuery({ text: "Key not found" });
-      return;
+    try {
+      const { url } = await createWebLoginUrl({ userId });
+      await ctx.reply(
+        `Sign-in link for the web dashboard (single use, valid for 10 minutes):\n${url}`,
+        { link_preview_options: { is_disabled: true } }
+      );
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      await ctx.reply(`Failed to create sign-in link. ${msg}`);
     }
+  });
 
-    if (action === "revoke") {
-      if (row.revoked_at) {
-        await ctx.answerCallbackQuery({ text: "Already revoked" });
-        return;
-      }
-      db()
-        .query(
-          "UPDATE api_keys SET revoked_at = ?, updated_at = ? WHERE id = ? AND user_id = ?;"
-        )
-        .run(nowIso(), nowIso(), row.id, userId);
+  // /gitsessions predates /sessions, which lists git sessions with the rest.
+  bot.command(["sessions", "gitsessions"], async (ctx) => {
+    if (!ctx.from) return;
+    const userId = await ensureUser(ctx.from.id);
 
-      auditEvent({
-        userId,
-        actorType: "telegram",
-        actorId: String(ctx.from.id),
-        eventType: "api_key_revoked",
-        event: { apiKeyId: row.id },
-      });
+    const rendered = await renderLiveGrantsMessage(userId, 0);
+    await ctx.reply(rendered.text, { reply_markup: rendered.keyboard });
+  });
 
-      await ctx.answerCallbackQuery({ text: "Revoked" });
+  bot.callbackQuery(/^lg:page:(\d+)$/, async (ctx) => {
+    if (!ctx.from) return;
+    const userId = await ensureUser(ctx.from.id);
 
-      // Update the keys message so button state reflects the revoke.
+    await ctx.answerCallbackQuery();
+    try {
+      const rendered = await renderLiveGrantsMessage(
+        userId,
+        Number(ctx.match[1])
+      );
+      await ctx.editMessageText(rendered.text, {
+        reply_markup: rendered.keyboard,
+      });
+    } catch {
+      // ignore (message unchanged or not editable)
+    }
+  });
+
+  bot.callbackQuery(/^lg:revoke:([a-z]):([^:]+):(\d+)$/, async (ctx) => {
+    if (!ctx.from) return;
+    const kind = liveGrantKindFromCode(ctx.match[1] ?? "");
+    const id = ctx.match[2] ?? "";
+    const userId = await ensureUser(ctx.from.id);
+
+    if (!kind || !(await revokeLiveGrant({ userId, kind, id }))) {
+      await ctx.answerCallbackQuery({ text: "Already ended" });
+      return;
+    }
+
+    const actor = {
+      userId,
+      actorType: "telegram",
+      actorId: String(ctx.from.id),
+    } as const;
+    if (kind === "git_session") {
+      await auditEvent({
+        ...actor,
+        eventType: "git_session_revoked",
+        event: { sessionId: id },
+      });
+    } else if (kind === "always_allow") {
+      await auditEvent({
+        ...actor,
+        eventType: "proxy_always_allow_revoked",
+        event: { rule_id: id },
+      });
+    } else if (kind === "policy_rule") {
+      await auditEvent({
+        ...actor,
+        eventType: "proxy_policy_rule_revoked",
+        event: { rule_id: id },
+      });
+    } else {
+      await auditEvent({
+        ...actor,
+        eventType: "proxy_approval_grant_revoked",
+        event: { grant_id: id },
+      });
+    }
+
+    await ctx.answerCallbackQuery({ text: "Revoked" });
+    try {
+      const rendered = await renderLiveGrantsMessage(
+        userId,
+        Number(ctx.match[3])
+      );
+      await ctx.editMessageText(rendered.text, {
+        reply_markup: rendered.keyboard,
+      });
+    } catch {
+      // ignore
+    }
+  });
+
+  bot.callbackQuery(/^lg:key(confirm)?:(.+)$/, async (ctx) => {
+    if (!ctx.from) return;
+    const confirmed = Boolean(ctx.match[1]);
+    const apiKeyId = ctx.match[2] ?? "";
+    const userId = await ensureUser(ctx.from.id);
+
+    const key = (await db()
+      .query("SELECT id, label FROM api_keys WHERE id = ? AND user_id = ?;")
+      .get(apiKeyId, userId)) as { id: string; label: string } | null;
+    if (!key) {
+      await ctx.answerCallbackQuery({ text: "Key not found" });
+      return;
+    }
+
+    if (!confirmed) {
+      await ctx.answerCallbackQuery();
+      try {
+        await ctx.editMessageText(
+          `Revoke everything for key ${key.label}? This ends its git sessions, always-allow rules, allow rules and temporary grants, and denies its open proxy requests. The key itself stays active (use /keys to revoke it).`,
+          {
+            reply_markup: new InlineKeyboard()
+              .text(
+                `Yes, revoke all for ${key.label}`,
+                `lg:keyconfirm:${key.id}`
+              )
+              .row()
+              .text("Cancel", "lg:page:0"),
+          }
+        );
+      } catch {
+        // ignore
+      }
+      return;
+    }
+
+    const res = await revokeAllForApiKey({
+      userId,
+      apiKeyId: key.id,
+      actor: { actorType: "telegram", actorId: String(ctx.from.id) },
+    });
+    await auditEvent({
+      userId,
+      actorType: "telegram",
+      actorId: String(ctx.from.id),
+      eventType: "api_key_grants_revoked",
+      event: {
+        apiKeyId: key.id,
+        git_sessions: res.gitSessions,
+        always_allow_rules: res.alwaysAllowRules,
+        policy_rules: res.policyRules,
+        approval_grants: res.approvalGrants,
+        request_ids: res.requestIds,
+      },
+    });
+
+    await ctx.answerCallbackQuery({ text: "Revoked" });
+    try {
+      const rendered = await renderLiveGrantsMessage(userId, 0);
+      await ctx.editMessageText(
+        `Revoked for ${key.label}: ${res.gitSessions} git sessions, ${res.alwaysAllowRules} always-allow rules, ${res.policyRules} allow rules, ${res.approvalGrants} grants, ${res.requestIds.length} requests.\n\n${rendered.text}`,
+        { reply_markup: rendered.keyboard }
+      );
+    } catch {
+      // ignore
+    }
+  });
+
+  bot.command("requests", async (ctx) => {
+    if (!ctx.from) return;
+    const userId = await ensureUser(ctx.from.id);
+
+    const rendered = await renderOpenRequestsMessage(userId, 0);
+    await ctx.reply(rendered.text, { reply_markup: rendered.keyboard });
+  });
+
+  bot.callbackQuery(/^rq:page:(\d+)$/, async (ctx) => {
+    if (!ctx.from) return;
+    const userId = await ensureUser(ctx.from.id);
+
+    await ctx.answerCallbackQuery();
+    try {
+      const rendered = await renderOpenRequestsMessage(
+        userId,
+        Number(ctx.match[1])
+      );
+      await ctx.editMessageText(rendered.text, {
+        reply_markup: rendered.keyboard,
+      });
+    } catch {
+      // ignore (message unchanged or not editable)
+    }
+  });
+
+  bot.callbackQuery(/^rq:deny:([^:]+):(\d+)$/, async (ctx) => {
+    if (!ctx.from) return;
+    const requestId = ctx.match[1] ?? "";
+    const userId = await ensureUser(ctx.from.id);
+
+    const denied = await denyOpenProxyRequests({
+      userId,
+      requestId,
+      actor: { actorType: "telegram", actorId: String(ctx.from.id) },
+      via: "requests_list",
+    });
+    if (denied.length === 0) {
+      await ctx.answerCallbackQuery({ text: "Request no longer open" });
+      return;
+    }
+
+    await ctx.answerCallbackQuery({ text: "denied" });
+    try {
+      const rendered = await renderOpenRequestsMessage(
+        userId,
+        Number(ctx.match[2])
+      );
+      await ctx.editMessageText(rendered.text, {
+        reply_markup: rendered.keyboard,
+      });
+    } catch {
+      // ignore
+    }
+  });
+
+  bot.callbackQuery(/^rq:denyall(confirm)?$/, async (ctx) => {
+    if (!ctx.from) return;
+    const userId = await ensureUser(ctx.from.id);
+
+    if (!ctx.match[1]) {
+      await ctx.answerCallbackQuery();
       try {
-        const rendered = renderKeysMessage(userId);
-        await ctx.editMessageText(rendered.text, {
-          reply_markup: rendered.keyboard,
+        await ctx.editMessageText(
+          "Deny every pending proxy request? Approved requests are kept.",
+          {
+            reply_markup: new InlineKeyboard()
+              .text("Yes, deny all pending", "rq:denyallconfirm")
+              .row()
+              .text("Cancel", "rq:page:0"),
+          }
+        );
+      } catch {
+        // ignore
+      }
+      return;
+    }
+
+    const requestIds = await denyOpenProxyRequests({
+      userId,
+      pendingOnly: true,
+      actor: { actorType: "telegram", actorId: String(ctx.from.id) },
+      via: "requests_list",
+    });
+    if (requestIds.length > 0) {
+      await auditEvent({
+        userId,
+        actorType: "telegram",
+        actorId: String(ctx.from.id),
+        eventType: "proxy_requests_bulk_denied",
+        event: { request_ids: requestIds },
+      });
+    }
+
+    await ctx.answerCallbackQuery({
+      text: `denied (${requestIds.length} requests)`,
+    });
+    try {
+      const rendered = await renderOpenRequestsMessage(userId, 0);
+      await ctx.editMessageText(rendered.text, {
+        reply_markup: rendered.keyboard,
+      });
+    } catch {
+      // ignore
+    }
+  });
+
+  bot.command("audit", async (ctx) => {
+    if (!ctx.from) return;
+    const userId = await ensureUser(ctx.from.id);
+
+    const raw = (ctx.match ?? "").toString().trim();
+    if (raw === "help") {
+      await ctx.reply(AUDIT_HELP);
+      return;
+    }
+
+    let filters: AuditFilterSpec;
+    try {
+      filters = await parseAuditFilterSpec(userId, raw);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      await ctx.reply(`${msg}\n\n${AUDIT_HELP}`);
+      return;
+    }
+
+    if (filters.exportFormat) {
+      const { entries, nextCursor } = await queryAuditEvents({
+        ...filters.query,
+        userId,
+        limit: AUDIT_EXPORT_MAX,
+      });
+      const body =
+        filters.exportFormat === "csv"
+          ? auditEntriesToCsv(entries)
+          : auditEntriesToJsonLines(entries);
+      await ctx.replyWithDocument(
+        new InputFile(Buffer.from(body), `audit.${filters.exportFormat}`),
+        {
+          caption: nextCursor
+            ? `Newest ${entries.length} events; use GET /v1/audit?cursor=${nextCursor} for older ones.`
+            : `${entries.length} events.`,
+        }
+      );
+      return;
+    }
+
+    const rendered = await renderAuditMessage(userId, filters);
+    await ctx.reply(rendered.text, { reply_markup: rendered.keyboard });
+  });
+
+  bot.callbackQuery(/^au:older:([0-9A-Z]{26})$/, async (ctx) => {
+    if (!ctx.from) return;
+    const userId = await ensureUser(ctx.from.id);
+
+    await ctx.answerCallbackQuery();
+    const msg = ctx.callbackQuery.message;
+    const header =
+      msg && "text" in msg ? (msg.text?.split("\n", 1)[0] ?? "") : "";
+    const spec = /^Audit log \(([^)]*)\)/.exec(header)?.[1] ?? "";
+    try {
+      const rendered = await renderAuditMessage(
+        userId,
+        await parseAuditFilterSpec(userId, spec),
+        ctx.match[1]
+      );
+      await ctx.editMessageText(rendered.text, {
+        reply_markup: rendered.keyboard,
+      });
+    } catch {
+      // ignore (message unchanged or not editable)
+    }
+  });
+
+  bot.command("rules", async (ctx) => {
+    if (!ctx.from) return;
+    const userId = await ensureUser(ctx.from.id);
+
+    const raw = (ctx.match ?? "").toString().trim();
+    if (!raw) {
+      const rendered = await renderPolicyRulesMessage(userId);
+      await ctx.reply(rendered.text, { reply_markup: rendered.keyboard });
+      return;
+    }
+
+    const [sub, ...rest] = raw.split(/\s+/);
+    if (sub !== "add") {
+      await ctx.reply(POLICY_RULES_HELP);
+      return;
+    }
+
+    try {
+      const { input, apiKeyLabel } = parsePolicyRuleSpec(rest.join(" "));
+
+      let apiKeyId: string | null = null;
+      if (apiKeyLabel) {
+        const key = (await db()
+          .query(
+            "SELECT id FROM api_keys WHERE user_id = ? AND label = ? AND revoked_at IS NULL LIMIT 1;"
+          )
+          .get(userId, apiKeyLabel)) as { id: string } | null;
+        if (!key) throw new Error(`unknown API key label: ${apiKeyLabel}`);
+        apiKeyId = key.id;
+      }
+
+      if (
+        input.providerId &&
+        !supportedProviders.includes(input.providerId as SupportedProvider)
+      ) {
+        throw new Error(`unknown provider: ${input.providerId}`);
+      }
+
+      const { ruleId } = await createPolicyRule({ ...input, apiKeyId, userId });
+
+      await auditEvent({
+        userId,
+        actorType: "telegram",
+        actorId: String(ctx.from.id),
+        eventType: "proxy_policy_rule_created",
+        event: { rule_id: ruleId, spec: rest.join(" ") },
+      });
+
+      const rendered = await renderPolicyRulesMessage(userId);
+      await ctx.reply(`Rule created.\n\n${rendered.text}`, {
+        reply_markup: rendered.keyboard,
+      });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      await ctx.reply(`Failed to create rule. ${msg}\n\n${POLICY_RULES_HELP}`);
+    }
+  });
+
+  bot.command("redact", async (ctx) => {
+    if (!ctx.from) return;
+    const userId = await ensureUser(ctx.from.id);
+
+    const raw = (ctx.match ?? "").toString().trim();
+    if (!raw) {
+      const rendered = await renderRedactionRulesMessage(userId);
+      await ctx.reply(rendered.text, { reply_markup: rendered.keyboard });
+      return;
+    }
+
+    const [sub] = raw.split(/\s+/, 1);
+    if (sub !== "add") {
+      await ctx.reply(REDACTION_RULES_HELP);
+      return;
+    }
+
+    const spec = raw.slice(sub.length).trim();
+    try {
+      const input = parseRedactionRuleSpec(spec);
+      if (
+        input.providerId &&
+        !supportedProviders.includes(input.providerId as SupportedProvider)
+      ) {
+        throw new Error(`unknown provider: ${input.providerId}`);
+      }
+
+      const { ruleId } = await createRedactionRule({ ...input, userId });
+
+      await auditEvent({
+        userId,
+        actorType: "telegram",
+        actorId: String(ctx.from.id),
+        eventType: "redaction_rule_created",
+        event: {
+          rule_id: ruleId,
+          kind: input.kind,
+          provider_id: input.providerId,
+        },
+      });
+
+      const rendered = await renderRedactionRulesMessage(userId);
+      await ctx.reply(`Rule created.\n\n${rendered.text}`, {
+        reply_markup: rendered.keyboard,
+      });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      await ctx.reply(
+        `Failed to create rule. ${msg}\n\n${REDACTION_RULES_HELP}`
+      );
+    }
+  });
+
+  bot.callbackQuery(/rr:revoke:(.+)/, async (ctx) => {
+    if (!ctx.from) return;
+    const ruleId = ctx.match?.[1];
+    const userId = await ensureUser(ctx.from.id);
+
+    const revoked = await revokeRedactionRule({ userId, ruleId });
+    if (!revoked) {
+      await ctx.answerCallbackQuery({ text: "Rule not found" });
+      return;
+    }
+
+    await auditEvent({
+      userId,
+      actorType: "telegram",
+      actorId: String(ctx.from.id),
+      eventType: "redaction_rule_revoked",
+      event: { rule_id: ruleId },
+    });
+
+    await ctx.answerCallbackQuery({ text: "Removed" });
+    try {
+      const rendered = await renderRedactionRulesMessage(userId);
+      await ctx.editMessageText(rendered.text, {
+        reply_markup: rendered.keyboard,
+      });
+    } catch {
+      // ignore
+    }
+  });
+
+  bot.callbackQuery(/pr:revoke:(.+)/, async (ctx) => {
+    if (!ctx.from) return;
+    const ruleId = ctx.match?.[1];
+    const userId = await ensureUser(ctx.from.id);
+
+    const revoked = await revokePolicyRule({ userId, ruleId });
+    if (!revoked) {
+      await ctx.answerCallbackQuery({ text: "Rule not found" });
+      return;
+    }
+
+    await auditEvent({
+      userId,
+      actorType: "telegram",
+      actorId: String(ctx.from.id),
+      eventType: "proxy_policy_rule_revoked",
+      event: { rule_id: ruleId },
+    });
+
+    await ctx.answerCallbackQuery({ text: "Revoked" });
+    try {
+      const rendered = await renderPolicyRulesMessage(userId);
+      await ctx.editMessageText(rendered.text, {
+        reply_markup: rendered.keyboard,
+      });
+    } catch {
+      // ignore
+    }
+  });
+
+  bot.callbackQuery(
+    /k:(rename|revoke|rotate|callback|scope|ttl):(.+)/,
+    async (ctx) => {
+      if (!ctx.from) return;
+      const action = ctx.match?.[1];
+      const apiKeyId = ctx.match?.[2];
+      const userId = await ensureUser(ctx.from.id);
+
+      const row = (await db()
+        .query(
+          "SELECT id, label, revoked_at, scopes_json, max_approval_ttl_seconds FROM api_keys WHERE id = ? AND user_id = ?;"
+        )
+        .get(apiKeyId, userId)) as {
+        id: string;
+        label: string;
+        revoked_at: string | null;
+        scopes_json: string | null;
+        max_approval_ttl_seconds: number | null;
+      } | null;
+
+      if (!row) {
+        await ctx.answerCallbackQuery({ text: "Key not found" });
+        return;
+      }
+
+      if (action === "revoke") {
+        if (row.revoked_at) {
+          await ctx.answerCallbackQuery({ text: "Already revoked" });
+          return;
+        }
+        await db()
+          .query(
+            "UPDATE api_keys SET revoked_at = ?, updated_at = ? WHERE id = ? AND user_id = ?;"
+          )
+          .run(nowIso(), nowIso(), row.id, userId);
+
+        await auditEvent({
+          userId,
+          actorType: "telegram",
+          actorId: String(ctx.from.id),
+          eventType: "api_key_revoked",
+          event: { apiKeyId: row.id },
+        });
+
+        await ctx.answerCallbackQuery({ text: "Revoked" });
+
+        // Update the keys message so button state reflects the revoke.
+        try {
+          const rendered = await renderKeysMessage(userId);
+          await ctx.editMessageText(rendered.text, {
+            reply_markup: rendered.keyboard,
+          });
+        } catch {
+          // ignore (message may not be editable)
+        }
+        return;
+      }
+
+      if (action === "rename") {
+        await setPendingInput({
+          userId,
+          action: "RENAME_KEY",
+          targetId: row.id,
+          ttlMs: 5 * 60_000,
+        });
+        await ctx.answerCallbackQuery({ text: "Send new label" });
+        await ctx.reply(`Send the new label for: ${row.label}`, {
+          reply_markup: { force_reply: true },
+        });
+
+        try {
+          const prev =
+            ctx.callbackQuery.message && "text" in ctx.callbackQuery.message
+              ? ctx.callbackQuery.message.text
+              : "API keys:";
+          await ctx.editMessageText(`${prev}\n\nStatus: awaiting new label...`);
+        } catch {
+          // ignore
+        }
+        return;
+      }
+
+      if (action === "callback") {
+        if (row.revoked_at) {
+          await ctx.answerCallbackQuery({ text: "Key is revoked" });
+          return;
+        }
+        await setPendingInput({
+          userId,
+          action: "SET_KEY_CALLBACK",
+          targetId: row.id,
+          ttlMs: 5 * 60_000,
+        });
+        await ctx.answerCallbackQuery({ text: "Send callback URL" });
+        await ctx.reply(
+          `Send the https callback URL for: ${row.label}\n\nIt receives a signed POST when a request made with this key is approved, denied or expires. Send "off" to remove it.`,
+          { reply_markup: { force_reply: true } }
+        );
+        return;
+      }
+
+      if (action === "scope") {
+        if (row.revoked_at) {
+          await ctx.answerCallbackQuery({ text: "Key is revoked" });
+          return;
+        }
+        await setPendingInput({
+          userId,
+          action: "SET_KEY_SCOPE",
+          targetId: row.id,
+          ttlMs: 5 * 60_000,
+        });
+        const current = formatApiKeyScope(
+          parseStoredApiKeyScope(row.scopes_json)
+        );
+        await ctx.answerCallbackQuery({ text: "Send scope" });
+        await ctx.reply(
+          `Send the scope for: ${row.label}\nCurrent: ${current}\n\n${API_KEY_SCOPE_HELP}\n\nSend "any" to remove all restrictions.`,
+          { reply_markup: { force_reply: true } }
+        );
+        return;
+      }
+
+      if (action === "ttl") {
+        if (row.revoked_at) {
+          await ctx.answerCallbackQuery({ text: "Key is revoked" });
+          return;
+        }
+        await setPendingInput({
+          userId,
+          action: "SET_KEY_MAX_TTL",
+          targetId: row.id,
+          ttlMs: 5 * 60_000,
         });
-      } catch {
-        // ignore (message may not be editable)
+        const current = row.max_approval_ttl_seconds
+          ? formatDurationSeconds(row.max_approval_ttl_seconds)
+          : "server default";
+        await ctx.answerCallbackQuery({ text: "Send max TTL" });
+        await ctx.reply(
+          `Send the longest approval window requests made with ${row.label} may ask for, e.g. 30m, 2h or 1d (server maximum: ${formatDurationSeconds(env.APPROVAL_TTL_MAX_SECONDS)}).\nCurrent: ${current}\n\nSend "off" to use the server maximum.`,
+          { reply_markup: { force_reply: true } }
+        );
+        return;
       }
-      return;
-    }
 
-    if (action === "rename") {
-      setPendingInput({
-        userId,
-        action: "RENAME_KEY",
-        targetId: row.id,
-        ttlMs: 5 * 60_000,
-      });
-      await ctx.answerCallbackQuery({ text: "Send new label" });
-      await ctx.reply(`Send the new label for: ${row.label}`, {
-        reply_markup: { force_reply: true },
-      });
+      if (action === "rotate") {
+        if (row.revoked_at) {
+          await ctx.answerCallbackQuery({
+            text: "Cannot rotate a revoked key",
+          });
+          return;
+        }
 
-      try {
-        const prev =
-          ctx.callbackQuery.message && "text" in ctx.callbackQuery.message
-            ? ctx.callbackQuery.message.text
-            : "API keys:";
-        await ctx.editMessageText(`${prev}\n\nStatus: awaiting new label...`);
-      } catch {
-        // ignore
+        await ctx.answerCallbackQuery({ text: "Rotating..." });
+
+        try {
+          const now = nowIso();
+          const oldLabel = row.label;
+
+          // Free the label under the current unique(user_id, label) constraint by renaming the old key.
+          // This keeps the user-facing "label" stable for the new key while preserving history.
+          const freedLabel = rotatedLabel(oldLabel, row.id);
+
+          await db().transaction(async () => {
+            await db()
+              .query(
+                "UPDATE api_keys SET revoked_at = ?, updated_at = ?, label = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL;"
+              )
+              .run(now, now, freedLabel, row.id, userId);
+          });
+
+          // The new key keeps the old key's scope and approval TTL limit.
+          const created = await createApiKeyRow({
+            userId,
+            label: oldLabel,
+            scope: parseStoredApiKeyScope(row.scopes_json),
+            maxApprovalTtlSeconds: row.max_approval_ttl_seconds,
+          });
+
+          await auditEvent({
+            userId,
+            actorType: "telegram",
+            actorId: String(ctx.from.id),
+            eventType: "api_key_rotated",
+            event: {
+              oldApiKeyId: row.id,
+              newApiKeyId: created.id,
+              label: oldLabel,
+            },
+          });
+
+          await ctx.reply(
+            renderOneTimeKeyMessage({
+              label: oldLabel,
+              apiKey: created.keyPlain,
+              scope: parseStoredApiKeyScope(row.scopes_json),
+            }),
+            {
+              parse_mode: "HTML",
+            }
+          );
+
+          // Update the keys message so button state reflects the rotation.
+          try {
+            const rendered = await renderKeysMessage(userId);
+            await ctx.editMessageText(rendered.text, {
+              reply_markup: rendered.keyboard,
+            });
+          } catch {
+            // ignore
+          }
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          await ctx.reply(`Failed to rotate key. ${msg}`);
+        }
       }
-      return;
     }
+  );
+
+  bot.callbackQuery(
+    /r:(approve|deny|always_allow|grant_\w+):(.+)/,
+    async (ctx) => {
+      if (!ctx.from) return;
+      const action = ctx.match?.[1];
+      const requestId = ctx.match?.[2];
+      const userId = await ensureUser(ctx.from.id);
 
-    if (action === "rotate") {
-      if (row.revoked_at) {
-        await ctx.answerCallbackQuery({ text: "Cannot rotate a revoked key" });
+      const msg = ctx.callbackQuery.message;
+      if (!msg || !("message_id" in msg)) {
+        await ctx.answerCallbackQuery({ text: "Missing message" });
         return;
       }
 
-      await ctx.answerCallbackQuery({ text: "Rotating..." });
+      let alwaysAllowEnabled = false;
+      let grantNote: string | null = null;
 
-      try {
-        const now = nowIso();
-        const oldLabel = row.label;
+      if (action?.startsWith("grant_")) {
+        const presetId = action.slice("grant_".length);
+        if (!isApprovalGrantPresetId(presetId)) {
+          await ctx.answerCallbackQuery({ text: "unknown grant option" });
+          return;
+        }
+        const preset: { label: string; ttlMs?: number; maxUses?: number } =
+          APPROVAL_GRANT_PRESETS[presetId];
 
-        // Free the label under the current unique(user_id, label) constraint by renaming the old key.
-        // This keeps the user-facing "label" stable for the new key while preserving history.
-        const freedLabel = rotatedLabel(oldLabel, row.id);
+        const row = (await db()
+          .query(
+            "SELECT upstream_url, method, api_key_id, requester_ip FROM proxy_requests WHERE id = ? AND user_id = ? AND status = 'PENDING_APPROVAL' LIMIT 1;"
+          )
+          .get(requestId, userId)) as {
+          upstream_url: string;
+          method: string;
+          api_key_id: string;
+          requester_ip: string | null;
+        } | null;
+
+        if (!row) {
+          await ctx.answerCallbackQuery({ text: "Request not pending" });
+          return;
+        }
 
-        db().transaction(() => {
-          db()
-            .query(
-              "UPDATE api_keys SET revoked_at = ?, updated_at = ?, label = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL;"
-            )
-            .run(now, now, freedLabel, row.id, userId);
-        })();
+        if (!row.requester_ip) {
+          await ctx.answerCallbackQuery({
+            text: "missing requester IP (cannot scope grant)",
+          });
+          return;
+        }
 
-        const created = await createApiKeyRow({ userId, label: oldLabel });
+        const grant = await createApprovalGrant({
+          userId,
+          apiKeyId: row.api_key_id,
+          requesterIp: row.requester_ip,
+          method: row.method,
+          url: new URL(row.upstream_url),
+          sourceRequestId: requestId,
+          ttlMs: preset.ttlMs,
+          maxUses: preset.maxUses,
+        });
 
-        auditEvent({
+        await auditEvent({
           userId,
+          requestId,
           actorType: "telegram",
           actorId: String(ctx.from.id),
-          eventType: "api_key_rotated",
+          eventType: "proxy_approval_grant_created",
           event: {
-            oldApiKeyId: row.id,
-            newApiKeyId: created.id,
-            label: oldLabel,
+            grant_id: grant.grantId,
+            api_key_id: row.api_key_id,
+            requester_ip: row.requester_ip,
+            method: row.method,
+            upstream_url: row.upstream_url,
+            expires_at: grant.expiresAt,
+            max_uses: grant.maxUses,
           },
         });
 
-        await ctx.reply(
-          renderOneTimeKeyMessage({
-            label: oldLabel,
-            apiKey: created.keyPlain,
-          }),
-          {
-            parse_mode: "HTML",
-          }
-        );
+        grantNote = `Allowed ${preset.label} for this endpoint${grant.expiresAt ? ` (until <code>${escapeHtml(grant.expiresAt)}</code>)` : ""}`;
+      }
 
-        // Update the keys message so button state reflects the rotation.
-        try {
-          const rendered = renderKeysMessage(userId);
-          await ctx.editMessageText(rendered.text, {
-            reply_markup: rendered.keyboard,
+      if (action === "always_allow") {
+        const row = (await db()
+          .query(
+            "SELECT upstream_url, method, api_key_id, requester_ip FROM proxy_requests WHERE id = ? AND user_id = ? LIMIT 1;"
+          )
+          .get(requestId, userId)) as {
+          upstream_url: string;
+          method: string;
+          api_key_id: string;
+          requester_ip: string | null;
+        } | null;
+
+        if (!row) {
+          await ctx.answerCallbackQuery({ text: "Request not found" });
+          return;
+        }
+
+        if (!row.requester_ip) {
+          await ctx.answerCallbackQuery({
+            text: "missing requester IP (cannot scope always-allow)",
           });
-        } catch {
-          // ignore
+          return;
         }
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        await ctx.reply(`Failed to rotate key. ${msg}`);
-      }
-    }
-  });
 
-  bot.callbackQuery(/r:(approve|deny|always_allow):(.+)/, async (ctx) => {
-    if (!ctx.from) return;
-    const action = ctx.match?.[1];
-    const requestId = ctx.match?.[2];
-    const userId = ensureUser(ctx.from.id);
+        const { ruleId } = await upsertAlwaysAllowRule({
+          userId,
+          apiKeyId: row.api_key_id,
+          requesterIp: row.requester_ip,
+          method: row.method,
+          url: new URL(row.upstream_url),
+        });
 
-    const msg = ctx.callbackQuery.message;
-    if (!msg || !("message_id" in msg)) {
-      await ctx.answerCallbackQuery({ text: "Missing message" });
-      return;
-    }
+        await auditEvent({
+          userId,
+          requestId,
+          actorType: "telegram",
+          actorId: String(ctx.from.id),
+          eventType: "proxy_always_allow_created",
+          event: {
+            rule_id: ruleId,
+            api_key_id: row.api_key_id,
+            requester_ip: row.requester_ip,
+            method: row.method,
+            upstream_url: row.upstream_url,
+          },
+        });
 
-    let alwaysAllowEnabled = false;
+        alwaysAllowEnabled = true;
+      }
 
-    if (action === "always_allow") {
-      const row = db()
-        .query(
-          "SELECT upstream_url, method, api_key_id, requester_ip FROM proxy_requests WHERE id = ? AND user_id = ? LIMIT 1;"
-        )
-        .get(requestId, userId) as {
-        upstream_url: string;
-        method: string;
-        api_key_id: string;
-        requester_ip: string | null;
-      } | null;
+      const decision = action === "deny" ? "denied" : "approved";
+      const telegramChatId = "chat" in msg ? msg.chat.id : ctx.from.id;
+      const res = await decideProxyRequest({
+        requestId,
+        userId,
+        decision,
+        telegramUserId: ctx.from.id,
+        telegramChatId,
+        telegramMessageId: msg.message_id,
+      });
 
-      if (!row) {
-        await ctx.answerCallbackQuery({ text: "Request not found" });
+      if (!res.ok) {
+        await ctx.answerCallbackQuery({ text: res.reason });
+
+        // Best-effort message update for common cases.
+        if (res.reason === "expired") {
+          try {
+            if ("text" in msg && typeof msg.text === "string") {
+              await ctx.editMessageText(renderExpiredDecisionText(msg.text), {
+                parse_mode: "HTML",
+              });
+            }
+            await ctx.editMessageReplyMarkup({
+              reply_markup: new InlineKeyboard(),
+            });
+          } catch {
+            // ignore
+          }
+        }
         return;
       }
 
-      if (!row.requester_ip) {
-        await ctx.answerCallbackQuery({
-          text: "missing requester IP (cannot scope always-allow)",
+      await ctx.answerCallbackQuery({
+        text: alwaysAllowEnabled
+          ? "approved (always allow)"
+          : grantNote
+            ? "approved (temporary grant)"
+            : decision,
+      });
+
+      // Update the approval message to reflect the decision and remove buttons.
+      try {
+        if ("text" in msg && typeof msg.text === "string") {
+          const base = renderApprovalDecisionText({
+            originalText: msg.text,
+            decision,
+          });
+          const note = alwaysAllowEnabled
+            ? `\n\nAlways allow: ENABLED for this endpoint (<code>${escapeHtml(nowIso())}</code>)`
+            : grantNote
+              ? `\n\nGrant: ${grantNote}`
+              : "";
+          await ctx.editMessageText(`${base}${note}`, { parse_mode: "HTML" });
+        }
+        await ctx.editMessageReplyMarkup({
+          reply_markup: new InlineKeyboard(),
         });
-        return;
+      } catch {
+        // ignore
       }
+    }
+  );
 
-      const { ruleId } = upsertAlwaysAllowRule({
-        userId,
-        apiKeyId: row.api_key_id,
-        requesterIp: row.requester_ip,
-        method: row.method,
-        url: new URL(row.upstream_url),
-      });
-
-      auditEvent({
-        userId,
-        requestId,
-        actorType: "telegram",
-        actorId: String(ctx.from.id),
-        eventType: "proxy_always_allow_created",
-        event: {
-          rule_id: ruleId,
-          api_key_id: row.api_key_id,
-          requester_ip: row.requester_ip,
-          method: row.method,
-          upstream_url: row.upstream_url,
-        },
-      });
+  bot.callbackQuery(/b:(approve|deny):(.+)/, async (ctx) => {
+    if (!ctx.from) return;
+    const action = ctx.match?.[1];
+    const batchId = ctx.match?.[2];
+    const userId = await ensureUser(ctx.from.id);
 
-      alwaysAllowEnabled = true;
+    const msg = ctx.callbackQuery.message;
+    if (!msg || !("message_id" in msg)) {
+      await ctx.answerCallbackQuery({ text: "Missing message" });
+      return;
     }
 
     const decision = action === "deny" ? "denied" : "approved";
     const telegramChatId = "chat" in msg ? msg.chat.id : ctx.from.id;
-    const res = decideProxyRequest({
-      requestId,
+    const res = await decideProxyBatch({
+      batchId,
       userId,
       decision,
       telegramUserId: ctx.from.id,
@@ -807,8 +2122,6 @@ export function createBot(): Bot {
 
     if (!res.ok) {
       await ctx.answerCallbackQuery({ text: res.reason });
-
-      // Best-effort message update for common cases.
       if (res.reason === "expired") {
         try {
           if ("text" in msg && typeof msg.text === "string") {
@@ -826,53 +2139,47 @@ export function createBot(): Bot {
       return;
     }
 
-    auditEvent({
+    await auditEvent({
       userId,
-      requestId,
       actorType: "telegram",
       actorId: String(ctx.from.id),
       eventType:
-        decision === "approved"
-          ? "proxy_request_approved"
-          : "proxy_request_denied",
-      event: {},
+        decision === "approved" ? "proxy_batch_approved" : "proxy_batch_denied",
+      event: { batch_id: batchId, request_ids: res.requestIds },
     });
 
     await ctx.answerCallbackQuery({
-      text: alwaysAllowEnabled ? "approved (always allow)" : decision,
+      text: `${decision} (${res.requestIds.length} requests)`,
     });
 
-    // Update the approval message to reflect the decision and remove buttons.
     try {
       if ("text" in msg && typeof msg.text === "string") {
-        const base = renderApprovalDecisionText({
-          originalText: msg.text,
-          decision,
-        });
-        const note = alwaysAllowEnabled
-          ? `\n\nAlways allow: ENABLED for this endpoint (<code>${escapeHtml(nowIso())}</code>)`
-          : "";
-        await ctx.editMessageText(`${base}${note}`, { parse_mode: "HTML" });
+        await ctx.editMessageText(
+          renderApprovalDecisionText({ originalText: msg.text, decision }),
+          { parse_mode: "HTML" }
+        );
       }
-      await ctx.editMessageReplyMarkup({ reply_markup: new InlineKeyboard() });
+      await ctx.editMessageReplyMarkup({
+        reply_markup: new InlineKeyboard(),
+      });
     } catch {
       // ignore
     }
   });
 
   bot.callbackQuery(
-    /gs:(approve_clone|approve_push_block|approve_push_allow|deny):(.+)/,
+    /gs:(approve_clone|approve_push_block|approve_push_allow|approve_push_review|deny):(.+)/,
     async (ctx) => {
       if (!ctx.from) return;
       const action = ctx.match?.[1];
       const sessionId = ctx.match?.[2];
-      const userId = ensureUser(ctx.from.id);
+      const userId = await ensureUser(ctx.from.id);
 
-      const sess = db()
+      const sess = (await db()
         .query(
           "SELECT operation FROM git_sessions WHERE id = ? AND user_id = ? LIMIT 1;"
         )
-        .get(sessionId, userId) as { operation: string } | null;
+        .get(sessionId, userId)) as { operation: string } | null;
       const operation = sess?.operation ?? "clone";
 
       const msg = ctx.callbackQuery.message;
@@ -883,8 +2190,19 @@ export function createBot(): Bot {
 
       try {
         if (action === "deny") {
-          setGitSessionStatus({ sessionId, userId, status: "DENIED" });
-          auditEvent({
+          if (
+            !(await setGitSessionStatus({
+              sessionId,
+              userId,
+              status: "DENIED",
+            }))
+          ) {
+            await ctx.answerCallbackQuery({
+              text: "Already decided or expired",
+            });
+            return;
+          }
+          await auditEvent({
             userId,
             actorType: "telegram",
             actorId: String(ctx.from.id),
@@ -893,8 +2211,19 @@ export function createBot(): Bot {
           });
           await ctx.answerCallbackQuery({ text: "denied" });
         } else if (action === "approve_clone") {
-          setGitSessionStatus({ sessionId, userId, status: "APPROVED" });
-          auditEvent({
+          if (
+            !(await setGitSessionStatus({
+              sessionId,
+              userId,
+              status: "APPROVED",
+            }))
+          ) {
+            await ctx.answerCallbackQuery({
+              text: "Already decided or expired",
+            });
+            return;
+          }
+          await auditEvent({
             userId,
             actorType: "telegram",
             actorId: String(ctx.from.id),
@@ -903,13 +2232,20 @@ export function createBot(): Bot {
           });
           await ctx.answerCallbackQuery({ text: "approved" });
         } else if (action === "approve_push_block") {
-          setGitSessionStatus({
-            sessionId,
-            userId,
-            status: "APPROVED",
-            allowDefaultBranchPush: false,
-          });
-          auditEvent({
+          if (
+            !(await setGitSessionStatus({
+              sessionId,
+              userId,
+              status: "APPROVED",
+              allowDefaultBranchPush: false,
+            }))
+          ) {
+            await ctx.answerCallbackQuery({
+              text: "Already decided or expired",
+            });
+            return;
+          }
+          await auditEvent({
             userId,
             actorType: "telegram",
             actorId: String(ctx.from.id),
@@ -922,13 +2258,20 @@ export function createBot(): Bot {
           });
           await ctx.answerCallbackQuery({ text: "approved" });
         } else if (action === "approve_push_allow") {
-          setGitSessionStatus({
-            sessionId,
-            userId,
-            status: "APPROVED",
-            allowDefaultBranchPush: true,
-          });
-          auditEvent({
+          if (
+            !(await setGitSessionStatus({
+              sessionId,
+              userId,
+              status: "APPROVED",
+              allowDefaultBranchPush: true,
+            }))
+          ) {
+            await ctx.answerCallbackQuery({
+              text: "Already decided or expired",
+            });
+            return;
+          }
+          await auditEvent({
             userId,
             actorType: "telegram",
             actorId: String(ctx.from.id),
@@ -940,6 +2283,34 @@ export function createBot(): Bot {
             },
           });
           await ctx.answerCallbackQuery({ text: "approved" });
+        } else if (action === "approve_push_review") {
+          if (
+            !(await setGitSessionStatus({
+              sessionId,
+              userId,
+              status: "APPROVED",
+              allowDefaultBranchPush: false,
+              reviewPush: true,
+            }))
+          ) {
+            await ctx.answerCallbackQuery({
+              text: "Already decided or expired",
+            });
+            return;
+          }
+          await auditEvent({
+            userId,
+            actorType: "telegram",
+            actorId: String(ctx.from.id),
+            eventType: "git_session_approved",
+            event: {
+              sessionId,
+              operation,
+              allowDefaultBranchPush: false,
+              reviewPush: true,
+            },
+          });
+          await ctx.answerCallbackQuery({ text: "approved (review push)" });
         }
 
         try {
@@ -963,15 +2334,60 @@ export function createBot(): Bot {
     }
   );
 
+  // Held pushes (review_push sessions): forward upstream or reject.
+  bot.callbackQuery(/gp:(forward|reject):(.+)/, async (ctx) => {
+    if (!ctx.from) return;
+    const action = ctx.match?.[1];
+    const reviewId = ctx.match?.[2] ?? "";
+    const userId = await ensureUser(ctx.from.id);
+
+    const status = action === "forward" ? "FORWARDED" : "REJECTED";
+    const decided = await decidePushReview({ reviewId, userId, status });
+    const review = await getPushReview({ reviewId, userId });
+    if (!decided) {
+      await ctx.answerCallbackQuery({
+        text: review ? `already ${review.status.toLowerCase()}` : "not found",
+      });
+    } else {
+      await auditEvent({
+        userId,
+        actorType: "telegram",
+        actorId: String(ctx.from.id),
+        eventType:
+          status === "FORWARDED"
+            ? "git_push_review_forwarded"
+            : "git_push_review_rejected",
+        event: { reviewId, sessionId: review?.session_id },
+      });
+      await ctx.answerCallbackQuery({ text: status.toLowerCase() });
+    }
+
+    const msg = ctx.callbackQuery.message;
+    try {
+      if (msg && "text" in msg && typeof msg.text === "string") {
+        const decision = review?.status ?? status;
+        await ctx.editMessageText(
+          `${escapeHtml(msg.text)}\n\n<b>Decision</b>: <code>${escapeHtml(decision)}</code> (<code>${escapeHtml(nowIso())}</code>)`,
+          { parse_mode: "HTML" }
+        );
+      }
+      await ctx.editMessageReplyMarkup({
+        reply_markup: new InlineKeyboard(),
+      });
+    } catch {
+      // ignore
+    }
+  });
+
   bot.on("message:text", async (ctx) => {
     if (!ctx.from) return;
-    const userId = ensureUser(ctx.from.id);
-    const pending = getPendingInput(userId);
+    const userId = await ensureUser(ctx.from.id);
+    const pending = await getPendingInput(userId);
     if (!pending) return;
 
     const expiresAt = Date.parse(pending.expires_at);
     if (!Number.isFinite(expiresAt) || Date.now() > expiresAt) {
-      clearPendingInput(userId);
+      await clearPendingInput(userId);
       await ctx.reply("That action expired. Please try again.");
       return;
     }
@@ -982,18 +2398,152 @@ export function createBot(): Bot {
       return;
     }
 
+    if (pending.action === "SET_ACCOUNT_LABEL") {
+      const label = text.toLowerCase() === "off" ? null : normalizeLabel(text);
+      const res = await setLinkedAccountLabel({
+        accountId: pending.target_id ?? "",
+        userId,
+        label: label ? label.slice(0, 64) : null,
+      });
+      if (!res.ok) {
+        await ctx.reply(
+          res.error === "label_taken"
+            ? "Another account for this provider already uses that label. Send a different one."
+            : "Account not found."
+        );
+        if (res.error === "not_found") await clearPendingInput(userId);
+        return;
+      }
+      await clearPendingInput(userId);
+      await auditEvent({
+        userId,
+        actorType: "telegram",
+        actorId: String(ctx.from.id),
+        eventType: "linked_account_labeled",
+        event: { account_id: pending.target_id ?? "", label },
+      });
+      await ctx.reply(label ? `Account label set: ${label}` : "Label removed.");
+      return;
+    }
+
+    if (pending.action === "SET_KEY_SCOPE") {
+      let scope: ApiKeyScope | null;
+      try {
+        scope =
+          text.toLowerCase() === "any" ? null : parseApiKeyScopeSpec(text);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        await ctx.reply(`Invalid scope. ${msg}\n\n${API_KEY_SCOPE_HELP}`);
+        return;
+      }
+
+      const res = await db()
+        .query(
+          "UPDATE api_keys SET scopes_json = ?, updated_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL;"
+        )
+        .run(
+          scope ? JSON.stringify(scope) : null,
+          nowIso(),
+          pending.target_id,
+          userId
+        );
+      await clearPendingInput(userId);
+      if (res.changes === 0) {
+        await ctx.reply("Key not found or revoked.");
+        return;
+      }
+      await auditEvent({
+        userId,
+        actorType: "telegram",
+        actorId: String(ctx.from.id),
+        eventType: "api_key_scope_updated",
+        event: {
+          apiKeyId: pending.target_id ?? "",
+          scope: formatApiKeyScope(scope),
+        },
+      });
+      await ctx.reply(`Scope updated: ${formatApiKeyScope(scope)}`);
+      return;
+    }
+
+    if (pending.action === "SET_KEY_MAX_TTL") {
+      let seconds: number | null = null;
+      if (text.toLowerCase() !== "off") {
+        seconds = parseDurationSeconds(text);
+        if (
+          seconds == null ||
+          seconds < MIN_APPROVAL_TTL_SECONDS ||
+          seconds > env.APPROVAL_TTL_MAX_SECONDS
+        ) {
+          await ctx.reply(
+            `Invalid TTL. Use e.g. 30m, 2h or 1d, between ${formatDurationSeconds(MIN_APPROVAL_TTL_SECONDS)} and ${formatDurationSeconds(env.APPROVAL_TTL_MAX_SECONDS)}.`
+          );
+          return;
+        }
+      }
+
+      const res = await db()
+        .query(
+          "UPDATE api_keys SET max_approval_ttl_seconds = ?, updated_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL;"
+        )
+        .run(seconds, nowIso(), pending.target_id, userId);
+      await clearPendingInput(userId);
+      if (res.changes === 0) {
+        await ctx.reply("Key not found or revoked.");
+        return;
+      }
+      await auditEvent({
+        userId,
+        actorType: "telegram",
+        actorId: String(ctx.from.id),
+        eventType: "api_key_max_ttl_updated",
+        event: {
+          apiKeyId: pending.target_id ?? "",
+          maxApprovalTtlSeconds: seconds,
+        },
+      });
+      await ctx.reply(
+        seconds
+          ? `Max approval TTL set: ${formatDurationSeconds(seconds)}`
+          : "Max approval TTL removed (server maximum applies)."
+      );
+      return;
+    }
+
+    if (pending.action === "SET_KEY_CALLBACK") {
+      try {
+        await handleKeyCallbackInput({
+          ctx,
+          userId,
+          apiKeyId: pending.target_id ?? "",
+          text,
+        });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        await ctx.reply(`Failed: ${msg}`);
+      }
+      return;
+    }
+
     const label = normalizeLabel(text);
 
     try {
       if (pending.action === "CREATE_KEY") {
+        const input = parseKeyCreationInput(text);
+        if (!input.label) throw new Error("missing label");
         const created = await createApiKey({
           userId,
-          label,
+          label: input.label,
+          scope: input.scope,
           telegramUserId: ctx.from.id,
         });
-        clearPendingInput(userId);
+        await clearPendingInput(userId);
         await ctx.reply(
-          renderOneTimeKeyMessage({ label, apiKey: created.keyPlain }),
+          renderOneTimeKeyMessage({
+            label: input.label,
+            apiKey: created.keyPlain,
+            scope: input.scope,
+          }),
           {
             parse_mode: "HTML",
           }
@@ -1002,18 +2552,18 @@ export function createBot(): Bot {
       }
 
       if (pending.action === "RENAME_KEY") {
-        db()
+        await db()
           .query(
             "UPDATE api_keys SET label = ?, updated_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL;"
           )
           .run(label, nowIso(), pending.target_id, userId);
-        clearPendingInput(userId);
-        auditEvent({
+        await clearPendingInput(userId);
+        await auditEvent({
           userId,
           actorType: "telegram",
           actorId: String(ctx.from.id),
           eventType: "api_key_renamed",
-          event: { apiKeyId: pending.target_id, newLabel: label },
+          event: { apiKeyId: pending.target_id ?? "", newLabel: label },
         });
         await ctx.reply(`Renamed key to: ${label}`);
         return;
@@ -11,9 +11,9 @@ export async function startTelegramPoller(bot: Bot): Promise<void> {
   await bot.api.deleteWebhook({ drop_pending_updates: false });
 
   let lastUpdateId = (
-    db()
+    (await db()
       .query("SELECT last_update_id FROM telegram_state WHERE id = 1;")
-      .get() as { last_update_id: number } | null
+      .get()) as { last_update_id: number } | null
   )?.last_update_id;
 
   if (typeof lastUpdateId !== "number") lastUpdateId = 0;
@@ -28,7 +28,7 @@ export async function startTelegramPoller(bot: Bot): Promise<void> {
     for (const u of updates) {
       await bot.handleUpdate(u);
       lastUpdateId = u.update_id;
-      db()
+      await db()
         .query("UPDATE telegram_state SET last_update_id = ? WHERE id = 1;")
         .run(lastUpdateId);
     }
@@ -1,10 +1,18 @@
 import { Hono } from "hono";
-import { ulid } from "ulid";
 
+import { describeLinkedAccountHealth } from "../accounts/health";
+import {
+  listActiveLinkedAccounts,
+  listLinkedAccountsNeedingReauth,
+  setLinkedAccountLabel,
+  UNKNOWN_PROVIDER_USER_ID,
+  upsertLinkedAccount,
+} from "../accounts/linked";
 import { auditEvent } from "../audit/audit";
 import { requireApiKey } from "../auth/apiKey";
 import { getConnectState, markConnectStateUsed } from "../connect/state";
 import { decryptUtf8, encryptUtf8 } from "../crypto/aesgcm";
+import { hmacSha256Hex } from "../crypto/hmac";
 import { sha256Hex } from "../crypto/sha256";
 import { db } from "../db/client";
 import { env } from "../env";
@@ -12,11 +20,14 @@ import { exchangeAuthorizationCode } from "../oauth/flow";
 import type { OAuthProviderConfig } from "../oauth/provider";
 import { getProvider } from "../oauth/registry";
 import { getOauthState, markOauthStateUsed } from "../oauth/state";
+import {
+  fetchGitHubInstallation,
+  type GitHubAppCredential,
+} from "../providers/github/app";
 import { discoverIcloudCaldavBounds } from "../providers/icloud/discovery";
-
-function nowIso(): string {
-  return new Date().toISOString();
-}
+import type { ProxyProvider } from "../proxy/provider";
+import { listProxyProviders } from "../proxy/providerRegistry";
+import { telegramApi } from "../telegram/api";
 
 export const accountRouter = new Hono();
 
@@ -58,16 +69,102 @@ function renderIcloudConnectForm(params: { state: string }): string {
       <input name="username" type="email" autocomplete="username" required />
       <label>App-specific password</label>
       <input name="app_password" type="password" autocomplete="current-password" required />
+      <label>Account label (optional)</label>
+      <input name="label" type="text" placeholder="e.g. personal" />
+      <p class="note">Used to pick this account when several iCloud accounts are connected.</p>
+      <button type="submit">Connect</button>
+    </form>
+  </body>
+</html>`;
+}
+
+function renderGitHubAppConnectForm(params: { state: string }): string {
+  const state = escapeHtml(params.state);
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Connect GitHub App installation</title>
+    <style>
+      body { font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, sans-serif; padding: 24px; max-width: 720px; margin: 0 auto; }
+      h1 { font-size: 20px; margin: 0 0 12px; }
+      p { color: #333; line-height: 1.4; }
+      label { display: block; margin: 12px 0 6px; font-weight: 600; }
+      input, textarea { width: 100%; padding: 10px; font-size: 14px; box-sizing: border-box; }
+      textarea { font-family: ui-monospace, monospace; font-size: 12px; }
+      button { margin-top: 16px; padding: 10px 14px; font-size: 14px; }
+      .note { font-size: 13px; color: #444; }
+      code { background: #f3f3f3; padding: 2px 4px; }
+    </style>
+  </head>
+  <body>
+    <h1>Connect GitHub App installation</h1>
+    <p>This will store the app's private key encrypted at rest. Each approved request gets a short-lived installation token limited to the repository and permissions it needs.</p>
+    <p class="note">The installation id is the number in <code>github.com/settings/installations/&lt;id&gt;</code> (or the organization's equivalent). Generate a private key on the app's settings page.</p>
+    <form method="post" action="/v1/accounts/connect/github-app">
+      <input type="hidden" name="state" value="${state}" />
+      <label>App ID</label>
+      <input name="app_id" type="text" inputmode="numeric" required />
+      <label>Installation ID</label>
+      <input name="installation_id" type="text" inputmode="numeric" required />
+      <label>Private key (PEM)</label>
+      <textarea name="private_key" rows="10" autocomplete="off" required></textarea>
+      <label>Account label (optional)</label>
+      <input name="label" type="text" placeholder="e.g. org-bot" />
+      <p class="note">Used to pick this account when several GitHub accounts are connected.</p>
       <button type="submit">Connect</button>
     </form>
   </body>
 </html>`;
 }
 
-function renderIcloudConnectResult(params: {
-  ok: boolean;
-  message: string;
+function renderStaticCredentialConnectForm(params: {
+  state: string;
+  providerId: string;
+  credentialLabel: string;
+  help?: string;
 }): string {
+  const state = escapeHtml(params.state);
+  const providerId = escapeHtml(params.providerId);
+  const credentialLabel = escapeHtml(params.credentialLabel);
+  const help = params.help
+    ? `<p class="note">${escapeHtml(params.help)}</p>`
+    : "";
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Connect ${providerId}</title>
+    <style>
+      body { font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, sans-serif; padding: 24px; max-width: 720px; margin: 0 auto; }
+      h1 { font-size: 20px; margin: 0 0 12px; }
+      p { color: #333; line-height: 1.4; }
+      label { display: block; margin: 12px 0 6px; font-weight: 600; }
+      input { width: 100%; padding: 10px; font-size: 14px; }
+      button { margin-top: 16px; padding: 10px 14px; font-size: 14px; }
+      .note { font-size: 13px; color: #444; }
+    </style>
+  </head>
+  <body>
+    <h1>Connect ${providerId}</h1>
+    <p>This will store your ${credentialLabel} encrypted at rest and use it only after Telegram approvals.</p>
+    ${help}
+    <form method="post" action="/v1/accounts/connect/${providerId}">
+      <input type="hidden" name="state" value="${state}" />
+      <label>${credentialLabel}</label>
+      <input name="credential" type="password" autocomplete="off" required />
+      <label>Account label (optional)</label>
+      <input name="label" type="text" placeholder="e.g. staging" />
+      <p class="note">Used to pick this account when several ${providerId} accounts are connected. Connecting with the label of an existing account replaces its ${credentialLabel}.</p>
+      <button type="submit">Connect</button>
+    </form>
+  </body>
+</html>`;
+}
+
+function renderConnectResult(params: { ok: boolean; message: string }): string {
   const msg = escapeHtml(params.message);
   const title = params.ok ? "Connected" : "Connection failed";
   return `<!doctype html>
@@ -92,18 +189,35 @@ function renderIcloudConnectResult(params: {
 
 accountRouter.get("/", requireApiKey, async (c) => {
   const auth = c.get("apiKeyAuth");
-  const rows = db()
-    .query(
-      "SELECT provider, provider_user_id, scopes, status, created_at, revoked_at FROM linked_accounts WHERE user_id = ? ORDER BY created_at DESC;"
-    )
-    .all(auth.userId) as {
-    provider: string;
-    provider_user_id: string;
-    scopes: string;
-    status: string;
-    created_at: string;
-    revoked_at: string | null;
-  }[];
+  const rows = (
+    (await db()
+      .query(
+        "SELECT id, provider, provider_user_id, label, scopes, status, created_at, revoked_at, health_checked_at, health_error FROM linked_accounts WHERE user_id = ? ORDER BY created_at DESC;"
+      )
+      .all(auth.userId)) as {
+      id: string;
+      provider: string;
+      provider_user_id: string;
+      label: string | null;
+      scopes: string;
+      status: string;
+      created_at: string;
+      revoked_at: string | null;
+      health_checked_at: string | null;
+      health_error: string | null;
+    }[]
+  ).map(({ health_checked_at, health_error, ...r }) => ({
+    ...r,
+    // Revoked accounts are no longer checked.
+    health:
+      r.status === "revoked"
+        ? null
+        : describeLinkedAccountHealth({
+            status: r.status,
+            health_checked_at,
+            health_error,
+          }),
+  }));
 
   const accounts: Array<
     (typeof rows)[number] & {
@@ -128,11 +242,11 @@ accountRouter.get("/", requireApiKey, async (c) => {
         continue;
       }
 
-      const row = db()
+      const row = (await db()
         .query(
-          "SELECT refresh_token_ciphertext FROM linked_accounts WHERE user_id = ? AND provider = 'icloud' AND provider_user_id = ? AND status = 'active' LIMIT 1;"
+          "SELECT refresh_token_ciphertext FROM linked_accounts WHERE id = ? AND user_id = ? AND status = 'active';"
         )
-        .get(auth.userId, r.provider_user_id) as {
+        .get(r.id, auth.userId)) as {
         refresh_token_ciphertext: Uint8Array;
       } | null;
       if (!row) {
@@ -185,7 +299,7 @@ accountRouter.get("/callback/:provider", async (c) => {
   if (!env.APP_SECRET) return c.text("APP_SECRET not configured", 500);
   const redirectUri = `${env.APP_BASE_URL}/v1/accounts/callback/${providerId}`;
 
-  const { userId, pkceVerifier } = getOauthState({
+  const { userId, pkceVerifier } = await getOauthState({
     state,
     provider: providerId,
   });
@@ -205,7 +319,7 @@ accountRouter.get("/callback/:provider", async (c) => {
     return c.text(`oauth exchange failed: ${msg}`, 400);
   }
 
-  markOauthStateUsed(state);
+  await markOauthStateUsed(state);
 
   const refreshToken = tokenResult.refresh_token;
   const accessToken = tokenResult.access_token;
@@ -213,61 +327,49 @@ accountRouter.get("/callback/:provider", async (c) => {
 
   const scopes = scope ?? provider.scopes.join(" ");
 
-  const existing = db()
-    .query(
-      "SELECT id, refresh_token_ciphertext FROM linked_accounts WHERE user_id = ? AND provider = ? AND status = 'active' LIMIT 1;"
-    )
-    .get(userId, providerId) as {
-    id: string;
-    refresh_token_ciphertext: Uint8Array;
-  } | null;
+  // Best-effort: without an identity every connect of this provider maps to
+  // the same (unknown) account, which is the pre-multi-account behaviour.
+  let providerUserId = UNKNOWN_PROVIDER_USER_ID;
+  let displayName: string | undefined;
+  if (accessToken && provider.fetchAccountIdentity) {
+    try {
+      const identity = await provider.fetchAccountIdentity(accessToken);
+      providerUserId = identity.providerUserId;
+      displayName = identity.displayName;
+    } catch {
+      // keep unknown
+    }
+  }
 
   const tokenToStore = refreshToken ?? accessToken;
-  if (!tokenToStore && !existing) {
+  const linked = await upsertLinkedAccount({
+    userId,
+    provider: providerId,
+    providerUserId,
+    label: displayName,
+    scopes,
+    ciphertext: tokenToStore ? await encryptUtf8(tokenToStore) : null,
+  });
+  if (!linked) {
     return c.text(
       "No token returned. Try removing app access in your provider account and reconnect.",
       400
     );
   }
 
-  const providerUserId = "unknown";
-  const now = nowIso();
-
-  if (existing) {
-    if (tokenToStore) {
-      const ct = await encryptUtf8(tokenToStore);
-      db()
-        .query(
-          "UPDATE linked_accounts SET scopes = ?, refresh_token_ciphertext = ?, status = 'active', revoked_at = NULL WHERE id = ?;"
-        )
-        .run(scopes, ct, existing.id);
-    } else {
-      db()
-        .query(
-          "UPDATE linked_accounts SET scopes = ?, status = 'active', revoked_at = NULL WHERE id = ?;"
-        )
-        .run(scopes, existing.id);
-    }
-  } else {
-    const ct = await encryptUtf8(tokenToStore as string);
-    db()
-      .query(
-        "INSERT INTO linked_accounts (id, user_id, provider, provider_user_id, scopes, refresh_token_ciphertext, status, created_at, revoked_at) VALUES (?, ?, ?, ?, ?, ?, 'active', ?, NULL);"
-      )
-      .run(ulid(), userId, providerId, providerUserId, scopes, ct, now);
-  }
-
-  auditEvent({
+  await auditEvent({
     userId,
     actorType: "system",
     actorId: "oauth_callback",
-    eventType: "linked_account_updated",
-    event: { provider: providerId, scopes },
+    eventType: linked.created
+      ? "linked_account_added"
+      : "linked_account_updated",
+    event: { provider: providerId, account_id: linked.accountId, scopes },
   });
 
-  const telegram = db()
+  const telegram = (await db()
     .query("SELECT telegram_user_id FROM users WHERE id = ?;")
-    .get(userId) as { telegram_user_id: number } | null;
+    .get(userId)) as { telegram_user_id: number } | null;
 
   if (telegram?.telegram_user_id && env.TELEGRAM_BOT_TOKEN) {
     const { createBot } = await import("../telegram/bot");
@@ -275,7 +377,7 @@ accountRouter.get("/callback/:provider", async (c) => {
     bot.api
       .sendMessage(
         telegram.telegram_user_id,
-        `Connected ${providerId}. Scopes: ${scopes}`
+        `Connected ${providerId}${displayName ? ` (${displayName})` : ""}. Scopes: ${scopes}`
       )
       .catch(() => {});
   }
@@ -289,10 +391,10 @@ accountRouter.get("/connect/icloud", async (c) => {
   if (!state) return c.text("missing state", 400);
 
   try {
-    getConnectState({ state, provider: "icloud" });
+    await getConnectState({ state, provider: "icloud" });
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
-    return c.html(renderIcloudConnectResult({ ok: false, message: msg }), 400);
+    return c.html(renderConnectResult({ ok: false, message: msg }), 400);
   }
 
   return c.html(renderIcloudConnectForm({ state }));
@@ -301,7 +403,7 @@ accountRouter.get("/connect/icloud", async (c) => {
 accountRouter.post("/connect/icloud", async (c) => {
   if (!env.APP_SECRET) {
     return c.html(
-      renderIcloudConnectResult({
+      renderConnectResult({
         ok: false,
         message: "APP_SECRET not configured",
       }),
@@ -313,25 +415,30 @@ accountRouter.post("/connect/icloud", async (c) => {
   const stateRaw = body.state;
   const usernameRaw = body.username;
   const appPasswordRaw = body.app_password;
+  const labelRaw = body.label;
 
   const state = typeof stateRaw === "string" ? stateRaw.trim() : "";
   const username = typeof usernameRaw === "string" ? usernameRaw.trim() : "";
   const appSpecificPassword =
     typeof appPasswordRaw === "string" ? appPasswordRaw.trim() : "";
+  const label =
+    typeof labelRaw === "string"
+      ? labelRaw.trim().replace(/\s+/g, " ").slice(0, 64)
+      : "";
 
   if (!state || !username || !appSpecificPassword) {
     return c.html(
-      renderIcloudConnectResult({ ok: false, message: "missing fields" }),
+      renderConnectResult({ ok: false, message: "missing fields" }),
       400
     );
   }
 
   let userId: string;
   try {
-    ({ userId } = getConnectState({ state, provider: "icloud" }));
+    ({ userId } = await getConnectState({ state, provider: "icloud" }));
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
-    return c.html(renderIcloudConnectResult({ ok: false, message: msg }), 400);
+    return c.html(renderConnectResult({ ok: false, message: msg }), 400);
   }
 
   try {
@@ -348,41 +455,44 @@ accountRouter.post("/connect/icloud", async (c) => {
       allowedPathPrefixes: bounds.allowedPathPrefixes,
     });
     const ct = await encryptUtf8(credentialJson);
-    const now = nowIso();
 
-    const existing = db()
-      .query(
-        "SELECT id FROM linked_accounts WHERE user_id = ? AND provider = 'icloud' AND status = 'active' LIMIT 1;"
-      )
-      .get(userId) as { id: string } | null;
+    const linked = await upsertLinkedAccount({
+      userId,
+      provider: "icloud",
+      providerUserId,
+      scopes: "caldav",
+      ciphertext: ct,
+    });
+    if (!linked) throw new Error("failed to store account");
 
-    if (existing) {
-      db()
-        .query(
-          "UPDATE linked_accounts SET provider_user_id = ?, scopes = ?, refresh_token_ciphertext = ?, status = 'active', revoked_at = NULL WHERE id = ?;"
-        )
-        .run(providerUserId, "caldav", ct, existing.id);
-    } else {
-      db()
-        .query(
-          "INSERT INTO linked_accounts (id, user_id, provider, provider_user_id, scopes, refresh_token_ciphertext, status, created_at, revoked_at) VALUES (?, ?, 'icloud', ?, ?, ?, 'active', ?, NULL);"
-        )
-        .run(ulid(), userId, providerUserId, "caldav", ct, now);
-    }
+    // An explicit label from the form replaces the previous one.
+    const labelResult = label
+      ? await setLinkedAccountLabel({
+          accountId: linked.accountId,
+          userId,
+          label,
+        })
+      : null;
 
-    markConnectStateUsed(state);
+    await markConnectStateUsed(state);
 
-    auditEvent({
+    await auditEvent({
       userId,
       actorType: "system",
       actorId: "connect_icloud",
-      eventType: "linked_account_updated",
-      event: { provider: "icloud", scopes: "caldav" },
+      eventType: linked.created
+        ? "linked_account_added"
+        : "linked_account_updated",
+      event: {
+        provider: "icloud",
+        account_id: linked.accountId,
+        scopes: "caldav",
+      },
     });
 
-    const telegram = db()
+    const telegram = (await db()
       .query("SELECT telegram_user_id FROM users WHERE id = ?;")
-      .get(userId) as { telegram_user_id: number } | null;
+      .get(userId)) as { telegram_user_id: number } | null;
     if (telegram?.telegram_user_id && env.TELEGRAM_BOT_TOKEN) {
       const { createBot } = await import("../telegram/bot");
       const bot = createBot();
@@ -392,10 +502,335 @@ accountRouter.post("/connect/icloud", async (c) => {
     }
 
     return c.html(
-      renderIcloudConnectResult({ ok: true, message: "iCloud connected." })
+      renderConnectResult({
+        ok: true,
+        message:
+          labelResult && !labelResult.ok
+            ? `iCloud connected. The label "${label}" is already used by another iCloud account; rename it from /connect in Telegram.`
+            : "iCloud connected.",
+      })
+    );
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return c.html(renderConnectResult({ ok: false, message: msg }), 400);
+  }
+});
+
+// GitHub App installation connect (broker-hosted form). The installation is
+// linked as a github account; tokens are minted per request (see
+// providers/github/app).
+accountRouter.get("/connect/github-app", async (c) => {
+  const state = c.req.query("state");
+  if (!state) return c.text("missing state", 400);
+
+  try {
+    await getConnectState({ state, provider: "github-app" });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return c.html(renderConnectResult({ ok: false, message: msg }), 400);
+  }
+
+  return c.html(renderGitHubAppConnectForm({ state }));
+});
+
+accountRouter.post("/connect/github-app", async (c) => {
+  if (!env.APP_SECRET) {
+    return c.html(
+      renderConnectResult({ ok: false, message: "APP_SECRET not configured" }),
+      500
+    );
+  }
+
+  const body = await c.req.parseBody();
+  const stateRaw = body.state;
+  const appIdRaw = body.app_id;
+  const installationIdRaw = body.installation_id;
+  const privateKeyRaw = body.private_key;
+  const labelRaw = body.label;
+
+  const state = typeof stateRaw === "string" ? stateRaw.trim() : "";
+  const appId = typeof appIdRaw === "string" ? appIdRaw.trim() : "";
+  const installationId =
+    typeof installationIdRaw === "string" ? installationIdRaw.trim() : "";
+  const privateKey =
+    typeof privateKeyRaw === "string" ? `${privateKeyRaw.trim()}\n` : "";
+  const label =
+    typeof labelRaw === "string"
+      ? labelRaw.trim().replace(/\s+/g, " ").slice(0, 64)
+      : "";
+
+  if (!state || !appId || !installationId || !privateKey.trim()) {
+    return c.html(
+      renderConnectResult({ ok: false, message: "missing fields" }),
+      400
+    );
+  }
+  if (!/^\d{1,20}$/.test(appId) || !/^\d{1,20}$/.test(installationId)) {
+    return c.html(
+      renderConnectResult({
+        ok: false,
+        message: "app id and installation id must be numbers",
+      }),
+      400
+    );
+  }
+
+  let userId: string;
+  try {
+    ({ userId } = await getConnectState({ state, provider: "github-app" }));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return c.html(renderConnectResult({ ok: false, message: msg }), 400);
+  }
+
+  try {
+    const credential: GitHubAppCredential = {
+      type: "github_app",
+      appId,
+      installationId,
+      privateKey,
+    };
+    // Also validates the key: signing fails on malformed PEM, GitHub
+    // rejects a key that doesn't belong to the app.
+    const installation = await fetchGitHubInstallation({ credential });
+    if (!installation.ok) throw new Error(installation.message);
+
+    const linked = await upsertLinkedAccount({
+      userId,
+      provider: "github",
+      providerUserId: `app:${appId}:installation:${installationId}`,
+      scopes: "github_app",
+      ciphertext: await encryptUtf8(JSON.stringify(credential)),
+    });
+    if (!linked) throw new Error("failed to store account");
+
+    // Default label: the account the app is installed on.
+    const effectiveLabel =
+      label || (linked.created ? (installation.accountLogin ?? "") : "");
+    const labelResult = effectiveLabel
+      ? await setLinkedAccountLabel({
+          accountId: linked.accountId,
+          userId,
+          label: effectiveLabel,
+        })
+      : null;
+
+    await markConnectStateUsed(state);
+
+    await auditEvent({
+      userId,
+      actorType: "system",
+      actorId: "connect_github_app",
+      eventType: linked.created
+        ? "linked_account_added"
+        : "linked_account_updated",
+      event: {
+        provider: "github",
+        account_id: linked.accountId,
+        scopes: "github_app",
+        app_id: appId,
+        installation_id: installationId,
+      },
+    });
+
+    const telegram = (await db()
+      .query("SELECT telegram_user_id FROM users WHERE id = ?;")
+      .get(userId)) as { telegram_user_id: number } | null;
+    if (telegram?.telegram_user_id && env.TELEGRAM_BOT_TOKEN) {
+      telegramApi()
+        .sendMessage(
+          telegram.telegram_user_id,
+          "Connected github (app installation)."
+        )
+        .catch(() => {});
+    }
+
+    return c.html(
+      renderConnectResult({
+        ok: true,
+        message:
+          label && labelResult && !labelResult.ok
+            ? `GitHub App installation connected. The label "${effectiveLabel}" is already used by another github account; rename it from /connect in Telegram.`
+            : "GitHub App installation connected.",
+      })
+    );
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return c.html(renderConnectResult({ ok: false, message: msg }), 400);
+  }
+});
+
+function getStaticCredentialProvider(providerId: string): ProxyProvider | null {
+  return (
+    listProxyProviders().find(
+      (p) => p.id === providerId && p.staticCredentialForm
+    ) ?? null
+  );
+}
+
+// Static credential connect (API keys, bearer tokens) for providers defined
+// with `auth.type = "api_key"`. The iCloud and GitHub App routes above take
+// precedence.
+accountRouter.get("/connect/:provider", async (c) => {
+  const provider = getStaticCredentialProvider(c.req.param("provider"));
+  if (!provider?.staticCredentialForm) {
+    return c.text("unknown provider", 404);
+  }
+
+  const state = c.req.query("state");
+  if (!state) return c.text("missing state", 400);
+
+  try {
+    await getConnectState({ state, provider: provider.id });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return c.html(renderConnectResult({ ok: false, message: msg }), 400);
+  }
+
+  return c.html(
+    renderStaticCredentialConnectForm({
+      state,
+      providerId: provider.id,
+      credentialLabel: provider.staticCredentialForm.credentialLabel,
+      help: provider.staticCredentialForm.help,
+    })
+  );
+});
+
+accountRouter.post("/connect/:provider", async (c) => {
+  const provider = getStaticCredentialProvider(c.req.param("provider"));
+  if (!provider?.staticCredentialForm) {
+    return c.text("unknown provider", 404);
+  }
+
+  if (!env.APP_SECRET) {
+    return c.html(
+      renderConnectResult({ ok: false, message: "APP_SECRET not configured" }),
+      500
+    );
+  }
+
+  const body = await c.req.parseBody();
+  const stateRaw = body.state;
+  const credentialRaw = body.credential;
+  const labelRaw = body.label;
+
+  const state = typeof stateRaw === "string" ? stateRaw.trim() : "";
+  const credential =
+    typeof credentialRaw === "string" ? credentialRaw.trim() : "";
+  const label =
+    typeof labelRaw === "string"
+      ? labelRaw.trim().replace(/\s+/g, " ").slice(0, 64)
+      : "";
+
+  if (!state || !credential) {
+    return c.html(
+      renderConnectResult({ ok: false, message: "missing fields" }),
+      400
+    );
+  }
+  if (credential.length > 4096 || /[\r\n]/.test(credential)) {
+    return c.html(
+      renderConnectResult({ ok: false, message: "invalid credential" }),
+      400
+    );
+  }
+
+  let userId: string;
+  try {
+    ({ userId } = await getConnectState({ state, provider: provider.id }));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return c.html(renderConnectResult({ ok: false, message: msg }), 400);
+  }
+
+  try {
+    // Only a definite rejection blocks the connect; transient check failures
+    // are left to the health checker.
+    if (provider.checkCredential) {
+      const health = await provider.checkCredential({
+        storedCredential: credential,
+      });
+      if (!health.ok && health.needsReauth) {
+        throw new Error(`${provider.id} rejected the credential`);
+      }
+    }
+
+    // A static credential has no provider-side identity. Reusing the label
+    // of an existing account replaces its credential; otherwise the same
+    // credential maps to the same account via a keyed hash (the credential
+    // itself is never exposed).
+    const lowered = label.toLowerCase();
+    const sameLabel = label
+      ? [
+          ...(await listActiveLinkedAccounts({
+            userId,
+            provider: provider.id,
+          })),
+          ...(await listLinkedAccountsNeedingReauth({
+            userId,
+            provider: provider.id,
+          })),
+        ].find((a) => a.label?.toLowerCase() === lowered)
+      : undefined;
+    const providerUserId =
+      sameLabel?.providerUserId ??
+      `key_${(await hmacSha256Hex(env.APP_SECRET, `${provider.id}:${credential}`)).slice(0, 32)}`;
+
+    const linked = await upsertLinkedAccount({
+      userId,
+      provider: provider.id,
+      providerUserId,
+      scopes: "static",
+      ciphertext: await encryptUtf8(credential),
+    });
+    if (!linked) throw new Error("failed to store account");
+
+    const labelResult =
+      label && !sameLabel
+        ? await setLinkedAccountLabel({
+            accountId: linked.accountId,
+            userId,
+            label,
+          })
+        : null;
+
+    await markConnectStateUsed(state);
+
+    await auditEvent({
+      userId,
+      actorType: "system",
+      actorId: "connect_static",
+      eventType: linked.created
+        ? "linked_account_added"
+        : "linked_account_updated",
+      event: {
+        provider: provider.id,
+        account_id: linked.accountId,
+        scopes: "static",
+      },
+    });
+
+    const telegram = (await db()
+      .query("SELECT telegram_user_id FROM users WHERE id = ?;")
+      .get(userId)) as { telegram_user_id: number } | null;
+    if (telegram?.telegram_user_id && env.TELEGRAM_BOT_TOKEN) {
+      telegramApi()
+        .sendMessage(telegram.telegram_user_id, `Connected ${provider.id}.`)
+        .catch(() => {});
+    }
+
+    return c.html(
+      renderConnectResult({
+        ok: true,
+        message:
+          labelResult && !labelResult.ok
+            ? `${provider.id} connected. The label "${label}" is already used by another ${provider.id} account; rename it from /connect in Telegram.`
+            : `${provider.id} connected.`,
+      })
     );
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
-    return c.html(renderIcloudConnectResult({ ok: false, message: msg }), 400);
+    return c.html(renderConnectResult({ ok: false, message: msg }), 400);
   }
 });
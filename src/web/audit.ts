@@ -0,0 +1,150 @@
+import { Hono } from "hono";
+
+import {
+  readLatestAuditCheckpoints,
+  verifyAuditChain,
+  verifyAuditCheckpoint,
+} from "../audit/chain";
+import {
+  AUDIT_EXPORT_MAX,
+  AUDIT_PAGE_MAX,
+  type AuditQuery,
+  auditEntriesToCsv,
+  auditEntriesToJsonLines,
+  parseAuditTime,
+  queryAuditEvents,
+  resolveAuditApiKey,
+} from "../audit/query";
+import { requireApiKey } from "../auth/apiKey";
+import { env } from "../env";
+
+export const auditRouter = new Hono();
+
+const FORMATS = ["json", "jsonl", "csv"] as const;
+type AuditFormat = (typeof FORMATS)[number];
+
+// GET /v1/audit?from=&to=&event_type=a,b&api_key=&provider=&request_id=&cursor=&limit=&format=
+// Keys with a scope only see events about themselves.
+auditRouter.get("/", requireApiKey, async (c) => {
+  const auth = c.get("apiKeyAuth");
+  const q = (name: string) => c.req.query(name)?.trim() || undefined;
+
+  const format = (q("format") ?? "json") as AuditFormat;
+  if (!FORMATS.includes(format)) {
+    return c.json(
+      {
+        error: "invalid_request",
+        message: "format must be json, jsonl or csv",
+      },
+      400
+    );
+  }
+
+  const max = format === "json" ? AUDIT_PAGE_MAX : AUDIT_EXPORT_MAX;
+  const limitRaw = q("limit");
+  const limit = limitRaw ? Number(limitRaw) : format === "json" ? 100 : max;
+  if (!Number.isInteger(limit) || limit < 1 || limit > max) {
+    return c.json(
+      {
+        error: "invalid_request",
+        message: `limit must be an integer between 1 and ${max}`,
+      },
+      400
+    );
+  }
+
+  const query: AuditQuery = {
+    userId: auth.userId,
+    eventTypes: q("event_type")
+      ?.split(",")
+      .map((t) => t.trim())
+      .filter(Boolean),
+    provider: q("provider"),
+    requestId: q("request_id"),
+    cursor: q("cursor"),
+    limit,
+  };
+
+  try {
+    const from = q("from");
+    const to = q("to");
+    if (from) query.from = parseAuditTime(from);
+    if (to) query.to = parseAuditTime(to);
+  } catch (err) {
+    return c.json(
+      {
+        error: "invalid_request",
+        message: err instanceof Error ? err.message : String(err),
+      },
+      400
+    );
+  }
+
+  const apiKey = q("api_key");
+  if (apiKey) {
+    const apiKeyId = await resolveAuditApiKey(auth.userId, apiKey);
+    if (!apiKeyId) {
+      return c.json(
+        { error: "invalid_request", message: `unknown API key: ${apiKey}` },
+        400
+      );
+    }
+    query.apiKeyId = apiKeyId;
+  }
+  if (auth.scope) {
+    if (query.apiKeyId && query.apiKeyId !== auth.apiKeyId) {
+      return c.json({ error: "forbidden" }, 403);
+    }
+    query.apiKeyId = auth.apiKeyId;
+  }
+
+  const { entries, nextCursor } = await queryAuditEvents(query);
+
+  if (format === "json") {
+    return c.json({ entries, next_cursor: nextCursor });
+  }
+
+  // Exports are a single bounded page; the next cursor travels in a header.
+  if (nextCursor) c.header("X-Next-Cursor", nextCursor);
+  c.header(
+    "Content-Disposition",
+    `attachment; filename="audit.${format === "csv" ? "csv" : "jsonl"}"`
+  );
+  return format === "csv"
+    ? c.body(auditEntriesToCsv(entries), 200, {
+        "Content-Type": "text/csv; charset=utf-8",
+      })
+    : c.body(auditEntriesToJsonLines(entries), 200, {
+        "Content-Type": "application/x-ndjson",
+      });
+});
+
+// GET /v1/audit/verify: walks the caller's hash chain and, when checkpoints
+// are configured, checks the latest one still matches it.
+auditRouter.get("/verify", requireApiKey, async (c) => {
+  const auth = c.get("apiKeyAuth");
+  const report = await verifyAuditChain(auth.userId);
+
+  const cp = env.AUDIT_CHECKPOINT_PATH
+    ? readLatestAuditCheckpoints(env.AUDIT_CHECKPOINT_PATH).get(auth.userId)
+    : undefined;
+  const check = cp ? await verifyAuditCheckpoint(cp) : null;
+
+  return c.json({
+    ok: report.ok && (check?.ok ?? true),
+    checked: report.checked,
+    pending: report.pending,
+    head_id: report.headId,
+    head_hash: report.headHash,
+    broken: report.broken,
+    checkpoint:
+      cp && check
+        ? {
+            created_at: cp.created_at,
+            last_id: cp.last_id,
+            ok: check.ok,
+            reason: check.reason ?? null,
+          }
+        : null,
+  });
+});
@@ -1,21 +1,51 @@
 import { Hono } from "hono";
 import { z } from "zod";
 
+import { describeLinkedAccount, selectLinkedAccount } from "../accounts/linked";
 import { auditEvent } from "../audit/audit";
 import { requireApiKey } from "../auth/apiKey";
+import { checkGitSessionScope } from "../auth/scopes";
 import { decryptUtf8 } from "../crypto/aesgcm";
 import { db } from "../db/client";
 import { env } from "../env";
 import {
+  MAX_INSPECTED_PACK_BYTES,
+  type ParsedPack,
+  parsePackfile,
+} from "../git/packfile";
+import {
+  addAdvertisedCapability,
+  extractReceivePackPackfile,
   extractSymrefHeadFromInfoRefs,
   isAllZeroSha,
+  parseAdvertisedBranches,
   parseReceivePackCommands,
+  type ReceivePackCommand,
 } from "../git/pktline";
+import {
+  checkPushPolicy,
+  normalizeProtectedPath,
+  normalizeRefPattern,
+  type PushPolicy,
+} from "../git/pushPolicy";
+import {
+  createPushReview,
+  decidePushReview,
+  getPushReview,
+  waitForPushReviewDecision,
+} from "../git/pushReviews";
+import { type PushSummary, summarizePush } from "../git/pushSummary";
+import { fetchCommitTrees } from "../git/remoteObjects";
 import {
   createGitSession,
+  type GitSessionRow,
+  getAdvertisedBranches,
   getGitSessionKeyScoped,
   getGitSessionSecretCiphertextKeyScoped,
   markGitSessionUsed,
+  pushPolicyFromRow,
+  type StandingGitSessionLimits,
+  storeAdvertisedBranches,
   storeDefaultBranchRef,
   touchGitSessionActivity,
   validateGitSessionSecret,
@@ -25,14 +55,131 @@ import {
   streamFromPrefixAndReader,
   withByteLimit,
 } from "../git/stream";
+import {
+  describeApprovalWindow,
+  formatDurationSeconds,
+  resolveApprovalTtlSeconds,
+  resolveGitInactivitySeconds,
+  resolveGitStandingSeconds,
+} from "../proxy/approvalTtl";
+import type { GitRemote, ProxyProvider } from "../proxy/provider";
+import { listProxyProviders } from "../proxy/providerRegistry";
 import { telegramApi } from "../telegram/api";
 
 const CreateSessionSchema = z.object({
+  // Provider whose git remote and linked accounts the session uses.
+  provider: z.string().min(1).max(64).default("github"),
   operation: z.enum(["clone", "fetch", "pull", "push"]),
   repo: z.string().min(3),
   consent_hint: z.string().optional(),
+  // Account to use: account id, provider_user_id or label.
+  account: z.string().min(1).max(200).optional(),
+  // How long the session waits for approval (bounded by key/server maxima).
+  approval_ttl_seconds: z.number().int().positive().optional(),
+  // Idle time after which an approved session expires.
+  inactivity_timeout_seconds: z.number().int().positive().optional(),
+  // Push only: branches the push may update (`agent/*`, `refs/heads/x`).
+  ref_patterns: z.array(z.string().min(1).max(200)).min(1).max(20).optional(),
+  // Push only: reject updates that don't fast-forward the remote branch.
+  deny_force_push: z.boolean().optional(),
+  // Push only: paths the pushed commits may not change (`dir/` for a
+  // directory), on top of GIT_PUSH_PROTECTED_PATHS.
+  protected_paths: z.array(z.string().min(1).max(500)).max(50).optional(),
+  // Push only: hold the push until the approver has reviewed its commits.
+  review_push: z.boolean().optional(),
+  // Standing session: reusable for many fetch/push cycles until
+  // max_duration_seconds after approval or max_pushes forwarded pushes.
+  standing: z.boolean().optional(),
+  max_duration_seconds: z.number().int().positive().optional(),
+  max_pushes: z.number().int().min(1).max(1000).optional(),
 });
 
+const DEFAULT_STANDING_MAX_PUSHES = 50;
+
+function resolveStandingLimits(
+  data: z.infer<typeof CreateSessionSchema>
+):
+  | { ok: true; limits: StandingGitSessionLimits | undefined }
+  | { ok: false; message: string } {
+  if (!data.standing) {
+    return data.max_duration_seconds !== undefined ||
+      data.max_pushes !== undefined
+      ? {
+          ok: false,
+          message: "max_duration_seconds and max_pushes need standing: true",
+        }
+      : { ok: true, limits: undefined };
+  }
+  if (data.operation !== "push" && data.max_pushes !== undefined) {
+    return { ok: false, message: "max_pushes applies to push sessions" };
+  }
+  // A standing push grant is for a branch pattern, never the whole repo.
+  if (data.operation === "push" && !data.ref_patterns) {
+    return {
+      ok: false,
+      message: "standing push sessions require ref_patterns",
+    };
+  }
+  const duration = resolveGitStandingSeconds(data.max_duration_seconds);
+  if (!duration.ok) return duration;
+  return {
+    ok: true,
+    limits: {
+      durationSeconds: duration.seconds,
+      maxPushes:
+        data.operation === "push"
+          ? (data.max_pushes ?? DEFAULT_STANDING_MAX_PUSHES)
+          : null,
+    },
+  };
+}
+
+function resolvePushPolicy(
+  data: z.infer<typeof CreateSessionSchema>
+):
+  | { ok: true; policy: PushPolicy | undefined }
+  | { ok: false; message: string } {
+  const requested =
+    data.ref_patterns !== undefined ||
+    data.deny_force_push !== undefined ||
+    data.protected_paths !== undefined ||
+    data.review_push !== undefined;
+  if (data.operation !== "push") {
+    return requested
+      ? {
+          ok: false,
+          message:
+            "ref_patterns, deny_force_push, protected_paths and review_push apply to push sessions",
+        }
+      : { ok: true, policy: undefined };
+  }
+  try {
+    const configured = env.GIT_PUSH_PROTECTED_PATHS.split(",").filter((p) =>
+      p.trim()
+    );
+    const protectedPaths = [
+      ...new Set(
+        [...configured, ...(data.protected_paths ?? [])].map(
+          normalizeProtectedPath
+        )
+      ),
+    ];
+    return {
+      ok: true,
+      policy: {
+        refPatterns: data.ref_patterns?.map(normalizeRefPattern) ?? null,
+        denyForcePush: data.deny_force_push ?? false,
+        protectedPaths,
+      },
+    };
+  } catch (err) {
+    return {
+      ok: false,
+      message: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
 function isReadOperation(op: string): boolean {
   return op === "clone" || op === "fetch" || op === "pull";
 }
@@ -55,13 +202,30 @@ function escapeHtml(s: string): string {
     .replaceAll("'", "&#39;");
 }
 
-function parseRepo(repo: string): { owner: string; name: string } {
-  const trimmed = repo.trim();
-  const parts = trimmed.split("/");
-  if (parts.length !== 2) throw new Error("invalid repo format");
-  const [owner, name] = parts;
-  if (!owner || !name) throw new Error("invalid repo format");
-  return { owner, name };
+// `owner/name`, or `group/subgroup/name` on remotes with nested namespaces.
+// Segments are restricted so they can be spliced into upstream URLs as is.
+function parseRepo(
+  repo: string,
+  remote: GitRemote
+): { owner: string; name: string } {
+  const parts = repo
+    .trim()
+    .replace(/\.git$/, "")
+    .split("/");
+  if (parts.length < 2 || (!remote.nestedNamespaces && parts.length !== 2)) {
+    throw new Error("invalid repo format");
+  }
+  if (parts.some((p) => !/^[A-Za-z0-9_.-]+$/.test(p) || /^\.+$/.test(p))) {
+    throw new Error("invalid repo format");
+  }
+  return {
+    owner: parts.slice(0, -1).join("/"),
+    name: parts[parts.length - 1] ?? "",
+  };
+}
+
+function getGitProvider(id: string): ProxyProvider | null {
+  return listProxyProviders().find((p) => p.id === id && p.gitRemote) ?? null;
 }
 
 function baseUrl(): string {
@@ -69,23 +233,22 @@ function baseUrl(): string {
   return env.APP_BASE_URL.replace(/\/$/, "");
 }
 
-function basicAuthHeader(token: string): string {
-  const raw = `x-access-token:${token}`;
+function basicAuthHeader(username: string, token: string): string {
+  const raw = `${username}:${token}`;
   const b64 = Buffer.from(raw, "utf8").toString("base64");
   return `Basic ${b64}`;
 }
 
-function upstreamGitHubUrl(params: {
+function upstreamGitUrl(params: {
+  remote: GitRemote;
   owner: string;
   repo: string;
   path: string;
   query: string;
 }): string {
-  const repo = params.repo.endsWith(".git")
-    ? params.repo
-    : `${params.repo}.git`;
+  const base = params.remote.baseUrl.replace(/\/$/, "");
   const url = new URL(
-    `https://github.com/${params.owner}/${repo}${params.path}`
+    `${base}/${params.owner}/${params.repo}.git${params.path}`
   );
   url.search = params.query;
   return url.toString();
@@ -128,14 +291,208 @@ function serviceFromQuery(query: string): string | null {
   return u.searchParams.get("service");
 }
 
-async function getGitHubToken(userId: string): Promise<string | null> {
-  const row = db()
+async function getGitToken(
+  sess: {
+    user_id: string;
+    provider: string;
+    linked_account_id: string | null;
+    repo_owner: string;
+    repo_name: string;
+    operation: string;
+  },
+  remote: GitRemote
+): Promise<string | null> {
+  // Sessions created before accounts were pinned use the sole linked account.
+  let accountId = sess.linked_account_id;
+  if (!accountId) {
+    const selection = await selectLinkedAccount({
+      userId: sess.user_id,
+      provider: sess.provider,
+    });
+    accountId = selection.ok ? (selection.account?.id ?? null) : null;
+  }
+  if (!accountId) return null;
+
+  const row = (await db()
     .query(
-      "SELECT refresh_token_ciphertext FROM linked_accounts WHERE user_id = ? AND provider = 'github' AND status = 'active' LIMIT 1;"
+      "SELECT refresh_token_ciphertext FROM linked_accounts WHERE id = ? AND user_id = ? AND status = 'active';"
     )
-    .get(userId) as { refresh_token_ciphertext: Uint8Array } | null;
+    .get(accountId, sess.user_id)) as {
+    refresh_token_ciphertext: Uint8Array;
+  } | null;
   if (!row) return null;
-  return decryptUtf8(row.refresh_token_ciphertext);
+  return remote.getToken({
+    storedCredential: await decryptUtf8(row.refresh_token_ciphertext),
+    linkedAccountId: accountId,
+    repoOwner: sess.repo_owner,
+    repoName: sess.repo_name,
+    operation: sess.operation,
+  });
+}
+
+const FILE_STATUS_MARKS = {
+  added: "A",
+  modified: "M",
+  deleted: "D",
+  changed: "~",
+} as const;
+
+function shortSha(sha: string): string {
+  return sha.slice(0, 7);
+}
+
+export function renderPushReviewText(params: {
+  provider: string;
+  repo: string;
+  summary: PushSummary;
+  timeoutSeconds: number;
+}): string {
+  const { summary } = params;
+  const lines: string[] = [];
+  lines.push("<b>Push review</b>");
+  lines.push("");
+  lines.push(
+    `<b>Repo</b>: <code>${escapeHtml(params.repo)}</code> (<code>${escapeHtml(params.provider)}</code>)`
+  );
+  for (const cmd of summary.refs) {
+    const from = isAllZeroSha(cmd.oldSha) ? "new" : shortSha(cmd.oldSha);
+    lines.push(
+      `<b>Ref</b>: <code>${escapeHtml(cmd.ref)}</code> ${escapeHtml(from)} → <code>${escapeHtml(shortSha(cmd.newSha))}</code>`
+    );
+  }
+
+  const total = summary.commits.length + summary.omittedCommits;
+  lines.push("");
+  lines.push(`<b>Commits</b> (${total}):`);
+  for (const commit of summary.commits) {
+    lines.push(
+      `<code>${escapeHtml(shortSha(commit.sha))}</code> ${escapeHtml(truncate(commit.subject || "(no message)", 120))} — <i>${escapeHtml(truncate(commit.author, 80))}</i>`
+    );
+    for (const f of commit.files) {
+      const stat = [
+        f.additions ? `+${f.additions}` : "",
+        f.deletions ? `−${f.deletions}` : "",
+      ]
+        .filter(Boolean)
+        .join(" ");
+      lines.push(
+        `  ${FILE_STATUS_MARKS[f.status]} <code>${escapeHtml(truncate(f.path, 120))}</code>${stat ? ` (${stat})` : ""}`
+      );
+    }
+    if (commit.omittedFiles) {
+      lines.push(`  …and ${commit.omittedFiles} more files`);
+    }
+  }
+  if (summary.omittedCommits) {
+    lines.push(`…and ${summary.omittedCommits} more commits`);
+  }
+  if (
+    summary.commits.some((c) => c.files.some((f) => f.status === "changed"))
+  ) {
+    lines.push("");
+    lines.push(
+      "<i>~: the previous version is already on the remote; line counts are for the new version.</i>"
+    );
+  }
+
+  lines.push("");
+  lines.push(
+    `Forward to send this push upstream. The push is rejected if not forwarded within ${escapeHtml(formatDurationSeconds(params.timeoutSeconds))}.`
+  );
+
+  // Telegram messages are capped at 4096 characters; cut whole lines.
+  let text = "";
+  for (const line of lines) {
+    if (text.length + line.length + 1 > 3800) {
+      text += "…";
+      break;
+    }
+    text += `${line}\n`;
+  }
+  return text.trimEnd();
+}
+
+// Hold a receive-pack request until the approver forwards or rejects it.
+async function holdPushForReview(params: {
+  sess: GitSessionRow;
+  commands: ReceivePackCommand[];
+  packfile: Uint8Array | null;
+  signal: AbortSignal;
+}): Promise<{ ok: true } | { ok: false; message: string }> {
+  const { sess } = params;
+  let pack: ParsedPack = { objects: new Map(), unresolved: 0 };
+  if (params.packfile) {
+    try {
+      pack = parsePackfile(params.packfile, {
+        maxInflatedBytes: MAX_INSPECTED_PACK_BYTES,
+      });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      return { ok: false, message: `push could not be inspected: ${msg}` };
+    }
+  }
+
+  const summary = summarizePush({ commands: params.commands, pack });
+  const timeoutSeconds = env.GIT_PUSH_REVIEW_TIMEOUT_SECONDS;
+  const { reviewId } = await createPushReview({
+    sessionId: sess.id,
+    userId: sess.user_id,
+    summary,
+    ttlMs: timeoutSeconds * 1000,
+  });
+  await auditEvent({
+    userId: sess.user_id,
+    actorType: "system",
+    actorId: "git_proxy",
+    eventType: "git_push_review_requested",
+    event: {
+      sessionId: sess.id,
+      reviewId,
+      refs: params.commands.map((c) => c.ref),
+      commits: summary.commits.length + summary.omittedCommits,
+    },
+  });
+
+  const u = (await db()
+    .query("SELECT telegram_user_id FROM users WHERE id = ?;")
+    .get(sess.user_id)) as { telegram_user_id: number } | null;
+  if (u?.telegram_user_id && env.TELEGRAM_BOT_TOKEN) {
+    const text = renderPushReviewText({
+      provider: sess.provider,
+      repo: `${sess.repo_owner}/${sess.repo_name}`,
+      summary,
+      timeoutSeconds,
+    });
+    telegramApi()
+      .sendMessage(u.telegram_user_id, text, {
+        parse_mode: "HTML",
+        reply_markup: {
+          inline_keyboard: [
+            [
+              { text: "Forward", callback_data: `gp:forward:${reviewId}` },
+              { text: "Reject", callback_data: `gp:reject:${reviewId}` },
+            ],
+          ],
+        },
+      })
+      .catch(() => {});
+  }
+
+  await waitForPushReviewDecision({
+    reviewId,
+    timeoutMs: timeoutSeconds * 1000,
+    signal: params.signal,
+  });
+  // No-op when a decision was made.
+  await decidePushReview({ reviewId, userId: sess.user_id, status: "EXPIRED" });
+
+  const status = (await getPushReview({ reviewId, userId: sess.user_id }))
+    ?.status;
+  if (status === "FORWARDED") return { ok: true };
+  if (status === "REJECTED") {
+    return { ok: false, message: "push was rejected in review" };
+  }
+  return { ok: false, message: "push review timed out" };
 }
 
 export const gitRouter = new Hono();
@@ -147,50 +504,166 @@ gitRouter.post("/sessions", requireApiKey, async (c) => {
   const parsed = CreateSessionSchema.safeParse(raw);
   if (!parsed.success) return c.json({ error: "invalid_request" }, 400);
 
-  // GitHub token is required for push. For clone of public repos,
-  // allow unauthenticated proxying.
-  const connected = db()
-    .query(
-      "SELECT 1 AS ok FROM linked_accounts WHERE user_id = ? AND provider = 'github' AND status = 'active' LIMIT 1;"
-    )
-    .get(auth.userId) as { ok: number } | null;
-  if (!connected && parsed.data.operation === "push") {
-    return c.json({ error: "no_linked_github" }, 409);
+  const ttl = resolveApprovalTtlSeconds({
+    requested: parsed.data.approval_ttl_seconds,
+    keyMaxSeconds: auth.maxApprovalTtlSeconds,
+    defaultSeconds: env.APPROVAL_TTL_DEFAULT_SECONDS,
+  });
+  if (!ttl.ok) {
+    return c.json({ error: "invalid_request", message: ttl.message }, 400);
   }
+  const inactivity = resolveGitInactivitySeconds(
+    parsed.data.inactivity_timeout_seconds
+  );
+  if (!inactivity.ok) {
+    return c.json(
+      { error: "invalid_request", message: inactivity.message },
+      400
+    );
+  }
+
+  const pushPolicy = resolvePushPolicy(parsed.data);
+  if (!pushPolicy.ok) {
+    return c.json(
+      { error: "invalid_request", message: pushPolicy.message },
+      400
+    );
+  }
+  const policy = pushPolicy.policy;
+
+  const standingLimits = resolveStandingLimits(parsed.data);
+  if (!standingLimits.ok) {
+    return c.json(
+      { error: "invalid_request", message: standingLimits.message },
+      400
+    );
+  }
+  const standing = standingLimits.limits;
+
+  const providerId = parsed.data.provider;
+  const provider = getGitProvider(providerId);
+  if (!provider?.gitRemote) {
+    return c.json(
+      {
+        error: "unsupported_git_provider",
+        message: `${providerId} has no git remote`,
+      },
+      400
+    );
+  }
+  const remote = provider.gitRemote;
 
   let owner: string;
   let name: string;
   try {
-    ({ owner, name } = parseRepo(parsed.data.repo));
+    ({ owner, name } = parseRepo(parsed.data.repo, remote));
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     return c.json({ error: "invalid_repo", message: msg }, 400);
   }
 
+  const scopeCheck = checkGitSessionScope(auth.scope, {
+    providerId,
+    remoteBaseUrl: remote.baseUrl,
+    operation: parsed.data.operation,
+    repoOwner: owner,
+    repoName: name,
+  });
+  if (!scopeCheck.allowed) {
+    await auditEvent({
+      userId: auth.userId,
+      actorType: "api_key",
+      actorId: auth.apiKeyId,
+      eventType: "api_key_scope_violation",
+      event: {
+        provider: providerId,
+        operation: parsed.data.operation,
+        repo: `${owner}/${name}`,
+        reason: scopeCheck.reason,
+      },
+    });
+    return c.json({ error: "out_of_scope", message: scopeCheck.reason }, 403);
+  }
+
+  const selection = await selectLinkedAccount({
+    userId: auth.userId,
+    provider: providerId,
+    selector: parsed.data.account,
+  });
+  if (!selection.ok) {
+    return c.json(
+      {
+        error: selection.error,
+        message: selection.message,
+        provider: providerId,
+        accounts: selection.accounts,
+      },
+      409
+    );
+  }
+
+  // A token is required for push. For clone of public repos,
+  // allow unauthenticated proxying.
+  const connected = selection.account;
+  if (!connected && parsed.data.operation === "push") {
+    // `no_linked_github` predates other git remotes; kept for existing clients.
+    return c.json(
+      {
+        error:
+          providerId === "github" ? "no_linked_github" : "no_linked_account",
+        provider: providerId,
+      },
+      409
+    );
+  }
+
   const created = await createGitSession({
     userId: auth.userId,
     apiKeyId: auth.apiKeyId,
+    provider: providerId,
     operation: parsed.data.operation,
     repoOwner: owner,
     repoName: name,
-    approvalTtlMs: 2 * 60_000,
+    linkedAccountId: connected?.id,
+    approvalTtlMs: ttl.seconds * 1000,
+    inactivityTimeoutSeconds: inactivity.seconds,
+    pushPolicy: policy,
+    reviewPush: parsed.data.review_push,
+    standing,
   });
 
-  auditEvent({
+  await auditEvent({
     userId: auth.userId,
     actorType: "api_key",
     actorId: auth.apiKeyId,
     eventType: "git_session_created",
     event: {
+      sessionId: created.sessionId,
+      provider: providerId,
       operation: parsed.data.operation,
       repo: `${owner}/${name}`,
+      ...(standing
+        ? {
+            standing: true,
+            max_duration_seconds: standing.durationSeconds,
+            max_pushes: standing.maxPushes,
+          }
+        : {}),
+      ...(policy
+        ? {
+            ref_patterns: policy.refPatterns,
+            deny_force_push: policy.denyForcePush,
+            protected_paths: policy.protectedPaths,
+            review_push: parsed.data.review_push ?? false,
+          }
+        : {}),
     },
   });
 
   // Telegram prompt
-  const u = db()
+  const u = (await db()
     .query("SELECT telegram_user_id FROM users WHERE id = ?;")
-    .get(auth.userId) as { telegram_user_id: number } | null;
+    .get(auth.userId)) as { telegram_user_id: number } | null;
 
   if (u?.telegram_user_id && env.TELEGRAM_BOT_TOKEN) {
     const consentHint = parsed.data.consent_hint;
@@ -198,7 +671,12 @@ gitRouter.post("/sessions", requireApiKey, async (c) => {
     lines.push("<b>Git session request</b>");
     lines.push("");
     lines.push(`<b>API key</b>: <code>${escapeHtml(auth.apiKeyLabel)}</code>`);
-    lines.push(`<b>Provider</b>: <code>github</code>`);
+    lines.push(`<b>Provider</b>: <code>${escapeHtml(providerId)}</code>`);
+    if (connected) {
+      lines.push(
+        `<b>Account</b>: <code>${escapeHtml(describeLinkedAccount(connected))}</code>`
+      );
+    }
     lines.push(`<b>Repo</b>: <code>${escapeHtml(`${owner}/${name}`)}</code>`);
 
     if (isReadOperation(parsed.data.operation)) {
@@ -206,7 +684,7 @@ gitRouter.post("/sessions", requireApiKey, async (c) => {
       lines.push(`<b>Operation</b>: <code>${escapeHtml(op)}</code> (read)`);
       if (!connected) {
         lines.push(
-          "<i>Note:</i> no GitHub account linked; this will only work for public repos."
+          `<i>Note:</i> no ${escapeHtml(providerId)} account linked; this will only work for public repos.`
         );
       }
     } else {
@@ -214,6 +692,24 @@ gitRouter.post("/sessions", requireApiKey, async (c) => {
       lines.push(
         "<i>Safety:</i> <code>Allow</code> blocks pushing to the repo default branch. Use <code>Allow (main branch)</code> to allow it."
       );
+      if (policy?.refPatterns) {
+        lines.push(
+          `<b>Allowed refs</b>: ${policy.refPatterns.map((p) => `<code>${escapeHtml(p)}</code>`).join(", ")}`
+        );
+      }
+      if (policy?.denyForcePush) {
+        lines.push("<b>Force push</b>: blocked");
+      }
+      if (policy?.protectedPaths.length) {
+        lines.push(
+          `<b>Protected paths</b>: ${policy.protectedPaths.map((p) => `<code>${escapeHtml(p)}</code>`).join(", ")}`
+        );
+      }
+      if (parsed.data.review_push) {
+        lines.push(
+          "<b>Push review</b>: required (the pushed commits are shown for confirmation before they are forwarded)"
+        );
+      }
     }
 
     if (consentHint) {
@@ -224,6 +720,21 @@ gitRouter.post("/sessions", requireApiKey, async (c) => {
       lines.push("");
     }
 
+    lines.push(
+      `<b>Approval window</b>: ${escapeHtml(describeApprovalWindow({ seconds: ttl.seconds, expiresAt: created.approvalExpiresAt }))}`
+    );
+    if (standing) {
+      const pushes = standing.maxPushes
+        ? `, up to ${standing.maxPushes} pushes (fetches allowed)`
+        : "";
+      lines.push(
+        `<b>Standing session</b>: reusable for ${escapeHtml(formatDurationSeconds(standing.durationSeconds))} after approval${pushes}. Revoke any time with /sessions.`
+      );
+    } else {
+      lines.push(
+        `<b>Idle timeout</b>: ${escapeHtml(formatDurationSeconds(inactivity.seconds))}`
+      );
+    }
     lines.push("Approve to allow the agent to use this git session.");
 
     const kb =
@@ -240,6 +751,16 @@ gitRouter.post("/sessions", requireApiKey, async (c) => {
                   callback_data: `gs:approve_push_allow:${created.sessionId}`,
                 },
               ],
+              ...(parsed.data.review_push
+                ? []
+                : [
+                    [
+                      {
+                        text: "Allow, review push first",
+                        callback_data: `gs:approve_push_review:${created.sessionId}`,
+                      },
+                    ],
+                  ]),
               [{ text: "Deny", callback_data: `gs:deny:${created.sessionId}` }],
             ],
           }
@@ -267,13 +788,22 @@ gitRouter.post("/sessions", requireApiKey, async (c) => {
     session_id: created.sessionId,
     status: "PENDING_APPROVAL",
     approval_expires_at: created.approvalExpiresAt,
+    inactivity_timeout_seconds: inactivity.seconds,
+    ...(standing
+      ? {
+          standing: true,
+          max_duration_seconds: standing.durationSeconds,
+          max_pushes: standing.maxPushes,
+        }
+      : {}),
+    ...(connected ? { account_id: connected.id } : {}),
   });
 });
 
-gitRouter.get("/sessions/:id", requireApiKey, (c) => {
+gitRouter.get("/sessions/:id", requireApiKey, async (c) => {
   const auth = c.get("apiKeyAuth");
   const sessionId = c.req.param("id");
-  const row = getGitSessionKeyScoped({
+  const row = await getGitSessionKeyScoped({
     sessionId,
     userId: auth.userId,
     apiKeyId: auth.apiKeyId,
@@ -298,18 +828,38 @@ gitRouter.get("/sessions/:id", requireApiKey, (c) => {
   return c.json({
     session_id: row.id,
     status: row.status,
+    provider: row.provider,
     operation: row.operation,
     repo: `${row.repo_owner}/${row.repo_name}`,
     approval_expires_at: row.approval_expires_at,
     default_branch_ref: row.default_branch_ref,
     allow_default_branch_push: Boolean(row.allow_default_branch_push),
+    ...(row.standing
+      ? {
+          standing: true,
+          expires_at: row.expires_at,
+          max_pushes: row.max_pushes,
+          pushes_used: row.push_count,
+        }
+      : {}),
+    ...(row.operation === "push"
+      ? (() => {
+          const policy = pushPolicyFromRow(row);
+          return {
+            ref_patterns: policy.refPatterns,
+            deny_force_push: policy.denyForcePush,
+            protected_paths: policy.protectedPaths,
+            review_push: Boolean(row.review_push),
+          };
+        })()
+      : {}),
   });
 });
 
 gitRouter.get("/sessions/:id/remote", requireApiKey, async (c) => {
   const auth = c.get("apiKeyAuth");
   const sessionId = c.req.param("id");
-  const row = getGitSessionKeyScoped({
+  const row = await getGitSessionKeyScoped({
     sessionId,
     userId: auth.userId,
     apiKeyId: auth.apiKeyId,
@@ -322,46 +872,40 @@ gitRouter.get("/sessions/:id/remote", requireApiKey, async (c) => {
     if (row.status === "DENIED") return c.json({ error: "denied" }, 403);
     if (row.status === "EXPIRED") return c.json({ error: "expired" }, 408);
     if (row.status === "USED") return c.json({ error: "used" }, 410);
+    if (row.status === "REVOKED") return c.json({ error: "revoked" }, 403);
   }
 
   if (!env.APP_SECRET) return c.json({ error: "server_misconfigured" }, 500);
 
-  const ct = getGitSessionSecretCiphertextKeyScoped({
+  const ct = await getGitSessionSecretCiphertextKeyScoped({
     sessionId,
     userId: auth.userId,
     apiKeyId: auth.apiKeyId,
   });
   if (!ct) return c.json({ error: "forbidden" }, 403);
   const secret = await decryptUtf8(ct);
-  const remoteUrl = `${baseUrl()}/v1/git/session/${row.id}/${secret}/github/${row.repo_owner}/${row.repo_name}.git`;
+  const remoteUrl = `${baseUrl()}/v1/git/session/${row.id}/${secret}/${row.provider}/${row.repo_owner}/${row.repo_name}.git`;
   return c.json({ remote_url: remoteUrl });
 });
 
 // Git CLI proxy endpoints
-gitRouter.all("/session/:id/:secret/github/:owner/:repo/*", async (c) => {
+// `<provider>/<owner>/<repo>.git/<git path>`; owner may span several
+// segments (nested groups), so the repository is matched against the session.
+gitRouter.all("/session/:id/:secret/:provider/*", async (c) => {
   const requestId = crypto.randomUUID().slice(0, 8);
   console.error(`[git-proxy:${requestId}] start ${c.req.method} ${c.req.url}`);
 
   const sessionId = c.req.param("id");
   const secret = c.req.param("secret");
-  const owner = c.req.param("owner");
-  const repoRaw = c.req.param("repo");
-  const repo = repoRaw.endsWith(".git") ? repoRaw.slice(0, -4) : repoRaw;
+  const providerId = c.req.param("provider");
 
-  // Derive the sub-path (e.g. /info/refs) from the full pathname.
-  // This is more robust than relying on Hono's splat param behavior.
+  // Derive the repository path from the full pathname rather than Hono's
+  // splat param.
   const pathname = new URL(c.req.url).pathname;
-  const prefix = `/v1/git/session/${sessionId}/${secret}/github/${owner}/${repoRaw}`;
-  let rest = pathname.startsWith(prefix) ? pathname.slice(prefix.length) : "";
-  if (!rest) {
-    const restParam = (c.req.param("*") ?? "").toString();
-    const restPath = (restParam.split("?", 1)[0] ?? "").trim();
-    rest = restPath
-      ? restPath.startsWith("/")
-        ? restPath
-        : `/${restPath}`
-      : "";
-  }
+  const marker = `/${sessionId}/${secret}/${providerId}/`;
+  const markerAt = pathname.indexOf(marker);
+  const repoPath =
+    markerAt === -1 ? "" : pathname.slice(markerAt + marker.length);
 
   const sess = await validateGitSessionSecret({ sessionId, secret });
   if (!sess) {
@@ -373,11 +917,18 @@ gitRouter.all("/session/:id/:secret/github/:owner/:repo/*", async (c) => {
   console.error(
     `[git-proxy:${requestId}] session valid status=${sess.status} operation=${sess.operation}`
   );
-  if (sess.provider !== "github") return c.text("forbidden", 403);
-  if (sess.repo_owner !== owner || sess.repo_name !== repo)
-    return c.text("forbidden", 403);
+  if (sess.provider !== providerId) return c.text("forbidden", 403);
+  const remote = getGitProvider(sess.provider)?.gitRemote;
+  if (!remote) return c.text("git provider unavailable", 503);
 
-  const path = rest;
+  const owner = sess.repo_owner;
+  const repo = sess.repo_name;
+  const repoPrefix = [`${owner}/${repo}.git/`, `${owner}/${repo}/`].find((p) =>
+    repoPath.startsWith(p)
+  );
+  if (!repoPrefix) return c.text("forbidden", 403);
+
+  const path = `/${repoPath.slice(repoPrefix.length)}`;
   if (!isAllowedGitPath(path)) return c.text("not found", 404);
   if (!methodAllowed(path, c.req.method))
     return c.text("method not allowed", 405);
@@ -386,12 +937,17 @@ gitRouter.all("/session/:id/:secret/github/:owner/:repo/*", async (c) => {
   if (sess.status === "DENIED") return c.text("denied", 403);
   if (sess.status === "EXPIRED") return c.text("expired", 408);
   if (sess.status === "USED") return c.text("used", 410);
+  if (sess.status === "REVOKED") return c.text("revoked", 403);
   if (sess.status !== "APPROVED" && sess.status !== "ACTIVE") {
     return c.text("not ready", 409);
   }
+  // Standing sessions end at expires_at even before the sweeper runs.
+  if (sess.expires_at && Date.now() > Date.parse(sess.expires_at)) {
+    return c.text("expired", 408);
+  }
 
   if (sess.status === "APPROVED") {
-    db()
+    await db()
       .query(
         "UPDATE git_sessions SET status = 'ACTIVE', updated_at = ? WHERE id = ? AND status = 'APPROVED';"
       )
@@ -403,29 +959,38 @@ gitRouter.all("/session/:id/:secret/github/:owner/:repo/*", async (c) => {
     path === "/info/refs"
       ? serviceFromQuery(c.req.url.split("?", 2)[1] ?? "")
       : null;
+  // Standing push sessions also fetch, so an agent can keep its branch in
+  // sync between pushes.
+  const canFetch = isReadOperation(sess.operation) || sess.standing === 1;
+  const canPush = sess.operation === "push";
   if (path === "/info/refs") {
     if (!service) return c.text("missing service", 400);
-    if (isReadOperation(sess.operation) && service !== "git-upload-pack") {
-      return c.text("forbidden", 403);
-    }
-    if (sess.operation === "push" && service !== "git-receive-pack") {
+    if (service === "git-upload-pack" ? !canFetch : !canPush) {
       return c.text("forbidden", 403);
     }
   }
 
-  if (isReadOperation(sess.operation) && path === "/git-receive-pack")
-    return c.text("forbidden", 403);
-  if (sess.operation === "push" && path === "/git-upload-pack")
-    return c.text("forbidden", 403);
+  if (!canPush && path === "/git-receive-pack") return c.text("forbidden", 403);
+  if (!canFetch && path === "/git-upload-pack") return c.text("forbidden", 403);
 
-  touchGitSessionActivity(sess.id);
+  await touchGitSessionActivity(sess.id);
 
-  const token = await getGitHubToken(sess.user_id);
+  let token: string | null;
+  try {
+    token = await getGitToken(sess, remote);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return c.text(
+      `${sess.provider} token unavailable: ${truncate(msg, 200)}`,
+      502
+    );
+  }
   if (!token && sess.operation === "push") {
-    return c.text("no github token", 409);
+    return c.text(`no ${sess.provider} token`, 409);
   }
 
-  const upstream = upstreamGitHubUrl({
+  const upstream = upstreamGitUrl({
+    remote,
     owner,
     repo,
     path,
@@ -434,7 +999,7 @@ gitRouter.all("/session/:id/:secret/github/:owner/:repo/*", async (c) => {
 
   const headers = new Headers();
   if (token) {
-    headers.set("authorization", basicAuthHeader(token));
+    headers.set("authorization", basicAuthHeader(remote.username, token));
   }
   const ct = c.req.header("content-type");
   if (ct) headers.set("content-type", ct);
@@ -446,6 +1011,8 @@ gitRouter.all("/session/:id/:secret/github/:owner/:repo/*", async (c) => {
   if (gitProto) headers.set("git-protocol", gitProto);
 
   // Push protections: inspect receive-pack command section (prefix) before forwarding.
+  const policy = pushPolicyFromRow(sess);
+  let cmds: ReceivePackCommand[] = [];
   let body: ReadableStream<Uint8Array> | null = null;
   if (path === "/git-receive-pack") {
     if (!c.req.raw.body) return c.text("missing body", 400);
@@ -464,7 +1031,7 @@ gitRouter.all("/session/:id/:secret/github/:owner/:repo/*", async (c) => {
       off += ch.byteLength;
     }
 
-    const cmds = parseReceivePackCommands(prefix);
+    cmds = parseReceivePackCommands(prefix);
     for (const cmd of cmds) {
       if (isAllZeroSha(cmd.newSha)) {
         return c.text("ref deletion is not allowed", 403);
@@ -494,7 +1061,8 @@ gitRouter.all("/session/:id/:secret/github/:owner/:repo/*", async (c) => {
       : null;
   }
 
-  // GitHub's smart HTTP endpoints are sensitive to transfer encoding.
+  // Smart HTTP servers (GitHub in particular) are sensitive to transfer
+  // encoding.
   // Buffer request bodies up to a hard cap and forward with Content-Length.
   // This keeps implementation simple and avoids chunked upload surprises.
   let bodyBytes: Uint8Array | null = null;
@@ -517,6 +1085,43 @@ gitRouter.all("/session/:id/:secret/github/:owner/:repo/*", async (c) => {
   }
   if (bodyBytes) headers.set("content-length", String(bodyBytes.byteLength));
 
+  // Session push policy; may need the pack itself (force-push and
+  // protected-path checks), so it runs on the buffered body.
+  if (path === "/git-receive-pack") {
+    const check = await checkPushPolicy({
+      policy,
+      commands: cmds,
+      advertisedBranches: await getAdvertisedBranches(sess.id),
+      packfile: bodyBytes ? extractReceivePackPackfile(bodyBytes) : null,
+      loadRemoteCommits: (commits) =>
+        fetchCommitTrees({
+          repoUrl: upstreamGitUrl({ remote, owner, repo, path: "", query: "" }),
+          authorization: headers.get("authorization"),
+          commits,
+        }),
+    });
+    if (!check.ok) {
+      console.error(
+        `[git-proxy:${requestId}] push policy denied: ${check.message}`
+      );
+      return c.text(check.message, 403);
+    }
+  }
+
+  if (path === "/git-receive-pack" && sess.review_push) {
+    const review = await holdPushForReview({
+      sess,
+      commands: cmds,
+      packfile: bodyBytes ? extractReceivePackPackfile(bodyBytes) : null,
+      signal: c.req.raw.signal,
+    });
+    if (!review.ok) {
+      console.error(`[git-proxy:${requestId}] push review: ${review.message}`);
+      return c.text(review.message, 403);
+    }
+    await touchGitSessionActivity(sess.id);
+  }
+
   const ctrl = new AbortController();
   const timeout = setTimeout(() => ctrl.abort(), 10 * 60_000);
   let res: Response;
@@ -551,17 +1156,30 @@ gitRouter.all("/session/:id/:secret/github/:owner/:repo/*", async (c) => {
 
   // For push, enforce one-time use only after upstream accepted the
   // receive-pack request. This avoids burning sessions on transient
-  // network/edge failures before the request reaches GitHub.
+  // network/edge failures before the request reaches the upstream.
   if (path === "/git-receive-pack" && res.ok) {
-    markGitSessionUsed(sess.id);
+    await markGitSessionUsed(sess.id);
   }
 
-  if (path === "/info/refs" && sess.operation === "push") {
+  // Rewritten /info/refs advertisement, when the push policy needs one.
+  let advertisement: Uint8Array | null = null;
+  if (path === "/info/refs" && service === "git-receive-pack") {
     // Attempt to store default branch ref for later enforcement.
     try {
       const buf = new Uint8Array(await res.clone().arrayBuffer());
       const headRef = extractSymrefHeadFromInfoRefs(buf.slice(0, 64 * 1024));
-      if (headRef) storeDefaultBranchRef({ sessionId: sess.id, ref: headRef });
+      if (headRef)
+        await storeDefaultBranchRef({ sessionId: sess.id, ref: headRef });
+      if (res.ok && policy.denyForcePush) {
+        await storeAdvertisedBranches({
+          sessionId: sess.id,
+          branches: parseAdvertisedBranches(buf),
+        });
+      }
+      if (res.ok && (policy.protectedPaths.length || sess.review_push)) {
+        // Ask for a self-contained pack so every pushed tree can be read.
+        advertisement = addAdvertisedCapability(buf, "no-thin");
+      }
     } catch {
       // ignore
     }
@@ -573,6 +1191,14 @@ gitRouter.all("/session/:id/:secret/github/:owner/:repo/*", async (c) => {
   const cacheControl = res.headers.get("cache-control");
   if (cacheControl) outHeaders.set("cache-control", cacheControl);
 
+  if (advertisement) {
+    await res.body?.cancel();
+    return new Response(new Uint8Array(advertisement), {
+      status: res.status,
+      headers: outHeaders,
+    });
+  }
+
   const responseBody = withByteLimit(
     res.body,
     200 * 1024 * 1024
@@ -2,18 +2,73 @@ import type { Context } from "hono";
 import { Hono } from "hono";
 import { z } from "zod";
 
+import {
+  describeLinkedAccount,
+  type LinkedAccount,
+  selectLinkedAccount,
+} from "../accounts/linked";
 import { auditEvent } from "../audit/audit";
-import { requireApiKey } from "../auth/apiKey";
+import type { AuditActor } from "../audit/events";
+import { type ApiKeyAuth, requireApiKey } from "../auth/apiKey";
+import { checkApiKeyScope } from "../auth/scopes";
 import { decryptUtf8 } from "../crypto/aesgcm";
 import { db } from "../db/client";
 import { env } from "../env";
-import { OAuthTokenRefreshError } from "../oauth/flow";
-import { hasAlwaysAllowRule } from "../proxy/alwaysAllow";
-import { interpretProxyRequest } from "../proxy/interpret";
+import {
+  describeApprovalWindow,
+  resolveApprovalTtlSeconds,
+} from "../proxy/approvalTtl";
+import {
+  attachRequestToBatch,
+  createProxyBatch,
+  findProxyBatchByIdempotencyKey,
+  getProxyBatchForUser,
+  listProxyBatchItems,
+  MAX_BATCH_ITEMS,
+  type ProxyBatch,
+  setProxyBatchStatus,
+} from "../proxy/batches";
+import {
+  effectiveResponseByteCap,
+  fetchUpstreamForProxyRequest,
+  fetchWithAllowedRedirects,
+  ProxyExecutionError,
+  responseByteCap,
+} from "../proxy/execute";
+import {
+  APPROVAL_GRANT_PRESETS,
+  type ApprovalGrantUse,
+  consumeApprovalGrant,
+  describeApprovalGrantUse,
+} from "../proxy/grants";
+import {
+  type InterpretedRequest,
+  interpretProxyRequest,
+} from "../proxy/interpret";
+import { waitForProxyRequestDecision } from "../proxy/notify";
+import { evaluateProxyPolicy, type PolicyMatch } from "../proxy/policy";
 import type { ProxyProvider } from "../proxy/provider";
 import { getProxyProviderForUrl } from "../proxy/providerRegistry";
-import { readBodyWithLimit } from "../proxy/readLimit";
+import { readBodyWithLimit, streamBodyWithLimit } from "../proxy/readLimit";
+import {
+  loadRedaction,
+  type Redaction,
+  redactBodySummary,
+  redactHeaders,
+  redactJson,
+  redactText,
+  redactUrl,
+  redactUrlParams,
+} from "../proxy/redaction";
 import { createProxyRequest } from "../proxy/requests";
+import {
+  startExecutionOnApproval,
+  takeProxyRequestResult,
+} from "../proxy/results";
+import {
+  APPROVAL_EXPIRY_ACTOR,
+  transitionProxyRequests,
+} from "../proxy/transitions";
 import { validateUpstreamUrl } from "../proxy/url";
 import { telegramApi } from "../telegram/api";
 
@@ -24,8 +79,103 @@ const CreateProxyRequestSchema = z.object({
   body: z.unknown().optional(),
   consent_hint: z.string().optional(),
   idempotency_key: z.string().optional(),
+  // Pipe the upstream body through at execute time instead of buffering it.
+  stream_response: z.boolean().optional().default(false),
+  // Run the upstream call as soon as the request is approved and keep the
+  // response for one-time retrieval via /requests/:id/result.
+  execute_on_approval: z.boolean().optional().default(false),
+  max_response_bytes: z.number().int().positive().optional(),
+  // Linked account to act as: account id, provider_user_id or label.
+  // Required when several accounts are linked for the provider.
+  account: z.string().min(1).max(200).optional(),
+  // How long the request waits for a decision (bounded by key/server maxima).
+  approval_ttl_seconds: z.number().int().positive().optional(),
 });
 
+// Relay the upstream response to the caller and record the outcome on the
+// proxy request. Buffered mode reads the whole body first (so an oversized
+// body surfaces as a JSON error); stream mode forwards bytes as they arrive
+// and records status/bytes once the stream finishes or aborts.
+async function relayUpstreamResponse(params: {
+  requestId: string;
+  res: Response;
+  responseMode: string;
+  maxBytes: number;
+  actor: AuditActor;
+}): Promise<Response> {
+  const res = params.res;
+  const contentType = res.headers.get("content-type");
+
+  const record = async (
+    bytes: number,
+    failure?: { code: string; message?: string }
+  ) => {
+    const errorCode =
+      failure?.code ??
+      (res.status >= 200 && res.status < 300
+        ? null
+        : `UPSTREAM_HTTP_${res.status}`);
+    const terminalStatus = errorCode ? "FAILED" : "SUCCEEDED";
+
+    await transitionProxyRequests({
+      requestId: params.requestId,
+      from: "EXECUTING",
+      to: terminalStatus,
+      errorCode,
+      errorMessage: failure?.message,
+      upstream: { httpStatus: res.status, contentType, bytes },
+      actor: params.actor,
+      detail: { response_mode: params.responseMode },
+    });
+  };
+
+  const outHeaders = new Headers();
+  outHeaders.set("X-Proxy-Request-Id", params.requestId);
+  if (contentType) outHeaders.set("Content-Type", contentType);
+
+  if (params.responseMode !== "stream") {
+    const body = await readBodyWithLimit(res.body, params.maxBytes);
+    await record(body.byteLength);
+
+    const ab = body.buffer.slice(
+      body.byteOffset,
+      body.byteOffset + body.byteLength
+    );
+    return new Response(ab, { status: res.status, headers: outHeaders });
+  }
+
+  // Fail fast when upstream declares a body larger than the cap.
+  const declaredLength = Number(res.headers.get("content-length") ?? "");
+  if (Number.isFinite(declaredLength) && declaredLength > params.maxBytes) {
+    await res.body?.cancel().catch(() => {});
+    throw new Error("response_too_large");
+  }
+
+  const body = streamBodyWithLimit({
+    body: res.body,
+    maxBytes: params.maxBytes,
+    // Fires once the body has gone out, so a failure here is only logged.
+    onDone: (outcome) => {
+      let failure: { code: string; message?: string } | undefined;
+      if (outcome.error) {
+        const code =
+          outcome.error === "response_too_large"
+            ? "RESPONSE_TOO_LARGE"
+            : outcome.error === "aborted"
+              ? "STREAM_ABORTED"
+              : "UPSTREAM_FAILED";
+        failure = { code, message: outcome.message };
+      }
+      record(outcome.bytes, failure).catch((err) => {
+        console.error("recording streamed response failed", err);
+      });
+    },
+  });
+
+  outHeaders.set("X-Proxy-Response-Mode", "stream");
+  return new Response(body, { status: res.status, headers: outHeaders });
+}
+
 function normalizeHeaders(
   providerExtraAllowed: Set<string>,
   headers: Record<string, string> | undefined
@@ -176,6 +326,14 @@ function truncate(s: string, max: number): string {
   return `${s.slice(0, max - 1)}…`;
 }
 
+function formatBytes(n: number): string {
+  if (n >= 1024 * 1024 * 1024)
+    return `${(n / (1024 * 1024 * 1024)).toFixed(1)} GiB`;
+  if (n >= 1024 * 1024) return `${(n / (1024 * 1024)).toFixed(1)} MiB`;
+  if (n >= 1024) return `${(n / 1024).toFixed(1)} KiB`;
+  return `${n} B`;
+}
+
 function escapeHtml(s: string): string {
   return s
     .replaceAll("&", "&amp;")
@@ -198,53 +356,6 @@ function getRequesterIp(c: Context): string | null {
   return null;
 }
 
-async function fetchWithAllowedRedirects(params: {
-  url: string;
-  init: RequestInit;
-  maxRedirects: number;
-  provider: ProxyProvider;
-  userId: string;
-  storedCredential: string;
-}): Promise<Response> {
-  let current = new URL(params.url);
-
-  for (let i = 0; i <= params.maxRedirects; i++) {
-    const res = await fetch(current.toString(), {
-      ...params.init,
-      redirect: "manual",
-    });
-
-    if (
-      res.status === 301 ||
-      res.status === 302 ||
-      res.status === 303 ||
-      res.status === 307 ||
-      res.status === 308
-    ) {
-      const loc = res.headers.get("location");
-      if (!loc) return res;
-      const next = new URL(loc, current);
-      if (next.protocol !== "https:") throw new Error("redirect to non-https");
-
-      const allow = await params.provider.isAllowedUpstreamUrl({
-        userId: params.userId,
-        url: next,
-        storedCredential: params.storedCredential,
-      });
-      if (!allow.allowed) {
-        throw new Error("redirect disallowed");
-      }
-
-      current = next;
-      continue;
-    }
-
-    return res;
-  }
-
-  throw new Error("too many redirects");
-}
-
 async function maybeLookupIcloudCollectionDisplayName(params: {
   objectUrl: URL;
   provider: ProxyProvider;
@@ -343,28 +454,83 @@ function formatQueryForTelegram(url: URL): string {
   return `<b>Query</b>:\n<pre>${escapeHtml(rendered)}</pre>`;
 }
 
-export const proxyRouter = new Hono();
+// Interpret a prepared request for the approval prompt. Interpreters only
+// see redacted input, and their output is redacted again since it may quote
+// path segments or body fields verbatim.
+function interpretForPrompt(params: {
+  prepared: PreparedProxyRequest;
+  url: URL;
+  redaction: Redaction;
+}): InterpretedRequest {
+  const { prepared, redaction } = params;
+  const { bodyJson, bodyText } = prepared.decoded;
+  const interpreted = interpretProxyRequest({
+    url: redactUrlParams(redaction, params.url),
+    method: prepared.method,
+    headers: redactHeaders(redaction, prepared.headers),
+    bodyJson:
+      bodyJson === undefined ? undefined : redactJson(redaction, bodyJson),
+    bodyText:
+      bodyText === undefined
+        ? undefined
+        : redactBodySummary(redaction, {
+            contentType: prepared.headers["content-type"],
+            bodyJson,
+            bodySummary: bodyText,
+          }),
+    storedCredential:
+      prepared.provider.id === "icloud" ? prepared.storedCredential : undefined,
+  });
+  return {
+    summary: redactText(redaction, interpreted.summary),
+    details: interpreted.details.map((d) => redactText(redaction, d)),
+  };
+}
 
-proxyRouter.get("/requests/:id", requireApiKey, (c) => {
-  const auth = c.get("apiKeyAuth");
-  const requestId = c.req.param("id");
+function renderMatchedRule(m: PolicyMatch): {
+  rule_id: string;
+  source: string;
+  effect: string;
+} {
+  return { rule_id: m.ruleId, source: m.source, effect: m.effect };
+}
 
-  const row = db()
+export const proxyRouter = new Hono();
+
+type ProxyRequestStatusRow = {
+  id: string;
+  status: string;
+  approval_expires_at: string;
+  error_code: string | null;
+  error_message: string | null;
+  upstream_http_status: number | null;
+  upstream_content_type: string | null;
+  upstream_bytes: number | null;
+  execute_on_approval: number;
+  result_state: string;
+};
+
+async function getProxyRequestStatusRow(params: {
+  requestId: string;
+  userId: string;
+  apiKeyId: string;
+}): Promise<ProxyRequestStatusRow | null> {
+  return (await db()
     .query(
-      "SELECT id, status, approval_expires_at, error_code, error_message, upstream_http_status, upstream_content_type, upstream_bytes FROM proxy_requests WHERE id = ? AND user_id = ? AND api_key_id = ?;"
+      "SELECT id, status, approval_expires_at, error_code, error_message, upstream_http_status, upstream_content_type, upstream_bytes, execute_on_approval, result_state FROM proxy_requests WHERE id = ? AND user_id = ? AND api_key_id = ?;"
     )
-    .get(requestId, auth.userId, auth.apiKeyId) as {
-    id: string;
-    status: string;
-    approval_expires_at: string;
-    error_code: string | null;
-    error_message: string | null;
-    upstream_http_status: number | null;
-    upstream_content_type: string | null;
-    upstream_bytes: number | null;
-  } | null;
+    .get(
+      params.requestId,
+      params.userId,
+      params.apiKeyId
+    )) as ProxyRequestStatusRow | null;
+}
 
-  if (!row) return c.json({ error: "forbidden" }, 403);
+function respondWithStatus(c: Context, row: ProxyRequestStatusRow) {
+  // Only execute_on_approval requests have a stored result to report on.
+  const resultState = row.execute_on_approval
+    ? { result_state: row.result_state }
+    : {};
 
   if (
     row.status === "PENDING_APPROVAL" ||
@@ -399,6 +565,7 @@ proxyRouter.get("/requests/:id", requireApiKey, (c) => {
       upstream_http_status: row.upstream_http_status,
       upstream_content_type: row.upstream_content_type,
       upstream_bytes: row.upstream_bytes,
+      ...resultState,
     });
   }
 
@@ -409,21 +576,147 @@ proxyRouter.get("/requests/:id", requireApiKey, (c) => {
       upstream_http_status: row.upstream_http_status,
       upstream_content_type: row.upstream_content_type,
       upstream_bytes: row.upstream_bytes,
+      ...resultState,
     });
   }
 
   return c.json({ error: "unknown_status", status: row.status }, 500);
+}
+
+proxyRouter.get("/requests/:id", requireApiKey, async (c) => {
+  const auth = c.get("apiKeyAuth");
+  const row = await getProxyRequestStatusRow({
+    requestId: c.req.param("id"),
+    userId: auth.userId,
+    apiKeyId: auth.apiKeyId,
+  });
+
+  if (!row) return c.json({ error: "forbidden" }, 403);
+  return respondWithStatus(c, row);
+});
+
+const WAIT_DEFAULT_TIMEOUT_SECONDS = 30;
+const WAIT_MAX_TIMEOUT_SECONDS = 60;
+
+// Long-poll variant of GET /requests/:id: holds the connection while the
+// request is PENDING_APPROVAL and returns as soon as it is decided or expires.
+// For execute_on_approval requests it keeps waiting until the result is stored.
+proxyRouter.get("/requests/:id/wait", requireApiKey, async (c) => {
+  const auth = c.get("apiKeyAuth");
+  const requestId = c.req.param("id");
+
+  const rawTimeout = c.req.query("timeout");
+  const timeoutSeconds =
+    rawTimeout == null ? WAIT_DEFAULT_TIMEOUT_SECONDS : Number(rawTimeout);
+  if (!Number.isFinite(timeoutSeconds) || timeoutSeconds < 0) {
+    return c.json(
+      { error: "invalid_request", message: "invalid timeout" },
+      400
+    );
+  }
+
+  const lookup = async () =>
+    getProxyRequestStatusRow({
+      requestId,
+      userId: auth.userId,
+      apiKeyId: auth.apiKeyId,
+    });
+
+  const stillWaiting = (r: ProxyRequestStatusRow) =>
+    r.status === "PENDING_APPROVAL" ||
+    (r.execute_on_approval === 1 &&
+      (r.status === "APPROVED" || r.status === "EXECUTING"));
+
+  const deadline =
+    Date.now() + Math.min(timeoutSeconds, WAIT_MAX_TIMEOUT_SECONDS) * 1000;
+
+  let row = await lookup();
+  while (row && stillWaiting(row) && Date.now() < deadline) {
+    const notified = await waitForProxyRequestDecision({
+      requestId,
+      timeoutMs: deadline - Date.now(),
+      signal: c.req.raw.signal,
+    });
+    row = await lookup();
+    if (!notified) break;
+  }
+
+  if (!row) return c.json({ error: "forbidden" }, 403);
+  return respondWithStatus(c, row);
+});
+
+// One-time retrieval of the stored response of an execute_on_approval request.
+proxyRouter.get("/requests/:id/result", requireApiKey, async (c) => {
+  const auth = c.get("apiKeyAuth");
+  const row = await getProxyRequestStatusRow({
+    requestId: c.req.param("id"),
+    userId: auth.userId,
+    apiKeyId: auth.apiKeyId,
+  });
+
+  if (!row) return c.json({ error: "forbidden" }, 403);
+  if (!row.execute_on_approval) {
+    return c.json(
+      {
+        error: "invalid_request",
+        message: "request was not created with execute_on_approval",
+        request_id: row.id,
+      },
+      400
+    );
+  }
+  if (row.status !== "SUCCEEDED" && row.status !== "FAILED") {
+    return respondWithStatus(c, row);
+  }
+
+  const taken = await takeProxyRequestResult(row.id);
+  if (!taken.ok) {
+    if (taken.reason === "consumed") {
+      return c.json({ error: "result_consumed", request_id: row.id }, 410);
+    }
+    if (taken.reason === "expired") {
+      return c.json({ error: "result_expired", request_id: row.id }, 410);
+    }
+    // Failed before reaching upstream; nothing was stored.
+    return c.json(
+      {
+        error: "execution_failed",
+        request_id: row.id,
+        error_code: row.error_code,
+        error_message: row.error_message,
+      },
+      502
+    );
+  }
+
+  await auditEvent({
+    userId: auth.userId,
+    requestId: row.id,
+    actorType: "api_key",
+    actorId: auth.apiKeyId,
+    eventType: "proxy_request_result_retrieved",
+    event: { bytes: taken.body.byteLength },
+  });
+
+  const outHeaders = new Headers();
+  outHeaders.set("X-Proxy-Request-Id", row.id);
+  if (taken.contentType) outHeaders.set("Content-Type", taken.contentType);
+  const ab = taken.body.buffer.slice(
+    taken.body.byteOffset,
+    taken.body.byteOffset + taken.body.byteLength
+  );
+  return new Response(ab, { status: taken.httpStatus, headers: outHeaders });
 });
 
 proxyRouter.post("/requests/:id/execute", requireApiKey, async (c) => {
   const auth = c.get("apiKeyAuth");
   const requestId = c.req.param("id");
 
-  const row = db()
+  const row = (await db()
     .query(
-      "SELECT id, user_id, api_key_id, status, approval_expires_at, upstream_url, method, request_headers_json, request_body_base64 FROM proxy_requests WHERE id = ? AND user_id = ? AND api_key_id = ?;"
+      "SELECT id, user_id, api_key_id, status, approval_expires_at, upstream_url, method, request_headers_json, request_body_base64, response_mode, max_response_bytes, execute_on_approval, linked_account_id FROM proxy_requests WHERE id = ? AND user_id = ? AND api_key_id = ?;"
     )
-    .get(requestId, auth.userId, auth.apiKeyId) as {
+    .get(requestId, auth.userId, auth.apiKeyId)) as {
     id: string;
     user_id: string;
     api_key_id: string;
@@ -433,10 +726,26 @@ proxyRouter.post("/requests/:id/execute", requireApiKey, async (c) => {
     method: string;
     request_headers_json: string | null;
     request_body_base64: string | null;
+    response_mode: string;
+    max_response_bytes: number | null;
+    execute_on_approval: number;
+    linked_account_id: string | null;
   } | null;
 
   if (!row) return c.json({ error: "forbidden" }, 403);
 
+  if (row.execute_on_approval) {
+    return c.json(
+      {
+        error: "execute_on_approval",
+        message:
+          "the broker executes this request itself; fetch GET /v1/proxy/requests/:id/result",
+        request_id: row.id,
+      },
+      409
+    );
+  }
+
   if (row.status === "PENDING_APPROVAL") {
     c.header("Retry-After", "1");
     return c.json({ error: "pending_approval", request_id: row.id }, 202);
@@ -466,308 +775,120 @@ proxyRouter.post("/requests/:id/execute", requireApiKey, async (c) => {
   // Handle edge case: approval expired but sweeper has not run.
   const exp = Date.parse(row.approval_expires_at);
   if (Number.isFinite(exp) && Date.now() > exp) {
-    db()
-      .query(
-        "UPDATE proxy_requests SET status = 'EXPIRED', updated_at = ?, error_code = 'APPROVAL_EXPIRED' WHERE id = ? AND status = 'APPROVED';"
-      )
-      .run(new Date().toISOString(), row.id);
+    await transitionProxyRequests({
+      requestId: row.id,
+      from: "APPROVED",
+      to: "EXPIRED",
+      errorCode: "APPROVAL_EXPIRED",
+      actor: APPROVAL_EXPIRY_ACTOR,
+    });
     return c.json({ error: "approval_expired", request_id: row.id }, 408);
   }
 
-  const claimRun = db()
-    .query(
-      "UPDATE proxy_requests SET status = 'EXECUTING', updated_at = ? WHERE id = ? AND status = 'APPROVED' AND api_key_id = ?;"
-    )
-    .run(new Date().toISOString(), row.id, auth.apiKeyId);
-
-  const claimed =
-    typeof claimRun.changes === "number" ? claimRun.changes === 1 : false;
+  const actor: AuditActor = { actorType: "api_key", actorId: auth.apiKeyId };
+  const claimed = await transitionProxyRequests({
+    requestId: row.id,
+    apiKeyId: auth.apiKeyId,
+    from: "APPROVED",
+    to: "EXECUTING",
+    actor,
+  });
 
-  if (!claimed) {
+  if (claimed.length !== 1) {
     c.header("Retry-After", "1");
     return c.json({ error: "executing", request_id: row.id }, 409);
   }
 
   try {
-    // Test-only escape hatch: allow executing against a stub upstream without OAuth.
-    // This is enabled by the test script (PB_TEST_BYPASS_OAUTH=1) and should not be used in production.
-    if (env.NODE_ENV === "test" && env.PB_TEST_BYPASS_OAUTH) {
-      const ctrl = new AbortController();
-      const timeout = setTimeout(() => ctrl.abort(), 60_000);
-      let res: Response;
-      try {
-        res = await fetch(row.upstream_url, {
-          method: "GET",
-          signal: ctrl.signal,
-        });
-      } finally {
-        clearTimeout(timeout);
-      }
-
-      const contentType = res.headers.get("content-type");
-      const body = await readBodyWithLimit(res.body, 1024 * 1024);
-      const terminalStatus =
-        res.status >= 200 && res.status < 300 ? "SUCCEEDED" : "FAILED";
-      const errorCode =
-        terminalStatus === "FAILED" ? `UPSTREAM_HTTP_${res.status}` : null;
-
-      db()
-        .query(
-          "UPDATE proxy_requests SET status = ?, updated_at = ?, upstream_http_status = ?, upstream_content_type = ?, upstream_bytes = ?, error_code = ?, error_message = NULL WHERE id = ?;"
-        )
-        .run(
-          terminalStatus,
-          new Date().toISOString(),
-          res.status,
-          contentType,
-          body.byteLength,
-          errorCode,
-          row.id
-        );
-
-      const outHeaders = new Headers();
-      outHeaders.set("X-Proxy-Request-Id", row.id);
-      if (contentType) outHeaders.set("Content-Type", contentType);
-      const ab = body.buffer.slice(
-        body.byteOffset,
-        body.byteOffset + body.byteLength
-      );
-      return new Response(ab, { status: res.status, headers: outHeaders });
-    }
-
-    const url = new URL(row.upstream_url);
-    const provider = getProxyProviderForUrl(url);
-
-    const acct = db()
-      .query(
-        "SELECT refresh_token_ciphertext FROM linked_accounts WHERE user_id = ? AND provider = ? AND status = 'active' LIMIT 1;"
-      )
-      .get(auth.userId, provider.id) as {
-      refresh_token_ciphertext: Uint8Array;
-    } | null;
-
-    if (!acct) {
-      db()
-        .query(
-          "UPDATE proxy_requests SET status = 'FAILED', updated_at = ?, error_code = 'NO_LINKED_ACCOUNT' WHERE id = ?;"
-        )
-        .run(new Date().toISOString(), row.id);
-      return c.json(
-        {
-          error: "no_linked_account",
-          provider: provider.id,
-          request_id: row.id,
-        },
-        409
-      );
-    }
-
-    if (!env.APP_SECRET) {
-      db()
-        .query(
-          "UPDATE proxy_requests SET status = 'FAILED', updated_at = ?, error_code = 'APP_SECRET_NOT_CONFIGURED' WHERE id = ?;"
-        )
-        .run(new Date().toISOString(), row.id);
-      return c.json({ error: "server_misconfigured", request_id: row.id }, 500);
-    }
-
-    const storedCredential = await decryptUtf8(acct.refresh_token_ciphertext);
-
-    const method = (row.method || "GET").toUpperCase();
-    if (!provider.allowedMethods.has(method)) {
-      db()
-        .query(
-          "UPDATE proxy_requests SET status = 'FAILED', updated_at = ?, error_code = 'METHOD_NOT_ALLOWED' WHERE id = ?;"
-        )
-        .run(new Date().toISOString(), row.id);
-      return c.json({ error: "invalid_request", request_id: row.id }, 400);
-    }
-
-    const allow = await provider.isAllowedUpstreamUrl({
-      userId: auth.userId,
-      url,
-      storedCredential,
-    });
-    if (!allow.allowed) {
-      db()
-        .query(
-          "UPDATE proxy_requests SET status = 'FAILED', updated_at = ?, error_code = 'DISALLOWED_UPSTREAM_URL', error_message = ? WHERE id = ?;"
-        )
-        .run(new Date().toISOString(), allow.message ?? null, row.id);
-      return c.json({ error: "invalid_upstream_url", request_id: row.id }, 400);
-    }
+    const { res, provider } = await fetchUpstreamForProxyRequest(row, actor);
 
-    let authorization: string;
-    try {
-      authorization = await provider.getAuthorizationHeaderValue({
-        storedCredential,
-      });
-    } catch (err) {
-      const now = new Date().toISOString();
-
-      if (err instanceof OAuthTokenRefreshError) {
-        const msg = [
-          `provider=${err.providerId}`,
-          err.status != null ? `status=${err.status}` : "",
-          err.oauthError ? `error=${err.oauthError}` : "",
-          err.oauthErrorDescription
-            ? `description=${err.oauthErrorDescription}`
-            : "",
-        ]
-          .filter(Boolean)
-          .join(" ");
-
-        db()
-          .query(
-            "UPDATE proxy_requests SET status = 'FAILED', updated_at = ?, error_code = 'OAUTH_REFRESH_FAILED', error_message = ? WHERE id = ?;"
-          )
-          .run(now, msg || err.message, row.id);
-
-        return c.json(
-          {
-            error: "oauth_refresh_failed",
-            provider: err.providerId,
-            status: err.status,
-            request_id: row.id,
-          },
-          502
-        );
-      }
-
-      const em = err instanceof Error ? err.message : String(err);
-      db()
-        .query(
-          "UPDATE proxy_requests SET status = 'FAILED', updated_at = ?, error_code = 'AUTH_FAILED', error_message = ? WHERE id = ?;"
-        )
-        .run(now, em, row.id);
-      return c.json({ error: "auth_failed", request_id: row.id }, 502);
-    }
-
-    let reqHeaders: Record<string, string> = {};
-    if (row.request_headers_json) {
-      try {
-        reqHeaders = JSON.parse(row.request_headers_json) as Record<
-          string,
-          string
-        >;
-      } catch {
-        reqHeaders = {};
-      }
-    }
-
-    // Never allow caller-provided Authorization.
-    delete (reqHeaders as Record<string, string>).authorization;
-
-    // Internal broker hints (not forwarded upstream).
-    delete (reqHeaders as Record<string, string>)["x-pb-timezone"];
-
-    provider.applyUpstreamRequestHeaderDefaults({ headers: reqHeaders });
-
-    const upstreamHeaders = new Headers();
-    for (const [k, v] of Object.entries(reqHeaders)) {
-      upstreamHeaders.set(k, v);
-    }
-    upstreamHeaders.set("authorization", authorization);
-
-    const bodyBytes = row.request_body_base64
-      ? Buffer.from(row.request_body_base64, "base64")
-      : null;
-
-    const ctrl = new AbortController();
-    const timeout = setTimeout(() => ctrl.abort(), 60_000);
-    let res: Response;
-    try {
-      res = await fetchWithAllowedRedirects({
-        url: row.upstream_url,
-        init: {
-          method,
-          headers: upstreamHeaders,
-          body: bodyBytes,
-          signal: ctrl.signal,
-        },
-        maxRedirects: 5,
-        provider,
-        userId: auth.userId,
-        storedCredential,
-      });
-    } finally {
-      clearTimeout(timeout);
-    }
-
-    const contentType = res.headers.get("content-type");
-    const body = await readBodyWithLimit(res.body, 1024 * 1024);
-
-    const terminalStatus =
-      res.status >= 200 && res.status < 300 ? "SUCCEEDED" : "FAILED";
-    const errorCode =
-      terminalStatus === "FAILED" ? `UPSTREAM_HTTP_${res.status}` : null;
-
-    db()
-      .query(
-        "UPDATE proxy_requests SET status = ?, updated_at = ?, upstream_http_status = ?, upstream_content_type = ?, upstream_bytes = ?, error_code = ?, error_message = NULL WHERE id = ?;"
-      )
-      .run(
-        terminalStatus,
-        new Date().toISOString(),
-        res.status,
-        contentType,
-        body.byteLength,
-        errorCode,
-        row.id
-      );
-
-    auditEvent({
-      userId: auth.userId,
+    return await relayUpstreamResponse({
       requestId: row.id,
-      actorType: "api_key",
-      actorId: auth.apiKeyId,
-      eventType: "proxy_request_executed",
-      event: { upstream_status: res.status, bytes: body.byteLength },
+      res,
+      responseMode: row.response_mode,
+      maxBytes: effectiveResponseByteCap({
+        responseMode: row.response_mode,
+        requested: row.max_response_bytes,
+        provider,
+      }),
+      actor,
     });
-
-    const outHeaders = new Headers();
-    outHeaders.set("X-Proxy-Request-Id", row.id);
-    if (contentType) outHeaders.set("Content-Type", contentType);
-
-    const ab = body.buffer.slice(
-      body.byteOffset,
-      body.byteOffset + body.byteLength
-    );
-    return new Response(ab, { status: res.status, headers: outHeaders });
   } catch (err) {
+    if (err instanceof ProxyExecutionError) {
+      return c.json(err.body, err.httpStatus);
+    }
+
     const msg = err instanceof Error ? err.message : String(err);
     const errorCode =
       msg === "response_too_large" ? "RESPONSE_TOO_LARGE" : "UPSTREAM_FAILED";
-    db()
-      .query(
-        "UPDATE proxy_requests SET status = 'FAILED', updated_at = ?, error_code = ?, error_message = ? WHERE id = ?;"
-      )
-      .run(new Date().toISOString(), errorCode, msg, row.id);
+    await transitionProxyRequests({
+      requestId: row.id,
+      from: "EXECUTING",
+      to: "FAILED",
+      errorCode,
+      errorMessage: msg,
+      actor,
+    });
     return c.json({ error: "execution_failed", request_id: row.id }, 502);
   }
 });
 
-proxyRouter.post("/request", requireApiKey, async (c) => {
-  const auth = c.get("apiKeyAuth");
-  const raw = await c.req.json().catch(() => null);
-  const parsed = CreateProxyRequestSchema.safeParse(raw);
-  if (!parsed.success) return c.json({ error: "invalid_request" }, 400);
+type PreparedProxyRequest = {
+  upstreamUrl: string;
+  url: URL;
+  provider: ProxyProvider;
+  method: string;
+  headers: Record<string, string>;
+  bodyBase64?: string;
+  decoded: ReturnType<typeof decodeBodyForInterpret>;
+  storedCredential?: string;
+  linkedAccount: LinkedAccount | null;
+  responseMode: "buffer" | "stream";
+  responseCap: number;
+  maxResponseBytes?: number;
+  executeOnApproval: boolean;
+};
+
+type PrepareResult =
+  | { ok: true; prepared: PreparedProxyRequest }
+  | {
+      ok: false;
+      status: 400 | 403 | 409 | 500;
+      body: {
+        error: string;
+        message?: string;
+        provider?: string;
+        accounts?: { id: string; label: string | null }[];
+      };
+    };
 
+// Validate and normalize a single proxy request payload (URL, provider,
+// method, headers, body). Shared by /request and /batches.
+async function prepareProxyRequest(params: {
+  auth: ApiKeyAuth;
+  input: z.infer<typeof CreateProxyRequestSchema>;
+}): Promise<PrepareResult> {
   const {
     upstream_url: upstreamUrl,
     method,
     headers,
     body,
-    consent_hint: consentHint,
-    idempotency_key: idempotencyKey,
-  } = parsed.data;
+    stream_response: streamResponse,
+    max_response_bytes: maxResponseBytes,
+    execute_on_approval: executeOnApproval,
+    account: accountSelector,
+  } = params.input;
 
   let validatedUrl: URL;
   try {
     validatedUrl = validateUpstreamUrl(upstreamUrl);
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
-    return c.json({ error: "invalid_upstream_url", message: msg }, 400);
+    return {
+      ok: false,
+      status: 400,
+      body: { error: "invalid_upstream_url", message: msg },
+    };
   }
 
   let provider: ReturnType<typeof getProxyProviderForUrl>;
@@ -775,38 +896,126 @@ proxyRouter.post("/request", requireApiKey, async (c) => {
     provider = getProxyProviderForUrl(validatedUrl);
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
-    return c.json({ error: "invalid_upstream_url", message: msg }, 400);
+    return {
+      ok: false,
+      status: 400,
+      body: { error: "invalid_upstream_url", message: msg },
+    };
   }
 
   const methodNorm = method.trim().toUpperCase();
   if (!/^[A-Z]+$/.test(methodNorm) || methodNorm.length > 20) {
-    return c.json({ error: "invalid_request", message: "invalid method" }, 400);
+    return {
+      ok: false,
+      status: 400,
+      body: { error: "invalid_request", message: "invalid method" },
+    };
   }
   if (!provider.allowedMethods.has(methodNorm)) {
-    return c.json(
-      {
+    return {
+      ok: false,
+      status: 400,
+      body: {
         error: "invalid_request",
         message: `method not allowed for provider: ${provider.id}`,
       },
-      400
-    );
+    };
+  }
+
+  // Key scopes are checked before anything else touches linked accounts or
+  // reaches Telegram.
+  const scopeCheck = checkApiKeyScope(params.auth.scope, {
+    providerId: provider.id,
+    method: methodNorm,
+    url: validatedUrl,
+  });
+  if (!scopeCheck.allowed) {
+    await auditEvent({
+      userId: params.auth.userId,
+      actorType: "api_key",
+      actorId: params.auth.apiKeyId,
+      eventType: "api_key_scope_violation",
+      event: {
+        method: methodNorm,
+        upstream_url: upstreamUrl,
+        reason: scopeCheck.reason,
+      },
+    });
+    return {
+      ok: false,
+      status: 403,
+      body: { error: "out_of_scope", message: scopeCheck.reason },
+    };
   }
 
+  if (executeOnApproval && streamResponse) {
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        error: "invalid_request",
+        message: "execute_on_approval cannot be combined with stream_response",
+      },
+    };
+  }
+
+  const responseMode = streamResponse ? "stream" : "buffer";
+  const responseCap = responseByteCap({ responseMode, provider });
+  if (maxResponseBytes != null && maxResponseBytes > responseCap) {
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        error: "invalid_request",
+        message: `max_response_bytes exceeds the ${responseMode} limit for provider ${provider.id} (${responseCap})`,
+      },
+    };
+  }
+
+  const selection = await selectLinkedAccount({
+    userId: params.auth.userId,
+    provider: provider.id,
+    selector: accountSelector,
+  });
+  if (!selection.ok) {
+    return {
+      ok: false,
+      status: 409,
+      body: {
+        error: selection.error,
+        message: selection.message,
+        provider: provider.id,
+        accounts: selection.accounts,
+      },
+    };
+  }
+  const linkedAccount = selection.account;
+
   let storedCredentialForValidation: string | undefined;
   if (provider.id === "icloud") {
     if (!env.APP_SECRET) {
-      return c.json({ error: "server_misconfigured" }, 500);
+      return {
+        ok: false,
+        status: 500,
+        body: { error: "server_misconfigured" },
+      };
     }
 
-    const acct = db()
-      .query(
-        "SELECT refresh_token_ciphertext FROM linked_accounts WHERE user_id = ? AND provider = ? AND status = 'active' LIMIT 1;"
-      )
-      .get(auth.userId, provider.id) as {
-      refresh_token_ciphertext: Uint8Array;
-    } | null;
+    const acct = linkedAccount
+      ? ((await db()
+          .query(
+            "SELECT refresh_token_ciphertext FROM linked_accounts WHERE id = ? AND status = 'active';"
+          )
+          .get(linkedAccount.id)) as {
+          refresh_token_ciphertext: Uint8Array;
+        } | null)
+      : null;
     if (!acct) {
-      return c.json({ error: "no_linked_account", provider: provider.id }, 409);
+      return {
+        ok: false,
+        status: 409,
+        body: { error: "no_linked_account", provider: provider.id },
+      };
     }
 
     storedCredentialForValidation = await decryptUtf8(
@@ -815,33 +1024,21 @@ proxyRouter.post("/request", requireApiKey, async (c) => {
   }
 
   const allow = await provider.isAllowedUpstreamUrl({
-    userId: auth.userId,
+    userId: params.auth.userId,
     url: validatedUrl,
     storedCredential: storedCredentialForValidation,
   });
   if (!allow.allowed) {
-    return c.json(
-      {
+    return {
+      ok: false,
+      status: 400,
+      body: {
         error: "invalid_upstream_url",
         message: allow.message ?? "disallowed upstream url",
       },
-      400
-    );
+    };
   }
 
-  const requesterIp = getRequesterIp(c);
-
-  const alwaysAllow =
-    requesterIp != null
-      ? hasAlwaysAllowRule({
-          userId: auth.userId,
-          apiKeyId: auth.apiKeyId,
-          requesterIp,
-          method: methodNorm,
-          url: validatedUrl,
-        })
-      : false;
-
   const normalizedHeaders = normalizeHeaders(
     provider.extraAllowedRequestHeaders,
     headers
@@ -858,7 +1055,11 @@ proxyRouter.post("/request", requireApiKey, async (c) => {
     impliedContentType = enc.contentType;
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
-    return c.json({ error: "invalid_request", message: msg }, 400);
+    return {
+      ok: false,
+      status: 400,
+      body: { error: "invalid_request", message: msg },
+    };
   }
 
   // If body implies a content-type and the caller didn't specify one, set it.
@@ -866,99 +1067,256 @@ proxyRouter.post("/request", requireApiKey, async (c) => {
     normalizedHeaders["content-type"] = impliedContentType;
   }
 
-  const decodedForInterpret = decodeBodyForInterpret({
-    contentType: normalizedHeaders["content-type"],
-    bodyBase64,
+  return {
+    ok: true,
+    prepared: {
+      upstreamUrl,
+      url: validatedUrl,
+      provider,
+      method: methodNorm,
+      headers: normalizedHeaders,
+      bodyBase64,
+      decoded: decodeBodyForInterpret({
+        contentType: normalizedHeaders["content-type"],
+        bodyBase64,
+      }),
+      storedCredential: storedCredentialForValidation,
+      linkedAccount,
+      responseMode,
+      responseCap,
+      maxResponseBytes,
+      executeOnApproval,
+    },
+  };
+}
+
+// Apply user policy rules and temporary grants to a freshly created request.
+// Returns the resulting status and the rule/grant that decided it (if any).
+async function applyAutomaticDecision(params: {
+  auth: ApiKeyAuth;
+  requesterIp: string | null;
+  prepared: PreparedProxyRequest;
+  requestId: string;
+  status: string;
+}): Promise<{
+  status: string;
+  appliedRule: PolicyMatch | null;
+  grantUse: ApprovalGrantUse | null;
+}> {
+  const { auth, prepared } = params;
+  if (params.status !== "PENDING_APPROVAL") {
+    return { status: params.status, appliedRule: null, grantUse: null };
+  }
+
+  // Automatic decisions are audited as the rule or grant that made them.
+  const decide = async (match: PolicyMatch, to: "APPROVED" | "DENIED") =>
+    transitionProxyRequests({
+      requestId: params.requestId,
+      userId: auth.userId,
+      from: "PENDING_APPROVAL",
+      to,
+      errorCode: to === "DENIED" ? "DENIED_BY_POLICY" : null,
+      errorMessage: to === "DENIED" ? `rule=${match.ruleId}` : null,
+      actor: { actorType: "system", actorId: match.source },
+      detail:
+        match.source === "approval_grant"
+          ? { grant_id: match.ruleId }
+          : { rule_id: match.ruleId },
+    });
+  const autoApprove = async (match: PolicyMatch) => {
+    await decide(match, "APPROVED");
+    await startExecutionOnApproval(params.requestId);
+  };
+
+  // If a policy rule matches, skip the Telegram round-trip.
+  // (We still create a proxy_request row for auditability and idempotency semantics.)
+  const policyMatch = await evaluateProxyPolicy({
+    userId: auth.userId,
+    apiKeyId: auth.apiKeyId,
+    requesterIp: params.requesterIp,
+    providerId: prepared.provider.id,
+    method: prepared.method,
+    url: prepared.url,
+  });
+  if (policyMatch) {
+    if (policyMatch.effect === "allow") {
+      await autoApprove(policyMatch);
+      return { status: "APPROVED", appliedRule: policyMatch, grantUse: null };
+    }
+
+    await decide(policyMatch, "DENIED");
+    return { status: "DENIED", appliedRule: policyMatch, grantUse: null };
+  }
+
+  // Otherwise, a live time-boxed / usage-capped grant also skips the prompt.
+  // Expired or exhausted grants don't match and fall through to a prompt.
+  if (params.requesterIp != null) {
+    const grantUse = await consumeApprovalGrant({
+      userId: auth.userId,
+      apiKeyId: auth.apiKeyId,
+      requesterIp: params.requesterIp,
+      method: prepared.method,
+      url: prepared.url,
+    });
+    if (grantUse) {
+      const appliedRule: PolicyMatch = {
+        source: "approval_grant",
+        ruleId: grantUse.grantId,
+        effect: "allow",
+        priority: 0,
+      };
+      await autoApprove(appliedRule);
+      return { status: "APPROVED", appliedRule, grantUse };
+    }
+  }
+
+  return { status: params.status, appliedRule: null, grantUse: null };
+}
+
+function describeAppliedRule(
+  appliedRule: PolicyMatch,
+  grantUse: ApprovalGrantUse | null
+): string {
+  if (appliedRule.source === "always_allow") {
+    return "<code>Always allow</code> rule matched this endpoint";
+  }
+  if (appliedRule.source === "approval_grant" && grantUse) {
+    return `Temporary grant matched this endpoint (${escapeHtml(describeApprovalGrantUse(grantUse))})`;
+  }
+  return `Policy rule <code>${escapeHtml(appliedRule.ruleId)}</code> matched this request`;
+}
+
+async function getTelegramUserId(userId: string): Promise<number | null> {
+  const u = (await db()
+    .query("SELECT telegram_user_id FROM users WHERE id = ?;")
+    .get(userId)) as { telegram_user_id: number } | null;
+  return u?.telegram_user_id ?? null;
+}
+
+proxyRouter.post("/request", requireApiKey, async (c) => {
+  const auth = c.get("apiKeyAuth");
+  const raw = await c.req.json().catch(() => null);
+  const parsed = CreateProxyRequestSchema.safeParse(raw);
+  if (!parsed.success) return c.json({ error: "invalid_request" }, 400);
+
+  const { consent_hint: consentHint, idempotency_key: idempotencyKey } =
+    parsed.data;
+
+  const ttl = resolveApprovalTtlSeconds({
+    requested: parsed.data.approval_ttl_seconds,
+    keyMaxSeconds: auth.maxApprovalTtlSeconds,
+    defaultSeconds: env.APPROVAL_TTL_DEFAULT_SECONDS,
   });
+  if (!ttl.ok) {
+    return c.json({ error: "invalid_request", message: ttl.message }, 400);
+  }
+
+  const prep = await prepareProxyRequest({ auth, input: parsed.data });
+  if (!prep.ok) return c.json(prep.body, prep.status);
+  const prepared = prep.prepared;
+  const { provider, method: methodNorm } = prepared;
+
+  const requesterIp = getRequesterIp(c);
 
   let created = await createProxyRequest({
     userId: auth.userId,
     apiKeyId: auth.apiKeyId,
     apiKeyLabelSnapshot: auth.apiKeyLabel,
     requesterIp: requesterIp ?? undefined,
-    upstreamUrl,
+    upstreamUrl: prepared.upstreamUrl,
     method: methodNorm,
-    headers: normalizedHeaders,
-    bodyBase64,
+    headers: prepared.headers,
+    bodyBase64: prepared.bodyBase64,
     consentHint: consentHint ?? undefined,
     idempotencyKey: idempotencyKey ?? undefined,
-    approvalTtlMs: 2 * 60_000,
+    responseMode: prepared.responseMode,
+    maxResponseBytes: prepared.maxResponseBytes,
+    executeOnApproval: prepared.executeOnApproval,
+    linkedAccountId: prepared.linkedAccount?.id,
+    provider: provider.id,
+    approvalTtlMs: ttl.seconds * 1000,
   });
 
-  let autoApproved = false;
-
-  // If a permanent allow rule exists for this endpoint, skip the Telegram round-trip.
-  // (We still create a proxy_request row for auditability and idempotency semantics.)
-  if (alwaysAllow && created.status === "PENDING_APPROVAL") {
-    db()
-      .query(
-        "UPDATE proxy_requests SET status = 'APPROVED', updated_at = ?, error_code = NULL, error_message = NULL WHERE id = ? AND user_id = ? AND status = 'PENDING_APPROVAL';"
-      )
-      .run(new Date().toISOString(), created.requestId, auth.userId);
-
-    created = { ...created, status: "APPROVED" };
-    autoApproved = true;
-  }
+  const { status, appliedRule, grantUse } = await applyAutomaticDecision({
+    auth,
+    requesterIp,
+    prepared,
+    requestId: created.requestId,
+    status: created.status,
+  });
+  created = { ...created, status };
+
+  const respondCreated = () => {
+    const payload = {
+      request_id: created.requestId,
+      status: created.status,
+      approval_expires_at: created.approvalExpiresAt,
+      ...(prepared.linkedAccount
+        ? { account_id: prepared.linkedAccount.id }
+        : {}),
+      ...(appliedRule ? { matched_rule: renderMatchedRule(appliedRule) } : {}),
+    };
+    if (appliedRule?.effect === "deny" && created.status === "DENIED") {
+      return c.json({ error: "denied_by_policy", ...payload }, 403);
+    }
+    return c.json(payload);
+  };
 
   if (created.isNew) {
-    auditEvent({
+    await auditEvent({
       userId: auth.userId,
       requestId: created.requestId,
       actorType: "api_key",
       actorId: auth.apiKeyId,
       eventType: "proxy_request_created",
       event: {
-        upstream_url: upstreamUrl,
+        upstream_url: prepared.upstreamUrl,
         api_key_label: auth.apiKeyLabel,
+        matched_rule: appliedRule ? renderMatchedRule(appliedRule) : undefined,
       },
     });
   }
 
-  const u = db()
-    .query("SELECT telegram_user_id FROM users WHERE id = ?;")
-    .get(auth.userId) as { telegram_user_id: number } | null;
+  const telegramUserId = await getTelegramUserId(auth.userId);
 
-  if (created.isNew && u?.telegram_user_id && env.TELEGRAM_BOT_TOKEN) {
-    // Inform the user that the request was auto-approved via an always-allow rule.
-    if (autoApproved) {
+  if (created.isNew && telegramUserId && env.TELEGRAM_BOT_TOKEN) {
+    const redaction = await loadRedaction({
+      userId: auth.userId,
+      providerId: provider.id,
+    });
+    const requestLine = (url: URL) =>
+      redactText(redaction, `${methodNorm} ${url.hostname}${url.pathname}`);
+
+    // Inform the user that the request was decided by a rule.
+    if (appliedRule) {
       const url = new URL(created.canonicalUpstreamUrl);
+      const decision =
+        appliedRule.effect === "allow" ? "AUTO-APPROVED" : "AUTO-DENIED";
       const text = [
         "<b>Permission request</b>",
         "",
-        "Decision: <code>AUTO-APPROVED</code>",
-        "Reason: <code>Always allow</code> rule matched this endpoint",
+        `Decision: <code>${decision}</code>`,
+        `Reason: ${describeAppliedRule(appliedRule, grantUse)}`,
         "",
         `<b>API key</b>: <code>${escapeHtml(auth.apiKeyLabel)}</code>`,
-        `<b>Request</b>: <code>${escapeHtml(`${methodNorm} ${url.hostname}${url.pathname}`)}</code>`,
+        `<b>Request</b>: <code>${escapeHtml(requestLine(url))}</code>`,
       ].join("\n");
 
       telegramApi()
-        .sendMessage(u.telegram_user_id, text, { parse_mode: "HTML" })
+        .sendMessage(telegramUserId, text, { parse_mode: "HTML" })
         .catch(() => {});
     }
 
     // If still pending, ask for explicit approval.
     if (created.status !== "PENDING_APPROVAL") {
-      return c.json({
-        request_id: created.requestId,
-        status: created.status,
-        approval_expires_at: created.approvalExpiresAt,
-      });
+      return respondCreated();
     }
 
     {
       const url = new URL(created.canonicalUpstreamUrl);
       const hashPrefix = created.requestHash.slice(0, 12);
 
-      const interpreted = interpretProxyRequest({
-        url,
-        method: methodNorm,
-        headers: normalizedHeaders,
-        bodyJson: decodedForInterpret.bodyJson,
-        bodyText: decodedForInterpret.bodyText,
-        storedCredential:
-          provider.id === "icloud" ? storedCredentialForValidation : undefined,
-      });
+      const interpreted = interpretForPrompt({ prepared, url, redaction });
 
       let detailsForTelegram = interpreted.details;
 
@@ -966,7 +1324,7 @@ proxyRouter.post("/request", requireApiKey, async (c) => {
       // This does an upstream PROPFIND (Depth: 0) to fetch the collection displayname.
       if (
         provider.id === "icloud" &&
-        storedCredentialForValidation &&
+        prepared.storedCredential &&
         methodNorm === "PUT" &&
         interpreted.details.length
       ) {
@@ -974,7 +1332,7 @@ proxyRouter.post("/request", requireApiKey, async (c) => {
           objectUrl: url,
           provider,
           userId: auth.userId,
-          storedCredential: storedCredentialForValidation,
+          storedCredential: prepared.storedCredential,
         });
         if (name) {
           const details = [...interpreted.details];
@@ -988,19 +1346,28 @@ proxyRouter.post("/request", requireApiKey, async (c) => {
                   ? "list"
                   : "collection";
             // Insert after kind line.
-            details.splice(kindIdx + 1, 0, `${label}: ${name}`);
+            details.splice(
+              kindIdx + 1,
+              0,
+              redactText(redaction, `${label}: ${name}`)
+            );
             detailsForTelegram = details;
           } else {
-            detailsForTelegram = [`collection: ${name}`, ...details];
+            detailsForTelegram = [
+              redactText(redaction, `collection: ${name}`),
+              ...details,
+            ];
           }
         }
       }
 
       const queryLine =
-        detailsForTelegram.length === 0 ? formatQueryForTelegram(url) : "";
+        detailsForTelegram.length === 0
+          ? formatQueryForTelegram(redactUrlParams(redaction, url))
+          : "";
 
       const requesterNote = consentHint
-        ? `<b>Requester note</b>: ${escapeHtml(truncate(consentHint, 300))}`
+        ? `<b>Requester note</b>: ${escapeHtml(truncate(redactText(redaction, consentHint), 300))}`
         : "";
 
       const detailsBlock = detailsForTelegram.length
@@ -1014,17 +1381,35 @@ proxyRouter.post("/request", requireApiKey, async (c) => {
         "<b>Permission request</b>",
         "",
         `<b>API key</b>: <code>${escapeHtml(auth.apiKeyLabel)}</code>`,
+        prepared.linkedAccount
+          ? `<b>Account</b>: <code>${escapeHtml(`${provider.id}: ${describeLinkedAccount(prepared.linkedAccount)}`)}</code>`
+          : "",
         `<b>Action</b>: ${escapeHtml(interpreted.summary)}`,
         detailsBlock,
         "",
-        `<b>Request</b>: <code>${escapeHtml(`${methodNorm} ${url.hostname}${url.pathname}`)}</code>`,
+        `<b>Request</b>: <code>${escapeHtml(requestLine(url))}</code>`,
         queryLine,
-        decodedForInterpret.bodySummary != null &&
-        detailsForTelegram.length === 0
-          ? `<b>Body</b>: <pre>${escapeHtml(truncate(decodedForInterpret.bodySummary, 500))}</pre>`
+        prepared.executeOnApproval
+          ? `<b>On approval</b>: executed immediately; result kept ${Math.round(env.PROXY_RESULT_TTL_SECONDS / 60)} min`
+          : "",
+        prepared.responseMode === "stream"
+          ? `<b>Response</b>: streamed (up to ${escapeHtml(formatBytes(prepared.maxResponseBytes ?? prepared.responseCap))})`
+          : "",
+        prepared.decoded.bodySummary != null && detailsForTelegram.length === 0
+          ? `<b>Body</b>: <pre>${escapeHtml(
+              truncate(
+                redactBodySummary(redaction, {
+                  contentType: prepared.headers["content-type"],
+                  bodyJson: prepared.decoded.bodyJson,
+                  bodySummary: prepared.decoded.bodySummary,
+                }),
+                500
+              )
+            )}</pre>`
           : "",
         "",
         ...(requesterNote ? ["", requesterNote, ""] : []),
+        `<b>Approval window</b>: ${escapeHtml(describeApprovalWindow({ seconds: ttl.seconds, expiresAt: created.approvalExpiresAt }))}`,
         "Approve to allow the agent to execute this request.",
         `Hash: <code>${escapeHtml(hashPrefix)}</code>`,
       ]
@@ -1044,11 +1429,15 @@ proxyRouter.post("/request", requireApiKey, async (c) => {
             },
             { text: "Deny", callback_data: `r:deny:${created.requestId}` },
           ],
+          Object.entries(APPROVAL_GRANT_PRESETS).map(([id, preset]) => ({
+            text: preset.buttonText,
+            callback_data: `r:grant_${id}:${created.requestId}`,
+          })),
         ],
       };
 
       telegramApi()
-        .sendMessage(u.telegram_user_id, text, {
+        .sendMessage(telegramUserId, text, {
           reply_markup: kb,
           parse_mode: "HTML",
         })
@@ -1056,9 +1445,293 @@ proxyRouter.post("/request", requireApiKey, async (c) => {
     }
   }
 
-  return c.json({
-    request_id: created.requestId,
-    status: created.status,
-    approval_expires_at: created.approvalExpiresAt,
+  return respondCreated();
+});
+
+const CreateProxyBatchSchema = z.object({
+  requests: z
+    .array(
+      CreateProxyRequestSchema.omit({
+        consent_hint: true,
+        idempotency_key: true,
+        approval_ttl_seconds: true,
+      })
+    )
+    .min(1)
+    .max(MAX_BATCH_ITEMS),
+  consent_hint: z.string().optional(),
+  idempotency_key: z.string().optional(),
+  approval_ttl_seconds: z.number().int().positive().optional(),
+});
+
+// Batches get a longer default window than single requests: every item must
+// be executed before the shared approval expires.
+const BATCH_APPROVAL_TTL_DEFAULT_SECONDS = 10 * 60;
+const BATCH_PROMPT_MAX_LINES = 20;
+
+async function renderBatch(batch: ProxyBatch) {
+  const redaction = await loadRedaction({ userId: batch.userId });
+  return {
+    batch_id: batch.id,
+    status: batch.status,
+    approval_expires_at: batch.approvalExpiresAt,
+    items: (await listProxyBatchItems(batch.id)).map((item) => ({
+      index: item.index,
+      request_id: item.requestId,
+      method: item.method,
+      upstream_url: redactUrl(redaction, item.upstreamUrl),
+      status: item.status,
+      error_code: item.errorCode,
+      upstream_http_status: item.upstreamHttpStatus,
+      upstream_bytes: item.upstreamBytes,
+    })),
+  };
+}
+
+proxyRouter.post("/batches", requireApiKey, async (c) => {
+  const auth = c.get("apiKeyAuth");
+  const raw = await c.req.json().catch(() => null);
+  const parsed = CreateProxyBatchSchema.safeParse(raw);
+  if (!parsed.success) return c.json({ error: "invalid_request" }, 400);
+
+  const { consent_hint: consentHint, idempotency_key: idempotencyKey } =
+    parsed.data;
+
+  const ttl = resolveApprovalTtlSeconds({
+    requested: parsed.data.approval_ttl_seconds,
+    keyMaxSeconds: auth.maxApprovalTtlSeconds,
+    defaultSeconds: BATCH_APPROVAL_TTL_DEFAULT_SECONDS,
+  });
+  if (!ttl.ok) {
+    return c.json({ error: "invalid_request", message: ttl.message }, 400);
+  }
+
+  if (idempotencyKey) {
+    const existing = await findProxyBatchByIdempotencyKey({
+      apiKeyId: auth.apiKeyId,
+      idempotencyKey,
+    });
+    if (existing) return c.json(await renderBatch(existing));
+  }
+
+  // Validate every item up front so a bad item doesn't leave a half-created batch.
+  const prepared: PreparedProxyRequest[] = [];
+  for (const [index, input] of parsed.data.requests.entries()) {
+    const prep = await prepareProxyRequest({ auth, input });
+    if (!prep.ok) return c.json({ ...prep.body, index }, prep.status);
+    prepared.push(prep.prepared);
+  }
+
+  const requesterIp = getRequesterIp(c);
+  // The batch and its requests appear together or not at all; rules and
+  // grants are applied once they are committed.
+  const creation = await db().transaction(async () => {
+    if (idempotencyKey) {
+      const existing = await findProxyBatchByIdempotencyKey({
+        apiKeyId: auth.apiKeyId,
+        idempotencyKey,
+      });
+      if (existing) return { batch: existing, created: null };
+    }
+    const batch = await createProxyBatch({
+      userId: auth.userId,
+      apiKeyId: auth.apiKeyId,
+      apiKeyLabelSnapshot: auth.apiKeyLabel,
+      consentHint: consentHint ?? undefined,
+      idempotencyKey: idempotencyKey ?? undefined,
+      itemCount: prepared.length,
+      approvalTtlMs: ttl.seconds * 1000,
+    });
+    const created: Awaited<ReturnType<typeof createProxyRequest>>[] = [];
+    for (const [index, p] of prepared.entries()) {
+      const request = await createProxyRequest({
+        userId: auth.userId,
+        apiKeyId: auth.apiKeyId,
+        apiKeyLabelSnapshot: auth.apiKeyLabel,
+        requesterIp: requesterIp ?? undefined,
+        upstreamUrl: p.upstreamUrl,
+        method: p.method,
+        headers: p.headers,
+        bodyBase64: p.bodyBase64,
+        consentHint: consentHint ?? undefined,
+        responseMode: p.responseMode,
+        maxResponseBytes: p.maxResponseBytes,
+        executeOnApproval: p.executeOnApproval,
+        linkedAccountId: p.linkedAccount?.id,
+        provider: p.provider.id,
+        approvalTtlMs: ttl.seconds * 1000,
+      });
+      await attachRequestToBatch({
+        batchId: batch.id,
+        requestId: request.requestId,
+        index,
+      });
+      created.push(request);
+    }
+    return { batch, created };
+  });
+  const { batch } = creation;
+  if (!creation.created) return c.json(await renderBatch(batch));
+
+  const items: {
+    prepared: PreparedProxyRequest;
+    requestId: string;
+    status: string;
+    summary: string;
+    appliedRule: PolicyMatch | null;
+  }[] = [];
+
+  for (const [index, p] of prepared.entries()) {
+    const created = creation.created[index];
+    if (!created) throw new Error("batch item missing after creation");
+
+    const { status, appliedRule } = await applyAutomaticDecision({
+      auth,
+      requesterIp,
+      prepared: p,
+      requestId: created.requestId,
+      status: created.status,
+    });
+
+    await auditEvent({
+      userId: auth.userId,
+      requestId: created.requestId,
+      actorType: "api_key",
+      actorId: auth.apiKeyId,
+      eventType: "proxy_request_created",
+      event: {
+        upstream_url: p.upstreamUrl,
+        api_key_label: auth.apiKeyLabel,
+        batch_id: batch.id,
+        batch_index: index,
+        matched_rule: appliedRule ? renderMatchedRule(appliedRule) : undefined,
+      },
+    });
+
+    const interpreted = interpretForPrompt({
+      prepared: p,
+      url: new URL(created.canonicalUpstreamUrl),
+      redaction: await loadRedaction({
+        userId: auth.userId,
+        providerId: p.provider.id,
+      }),
+    });
+
+    items.push({
+      prepared: p,
+      requestId: created.requestId,
+      status,
+      summary: interpreted.summary,
+      appliedRule,
+    });
+  }
+
+  const pending = items.filter((i) => i.status === "PENDING_APPROVAL");
+  if (pending.length === 0) {
+    // Every item was decided by a rule or grant; nothing to prompt for.
+    await setProxyBatchStatus({ batchId: batch.id, status: "DECIDED" });
+    batch.status = "DECIDED";
+  }
+
+  await auditEvent({
+    userId: auth.userId,
+    actorType: "api_key",
+    actorId: auth.apiKeyId,
+    eventType: "proxy_batch_created",
+    event: {
+      batch_id: batch.id,
+      api_key_label: auth.apiKeyLabel,
+      item_count: items.length,
+      pending_count: pending.length,
+    },
+  });
+
+  const telegramUserId = await getTelegramUserId(auth.userId);
+  if (pending.length && telegramUserId && env.TELEGRAM_BOT_TOKEN) {
+    // Aggregate by endpoint so 30 similar calls read as one line.
+    const byEndpoint = new Map<string, number>();
+    for (const item of pending) {
+      const acct = item.prepared.linkedAccount;
+      const k = `${item.prepared.method} ${item.prepared.url.hostname}${acct ? ` as ${describeLinkedAccount(acct)}` : ""}`;
+      byEndpoint.set(k, (byEndpoint.get(k) ?? 0) + 1);
+    }
+
+    const shown = pending.slice(0, BATCH_PROMPT_MAX_LINES);
+    const autoDecided = items.length - pending.length;
+
+    // The note sits next to items for several providers, so it is redacted
+    // with all of their rules.
+    const requesterNote = consentHint
+      ? `<b>Requester note</b>: ${escapeHtml(
+          truncate(
+            redactText(
+              await loadRedaction({ userId: auth.userId }),
+              consentHint
+            ),
+            300
+          )
+        )}`
+      : "";
+
+    const text = [
+      "<b>Batch permission request</b>",
+      "",
+      `<b>API key</b>: <code>${escapeHtml(auth.apiKeyLabel)}</code>`,
+      `<b>Requests</b>: ${pending.length}${autoDecided ? ` (plus ${autoDecided} decided by rules)` : ""}`,
+      ...[...byEndpoint.entries()].map(
+        ([k, n]) => `- <code>${escapeHtml(k)}</code> x${n}`
+      ),
+      "",
+      "<b>Actions</b>",
+      ...shown.map(
+        (item) =>
+          `${items.indexOf(item) + 1}. ${escapeHtml(truncate(item.summary, 200))}`
+      ),
+      pending.length > shown.length
+        ? `... and ${pending.length - shown.length} more`
+        : "",
+      ...(requesterNote ? ["", requesterNote] : []),
+      "",
+      `<b>Approval window</b>: ${escapeHtml(describeApprovalWindow({ seconds: ttl.seconds, expiresAt: batch.approvalExpiresAt }))}`,
+      "Approve to allow the agent to execute all of these requests.",
+      `Batch: <code>${escapeHtml(batch.id)}</code>`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    const kb = {
+      inline_keyboard: [
+        [
+          { text: "Approve all", callback_data: `b:approve:${batch.id}` },
+          { text: "Deny all", callback_data: `b:deny:${batch.id}` },
+        ],
+      ],
+    };
+
+    telegramApi()
+      .sendMessage(telegramUserId, text, {
+        reply_markup: kb,
+        parse_mode: "HTML",
+      })
+      .catch(() => {});
+  }
+
+  return c.json(await renderBatch(batch));
+});
+
+proxyRouter.get("/batches/:id", requireApiKey, async (c) => {
+  const auth = c.get("apiKeyAuth");
+  const batch = await getProxyBatchForUser({
+    batchId: c.req.param("id"),
+    userId: auth.userId,
   });
+  if (!batch || batch.apiKeyId !== auth.apiKeyId) {
+    return c.json({ error: "forbidden" }, 403);
+  }
+
+  if (batch.status === "PENDING_APPROVAL") c.header("Retry-After", "1");
+  return c.json(
+    await renderBatch(batch),
+    batch.status === "PENDING_APPROVAL" ? 202 : 200
+  );
 });
@@ -0,0 +1,1076 @@
+import { type Context, Hono } from "hono";
+
+import {
+  describeLinkedAccount,
+  getLinkedAccountForUser,
+  type LinkedAccount,
+  listActiveLinkedAccounts,
+  listLinkedAccountsNeedingReauth,
+  revokeLinkedAccount,
+  setLinkedAccountLabel,
+} from "../accounts/linked";
+import { auditEvent } from "../audit/audit";
+import {
+  clearWebSessionCookie,
+  endWebSession,
+  redeemWebLoginToken,
+  requireWebSession,
+  setWebSessionCookie,
+  startWebSession,
+} from "../auth/webSession";
+import { createConnectUrl } from "../connect/links";
+import { db } from "../db/client";
+import { setGitSessionStatus } from "../git/sessions";
+import {
+  listAlwaysAllowRules,
+  revokeAlwaysAllowRules,
+} from "../proxy/alwaysAllow";
+import {
+  type InterpretedRequest,
+  interpretProxyRequest,
+} from "../proxy/interpret";
+import {
+  describePolicyRule,
+  listPolicyRules,
+  revokePolicyRule,
+} from "../proxy/policy";
+import { listProxyProviderIds } from "../proxy/providerRegistry";
+import {
+  loadRedaction,
+  type Redaction,
+  redactHeaders,
+  redactJson,
+  redactText,
+  redactUrl,
+  redactUrlParams,
+} from "../proxy/redaction";
+import { decideProxyRequest } from "../proxy/requests";
+
+// Server-rendered dashboard: approvals, history, audit log and management of
+// keys, linked accounts and rules. Sign-in is a magic link from the bot's
+// /dashboard command (see auth/webSession). Decisions go through the same
+// decideProxyRequest/setGitSessionStatus paths as the Telegram buttons.
+
+export const uiRouter = new Hono();
+
+const PAGE_SIZE = 50;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
+
+function truncate(s: string, max: number): string {
+  if (s.length <= max) return s;
+  return `${s.slice(0, max - 1)}…`;
+}
+
+const NAV: { path: string; label: string }[] = [
+  { path: "/ui", label: "Approvals" },
+  { path: "/ui/requests", label: "Requests" },
+  { path: "/ui/git", label: "Git sessions" },
+  { path: "/ui/audit", label: "Audit log" },
+  { path: "/ui/keys", label: "API keys" },
+  { path: "/ui/accounts", label: "Accounts" },
+  { path: "/ui/rules", label: "Rules" },
+];
+
+function renderPage(params: {
+  title: string;
+  path?: string;
+  csrf?: string;
+  notice?: string;
+  body: string;
+}): string {
+  const nav = params.csrf
+    ? `<nav>${NAV.map(
+        (n) =>
+          `<a href="${n.path}"${n.path === params.path ? ' class="active"' : ""}>${escapeHtml(n.label)}</a>`
+      ).join(
+        ""
+      )}${postForm({ action: "/ui/logout", csrf: params.csrf, label: "Sign out" })}</nav>`
+    : "";
+  const notice = params.notice
+    ? `<p class="notice">${escapeHtml(params.notice)}</p>`
+    : "";
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <meta name="referrer" content="no-referrer" />
+    <title>${escapeHtml(params.title)} · Permissions Broker</title>
+    <style>
+      body { font-family: ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, sans-serif; padding: 24px; max-width: 1100px; margin: 0 auto; }
+      h1 { font-size: 20px; margin: 0 0 12px; }
+      h2 { font-size: 16px; margin: 24px 0 8px; }
+      p { color: #333; line-height: 1.4; }
+      nav { display: flex; flex-wrap: wrap; gap: 12px; align-items: center; margin-bottom: 20px; }
+      nav a { color: #0645ad; text-decoration: none; }
+      nav a.active { font-weight: 600; text-decoration: underline; }
+      table { border-collapse: collapse; width: 100%; font-size: 13px; }
+      th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e3e3e3; vertical-align: top; }
+      form.inline { display: inline; margin: 0 4px 0 0; }
+      input[type=text] { padding: 4px 6px; font-size: 13px; }
+      button { padding: 4px 10px; font-size: 13px; }
+      .card { border: 1px solid #ddd; border-radius: 6px; padding: 12px; margin-bottom: 12px; }
+      .note, .muted { font-size: 13px; color: #555; }
+      .notice { background: #eef6ee; padding: 8px 12px; border-radius: 4px; }
+      code, pre { background: #f3f3f3; padding: 2px 4px; font-size: 12px; }
+      pre { white-space: pre-wrap; word-break: break-all; padding: 8px; }
+    </style>
+  </head>
+  <body>
+    ${nav}
+    <h1>${escapeHtml(params.title)}</h1>
+    ${notice}
+    ${params.body}
+  </body>
+</html>`;
+}
+
+function postForm(params: {
+  action: string;
+  csrf: string;
+  label: string;
+  fields?: Record<string, string>;
+  input?: { name: string; placeholder: string; value?: string };
+}): string {
+  const hidden = Object.entries({ csrf: params.csrf, ...params.fields })
+    .map(
+      ([k, v]) =>
+        `<input type="hidden" name="${escapeHtml(k)}" value="${escapeHtml(v)}" />`
+    )
+    .join("");
+  const input = params.input
+    ? `<input type="text" name="${escapeHtml(params.input.name)}" placeholder="${escapeHtml(params.input.placeholder)}" value="${escapeHtml(params.input.value ?? "")}" maxlength="64" /> `
+    : "";
+  return `<form class="inline" method="post" action="${escapeHtml(params.action)}">${hidden}${input}<button type="submit">${escapeHtml(params.label)}</button></form>`;
+}
+
+function pager(path: string, page: number, hasMore: boolean): string {
+  const links: string[] = [];
+  if (page > 0) links.push(`<a href="${path}?page=${page - 1}">« Newer</a>`);
+  if (hasMore) links.push(`<a href="${path}?page=${page + 1}">Older »</a>`);
+  return links.length ? `<p>${links.join(" · ")}</p>` : "";
+}
+
+function pageParam(c: Context): number {
+  const n = Number(c.req.query("page") ?? "0");
+  return Number.isInteger(n) && n >= 0 ? n : 0;
+}
+
+// Redirect after a form post (POST/redirect/GET), with a one-line notice.
+function redirectWithNotice(c: Context, path: string, notice: string) {
+  return c.redirect(`${path}?notice=${encodeURIComponent(notice)}`, 303);
+}
+
+function noticeParam(c: Context): string | undefined {
+  const n = c.req.query("notice");
+  return n ? truncate(n, 200) : undefined;
+}
+
+function formString(form: Record<string, unknown>, key: string): string {
+  const v = form[key];
+  return typeof v === "string" ? v.trim() : "";
+}
+
+async function telegramUserIdFor(userId: string): Promise<number> {
+  const row = (await db()
+    .query("SELECT telegram_user_id FROM users WHERE id = ?;")
+    .get(userId)) as { telegram_user_id: number } | null;
+  return row?.telegram_user_id ?? 0;
+}
+
+// Same inputs as the Telegram prompt: redacted before interpretation, and
+// the interpreter's output redacted again.
+function interpretStoredRequest(params: {
+  redaction: Redaction;
+  method: string;
+  upstreamUrl: string;
+  headersJson?: string | null;
+  bodyBase64?: string | null;
+}): InterpretedRequest {
+  const { redaction } = params;
+  try {
+    const headers = params.headersJson
+      ? (JSON.parse(params.headersJson) as Record<string, string>)
+      : {};
+    let bodyJson: unknown;
+    const ct = headers["content-type"]?.split(";", 1)[0]?.trim() ?? "";
+    if (
+      params.bodyBase64 &&
+      (ct === "application/json" || ct.endsWith("+json"))
+    ) {
+      try {
+        bodyJson = JSON.parse(
+          Buffer.from(params.bodyBase64, "base64").toString("utf8")
+        );
+      } catch {
+        bodyJson = undefined;
+      }
+    }
+    const interpreted = interpretProxyRequest({
+      url: redactUrlParams(redaction, new URL(params.upstreamUrl)),
+      method: params.method,
+      headers: redactHeaders(redaction, headers),
+      bodyJson:
+        bodyJson === undefined ? undefined : redactJson(redaction, bodyJson),
+    });
+    return {
+      summary: redactText(redaction, interpreted.summary),
+      details: interpreted.details.map((d) => redactText(redaction, d)),
+    };
+  } catch {
+    return {
+      summary: `${params.method} ${redactUrl(redaction, params.upstreamUrl)}`,
+      details: [],
+    };
+  }
+}
+
+uiRouter.get("/login", (c) => {
+  const token = c.req.query("token") ?? "";
+  // Redeemed by the POST below, so link previews can't use up the token.
+  return c.html(
+    renderPage({
+      title: "Sign in",
+      body: `<p>Sign in to the Permissions Broker dashboard in this browser?</p>
+<form method="post" action="/ui/login"><input type="hidden" name="token" value="${escapeHtml(token)}" /><button type="submit">Sign in</button></form>`,
+    })
+  );
+});
+
+uiRouter.post("/login", async (c) => {
+  const form = await c.req.parseBody();
+  const userId = await redeemWebLoginToken(formString(form, "token"));
+  if (!userId) {
+    return c.html(
+      renderPage({
+        title: "Sign-in link expired",
+        body: "<p>This link is invalid, expired or already used. Send <code>/dashboard</code> to the Telegram bot for a new one.</p>",
+      }),
+      400
+    );
+  }
+
+  const session = await startWebSession({ userId });
+  setWebSessionCookie(c, session);
+  await auditEvent({
+    userId,
+    actorType: "web",
+    actorId: session.sessionId,
+    eventType: "web_session_started",
+    event: { session_id: session.sessionId, expires_at: session.expiresAt },
+  });
+  return c.redirect("/ui", 303);
+});
+
+// Everything below needs a session (the login routes above answer first).
+uiRouter.use("*", requireWebSession);
+
+uiRouter.post("/logout", async (c) => {
+  const auth = c.get("webSession");
+  await endWebSession(auth.sessionId);
+  clearWebSessionCookie(c);
+  return c.html(
+    renderPage({
+      title: "Signed out",
+      body: "<p>Signed out. Send <code>/dashboard</code> to the Telegram bot to sign in again.</p>",
+    })
+  );
+});
+
+uiRouter.get("/", async (c) => {
+  const auth = c.get("webSession");
+  const now = nowIso();
+  const redaction = await loadRedaction({ userId: auth.userId });
+
+  const requests = (await db()
+    .query(
+      "SELECT id, api_key_label_snapshot, method, upstream_url, request_headers_json, request_body_base64, consent_hint, created_at, approval_expires_at " +
+        "FROM proxy_requests WHERE user_id = ? AND status = 'PENDING_APPROVAL' AND approval_expires_at > ? ORDER BY created_at DESC LIMIT ?;"
+    )
+    .all(auth.userId, now, PAGE_SIZE)) as {
+    id: string;
+    api_key_label_snapshot: string;
+    method: string;
+    upstream_url: string;
+    request_headers_json: string | null;
+    request_body_base64: string | null;
+    consent_hint: string | null;
+    created_at: string;
+    approval_expires_at: string;
+  }[];
+
+  const sessions = (await db()
+    .query(
+      "SELECT s.id, s.provider, s.operation, s.repo_owner, s.repo_name, s.review_push, s.standing, s.ref_patterns_json, s.approval_expires_at, k.label AS api_key_label " +
+        "FROM git_sessions s LEFT JOIN api_keys k ON k.id = s.api_key_id " +
+        "WHERE s.user_id = ? AND s.status = 'PENDING_APPROVAL' AND s.approval_expires_at > ? ORDER BY s.created_at DESC LIMIT ?;"
+    )
+    .all(auth.userId, now, PAGE_SIZE)) as {
+    id: string;
+    provider: string;
+    operation: string;
+    repo_owner: string;
+    repo_name: string;
+    review_push: number;
+    standing: number;
+    ref_patterns_json: string | null;
+    approval_expires_at: string;
+    api_key_label: string | null;
+  }[];
+
+  const requestCards = requests.map((r) => {
+    const interpreted = interpretStoredRequest({
+      redaction,
+      method: r.method,
+      upstreamUrl: r.upstream_url,
+      headersJson: r.request_headers_json,
+      bodyBase64: r.request_body_base64,
+    });
+    const details = interpreted.details.length
+      ? `<pre>${escapeHtml(truncate(interpreted.details.join("\n"), 2000))}</pre>`
+      : "";
+    const hint = r.consent_hint
+      ? `<p>Requester note: ${escapeHtml(redactText(redaction, r.consent_hint))}</p>`
+      : "";
+    const action = `/ui/requests/${encodeURIComponent(r.id)}/decide`;
+    return `<div class="card">
+  <p><b>${escapeHtml(interpreted.summary)}</b></p>
+  <p class="muted">${escapeHtml(r.method)} ${escapeHtml(truncate(redactUrl(redaction, r.upstream_url), 300))}<br />key ${escapeHtml(r.api_key_label_snapshot)} · expires ${escapeHtml(r.approval_expires_at)}</p>
+  ${hint}${details}
+  ${postForm({ action, csrf: auth.csrfToken, label: "Approve", fields: { decision: "approve" } })}
+  ${postForm({ action, csrf: auth.csrfToken, label: "Deny", fields: { decision: "deny" } })}
+</div>`;
+  });
+
+  const sessionCards = sessions.map((s) => {
+    const action = `/ui/git/${encodeURIComponent(s.id)}/decide`;
+    const buttons =
+      s.operation === "push"
+        ? [
+            ["approve_push_block", "Approve (block default branch)"],
+            ["approve_push_allow", "Approve (allow default branch)"],
+            ...(s.review_push
+              ? []
+              : [["approve_push_review", "Approve, review push first"]]),
+            ["deny", "Deny"],
+          ]
+        : [
+            ["approve_clone", "Approve"],
+            ["deny", "Deny"],
+          ];
+    const notes: string[] = [];
+    if (s.ref_patterns_json) {
+      notes.push(
+        `branches ${(JSON.parse(s.ref_patterns_json) as string[]).join(", ")}`
+      );
+    }
+    if (s.review_push) notes.push("push is held for review");
+    if (s.standing) notes.push("standing session");
+    return `<div class="card">
+  <p><b>git ${escapeHtml(s.operation)} ${escapeHtml(s.provider)}:${escapeHtml(s.repo_owner)}/${escapeHtml(s.repo_name)}</b></p>
+  <p class="muted">key ${escapeHtml(s.api_key_label ?? "?")} · expires ${escapeHtml(s.approval_expires_at)}${notes.length ? ` · ${escapeHtml(notes.join(", "))}` : ""}</p>
+  ${buttons
+    .map(([value, label]) =>
+      postForm({
+        action,
+        csrf: auth.csrfToken,
+        label: label ?? "",
+        fields: { action: value ?? "" },
+      })
+    )
+    .join("\n  ")}
+</div>`;
+  });
+
+  const body =
+    requestCards.length || sessionCards.length
+      ? `<h2>Proxy requests</h2>${requestCards.join("") || '<p class="muted">None pending.</p>'}
+<h2>Git sessions</h2>${sessionCards.join("") || '<p class="muted">None pending.</p>'}`
+      : '<p class="muted">Nothing is waiting for approval.</p>';
+
+  return c.html(
+    renderPage({
+      title: "Pending approvals",
+      path: "/ui",
+      csrf: auth.csrfToken,
+      notice: noticeParam(c),
+      body,
+    })
+  );
+});
+
+uiRouter.post("/requests/:id/decide", async (c) => {
+  const auth = c.get("webSession");
+  const requestId = c.req.param("id");
+  const form = await c.req.parseBody();
+  const decision = formString(form, "decision");
+  if (decision !== "approve" && decision !== "deny") {
+    return c.text("invalid decision", 400);
+  }
+
+  // Web decisions have no Telegram message; the approvals row records the
+  // user's chat with message id 0.
+  const telegramUserId = await telegramUserIdFor(auth.userId);
+  const res = await decideProxyRequest({
+    requestId,
+    userId: auth.userId,
+    decision: decision === "approve" ? "approved" : "denied",
+    telegramUserId,
+    telegramChatId: telegramUserId,
+    telegramMessageId: 0,
+    actor: { actorType: "web", actorId: auth.sessionId },
+  });
+  if (!res.ok) {
+    return redirectWithNotice(c, "/ui", `Not decided: ${res.reason}.`);
+  }
+  return redirectWithNotice(
+    c,
+    "/ui",
+    decision === "approve" ? "Request approved." : "Request denied."
+  );
+});
+
+const GIT_DECISIONS: Record<
+  string,
+  {
+    status: "APPROVED" | "DENIED";
+    allowDefaultBranchPush?: boolean;
+    reviewPush?: boolean;
+    // Push sessions are approved with a default-branch choice.
+    appliesTo?: "push" | "fetch";
+  }
+> = {
+  approve_clone: { status: "APPROVED", appliesTo: "fetch" },
+  approve_push_block: {
+    status: "APPROVED",
+    allowDefaultBranchPush: false,
+    appliesTo: "push",
+  },
+  approve_push_allow: {
+    status: "APPROVED",
+    allowDefaultBranchPush: true,
+    appliesTo: "push",
+  },
+  approve_push_review: {
+    status: "APPROVED",
+    allowDefaultBranchPush: false,
+    reviewPush: true,
+    appliesTo: "push",
+  },
+  deny: { status: "DENIED" },
+};
+
+uiRouter.post("/git/:id/decide", async (c) => {
+  const auth = c.get("webSession");
+  const sessionId = c.req.param("id");
+  const form = await c.req.parseBody();
+  const decision = GIT_DECISIONS[formString(form, "action")];
+  if (!decision) return c.text("invalid action", 400);
+
+  const sess = (await db()
+    .query(
+      "SELECT operation FROM git_sessions WHERE id = ? AND user_id = ? AND status = 'PENDING_APPROVAL' AND approval_expires_at > ? LIMIT 1;"
+    )
+    .get(sessionId, auth.userId, nowIso())) as { operation: string } | null;
+  if (!sess) {
+    return redirectWithNotice(c, "/ui", "Not decided: session not pending.");
+  }
+  if (
+    decision.appliesTo &&
+    decision.appliesTo !== (sess.operation === "push" ? "push" : "fetch")
+  ) {
+    return c.text("invalid action", 400);
+  }
+
+  const decided = await setGitSessionStatus({
+    sessionId,
+    userId: auth.userId,
+    status: decision.status,
+    allowDefaultBranchPush: decision.allowDefaultBranchPush,
+    reviewPush: decision.reviewPush,
+  });
+  if (!decided) {
+    return redirectWithNotice(c, "/ui", "Not decided: session not pending.");
+  }
+
+  const actor = {
+    userId: auth.userId,
+    actorType: "web",
+    actorId: auth.sessionId,
+  } as const;
+  if (decision.status === "APPROVED") {
+    await auditEvent({
+      ...actor,
+      eventType: "git_session_approved",
+      event: {
+        sessionId,
+        operation: sess.operation,
+        ...(decision.allowDefaultBranchPush === undefined
+          ? {}
+          : { allowDefaultBranchPush: decision.allowDefaultBranchPush }),
+        ...(decision.reviewPush ? { reviewPush: true } : {}),
+      },
+    });
+  } else {
+    await auditEvent({
+      ...actor,
+      eventType: "git_session_denied",
+      event: { sessionId },
+    });
+  }
+  return redirectWithNotice(
+    c,
+    "/ui",
+    decision.status === "APPROVED" ? "Session approved." : "Session denied."
+  );
+});
+
+uiRouter.get("/requests", async (c) => {
+  const auth = c.get("webSession");
+  const page = pageParam(c);
+  const redaction = await loadRedaction({ userId: auth.userId });
+  const rows = (await db()
+    .query(
+      "SELECT id, api_key_label_snapshot, method, upstream_url, status, error_code, upstream_http_status, created_at " +
+        "FROM proxy_requests WHERE user_id = ? ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?;"
+    )
+    .all(auth.userId, PAGE_SIZE + 1, page * PAGE_SIZE)) as {
+    id: string;
+    api_key_label_snapshot: string;
+    method: string;
+    upstream_url: string;
+    status: string;
+    error_code: string | null;
+    upstream_http_status: number | null;
+    created_at: string;
+  }[];
+
+  const trs = rows.slice(0, PAGE_SIZE).map((r) => {
+    const { summary } = interpretStoredRequest({
+      redaction,
+      method: r.method,
+      upstreamUrl: r.upstream_url,
+    });
+    const outcome = [
+      r.status,
+      r.error_code,
+      r.upstream_http_status ? `HTTP ${r.upstream_http_status}` : null,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    return `<tr><td>${escapeHtml(r.created_at)}</td><td><a href="/ui/requests/${encodeURIComponent(r.id)}">${escapeHtml(summary)}</a><br /><span class="muted">${escapeHtml(r.method)} ${escapeHtml(truncate(redactUrl(redaction, r.upstream_url), 160))}</span></td><td>${escapeHtml(r.api_key_label_snapshot)}</td><td>${escapeHtml(outcome)}</td></tr>`;
+  });
+
+  return c.html(
+    renderPage({
+      title: "Proxy request history",
+      path: "/ui/requests",
+      csrf: auth.csrfToken,
+      body: trs.length
+        ? `<table><tr><th>Created</th><th>Request</th><th>Key</th><th>Outcome</th></tr>${trs.join("")}</table>${pager("/ui/requests", page, rows.length > PAGE_SIZE)}`
+        : '<p class="muted">No proxy requests yet.</p>',
+    })
+  );
+});
+
+uiRouter.get("/requests/:id", async (c) => {
+  const auth = c.get("webSession");
+  const redaction = await loadRedaction({ userId: auth.userId });
+  const r = (await db()
+    .query(
+      "SELECT id, api_key_label_snapshot, requester_ip, method, upstream_url, request_headers_json, request_body_base64, consent_hint, status, error_code, error_message, upstream_http_status, upstream_content_type, upstream_bytes, created_at, updated_at, approval_expires_at " +
+        "FROM proxy_requests WHERE id = ? AND user_id = ?;"
+    )
+    .get(c.req.param("id"), auth.userId)) as {
+    id: string;
+    api_key_label_snapshot: string;
+    requester_ip: string | null;
+    method: string;
+    upstream_url: string;
+    request_headers_json: string | null;
+    request_body_base64: string | null;
+    consent_hint: string | null;
+    status: string;
+    error_code: string | null;
+    error_message: string | null;
+    upstream_http_status: number | null;
+    upstream_content_type: string | null;
+    upstream_bytes: number | null;
+    created_at: string;
+    updated_at: string;
+    approval_expires_at: string;
+  } | null;
+  if (!r) return c.text("not found", 404);
+
+  const interpreted = interpretStoredRequest({
+    redaction,
+    method: r.method,
+    upstreamUrl: r.upstream_url,
+    headersJson: r.request_headers_json,
+    bodyBase64: r.request_body_base64,
+  });
+  const facts: [string, string | number | null][] = [
+    ["Request", `${r.method} ${redactUrl(redaction, r.upstream_url)}`],
+    ["Key", r.api_key_label_snapshot],
+    ["Requester IP", r.requester_ip],
+    [
+      "Requester note",
+      r.consent_hint ? redactText(redaction, r.consent_hint) : null,
+    ],
+    ["Status", r.status],
+    ["Error", [r.error_code, r.error_message].filter(Boolean).join(": ")],
+    ["Upstream status", r.upstream_http_status],
+    ["Upstream content type", r.upstream_content_type],
+    ["Upstream bytes", r.upstream_bytes],
+    ["Created", r.created_at],
+    ["Updated", r.updated_at],
+    ["Approval expires", r.approval_expires_at],
+  ];
+  const events = (await db()
+    .query(
+      "SELECT created_at, actor_type, event_type, event_json FROM audit_events WHERE user_id = ? AND request_id = ? ORDER BY created_at ASC, id ASC;"
+    )
+    .all(auth.userId, r.id)) as {
+    created_at: string;
+    actor_type: string;
+    event_type: string;
+    event_json: string;
+  }[];
+
+  const body = `<p><b>${escapeHtml(interpreted.summary)}</b></p>
+${interpreted.details.length ? `<pre>${escapeHtml(truncate(interpreted.details.join("\n"), 4000))}</pre>` : ""}
+<table>${facts
+    .filter(([, v]) => v !== null && v !== "")
+    .map(
+      ([k, v]) =>
+        `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(String(v))}</td></tr>`
+    )
+    .join("")}</table>
+<h2>Audit events</h2>
+${
+  events.length
+    ? `<table><tr><th>Time</th><th>Actor</th><th>Event</th><th>Details</th></tr>${events
+        .map(
+          (e) =>
+            `<tr><td>${escapeHtml(e.created_at)}</td><td>${escapeHtml(e.actor_type)}</td><td>${escapeHtml(e.event_type)}</td><td><code>${escapeHtml(truncate(e.event_json, 400))}</code></td></tr>`
+        )
+        .join("")}</table>`
+    : '<p class="muted">None.</p>'
+}`;
+
+  return c.html(
+    renderPage({
+      title: "Proxy request",
+      path: "/ui/requests",
+      csrf: auth.csrfToken,
+      body,
+    })
+  );
+});
+
+uiRouter.get("/git", async (c) => {
+  const auth = c.get("webSession");
+  const page = pageParam(c);
+  const rows = (await db()
+    .query(
+      "SELECT s.id, s.provider, s.operation, s.repo_owner, s.repo_name, s.status, s.standing, s.push_count, s.max_pushes, s.created_at, s.last_activity_at, k.label AS api_key_label " +
+        "FROM git_sessions s LEFT JOIN api_keys k ON k.id = s.api_key_id WHERE s.user_id = ? ORDER BY s.created_at DESC, s.id DESC LIMIT ? OFFSET ?;"
+    )
+    .all(auth.userId, PAGE_SIZE + 1, page * PAGE_SIZE)) as {
+    id: string;
+    provider: string;
+    operation: string;
+    repo_owner: string;
+    repo_name: string;
+    status: string;
+    standing: number;
+    push_count: number;
+    max_pushes: number | null;
+    created_at: string;
+    last_activity_at: string | null;
+    api_key_label: string | null;
+  }[];
+
+  const trs = rows.slice(0, PAGE_SIZE).map((s) => {
+    const pushes =
+      s.operation === "push"
+        ? `${s.push_count}${s.max_pushes ? `/${s.max_pushes}` : ""} pushes`
+        : "";
+    const kind = s.standing ? "standing" : "one-off";
+    return `<tr><td>${escapeHtml(s.created_at)}</td><td>${escapeHtml(s.operation)} ${escapeHtml(s.provider)}:${escapeHtml(s.repo_owner)}/${escapeHtml(s.repo_name)}</td><td>${escapeHtml(s.api_key_label ?? "?")}</td><td>${escapeHtml([s.status, kind, pushes].filter(Boolean).join(" · "))}</td><td>${escapeHtml(s.last_activity_at ?? "")}</td></tr>`;
+  });
+
+  return c.html(
+    renderPage({
+      title: "Git session history",
+      path: "/ui/git",
+      csrf: auth.csrfToken,
+      body: trs.length
+        ? `<table><tr><th>Created</th><th>Session</th><th>Key</th><th>Status</th><th>Last activity</th></tr>${trs.join("")}</table>${pager("/ui/git", page, rows.length > PAGE_SIZE)}`
+        : '<p class="muted">No git sessions yet.</p>',
+    })
+  );
+});
+
+uiRouter.get("/audit", async (c) => {
+  const auth = c.get("webSession");
+  const page = pageParam(c);
+  const rows = (await db()
+    .query(
+      "SELECT created_at, request_id, actor_type, actor_id, event_type, event_json FROM audit_events WHERE user_id = ? ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?;"
+    )
+    .all(auth.userId, PAGE_SIZE + 1, page * PAGE_SIZE)) as {
+    created_at: string;
+    request_id: string | null;
+    actor_type: string;
+    actor_id: string;
+    event_type: string;
+    event_json: string;
+  }[];
+
+  const trs = rows.slice(0, PAGE_SIZE).map((e) => {
+    const request = e.request_id
+      ? `<a href="/ui/requests/${encodeURIComponent(e.request_id)}">request</a>`
+      : "";
+    return `<tr><td>${escapeHtml(e.created_at)}</td><td>${escapeHtml(e.actor_type)}<br /><span class="muted">${escapeHtml(e.actor_id)}</span></td><td>${escapeHtml(e.event_type)} ${request}</td><td><code>${escapeHtml(truncate(e.event_json, 400))}</code></td></tr>`;
+  });
+
+  return c.html(
+    renderPage({
+      title: "Audit log",
+      path: "/ui/audit",
+      csrf: auth.csrfToken,
+      body: trs.length
+        ? `<table><tr><th>Time</th><th>Actor</th><th>Event</th><th>Details</th></tr>${trs.join("")}</table>${pager("/ui/audit", page, rows.length > PAGE_SIZE)}`
+        : '<p class="muted">No events yet.</p>',
+    })
+  );
+});
+
+uiRouter.get("/keys", async (c) => {
+  const auth = c.get("webSession");
+  const rows = (await db()
+    .query(
+      "SELECT id, label, created_at, revoked_at, last_used_at FROM api_keys WHERE user_id = ? ORDER BY created_at DESC;"
+    )
+    .all(auth.userId)) as {
+    id: string;
+    label: string;
+    created_at: string;
+    revoked_at: string | null;
+    last_used_at: string | null;
+  }[];
+
+  const trs = rows.map((k) => {
+    const actions = k.revoked_at
+      ? ""
+      : `${postForm({
+          action: `/ui/keys/${encodeURIComponent(k.id)}/rename`,
+          csrf: auth.csrfToken,
+          label: "Rename",
+          input: { name: "label", placeholder: "new label" },
+        })}${postForm({
+          action: `/ui/keys/${encodeURIComponent(k.id)}/revoke`,
+          csrf: auth.csrfToken,
+          label: "Revoke",
+        })}`;
+    return `<tr><td>${escapeHtml(k.label)}</td><td>${k.revoked_at ? `revoked ${escapeHtml(k.revoked_at)}` : "active"}</td><td>${escapeHtml(k.created_at)}</td><td>${escapeHtml(k.last_used_at ?? "never")}</td><td>${actions}</td></tr>`;
+  });
+
+  return c.html(
+    renderPage({
+      title: "API keys",
+      path: "/ui/keys",
+      csrf: auth.csrfToken,
+      notice: noticeParam(c),
+      body: `<p class="note">Create and rotate keys, and set scopes, callbacks and TTLs, with <code>/key</code> and <code>/keys</code> in Telegram.</p>
+${trs.length ? `<table><tr><th>Label</th><th>Status</th><th>Created</th><th>Last used</th><th></th></tr>${trs.join("")}</table>` : '<p class="muted">No API keys yet.</p>'}`,
+    })
+  );
+});
+
+uiRouter.post("/keys/:id/rename", async (c) => {
+  const auth = c.get("webSession");
+  const apiKeyId = c.req.param("id");
+  const form = await c.req.parseBody();
+  const label = formString(form, "label").replace(/\s+/g, " ").slice(0, 64);
+  if (!label) return redirectWithNotice(c, "/ui/keys", "Label is required.");
+
+  const res = await db()
+    .query(
+      "UPDATE api_keys SET label = ?, updated_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL;"
+    )
+    .run(label, nowIso(), apiKeyId, auth.userId);
+  if (res.changes !== 1) {
+    return redirectWithNotice(c, "/ui/keys", "Key not found.");
+  }
+
+  await auditEvent({
+    userId: auth.userId,
+    actorType: "web",
+    actorId: auth.sessionId,
+    eventType: "api_key_renamed",
+    event: { apiKeyId, newLabel: label },
+  });
+  return redirectWithNotice(c, "/ui/keys", `Renamed key to ${label}.`);
+});
+
+uiRouter.post("/keys/:id/revoke", async (c) => {
+  const auth = c.get("webSession");
+  const apiKeyId = c.req.param("id");
+  const now = nowIso();
+  const res = await db()
+    .query(
+      "UPDATE api_keys SET revoked_at = ?, updated_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL;"
+    )
+    .run(now, now, apiKeyId, auth.userId);
+  if (res.changes !== 1) {
+    return redirectWithNotice(
+      c,
+      "/ui/keys",
+      "Key not found or already revoked."
+    );
+  }
+
+  await auditEvent({
+    userId: auth.userId,
+    actorType: "web",
+    actorId: auth.sessionId,
+    eventType: "api_key_revoked",
+    event: { apiKeyId },
+  });
+  return redirectWithNotice(c, "/ui/keys", "Key revoked.");
+});
+
+uiRouter.get("/accounts", async (c) => {
+  const auth = c.get("webSession");
+  const providers = listProxyProviderIds();
+  const accounts: LinkedAccount[] = [];
+  for (const provider of providers) {
+    accounts.push(
+      ...(await listActiveLinkedAccounts({ userId: auth.userId, provider })),
+      ...(await listLinkedAccountsNeedingReauth({
+        userId: auth.userId,
+        provider,
+      }))
+    );
+  }
+
+  const trs = accounts.map((a) => {
+    const status =
+      a.status === "needs_reauth" ? "needs reconnecting" : "active";
+    const rename =
+      a.status === "active"
+        ? postForm({
+            action: `/ui/accounts/${encodeURIComponent(a.id)}/label`,
+            csrf: auth.csrfToken,
+            label: "Set label",
+            input: {
+              name: "label",
+              placeholder: "label",
+              value: a.label ?? "",
+            },
+          })
+        : "";
+    return `<tr><td>${escapeHtml(a.provider)}</td><td>${escapeHtml(describeLinkedAccount(a))}</td><td>${escapeHtml(status)}</td><td>${escapeHtml(a.createdAt)}</td><td>${rename}${postForm(
+      {
+        action: `/ui/accounts/${encodeURIComponent(a.id)}/disconnect`,
+        csrf: auth.csrfToken,
+        label: "Disconnect",
+      }
+    )}</td></tr>`;
+  });
+
+  const connect = providers
+    .map((p) =>
+      postForm({
+        action: "/ui/accounts/connect",
+        csrf: auth.csrfToken,
+        label: `Connect ${p}`,
+        fields: { provider: p },
+      })
+    )
+    .join(" ");
+
+  return c.html(
+    renderPage({
+      title: "Linked accounts",
+      path: "/ui/accounts",
+      csrf: auth.csrfToken,
+      notice: noticeParam(c),
+      body: `${trs.length ? `<table><tr><th>Provider</th><th>Account</th><th>Status</th><th>Connected</th><th></th></tr>${trs.join("")}</table>` : '<p class="muted">No linked accounts yet.</p>'}
+<h2>Connect</h2><p>${connect}</p>`,
+    })
+  );
+});
+
+uiRouter.post("/accounts/connect", async (c) => {
+  const auth = c.get("webSession");
+  const form = await c.req.parseBody();
+  const provider = formString(form, "provider");
+  if (!listProxyProviderIds().includes(provider)) {
+    return c.text("unknown provider", 400);
+  }
+  try {
+    const url = await createConnectUrl({
+      userId: auth.userId,
+      providerId: provider,
+    });
+    return c.redirect(url, 303);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return redirectWithNotice(c, "/ui/accounts", `Cannot connect: ${msg}`);
+  }
+});
+
+uiRouter.post("/accounts/:id/label", async (c) => {
+  const auth = c.get("webSession");
+  const accountId = c.req.param("id");
+  const form = await c.req.parseBody();
+  const raw = formString(form, "label").replace(/\s+/g, " ").slice(0, 64);
+  const label = raw || null;
+
+  const res = await setLinkedAccountLabel({
+    accountId,
+    userId: auth.userId,
+    label,
+  });
+  if (!res.ok) {
+    return redirectWithNotice(
+      c,
+      "/ui/accounts",
+      res.error === "label_taken"
+        ? "Another account for this provider already uses that label."
+        : "Account not found."
+    );
+  }
+
+  await auditEvent({
+    userId: auth.userId,
+    actorType: "web",
+    actorId: auth.sessionId,
+    eventType: "linked_account_labeled",
+    event: { account_id: accountId, label },
+  });
+  return redirectWithNotice(
+    c,
+    "/ui/accounts",
+    label ? `Account label set: ${label}` : "Label removed."
+  );
+});
+
+uiRouter.post("/accounts/:id/disconnect", async (c) => {
+  const auth = c.get("webSession");
+  const account = await getLinkedAccountForUser({
+    accountId: c.req.param("id"),
+    userId: auth.userId,
+  });
+  if (
+    !account ||
+    !(await revokeLinkedAccount({ accountId: account.id, userId: auth.userId }))
+  ) {
+    return redirectWithNotice(c, "/ui/accounts", "Account not found.");
+  }
+
+  await auditEvent({
+    userId: auth.userId,
+    actorType: "web",
+    actorId: auth.sessionId,
+    eventType: "linked_account_revoked",
+    event: { provider: account.provider, account_id: account.id },
+  });
+  return redirectWithNotice(c, "/ui/accounts", "Account disconnected.");
+});
+
+uiRouter.get("/rules", async (c) => {
+  const auth = c.get("webSession");
+  const alwaysAllow = await listAlwaysAllowRules(auth.userId);
+  const policy = await listPolicyRules(auth.userId);
+  const keyLabels = new Map(
+    (
+      (await db()
+        .query("SELECT id, label FROM api_keys WHERE user_id = ?;")
+        .all(auth.userId)) as { id: string; label: string }[]
+    ).map((k) => [k.id, k.label])
+  );
+
+  const allowRows = alwaysAllow.map(
+    (r) =>
+      `<tr><td>${escapeHtml(r.method)} ${escapeHtml(r.upstream_host)}${escapeHtml(r.upstream_path)}</td><td>${escapeHtml(r.api_key_label ?? "?")}</td><td>${escapeHtml(r.requester_ip)}</td><td>${escapeHtml(r.created_at)}</td><td>${postForm(
+        {
+          action: `/ui/rules/always-allow/${encodeURIComponent(r.id)}/revoke`,
+          csrf: auth.csrfToken,
+          label: "Revoke",
+        }
+      )}</td></tr>`
+  );
+  const policyRows = policy.map(
+    (r) =>
+      `<tr><td>${escapeHtml(describePolicyRule(r, r.apiKeyId ? keyLabels.get(r.apiKeyId) : undefined))}</td><td>${postForm(
+        {
+          action: `/ui/rules/policy/${encodeURIComponent(r.id)}/revoke`,
+          csrf: auth.csrfToken,
+          label: "Revoke",
+        }
+      )}</td></tr>`
+  );
+
+  return c.html(
+    renderPage({
+      title: "Rules",
+      path: "/ui/rules",
+      csrf: auth.csrfToken,
+      notice: noticeParam(c),
+      body: `<h2>Always allow</h2>
+${allowRows.length ? `<table><tr><th>Endpoint</th><th>Key</th><th>Requester IP</th><th>Created</th><th></th></tr>${allowRows.join("")}</table>` : '<p class="muted">None. Created with "Always allow" on an approval prompt.</p>'}
+<h2>Policy rules</h2>
+${policyRows.length ? `<table><tr><th>Rule</th><th></th></tr>${policyRows.join("")}</table>` : '<p class="muted">None. Add rules with <code>/rules add</code> in Telegram.</p>'}`,
+    })
+  );
+});
+
+uiRouter.post("/rules/always-allow/:id/revoke", async (c) => {
+  const auth = c.get("webSession");
+  const ruleId = c.req.param("id");
+  if ((await revokeAlwaysAllowRules({ userId: auth.userId, ruleId })) !== 1) {
+    return redirectWithNotice(c, "/ui/rules", "Rule not found.");
+  }
+
+  await auditEvent({
+    userId: auth.userId,
+    actorType: "web",
+    actorId: auth.sessionId,
+    eventType: "proxy_always_allow_revoked",
+    event: { rule_id: ruleId },
+  });
+  return redirectWithNotice(c, "/ui/rules", "Rule revoked.");
+});
+
+uiRouter.post("/rules/policy/:id/revoke", async (c) => {
+  const auth = c.get("webSession");
+  const ruleId = c.req.param("id");
+  if (!(await revokePolicyRule({ userId: auth.userId, ruleId }))) {
+    return redirectWithNotice(c, "/ui/rules", "Rule not found.");
+  }
+
+  await auditEvent({
+    userId: auth.userId,
+    actorType: "web",
+    actorId: auth.sessionId,
+    eventType: "proxy_policy_rule_revoked",
+    event: { rule_id: ruleId },
+  });
+  return redirectWithNotice(c, "/ui/rules", "Rule revoked.");
+});
@@ -0,0 +1,192 @@
+import { afterEach, expect, test } from "bun:test";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { sweepLinkedAccountHealth } from "../src/accounts/health";
+import {
+  listActiveLinkedAccounts,
+  upsertLinkedAccount,
+} from "../src/accounts/linked";
+import { encryptUtf8 } from "../src/crypto/aesgcm";
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import { OAuthTokenRefreshError } from "../src/oauth/flow";
+import { checkRefreshTokenHealth } from "../src/oauth/tokenCache";
+import { githubProxyProvider } from "../src/providers/github/proxy";
+import type { CredentialHealth } from "../src/proxy/provider";
+import { accountRouter } from "../src/web/accounts";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+
+const originalCheck = githubProxyProvider.checkCredential;
+afterEach(() => {
+  githubProxyProvider.checkCredential = originalCheck;
+});
+
+function fakeGithubCheck(results: Record<string, CredentialHealth>) {
+  const checked: string[] = [];
+  githubProxyProvider.checkCredential = async ({ storedCredential }) => {
+    checked.push(storedCredential);
+    return results[storedCredential] ?? { ok: true };
+  };
+  return checked;
+}
+
+async function setup(): Promise<{ userId: string; accountIds: string[] }> {
+  await db().exec("DELETE FROM audit_events;");
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+    )
+    .run(
+      ulid(),
+      userId,
+      "keyA",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso()
+    );
+
+  const accountIds: string[] = [];
+  for (const token of ["gho_good", "gho_revoked"]) {
+    const linked = await upsertLinkedAccount({
+      userId,
+      provider: "github",
+      providerUserId: token,
+      scopes: "repo",
+      ciphertext: await encryptUtf8(token),
+    });
+    if (!linked) throw new Error("expected account to be stored");
+    accountIds.push(linked.accountId);
+  }
+  // Freshly linked accounts count as checked; make them due.
+  await db().exec("UPDATE linked_accounts SET health_checked_at = NULL;");
+  return { userId, accountIds };
+}
+
+async function listAccounts(): Promise<JsonRecord[]> {
+  const a = new Hono();
+  a.route("/v1/accounts", accountRouter);
+  const res = await a.request("/v1/accounts", {
+    headers: { authorization: "Bearer pb_test_key_a" },
+  });
+  expect(res.status).toBe(200);
+  return ((await res.json()) as { accounts: JsonRecord[] }).accounts;
+}
+
+test("rejected credentials move the account to needs_reauth until reconnected", async () => {
+  const { userId, accountIds } = await setup();
+  const [good, revoked] = accountIds;
+  const checked = fakeGithubCheck({
+    gho_revoked: { ok: false, needsReauth: true, message: "token was revoked" },
+  });
+
+  expect(await sweepLinkedAccountHealth()).toBe(2);
+  expect(checked.sort()).toEqual(["gho_good", "gho_revoked"]);
+
+  // Not due again until the interval passes.
+  expect(await sweepLinkedAccountHealth()).toBe(0);
+
+  const byId = new Map((await listAccounts()).map((a) => [a.id, a]));
+  expect(byId.get(good)?.status).toBe("active");
+  expect(byId.get(good)?.health).toMatchObject({
+    status: "healthy",
+    error: null,
+  });
+  expect(byId.get(revoked)?.status).toBe("needs_reauth");
+  expect(byId.get(revoked)?.health).toMatchObject({
+    status: "needs_reauth",
+    error: "token was revoked",
+  });
+
+  expect(
+    (await listActiveLinkedAccounts({ userId, provider: "github" })).map(
+      (a) => a.id
+    )
+  ).toEqual([good]);
+
+  const audit = (await db()
+    .query(
+      "SELECT actor_id, event_json FROM audit_events WHERE event_type = 'linked_account_needs_reauth';"
+    )
+    .all()) as { actor_id: string; event_json: string }[];
+  expect(audit).toHaveLength(1);
+  expect(audit[0].actor_id).toBe("account_health");
+  expect(JSON.parse(audit[0].event_json).account_id).toBe(revoked);
+
+  // Reconnecting without a new credential leaves it waiting for one;
+  // reconnecting the same identity with one restores the account.
+  await upsertLinkedAccount({
+    userId,
+    provider: "github",
+    providerUserId: "gho_revoked",
+    scopes: "repo",
+    ciphertext: null,
+  });
+  expect((await listAccounts()).find((a) => a.id === revoked)?.status).toBe(
+    "needs_reauth"
+  );
+  await upsertLinkedAccount({
+    userId,
+    provider: "github",
+    providerUserId: "gho_revoked",
+    scopes: "repo",
+    ciphertext: await encryptUtf8("gho_new"),
+  });
+  const restored = (await listAccounts()).find((a) => a.id === revoked);
+  expect(restored?.status).toBe("active");
+  expect(restored?.health).toMatchObject({ status: "healthy" });
+});
+
+test("transient failures are recorded without changing the status", async () => {
+  const { accountIds } = await setup();
+  fakeGithubCheck({
+    gho_good: { ok: false, needsReauth: false, message: "github /user: 502" },
+  });
+  await sweepLinkedAccountHealth();
+
+  const account = (await listAccounts()).find((a) => a.id === accountIds[0]);
+  expect(account?.status).toBe("active");
+  expect(account?.health).toMatchObject({
+    status: "check_failed",
+    error: "github /user: 502",
+  });
+
+  // Refresh-token providers: only invalid_grant asks for a reconnect.
+  const refreshError = (oauthError: string) => async () => {
+    throw new OAuthTokenRefreshError({
+      providerId: "google",
+      tokenEndpoint: "https://oauth2.googleapis.com/token",
+      status: 400,
+      oauthError,
+      message: `oauth token refresh failed: error=${oauthError}`,
+    });
+  };
+  expect(
+    await checkRefreshTokenHealth({ refresh: refreshError("invalid_grant") })
+  ).toMatchObject({ ok: false, needsReauth: true });
+  expect(
+    await checkRefreshTokenHealth({ refresh: refreshError("server_error") })
+  ).toMatchObject({ ok: false, needsReauth: false });
+});
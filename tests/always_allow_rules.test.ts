@@ -6,6 +6,7 @@ import { sha256Hex } from "../src/crypto/sha256";
 import { db } from "../src/db/client";
 import { migrate } from "../src/db/migrate";
 import { upsertAlwaysAllowRule } from "../src/proxy/alwaysAllow";
+import { createApprovalGrant } from "../src/proxy/grants";
 import { proxyRouter } from "../src/web/proxy";
 
 type JsonRecord = Record<string, unknown>;
@@ -15,20 +16,21 @@ function nowIso(): string {
 }
 
 // Create schema once for this test file.
-migrate();
+await migrate();
 
 async function setupDb() {
-  db().exec("DELETE FROM approvals;");
-  db().exec("DELETE FROM proxy_requests;");
-  db().exec("DELETE FROM proxy_always_allow_rules;");
-  db().exec("DELETE FROM linked_accounts;");
-  db().exec("DELETE FROM api_keys;");
-  db().exec("DELETE FROM users;");
+  await db().exec("DELETE FROM approvals;");
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM proxy_always_allow_rules;");
+  await db().exec("DELETE FROM proxy_approval_grants;");
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
 }
 
 async function insertUser(telegramUserId = 123): Promise<string> {
   const id = ulid();
-  db()
+  await db()
     .query(
       "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
     )
@@ -44,7 +46,7 @@ async function insertApiKey(params: {
   const apiKeyId = ulid();
   const keyHash = await sha256Hex(params.keyPlain);
   const now = nowIso();
-  db()
+  await db()
     .query(
       "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
     )
@@ -69,7 +71,7 @@ test("always allow: /request auto-approves matching endpoints", async () => {
   });
 
   // Create permanent allow rule for GET api.github.com/user, scoped to key/IP.
-  upsertAlwaysAllowRule({
+  await upsertAlwaysAllowRule({
     userId,
     apiKeyId: keyA.apiKeyId,
     requesterIp: "203.0.113.10",
@@ -95,8 +97,89 @@ test("always allow: /request auto-approves matching endpoints", async () => {
   const j = (await res.json()) as JsonRecord;
   expect(j.status).toBe("APPROVED");
 
-  const row = db()
+  const row = (await db()
     .query("SELECT status FROM proxy_requests WHERE id = ? LIMIT 1;")
-    .get(j.request_id as string) as { status: string };
+    .get(j.request_id as string)) as { status: string };
   expect(row.status).toBe("APPROVED");
 });
+
+test("approval grants: usage-capped grant falls back to a prompt once exhausted", async () => {
+  await setupDb();
+
+  const userId = await insertUser();
+  const keyA = await insertApiKey({
+    userId,
+    label: "keyA",
+    keyPlain: "pb_test_key_a",
+  });
+
+  const { grantId } = await createApprovalGrant({
+    userId,
+    apiKeyId: keyA.apiKeyId,
+    requesterIp: "203.0.113.10",
+    method: "GET",
+    url: new URL("https://api.github.com/user"),
+    maxUses: 2,
+  });
+
+  const send = () =>
+    app().request("/v1/proxy/request", {
+      method: "POST",
+      headers: {
+        authorization: "Bearer pb_test_key_a",
+        "content-type": "application/json",
+        "x-forwarded-for": "203.0.113.10",
+      },
+      body: JSON.stringify({
+        upstream_url: "https://api.github.com/user",
+        method: "GET",
+      }),
+    });
+
+  for (let i = 0; i < 2; i++) {
+    const j = (await (await send()).json()) as JsonRecord;
+    expect(j.status).toBe("APPROVED");
+    expect((j.matched_rule as JsonRecord).rule_id).toBe(grantId);
+    expect((j.matched_rule as JsonRecord).source).toBe("approval_grant");
+  }
+
+  const j = (await (await send()).json()) as JsonRecord;
+  expect(j.status).toBe("PENDING_APPROVAL");
+  expect(j.matched_rule).toBeUndefined();
+});
+
+test("approval grants: expired grants do not match", async () => {
+  await setupDb();
+
+  const userId = await insertUser();
+  const keyA = await insertApiKey({
+    userId,
+    label: "keyA",
+    keyPlain: "pb_test_key_a",
+  });
+
+  await createApprovalGrant({
+    userId,
+    apiKeyId: keyA.apiKeyId,
+    requesterIp: "203.0.113.10",
+    method: "GET",
+    url: new URL("https://api.github.com/user"),
+    ttlMs: -1000,
+  });
+
+  const res = await app().request("/v1/proxy/request", {
+    method: "POST",
+    headers: {
+      authorization: "Bearer pb_test_key_a",
+      "content-type": "application/json",
+      "x-forwarded-for": "203.0.113.10",
+    },
+    body: JSON.stringify({
+      upstream_url: "https://api.github.com/user",
+      method: "GET",
+    }),
+  });
+
+  const j = (await res.json()) as JsonRecord;
+  expect(j.status).toBe("PENDING_APPROVAL");
+});
@@ -0,0 +1,157 @@
+import { expect, test } from "bun:test";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import {
+  checkApiKeyScope,
+  formatApiKeyScope,
+  parseApiKeyScopeSpec,
+} from "../src/auth/scopes";
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { gitRouter } from "../src/web/git";
+import { proxyRouter } from "../src/web/proxy";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+
+async function setup(scopeSpec: string): Promise<{ userId: string }> {
+  await db().exec("DELETE FROM approvals;");
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM git_sessions;");
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+
+  const scope = parseApiKeyScopeSpec(scopeSpec);
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at, scopes_json) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL, ?);"
+    )
+    .run(
+      ulid(),
+      userId,
+      "keyA",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso(),
+      scope ? JSON.stringify(scope) : null
+    );
+  return { userId };
+}
+
+function app() {
+  const a = new Hono();
+  a.route("/v1/proxy", proxyRouter);
+  a.route("/v1/git", gitRouter);
+  return a;
+}
+
+const authHeaders = {
+  authorization: "Bearer pb_test_key_a",
+  "content-type": "application/json",
+};
+
+test("scope spec: parse, format and match", () => {
+  const scope = parseApiKeyScopeSpec(
+    "provider=github prefix=https://api.github.com/repos/acme/ method=get,post readonly"
+  );
+  expect(formatApiKeyScope(scope)).toBe(
+    "provider=github prefix=api.github.com/repos/acme method=GET,POST readonly"
+  );
+
+  const check = (method: string, url: string, providerId = "github") =>
+    checkApiKeyScope(scope, { providerId, method, url: new URL(url) }).allowed;
+
+  expect(check("GET", "https://api.github.com/repos/acme")).toBe(true);
+  expect(check("GET", "https://api.github.com/repos/acme/app/pulls")).toBe(
+    true
+  );
+  // Segment boundary, not a raw string prefix.
+  expect(check("GET", "https://api.github.com/repos/acme-evil/app")).toBe(
+    false
+  );
+  // Allowed method, but the key is read-only.
+  expect(check("POST", "https://api.github.com/repos/acme/app/issues")).toBe(
+    false
+  );
+  expect(
+    check("GET", "https://www.googleapis.com/drive/v3/files", "google")
+  ).toBe(false);
+
+  expect(parseApiKeyScopeSpec("")).toBeNull();
+  expect(() => parseApiKeyScopeSpec("hosts=x")).toThrow();
+});
+
+test("proxy request: out-of-scope requests are rejected before any prompt", async () => {
+  await setup("provider=github readonly");
+
+  const res = await app().request("/v1/proxy/request", {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({
+      upstream_url: "https://api.github.com/repos/acme/app/issues",
+      method: "POST",
+      body: { title: "x" },
+    }),
+  });
+  expect(res.status).toBe(403);
+  expect(((await res.json()) as JsonRecord).error).toBe("out_of_scope");
+
+  const count = (await db()
+    .query("SELECT COUNT(*) AS n FROM proxy_requests;")
+    .get()) as { n: number };
+  expect(count.n).toBe(0);
+
+  const audited = (await db()
+    .query(
+      "SELECT COUNT(*) AS n FROM audit_events WHERE event_type = 'api_key_scope_violation';"
+    )
+    .get()) as { n: number };
+  expect(audited.n).toBeGreaterThan(0);
+
+  const allowed = await app().request("/v1/proxy/request", {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({ upstream_url: "https://api.github.com/user" }),
+  });
+  expect(allowed.status).toBe(200);
+});
+
+test("git sessions: push is rejected for read-only keys", async () => {
+  await setup("provider=github prefix=github.com/acme readonly");
+
+  const push = await app().request("/v1/git/sessions", {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({ operation: "push", repo: "acme/app" }),
+  });
+  expect(push.status).toBe(403);
+  expect(((await push.json()) as JsonRecord).error).toBe("out_of_scope");
+
+  const otherOwner = await app().request("/v1/git/sessions", {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({ operation: "clone", repo: "other/app" }),
+  });
+  expect(otherOwner.status).toBe(403);
+
+  const sessions = (await db()
+    .query("SELECT COUNT(*) AS n FROM git_sessions;")
+    .get()) as { n: number };
+  expect(sessions.n).toBe(0);
+});
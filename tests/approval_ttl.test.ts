@@ -0,0 +1,184 @@
+import { expect, test } from "bun:test";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import { sweepGitSessions } from "../src/git/sweeper";
+import {
+  formatDurationSeconds,
+  parseDurationSeconds,
+  resolveApprovalTtlSeconds,
+} from "../src/proxy/approvalTtl";
+import { gitRouter } from "../src/web/git";
+import { proxyRouter } from "../src/web/proxy";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+
+async function setup(
+  maxApprovalTtlSeconds: number | null
+): Promise<{ userId: string }> {
+  await db().exec("DELETE FROM approvals;");
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM git_sessions;");
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at, max_approval_ttl_seconds) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL, ?);"
+    )
+    .run(
+      ulid(),
+      userId,
+      "keyA",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso(),
+      maxApprovalTtlSeconds
+    );
+  return { userId };
+}
+
+function app() {
+  const a = new Hono();
+  a.route("/v1/proxy", proxyRouter);
+  a.route("/v1/git", gitRouter);
+  return a;
+}
+
+const authHeaders = {
+  authorization: "Bearer pb_test_key_a",
+  "content-type": "application/json",
+};
+
+test("ttl helpers: durations and bounds", () => {
+  expect(parseDurationSeconds("2h")).toBe(7200);
+  expect(parseDurationSeconds("30m")).toBe(1800);
+  expect(parseDurationSeconds("90")).toBe(90);
+  expect(parseDurationSeconds("soon")).toBeNull();
+  expect(formatDurationSeconds(5400)).toBe("90m");
+  expect(formatDurationSeconds(86_400)).toBe("1d");
+
+  const fallback = resolveApprovalTtlSeconds({
+    keyMaxSeconds: 60,
+    defaultSeconds: 120,
+  });
+  expect(fallback).toEqual({ ok: true, seconds: 60 });
+
+  expect(
+    resolveApprovalTtlSeconds({
+      requested: 10,
+      keyMaxSeconds: null,
+      defaultSeconds: 120,
+    }).ok
+  ).toBe(false);
+  expect(
+    resolveApprovalTtlSeconds({
+      requested: env.APPROVAL_TTL_MAX_SECONDS + 1,
+      keyMaxSeconds: null,
+      defaultSeconds: 120,
+    }).ok
+  ).toBe(false);
+});
+
+test("proxy request: approval_ttl_seconds sets the window, bounded by the key max", async () => {
+  await setup(3600);
+
+  const before = Date.now();
+  const res = await app().request("/v1/proxy/request", {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({
+      upstream_url: "https://api.github.com/user",
+      approval_ttl_seconds: 1800,
+    }),
+  });
+  expect(res.status).toBe(200);
+  const j = (await res.json()) as JsonRecord;
+  const expiresIn = Date.parse(j.approval_expires_at as string) - before;
+  expect(expiresIn).toBeGreaterThanOrEqual(1800_000);
+  expect(expiresIn).toBeLessThan(1800_000 + 60_000);
+
+  const tooLong = await app().request("/v1/proxy/request", {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({
+      upstream_url: "https://api.github.com/user",
+      approval_ttl_seconds: 7200,
+    }),
+  });
+  expect(tooLong.status).toBe(400);
+  expect(((await tooLong.json()) as JsonRecord).error).toBe("invalid_request");
+});
+
+test("git sessions: the sweeper honours each session's inactivity window", async () => {
+  await setup(null);
+
+  const create = async (inactivity?: number) => {
+    const res = await app().request("/v1/git/sessions", {
+      method: "POST",
+      headers: authHeaders,
+      body: JSON.stringify({
+        operation: "clone",
+        repo: "acme/app",
+        inactivity_timeout_seconds: inactivity,
+      }),
+    });
+    expect(res.status).toBe(200);
+    return ((await res.json()) as JsonRecord).session_id as string;
+  };
+
+  const short = await create();
+  const long = await create(1800);
+
+  const tooLong = await app().request("/v1/git/sessions", {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({
+      operation: "clone",
+      repo: "acme/app",
+      inactivity_timeout_seconds: env.GIT_SESSION_INACTIVITY_MAX_SECONDS + 1,
+    }),
+  });
+  expect(tooLong.status).toBe(400);
+
+  // Both approved and last used 10 minutes ago.
+  const tenMinutesAgo = new Date(Date.now() - 10 * 60_000).toISOString();
+  await db()
+    .query(
+      "UPDATE git_sessions SET status = 'ACTIVE', last_activity_at = ?, updated_at = ?;"
+    )
+    .run(tenMinutesAgo, tenMinutesAgo);
+
+  await sweepGitSessions();
+
+  const status = async (id: string) =>
+    (
+      (await db()
+        .query("SELECT status FROM git_sessions WHERE id = ?;")
+        .get(id)) as {
+        status: string;
+      }
+    ).status;
+  expect(await status(short)).toBe("EXPIRED");
+  expect(await status(long)).toBe("ACTIVE");
+});
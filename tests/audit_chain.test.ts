@@ -0,0 +1,237 @@
+import { expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { auditEvent } from "../src/audit/audit";
+import {
+  AUDIT_CHAIN_GENESIS,
+  backfillAuditChains,
+  readLatestAuditCheckpoints,
+  verifyAuditChain,
+  verifyAuditCheckpoint,
+  writeAuditCheckpoint,
+} from "../src/audit/chain";
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import { auditRouter } from "../src/web/audit";
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+
+async function setup(): Promise<{ userId: string; otherUserId: string }> {
+  await db().exec("DELETE FROM audit_events;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  const otherUserId = ulid();
+  const insertUser = db().query(
+    "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, 'active');"
+  );
+  await insertUser.run(userId, 123, nowIso());
+  await insertUser.run(otherUserId, 456, nowIso());
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, 'agent', ?, ?, ?, NULL, NULL);"
+    )
+    .run(ulid(), userId, await sha256Hex("pb_chain"), nowIso(), nowIso());
+
+  for (let i = 0; i < 4; i++) {
+    for (const uid of [userId, otherUserId]) {
+      await auditEvent({
+        userId: uid,
+        actorType: "telegram",
+        actorId: "123",
+        eventType: "api_key_renamed",
+        event: { apiKeyId: "k", newLabel: `agent-${i}` },
+      });
+    }
+  }
+  return { userId, otherUserId };
+}
+
+async function chainIds(userId: string): Promise<string[]> {
+  return (
+    (await db()
+      .query("SELECT id FROM audit_events WHERE user_id = ? ORDER BY id;")
+      .all(userId)) as { id: string }[]
+  ).map((r) => r.id);
+}
+
+test("each user's events are chained and the first broken link is reported", async () => {
+  const { userId, otherUserId } = await setup();
+  const ids = await chainIds(userId);
+
+  const first = (await db()
+    .query("SELECT prev_hash, hash FROM audit_events WHERE id = ?;")
+    .get(ids[0] ?? "")) as { prev_hash: string; hash: string };
+  expect(first.prev_hash).toBe(AUDIT_CHAIN_GENESIS);
+  const second = (await db()
+    .query("SELECT prev_hash FROM audit_events WHERE id = ?;")
+    .get(ids[1] ?? "")) as { prev_hash: string };
+  expect(second.prev_hash).toBe(first.hash);
+
+  const ok = await verifyAuditChain(userId);
+  expect(ok).toMatchObject({ ok: true, checked: 4, pending: 0, broken: null });
+  expect(ok.headId).toBe(ids[3] ?? "");
+
+  // Editing an event breaks its own hash.
+  await db()
+    .query("UPDATE audit_events SET event_json = '{\"n\":99}' WHERE id = ?;")
+    .run(ids[1] ?? "");
+  expect((await verifyAuditChain(userId)).broken).toEqual({
+    id: ids[1] ?? "",
+    reason: "hash_mismatch",
+  });
+
+  // Deleting one breaks the link from the next event.
+  await db()
+    .query("DELETE FROM audit_events WHERE id = ?;")
+    .run(ids[1] ?? "");
+  expect((await verifyAuditChain(userId)).broken).toEqual({
+    id: ids[2] ?? "",
+    reason: "prev_hash_mismatch",
+  });
+
+  // Clearing a hash can't hide an edit either.
+  await db()
+    .query("UPDATE audit_events SET hash = NULL WHERE id = ?;")
+    .run(ids[0] ?? "");
+  expect((await verifyAuditChain(userId)).broken?.reason).toBe("unsealed");
+
+  // Other users' chains are independent.
+  expect((await verifyAuditChain(otherUserId)).ok).toBe(true);
+});
+
+test("concurrent events chain in id order after events from before chaining", async () => {
+  const { otherUserId } = await setup();
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, 'active');"
+    )
+    .run(userId, 789, nowIso());
+  // Written before chaining existed: no hashes.
+  for (const id of [ulid(1_000), ulid(2_000)]) {
+    await db()
+      .query(
+        "INSERT INTO audit_events (id, created_at, user_id, request_id, actor_type, actor_id, event_type, event_json) VALUES (?, ?, ?, NULL, 'system', 'test', 'api_key_revoked', '{}');"
+      )
+      .run(id, nowIso(), userId);
+  }
+  expect(await verifyAuditChain(userId)).toMatchObject({
+    checked: 0,
+    pending: 2,
+  });
+
+  await Promise.all(
+    Array.from({ length: 6 }, (_, i) =>
+      auditEvent({
+        userId,
+        actorType: "telegram",
+        actorId: "789",
+        eventType: "api_key_renamed",
+        event: { apiKeyId: "k", newLabel: `agent-${i}` },
+      })
+    )
+  );
+  // Sealed on insert; nothing is left for a background pass.
+  expect(await verifyAuditChain(userId)).toMatchObject({
+    ok: true,
+    checked: 8,
+    pending: 0,
+  });
+  const unsealed = (await db()
+    .query("SELECT COUNT(*) AS n FROM audit_events WHERE hash IS NULL;")
+    .get()) as { n: number };
+  expect(unsealed.n).toBe(0);
+
+  // Chains without new events are backfilled once; sealed ones are left
+  // alone, so a cleared hash still shows.
+  await db()
+    .query(
+      "INSERT INTO audit_events (id, created_at, user_id, request_id, actor_type, actor_id, event_type, event_json) VALUES (?, ?, NULL, NULL, 'system', 'test', 'api_key_revoked', '{}');"
+    )
+    .run(ulid(1_000), nowIso());
+  const ids = await chainIds(otherUserId);
+  await db()
+    .query("UPDATE audit_events SET hash = NULL WHERE id = ?;")
+    .run(ids[1] ?? "");
+  await backfillAuditChains();
+  expect(await verifyAuditChain(null)).toMatchObject({
+    ok: true,
+    checked: 1,
+  });
+  expect((await verifyAuditChain(otherUserId)).broken?.reason).toBe("unsealed");
+});
+
+test("signed checkpoints catch truncation; /v1/audit/verify reports it", async () => {
+  const { userId } = await setup();
+  const ids = await chainIds(userId);
+  const path = join(mkdtempSync(join(tmpdir(), "pb-audit-")), "checkpoints");
+
+  expect(await writeAuditCheckpoint(path)).toBe(2);
+  const cp = readLatestAuditCheckpoints(path).get(userId);
+  if (!cp) throw new Error("missing checkpoint");
+  expect(cp).toMatchObject({ last_id: ids[3], count: 4 });
+  expect(await verifyAuditCheckpoint(cp)).toEqual({ ok: true });
+  expect(await verifyAuditCheckpoint({ ...cp, count: 3 })).toEqual({
+    ok: false,
+    reason: "bad_signature",
+  });
+
+  const app = new Hono();
+  app.route("/v1/audit", auditRouter);
+  const verify = async () => {
+    const res = await app.request("/v1/audit/verify", {
+      headers: { authorization: "Bearer pb_chain" },
+    });
+    expect(res.status).toBe(200);
+    return (await res.json()) as Record<string, unknown>;
+  };
+
+  const prevPath = env.AUDIT_CHECKPOINT_PATH;
+  env.AUDIT_CHECKPOINT_PATH = path;
+  try {
+    expect(await verify()).toMatchObject({
+      ok: true,
+      checked: 4,
+      checkpoint: { last_id: ids[3], ok: true },
+    });
+
+    // Dropping the newest event leaves a valid chain, but not the one that
+    // was checkpointed.
+    await db()
+      .query("DELETE FROM audit_events WHERE id = ?;")
+      .run(ids[3] ?? "");
+    expect(await verify()).toMatchObject({
+      ok: false,
+      checked: 3,
+      broken: null,
+      checkpoint: { ok: false, reason: "missing_event" },
+    });
+
+    // A later checkpoint line wins; a forged one fails its signature.
+    const forged = { ...cp, last_id: ids[2], count: 3 };
+    writeFileSync(
+      path,
+      `${readFileSync(path, "utf8")}${JSON.stringify(forged)}\n`
+    );
+    expect((await verify()).checkpoint).toMatchObject({
+      ok: false,
+      reason: "bad_signature",
+    });
+  } finally {
+    env.AUDIT_CHECKPOINT_PATH = prevPath;
+  }
+});
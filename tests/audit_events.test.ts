@@ -0,0 +1,249 @@
+import { expect, test } from "bun:test";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { ulid } from "ulid";
+
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import { createGitSession } from "../src/git/sessions";
+import { sweepGitSessions } from "../src/git/sweeper";
+import { decideProxyRequest } from "../src/proxy/requests";
+import { sweepApprovalExpirations } from "../src/proxy/sweeper";
+import { transitionProxyRequests } from "../src/proxy/transitions";
+
+type AuditRow = {
+  event_type: string;
+  actor_type: string;
+  actor_id: string;
+  event_json: string;
+};
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+
+async function setup(): Promise<{ userId: string; apiKeyId: string }> {
+  await db().exec("DELETE FROM audit_events;");
+  await db().exec("DELETE FROM approvals;");
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM git_sessions;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, 123, ?, 'active');"
+    )
+    .run(userId, nowIso());
+  const apiKeyId = ulid();
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, 'agent', 'hash', ?, ?, NULL, NULL);"
+    )
+    .run(apiKeyId, userId, nowIso(), nowIso());
+  return { userId, apiKeyId };
+}
+
+async function insertRequest(params: {
+  userId: string;
+  apiKeyId: string;
+  status: string;
+  approvalExpiresAt?: string;
+}): Promise<string> {
+  const id = ulid();
+  await db()
+    .query(
+      "INSERT INTO proxy_requests (id, user_id, api_key_id, api_key_label_snapshot, upstream_url, request_hash, status, created_at, updated_at, approval_expires_at, result_state, execute_on_approval) " +
+        "VALUES (?, ?, ?, 'agent', 'https://www.googleapis.com/drive/v3/files', 'hash', ?, ?, ?, ?, 'NONE', 1);"
+    )
+    .run(
+      id,
+      params.userId,
+      params.apiKeyId,
+      params.status,
+      nowIso(),
+      nowIso(),
+      params.approvalExpiresAt ?? new Date(Date.now() + 120_000).toISOString()
+    );
+  return id;
+}
+
+async function requestStatus(id: string): Promise<string> {
+  return (
+    (await db()
+      .query("SELECT status FROM proxy_requests WHERE id = ?;")
+      .get(id)) as {
+      status: string;
+    }
+  ).status;
+}
+
+async function auditFor(requestId: string): Promise<AuditRow[]> {
+  return (await db()
+    .query(
+      "SELECT event_type, actor_type, actor_id, event_json FROM audit_events WHERE request_id = ? ORDER BY id;"
+    )
+    .all(requestId)) as AuditRow[];
+}
+
+test("expirations, decisions and broker-side failures are audited", async () => {
+  const { userId, apiKeyId } = await setup();
+
+  const stale = await insertRequest({
+    userId,
+    apiKeyId,
+    status: "PENDING_APPROVAL",
+    approvalExpiresAt: "2020-01-01T00:00:00.000Z",
+  });
+  expect(await sweepApprovalExpirations()).toBe(1);
+  expect(await auditFor(stale)).toEqual([
+    {
+      event_type: "proxy_request_expired",
+      actor_type: "system",
+      actor_id: "approval_ttl",
+      event_json: JSON.stringify({
+        from: "PENDING_APPROVAL",
+        status: "EXPIRED",
+        error_code: "APPROVAL_EXPIRED",
+      }),
+    },
+  ]);
+
+  // Approved from the dashboard; the broker then runs it in the background
+  // and finds no linked account for the provider.
+  const bypass = env.PB_TEST_BYPASS_OAUTH;
+  env.PB_TEST_BYPASS_OAUTH = false;
+  const approved = await insertRequest({
+    userId,
+    apiKeyId,
+    status: "PENDING_APPROVAL",
+  });
+  expect(
+    await decideProxyRequest({
+      requestId: approved,
+      userId,
+      decision: "approved",
+      telegramUserId: 123,
+      telegramChatId: 123,
+      telegramMessageId: 0,
+      actor: { actorType: "web", actorId: "ws_1" },
+    })
+  ).toEqual({ ok: true });
+  try {
+    for (
+      let i = 0;
+      i < 100 && (await requestStatus(approved)) !== "FAILED";
+      i++
+    ) {
+      await new Promise((r) => setTimeout(r, 10));
+    }
+  } finally {
+    env.PB_TEST_BYPASS_OAUTH = bypass;
+  }
+
+  const events = await auditFor(approved);
+  expect(events.map((e) => [e.event_type, e.actor_type, e.actor_id])).toEqual([
+    ["proxy_request_approved", "web", "ws_1"],
+    ["proxy_request_execution_started", "system", "execute_on_approval"],
+    ["proxy_request_failed", "system", "execute_on_approval"],
+  ]);
+  expect(JSON.parse(events[2]?.event_json ?? "{}")).toEqual({
+    from: "EXECUTING",
+    status: "FAILED",
+    error_code: "NO_LINKED_ACCOUNT",
+  });
+
+  const session = await createGitSession({
+    userId,
+    apiKeyId,
+    provider: "github",
+    operation: "fetch",
+    repoOwner: "acme",
+    repoName: "widgets",
+    approvalTtlMs: -1000,
+    inactivityTimeoutSeconds: 120,
+  });
+  await sweepGitSessions();
+  const expired = (await db()
+    .query(
+      "SELECT actor_id, event_json FROM audit_events WHERE event_type = 'git_session_expired';"
+    )
+    .all()) as { actor_id: string; event_json: string }[];
+  expect(expired).toEqual([
+    {
+      actor_id: "sweeper",
+      event_json: JSON.stringify({
+        sessionId: session.sessionId,
+        reason: "approval_timeout",
+      }),
+    },
+  ]);
+});
+
+test("proxy request statuses only change through transitionProxyRequests", async () => {
+  const { userId, apiKeyId } = await setup();
+  const id = await insertRequest({ userId, apiKeyId, status: "DENIED" });
+
+  await expect(
+    transitionProxyRequests({
+      requestId: id,
+      from: "DENIED",
+      to: "APPROVED",
+      actor: { actorType: "system", actorId: "test" },
+    })
+  ).rejects.toThrow("invalid proxy request transition: DENIED -> APPROVED");
+  // A row that already moved on is left alone and not audited.
+  expect(
+    await transitionProxyRequests({
+      requestId: id,
+      from: "PENDING_APPROVAL",
+      to: "APPROVED",
+      actor: { actorType: "system", actorId: "test" },
+    })
+  ).toEqual([]);
+  expect(await auditFor(id)).toEqual([]);
+
+  // Two decisions racing on one request: one wins, the other is told it was
+  // already decided and records nothing.
+  const raced = await insertRequest({
+    userId,
+    apiKeyId,
+    status: "PENDING_APPROVAL",
+  });
+  const decide = (telegramUserId: number) =>
+    decideProxyRequest({
+      requestId: raced,
+      userId,
+      decision: "denied",
+      telegramUserId,
+      telegramChatId: 123,
+      telegramMessageId: 0,
+    });
+  expect(await Promise.all([decide(123), decide(456)])).toEqual([
+    { ok: true },
+    { ok: false, reason: "already_decided" },
+  ]);
+  const approvals = (await db()
+    .query(
+      "SELECT decided_by_telegram_user_id AS by FROM approvals WHERE request_id = ?;"
+    )
+    .all(raced)) as { by: number }[];
+  expect(approvals).toEqual([{ by: 123 }]);
+  expect((await auditFor(raced)).map((e) => e.actor_id)).toEqual(["123"]);
+
+  const srcDir = join(import.meta.dir, "../src");
+  const offenders = (readdirSync(srcDir, { recursive: true }) as string[])
+    .filter((f) => f.endsWith(".ts") && !f.endsWith("transitions.ts"))
+    .filter((f) =>
+      /UPDATE proxy_requests SET[^;]*\bstatus\s*=/.test(
+        readFileSync(join(srcDir, f), "utf8")
+      )
+    );
+  expect(offenders).toEqual([]);
+});
@@ -0,0 +1,270 @@
+import { expect, test } from "bun:test";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { auditEvent } from "../src/audit/audit";
+import { queryAuditEvents } from "../src/audit/query";
+import { parseApiKeyScopeSpec } from "../src/auth/scopes";
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import { createGitSession } from "../src/git/sessions";
+import { createProxyRequest } from "../src/proxy/requests";
+import { auditRouter } from "../src/web/audit";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+
+async function insertApiKey(
+  userId: string,
+  label: string,
+  scopeSpec = ""
+): Promise<string> {
+  const id = ulid();
+  const scope = parseApiKeyScopeSpec(scopeSpec);
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at, scopes_json) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL, ?);"
+    )
+    .run(
+      id,
+      userId,
+      label,
+      await sha256Hex(`pb_${label}`),
+      nowIso(),
+      nowIso(),
+      scope ? JSON.stringify(scope) : null
+    );
+  return id;
+}
+
+async function seed() {
+  await db().exec("DELETE FROM audit_events;");
+  await db().exec("DELETE FROM approvals;");
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM git_sessions;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  const otherUserId = ulid();
+  const insertUser = db().query(
+    "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, 'active');"
+  );
+  await insertUser.run(userId, 123, nowIso());
+  await insertUser.run(otherUserId, 456, nowIso());
+
+  const agentKeyId = await insertApiKey(userId, "agent");
+  const gitKeyId = await insertApiKey(userId, "gitbot", "provider=github");
+
+  const request = await createProxyRequest({
+    userId,
+    apiKeyId: agentKeyId,
+    apiKeyLabelSnapshot: "agent",
+    upstreamUrl: "https://api.github.com/repos/acme/widgets?access_token=x",
+    method: "GET",
+    provider: "github",
+    approvalTtlMs: 60_000,
+  });
+  const session = await createGitSession({
+    userId,
+    apiKeyId: gitKeyId,
+    provider: "github",
+    operation: "push",
+    repoOwner: "acme",
+    repoName: "widgets",
+    approvalTtlMs: 60_000,
+    inactivityTimeoutSeconds: 120,
+  });
+
+  const requestId = request.requestId;
+  const sessionId = session.sessionId;
+  await auditEvent({
+    userId,
+    requestId,
+    actorType: "api_key",
+    actorId: agentKeyId,
+    eventType: "proxy_request_created",
+    event: {
+      upstream_url: "https://api.github.com/repos/acme/widgets",
+      api_key_label: "agent",
+    },
+  });
+  await db()
+    .query(
+      "INSERT INTO approvals (request_id, telegram_chat_id, telegram_message_id, decision, decided_at, decided_by_telegram_user_id) VALUES (?, 123, 1, 'approved', ?, 123);"
+    )
+    .run(requestId, nowIso());
+  await auditEvent({
+    userId,
+    requestId,
+    actorType: "telegram",
+    actorId: "123",
+    eventType: "proxy_request_approved",
+    event: { from: "PENDING_APPROVAL", status: "APPROVED" },
+  });
+  await auditEvent({
+    userId,
+    actorType: "api_key",
+    actorId: gitKeyId,
+    eventType: "git_session_created",
+    event: {
+      sessionId,
+      provider: "github",
+      operation: "push",
+      repo: "acme/widgets",
+    },
+  });
+  await auditEvent({
+    userId,
+    actorType: "telegram",
+    actorId: "123",
+    eventType: "api_key_renamed",
+    event: { apiKeyId: agentKeyId, newLabel: "agent" },
+  });
+  await auditEvent({
+    userId: otherUserId,
+    actorType: "system",
+    actorId: "test",
+    eventType: "proxy_request_created",
+    event: { upstream_url: "https://example.com/", api_key_label: "other" },
+  });
+
+  return { userId, agentKeyId, gitKeyId, requestId, sessionId };
+}
+
+test("audit queries filter, join the request or session and page by id", async () => {
+  const s = await seed();
+  const types = async (
+    q: Partial<Parameters<typeof queryAuditEvents>[0]> = {}
+  ) =>
+    (await queryAuditEvents({ userId: s.userId, limit: 50, ...q })).entries.map(
+      (e) => e.event_type
+    );
+
+  expect(await types()).toEqual([
+    "api_key_renamed",
+    "git_session_created",
+    "proxy_request_approved",
+    "proxy_request_created",
+  ]);
+  expect(await types({ apiKeyId: s.agentKeyId })).toEqual([
+    "api_key_renamed",
+    "proxy_request_approved",
+    "proxy_request_created",
+  ]);
+  expect(await types({ provider: "github" })).toEqual([
+    "git_session_created",
+    "proxy_request_approved",
+    "proxy_request_created",
+  ]);
+  expect(await types({ requestId: s.sessionId })).toEqual([
+    "git_session_created",
+  ]);
+  expect(await types({ eventTypes: ["git_*", "api_key_renamed"] })).toEqual([
+    "api_key_renamed",
+    "git_session_created",
+  ]);
+  expect(await types({ from: "2999-01-01T00:00:00.000Z" })).toEqual([]);
+
+  const approved = (
+    await queryAuditEvents({
+      userId: s.userId,
+      requestId: s.requestId,
+      eventTypes: ["proxy_request_approved"],
+      limit: 1,
+    })
+  ).entries[0];
+  expect(approved?.proxy_request).toMatchObject({
+    id: s.requestId,
+    api_key_label: "agent",
+    provider: "github",
+    upstream_url:
+      "https://api.github.com/repos/acme/widgets?access_token=[REDACTED]",
+    decision: { decision: "approved", decided_by_telegram_user_id: 123 },
+  });
+  const created = (
+    await queryAuditEvents({
+      userId: s.userId,
+      requestId: s.sessionId,
+      limit: 1,
+    })
+  ).entries[0];
+  expect(created?.git_session).toMatchObject({
+    id: s.sessionId,
+    api_key_label: "gitbot",
+    repo: "acme/widgets",
+    status: "PENDING_APPROVAL",
+  });
+
+  const first = await queryAuditEvents({ userId: s.userId, limit: 3 });
+  expect(first.entries).toHaveLength(3);
+  expect(first.nextCursor).toBe(first.entries[2]?.id ?? "");
+  const rest = await queryAuditEvents({
+    userId: s.userId,
+    limit: 3,
+    cursor: first.nextCursor ?? "",
+  });
+  expect(rest.entries.map((e) => e.event_type)).toEqual([
+    "proxy_request_created",
+  ]);
+  expect(rest.nextCursor).toBeNull();
+});
+
+test("GET /v1/audit exports CSV/JSONL and keeps scoped keys to their own events", async () => {
+  const s = await seed();
+  const app = new Hono();
+  app.route("/v1/audit", auditRouter);
+  const get = (path: string, key = "pb_agent") =>
+    app.request(path, { headers: { authorization: `Bearer ${key}` } });
+
+  const json = await get("/v1/audit?api_key=agent&limit=2");
+  expect(json.status).toBe(200);
+  const body = (await json.json()) as {
+    entries: JsonRecord[];
+    next_cursor: string | null;
+  };
+  expect(body.entries.map((e) => e.event_type)).toEqual([
+    "api_key_renamed",
+    "proxy_request_approved",
+  ]);
+  expect(body.next_cursor).toBe(String(body.entries[1]?.id));
+
+  const csv = await get("/v1/audit?format=csv&limit=1");
+  expect(csv.headers.get("content-type")).toContain("text/csv");
+  expect(csv.headers.get("x-next-cursor")).toBeTruthy();
+  const lines = (await csv.text()).trim().split("\r\n");
+  expect(lines[0]?.startsWith("id,created_at,event_type,")).toBe(true);
+  expect(lines).toHaveLength(2);
+
+  const jsonl = await get(`/v1/audit?format=jsonl&request_id=${s.requestId}`);
+  const rows = (await jsonl.text())
+    .trim()
+    .split("\n")
+    .map((l) => JSON.parse(l) as JsonRecord);
+  expect(rows.map((r) => r.event_type)).toEqual([
+    "proxy_request_approved",
+    "proxy_request_created",
+  ]);
+
+  // The github-scoped key only sees its own session.
+  const scoped = await get("/v1/audit", "pb_gitbot");
+  const scopedBody = (await scoped.json()) as { entries: JsonRecord[] };
+  expect(scopedBody.entries.map((e) => e.event_type)).toEqual([
+    "git_session_created",
+  ]);
+  expect((await get("/v1/audit?api_key=agent", "pb_gitbot")).status).toBe(403);
+
+  expect((await get("/v1/audit?format=xml")).status).toBe(400);
+  expect((await get("/v1/audit?limit=0")).status).toBe(400);
+  expect((await get("/v1/audit?api_key=nope")).status).toBe(400);
+  expect((await get("/v1/audit?from=yesterday")).status).toBe(400);
+});
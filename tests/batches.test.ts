@@ -0,0 +1,160 @@
+import { expect, test } from "bun:test";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { decideProxyBatch } from "../src/proxy/batches";
+import { createPolicyRule } from "../src/proxy/policy";
+import { proxyRouter } from "../src/web/proxy";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+
+async function setup(): Promise<{ userId: string }> {
+  await db().exec("DELETE FROM approvals;");
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM proxy_batches;");
+  await db().exec("DELETE FROM proxy_policy_rules;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+    )
+    .run(
+      ulid(),
+      userId,
+      "keyA",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso()
+    );
+  return { userId };
+}
+
+function app() {
+  const a = new Hono();
+  a.route("/v1/proxy", proxyRouter);
+  return a;
+}
+
+function createBatch(body: unknown) {
+  return app().request("/v1/proxy/batches", {
+    method: "POST",
+    headers: {
+      authorization: "Bearer pb_test_key_a",
+      "content-type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+test("batches: one decision approves every pending item", async () => {
+  const { userId } = await setup();
+
+  // One item is pre-approved by policy; the rest wait for the batch decision.
+  await createPolicyRule({
+    userId,
+    effect: "allow",
+    hostPattern: "api.github.com",
+    pathPattern: "/user",
+    methods: ["GET"],
+  });
+
+  const res = await createBatch({
+    requests: [
+      { upstream_url: "https://api.github.com/user" },
+      {
+        upstream_url: "https://api.github.com/repos/o/r/issues",
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: { title: "one" },
+      },
+      {
+        upstream_url: "https://api.github.com/repos/o/r/issues",
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: { title: "two" },
+      },
+    ],
+    consent_hint: "file issues",
+  });
+  expect(res.status).toBe(200);
+  const j = (await res.json()) as JsonRecord;
+  const items = j.items as JsonRecord[];
+  expect(j.status).toBe("PENDING_APPROVAL");
+  expect(items.map((i) => i.status)).toEqual([
+    "APPROVED",
+    "PENDING_APPROVAL",
+    "PENDING_APPROVAL",
+  ]);
+
+  const decided = await decideProxyBatch({
+    batchId: j.batch_id as string,
+    userId,
+    decision: "approved",
+    telegramUserId: 123,
+    telegramChatId: 123,
+    telegramMessageId: 1,
+  });
+  expect(decided).toEqual({
+    ok: true,
+    requestIds: [items[1].request_id as string, items[2].request_id as string],
+  });
+
+  const poll = await app().request(`/v1/proxy/batches/${j.batch_id}`, {
+    headers: { authorization: "Bearer pb_test_key_a" },
+  });
+  expect(poll.status).toBe(200);
+  const pj = (await poll.json()) as JsonRecord;
+  expect(pj.status).toBe("APPROVED");
+  expect((pj.items as JsonRecord[]).map((i) => i.status)).toEqual([
+    "APPROVED",
+    "APPROVED",
+    "APPROVED",
+  ]);
+
+  // Items remain individually pollable.
+  const item = await app().request(
+    `/v1/proxy/requests/${items[2].request_id}`,
+    { headers: { authorization: "Bearer pb_test_key_a" } }
+  );
+  expect(((await item.json()) as JsonRecord).status).toBe("APPROVED");
+});
+
+test("batches: an invalid item rejects the whole batch", async () => {
+  await setup();
+
+  const res = await createBatch({
+    requests: [
+      { upstream_url: "https://api.github.com/user" },
+      { upstream_url: "https://evil.example.com/" },
+    ],
+  });
+  expect(res.status).toBe(400);
+  const j = (await res.json()) as JsonRecord;
+  expect(j.error).toBe("invalid_upstream_url");
+  expect(j.index).toBe(1);
+
+  const n = (await db()
+    .query("SELECT COUNT(*) AS n FROM proxy_requests;")
+    .get()) as {
+    n: number;
+  };
+  expect(n.n).toBe(0);
+});
@@ -15,19 +15,19 @@ function nowIso(): string {
 
 async function setupDb() {
   // Ensure clean slate for this test file.
-  db().exec("DELETE FROM approvals;");
-  db().exec("DELETE FROM proxy_requests;");
-  db().exec("DELETE FROM linked_accounts;");
-  db().exec("DELETE FROM api_keys;");
-  db().exec("DELETE FROM users;");
+  await db().exec("DELETE FROM approvals;");
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
 }
 
 // Create schema once for this test file.
-migrate();
+await migrate();
 
 async function insertUser(telegramUserId = 123): Promise<string> {
   const id = ulid();
-  db()
+  await db()
     .query(
       "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
     )
@@ -43,7 +43,7 @@ async function insertApiKey(params: {
   const apiKeyId = ulid();
   const keyHash = await sha256Hex(params.keyPlain);
   const now = nowIso();
-  db()
+  await db()
     .query(
       "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
     )
@@ -60,7 +60,7 @@ async function insertApprovedRequest(params: {
   const id = ulid();
   const now = nowIso();
   const approvalExpiresAt = new Date(Date.now() + 120_000).toISOString();
-  db()
+  await db()
     .query(
       "INSERT INTO proxy_requests (id, user_id, api_key_id, api_key_label_snapshot, upstream_url, request_hash, consent_hint, status, created_at, updated_at, approval_expires_at, idempotency_key, upstream_http_status, upstream_content_type, upstream_bytes, result_state, error_code, error_message) " +
         "VALUES (?, ?, ?, ?, ?, ?, NULL, 'APPROVED', ?, ?, ?, NULL, NULL, NULL, NULL, 'NONE', NULL, NULL);"
@@ -163,9 +163,9 @@ test("execute endpoint architecture", async () => {
       upstreamUrl: `http://127.0.0.1:${upstream.port}/`,
     });
 
-    const pre = db()
+    const pre = (await db()
       .query("SELECT status, api_key_id FROM proxy_requests WHERE id = ?;")
-      .get(reqId) as { status: string; api_key_id: string };
+      .get(reqId)) as { status: string; api_key_id: string };
     expect(pre.status).toBe("APPROVED");
     expect(pre.api_key_id).toBe(keyA.apiKeyId);
 
@@ -242,4 +242,83 @@ test("execute endpoint architecture", async () => {
 
     upstream.stop();
   }
+
+  await setupDb();
+
+  // Case 4: streamed responses relay bytes and enforce the per-request cap
+  {
+    const payload = "x".repeat(64 * 1024);
+    const upstream = Bun.serve({
+      port: 0,
+      fetch() {
+        return new Response(payload, {
+          status: 200,
+          headers: { "content-type": "application/octet-stream" },
+        });
+      },
+    });
+
+    const userId = await insertUser();
+    const keyA = await insertApiKey({
+      userId,
+      label: "keyA",
+      keyPlain: "pb_test_key_a",
+    });
+
+    const streamed = await insertApprovedRequest({
+      userId,
+      apiKeyId: keyA.apiKeyId,
+      apiKeyLabel: "keyA",
+      upstreamUrl: `http://127.0.0.1:${upstream.port}/`,
+    });
+    const capped = await insertApprovedRequest({
+      userId,
+      apiKeyId: keyA.apiKeyId,
+      apiKeyLabel: "keyA",
+      upstreamUrl: `http://127.0.0.1:${upstream.port}/`,
+    });
+    await db()
+      .query(
+        "UPDATE proxy_requests SET response_mode = 'stream', max_response_bytes = ? WHERE id = ?;"
+      )
+      .run(1024, capped);
+    await db()
+      .query("UPDATE proxy_requests SET response_mode = 'stream' WHERE id = ?;")
+      .run(streamed);
+
+    const exec = await app().request(`/v1/proxy/requests/${streamed}/execute`, {
+      method: "POST",
+      headers: { authorization: "Bearer pb_test_key_a" },
+    });
+    expect(exec.status).toBe(200);
+    expect(exec.headers.get("x-proxy-response-mode")).toBe("stream");
+    expect((await exec.text()).length).toBe(payload.length);
+
+    const okRow = (await db()
+      .query("SELECT status, upstream_bytes FROM proxy_requests WHERE id = ?;")
+      .get(streamed)) as { status: string; upstream_bytes: number };
+    expect(okRow).toEqual({ status: "SUCCEEDED", upstream_bytes: 64 * 1024 });
+
+    const tooLarge = await app().request(
+      `/v1/proxy/requests/${capped}/execute`,
+      {
+        method: "POST",
+        headers: { authorization: "Bearer pb_test_key_a" },
+      }
+    );
+    expect(tooLarge.status).toBe(502);
+    expect(((await tooLarge.json()) as JsonRecord).error).toBe(
+      "execution_failed"
+    );
+
+    const capRow = (await db()
+      .query("SELECT status, error_code FROM proxy_requests WHERE id = ?;")
+      .get(capped)) as { status: string; error_code: string };
+    expect(capRow).toEqual({
+      status: "FAILED",
+      error_code: "RESPONSE_TOO_LARGE",
+    });
+
+    upstream.stop();
+  }
 });
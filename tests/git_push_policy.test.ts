@@ -0,0 +1,464 @@
+import { afterEach, expect, test } from "bun:test";
+import { createHash } from "node:crypto";
+import { deflateSync } from "node:zlib";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { upsertLinkedAccount } from "../src/accounts/linked";
+import { encryptUtf8 } from "../src/crypto/aesgcm";
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import { setGitSessionStatus } from "../src/git/sessions";
+import { buildDeclarativeProxyProvider } from "../src/providers/declarative/provider";
+import { ProviderDefinitionSchema } from "../src/providers/declarative/schema";
+import {
+  registerProxyProvider,
+  unregisterProxyProvider,
+} from "../src/proxy/providerRegistry";
+import { gitRouter } from "../src/web/git";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+env.APP_BASE_URL ??= "https://broker.example";
+
+const ZERO = "0".repeat(40);
+const ORIGINAL_PROTECTED_PATHS = env.GIT_PUSH_PROTECTED_PATHS;
+
+afterEach(() => {
+  env.GIT_PUSH_PROTECTED_PATHS = ORIGINAL_PROTECTED_PATHS;
+  unregisterProxyProvider("gitlab");
+});
+
+// --- Hand-built git objects and packs ---
+
+type GitObject = {
+  type: "commit" | "tree" | "blob";
+  data: Buffer;
+  sha: string;
+};
+
+function gitObject(type: GitObject["type"], data: Buffer): GitObject {
+  const sha = createHash("sha1")
+    .update(`${type} ${data.byteLength}\0`)
+    .update(data)
+    .digest("hex");
+  return { type, data, sha };
+}
+
+function blob(text: string): GitObject {
+  return gitObject("blob", Buffer.from(text));
+}
+
+function tree(entries: [mode: string, name: string, sha: string][]): GitObject {
+  return gitObject(
+    "tree",
+    Buffer.concat(
+      entries.map(([mode, name, sha]) =>
+        Buffer.concat([
+          Buffer.from(`${mode} ${name}\0`),
+          Buffer.from(sha, "hex"),
+        ])
+      )
+    )
+  );
+}
+
+function commit(treeSha: string, parents: string[]): GitObject {
+  const header = [
+    `tree ${treeSha}`,
+    ...parents.map((p) => `parent ${p}`),
+    "author A <a@example.com> 1700000000 +0000",
+    "committer A <a@example.com> 1700000000 +0000",
+  ].join("\n");
+  return gitObject("commit", Buffer.from(`${header}\n\nchange\n`));
+}
+
+const TYPE_CODES = { commit: 1, tree: 2, blob: 3 } as const;
+
+function pack(objects: GitObject[]): Buffer {
+  const head = Buffer.alloc(12);
+  head.write("PACK", 0, "latin1");
+  head.writeUInt32BE(2, 4);
+  head.writeUInt32BE(objects.length, 8);
+  const parts: Buffer[] = [head];
+  for (const o of objects) {
+    const bytes: number[] = [];
+    let size = o.data.byteLength;
+    let c = (TYPE_CODES[o.type] << 4) | (size & 0x0f);
+    size >>= 4;
+    while (size) {
+      bytes.push(c | 0x80);
+      c = size & 0x7f;
+      size >>= 7;
+    }
+    bytes.push(c);
+    parts.push(Buffer.from(bytes), deflateSync(o.data));
+  }
+  const body = Buffer.concat(parts);
+  return Buffer.concat([body, createHash("sha1").update(body).digest()]);
+}
+
+function pkt(payload: string): string {
+  const n = new TextEncoder().encode(payload).byteLength + 4;
+  return `${n.toString(16).padStart(4, "0")}${payload}`;
+}
+
+function receivePackBody(
+  oldSha: string,
+  newSha: string,
+  ref: string,
+  packBytes: Buffer
+): Buffer {
+  return Buffer.concat([
+    Buffer.from(`${pkt(`${oldSha} ${newSha} ${ref}\0report-status\n`)}0000`),
+    packBytes,
+  ]);
+}
+
+// The remote's current state: one commit on main and agent/work.
+const README = blob("hello\n");
+const WORKFLOW = blob("on: push\n");
+const WORKFLOWS_DIR = tree([["100644", "ci.yml", WORKFLOW.sha]]);
+const GITHUB_DIR = tree([["40000", "workflows", WORKFLOWS_DIR.sha]]);
+const BASE_TREE = tree([
+  ["40000", ".github", GITHUB_DIR.sha],
+  ["100644", "README.md", README.sha],
+]);
+const BASE = commit(BASE_TREE.sha, []);
+
+type UpstreamCall = { path: string };
+
+function startGitServer(calls: UpstreamCall[]) {
+  return Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      calls.push({ path: url.pathname });
+      // Protocol v2 fetches of the commits a push builds on.
+      if (url.searchParams.get("service") === "git-upload-pack") {
+        return new Response(
+          `${pkt("version 2\n")}${pkt("fetch=shallow filter\n")}0000`
+        );
+      }
+      if (url.pathname.endsWith("/git-upload-pack")) {
+        const want = await req.text();
+        expect(want).toContain(`want ${BASE.sha}`);
+        expect(want).toContain("filter blob:none");
+        const data = pack([BASE, BASE_TREE, GITHUB_DIR, WORKFLOWS_DIR]);
+        return new Response(
+          Buffer.concat([
+            Buffer.from(pkt("packfile\n")),
+            Buffer.from(
+              `${(data.byteLength + 5).toString(16).padStart(4, "0")}\x01`
+            ),
+            data,
+            Buffer.from("0000"),
+          ])
+        );
+      }
+      if (url.pathname.endsWith("/info/refs")) {
+        const body =
+          `${pkt("# service=git-receive-pack\n")}0000` +
+          pkt(
+            `${BASE.sha} refs/heads/main\0report-status symref=HEAD:refs/heads/main\n`
+          ) +
+          `${pkt(`${BASE.sha} refs/heads/agent/work\n`)}0000`;
+        return new Response(body, {
+          headers: {
+            "content-type": "application/x-git-receive-pack-advertisement",
+          },
+        });
+      }
+      await req.arrayBuffer();
+      return new Response(`${pkt("unpack ok\n")}0000`, {
+        headers: { "content-type": "application/x-git-receive-pack-result" },
+      });
+    },
+  });
+}
+
+// A GitLab-style git remote pointed at the local stand-in server.
+function registerGitlab(baseUrl: string) {
+  const provider = buildDeclarativeProxyProvider(
+    ProviderDefinitionSchema.parse({
+      id: "gitlab",
+      hosts: ["gitlab.example.com"],
+      auth: { type: "api_key", credential_label: "Personal access token" },
+      git: { base_url: "https://gitlab.example.com" },
+    })
+  );
+  if (!provider.gitRemote) throw new Error("expected a git remote");
+  registerProxyProvider({
+    ...provider,
+    gitRemote: { ...provider.gitRemote, baseUrl },
+  });
+}
+
+async function setup(): Promise<{ userId: string }> {
+  await db().exec("DELETE FROM git_sessions;");
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+    )
+    .run(
+      ulid(),
+      userId,
+      "keyA",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso()
+    );
+  await upsertLinkedAccount({
+    userId,
+    provider: "gitlab",
+    providerUserId: "key_1",
+    scopes: "static",
+    ciphertext: await encryptUtf8("glpat-secret"),
+  });
+  return { userId };
+}
+
+function app() {
+  const a = new Hono();
+  a.route("/v1/git", gitRouter);
+  return a;
+}
+
+const authHeaders = {
+  authorization: "Bearer pb_test_key_a",
+  "content-type": "application/json",
+};
+
+function createSession(body: JsonRecord) {
+  return app().request("/v1/git/sessions", {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({
+      provider: "gitlab",
+      operation: "push",
+      repo: "acme/widgets",
+      ...body,
+    }),
+  });
+}
+
+// Create and approve a push session against the stand-in server.
+async function approvedPushSession(
+  userId: string,
+  policy: JsonRecord
+): Promise<{ sessionId: string; remotePath: string }> {
+  const res = await createSession(policy);
+  expect(res.status).toBe(200);
+  const sessionId = ((await res.json()) as JsonRecord).session_id as string;
+  await setGitSessionStatus({ sessionId, userId, status: "APPROVED" });
+
+  const remote = await app().request(`/v1/git/sessions/${sessionId}/remote`, {
+    headers: authHeaders,
+  });
+  const remoteUrl = new URL(
+    ((await remote.json()) as JsonRecord).remote_url as string
+  );
+  return { sessionId, remotePath: remoteUrl.pathname };
+}
+
+test("push sessions enforce ref patterns and block force pushes", async () => {
+  const calls: UpstreamCall[] = [];
+  const server = startGitServer(calls);
+  try {
+    registerGitlab(`http://127.0.0.1:${server.port}/scm`);
+    const { userId } = await setup();
+    const { sessionId, remotePath } = await approvedPushSession(userId, {
+      ref_patterns: ["agent/*"],
+      deny_force_push: true,
+    });
+
+    const status = await app().request(`/v1/git/sessions/${sessionId}`, {
+      headers: authHeaders,
+    });
+    expect(await status.json()).toMatchObject({
+      ref_patterns: ["refs/heads/agent/*"],
+      deny_force_push: true,
+      protected_paths: [],
+    });
+
+    await app().request(`${remotePath}/info/refs?service=git-receive-pack`);
+    const push = (body: Buffer) =>
+      app().request(`${remotePath}/git-receive-pack`, {
+        method: "POST",
+        body,
+      });
+
+    const next = commit(BASE_TREE.sha, [BASE.sha]);
+    // Unrelated history that replaces the branch tip.
+    const rewrittenTree = tree([["100644", "README.md", README.sha]]);
+    const rewritten = commit(rewrittenTree.sha, []);
+
+    const outside = await push(
+      receivePackBody(ZERO, next.sha, "refs/heads/feature", pack([next]))
+    );
+    expect(outside.status).toBe(403);
+    expect(await outside.text()).toContain(
+      "outside this session's allowed refs"
+    );
+
+    const force = await push(
+      receivePackBody(
+        BASE.sha,
+        rewritten.sha,
+        "refs/heads/agent/work",
+        pack([rewritten, rewrittenTree])
+      )
+    );
+    expect(force.status).toBe(403);
+    expect(await force.text()).toContain("non-fast-forward");
+
+    // An oldSha that doesn't match the advertised tip is rejected too.
+    const stale = await push(
+      receivePackBody(
+        "b".repeat(40),
+        next.sha,
+        "refs/heads/agent/work",
+        pack([next])
+      )
+    );
+    expect(stale.status).toBe(403);
+    expect(calls.map((c) => c.path)).toEqual([
+      "/scm/acme/widgets.git/info/refs",
+    ]);
+
+    const ff = await push(
+      receivePackBody(BASE.sha, next.sha, "refs/heads/agent/work", pack([next]))
+    );
+    expect(ff.status).toBe(200);
+    expect(calls).toHaveLength(2);
+  } finally {
+    server.stop(true);
+  }
+});
+
+test("protected paths deny pushes whose commits change them", async () => {
+  const calls: UpstreamCall[] = [];
+  const server = startGitServer(calls);
+  try {
+    registerGitlab(`http://127.0.0.1:${server.port}/scm`);
+    env.GIT_PUSH_PROTECTED_PATHS = ".github/workflows/";
+    const { userId } = await setup();
+
+    // Push policy fields only apply to push sessions.
+    expect(
+      (await createSession({ operation: "clone", protected_paths: ["x"] }))
+        .status
+    ).toBe(400);
+    expect(
+      (await createSession({ protected_paths: ["../CODEOWNERS"] })).status
+    ).toBe(400);
+
+    const { sessionId, remotePath } = await approvedPushSession(userId, {
+      protected_paths: ["/CODEOWNERS"],
+    });
+    const status = await app().request(`/v1/git/sessions/${sessionId}`, {
+      headers: authHeaders,
+    });
+    expect(await status.json()).toMatchObject({
+      protected_paths: [".github/workflows/", "CODEOWNERS"],
+    });
+
+    // The handshake asks the client for a self-contained pack.
+    const refs = await app().request(
+      `${remotePath}/info/refs?service=git-receive-pack`
+    );
+    const advertisement = await refs.text();
+    expect(advertisement).toContain("report-status");
+    expect(advertisement).toContain("no-thin");
+    const ref = "refs/heads/agent/work";
+    const push = (objects: GitObject[], tip: GitObject) =>
+      app().request(`${remotePath}/git-receive-pack`, {
+        method: "POST",
+        body: receivePackBody(BASE.sha, tip.sha, ref, pack(objects)),
+      });
+
+    // Editing a workflow: new blob and trees down to the file.
+    const workflow = blob("on: [push, pull_request]\n");
+    const workflowsDir = tree([["100644", "ci.yml", workflow.sha]]);
+    const githubDir = tree([["40000", "workflows", workflowsDir.sha]]);
+    const workflowTree = tree([
+      ["40000", ".github", githubDir.sha],
+      ["100644", "README.md", README.sha],
+    ]);
+    const workflowCommit = commit(workflowTree.sha, [BASE.sha]);
+    const denied = await push(
+      [workflowCommit, workflowTree, githubDir, workflowsDir, workflow],
+      workflowCommit
+    );
+    expect(denied.status).toBe(403);
+    expect(await denied.text()).toContain(
+      "changes protected path .github/workflows/"
+    );
+
+    const codeowners = blob("* @acme/owners\n");
+    const ownersTree = tree([
+      ["40000", ".github", GITHUB_DIR.sha],
+      ["100644", "CODEOWNERS", codeowners.sha],
+      ["100644", "README.md", README.sha],
+    ]);
+    const ownersCommit = commit(ownersTree.sha, [BASE.sha]);
+    expect(
+      (await push([ownersCommit, ownersTree, codeowners], ownersCommit)).status
+    ).toBe(403);
+
+    // Deleting a protected directory, or pointing a protected file at a blob
+    // the remote already has, leaves nothing on the path in the pack.
+    const deletedTree = tree([["100644", "README.md", README.sha]]);
+    const deletedCommit = commit(deletedTree.sha, [BASE.sha]);
+    const deleted = await push([deletedCommit, deletedTree], deletedCommit);
+    expect(deleted.status).toBe(403);
+    expect(await deleted.text()).toContain(
+      "changes protected path .github/workflows/"
+    );
+    const reusedTree = tree([
+      ["40000", ".github", GITHUB_DIR.sha],
+      ["100644", "CODEOWNERS", README.sha],
+      ["100644", "README.md", README.sha],
+    ]);
+    const reusedCommit = commit(reusedTree.sha, [BASE.sha]);
+    const reused = await push([reusedCommit, reusedTree], reusedCommit);
+    expect(reused.status).toBe(403);
+    expect(await reused.text()).toContain("changes protected path CODEOWNERS");
+    const receivePacks = () =>
+      calls.filter((c) => c.path.endsWith("/git-receive-pack"));
+    expect(receivePacks()).toHaveLength(0);
+
+    // Unchanged protected directories aren't in the pack.
+    const readme = blob("hello again\n");
+    const readmeTree = tree([
+      ["40000", ".github", GITHUB_DIR.sha],
+      ["100644", "README.md", readme.sha],
+    ]);
+    const readmeCommit = commit(readmeTree.sha, [BASE.sha]);
+    expect(
+      (await push([readmeCommit, readmeTree, readme], readmeCommit)).status
+    ).toBe(200);
+    expect(receivePacks()).toHaveLength(1);
+  } finally {
+    server.stop(true);
+  }
+});
@@ -0,0 +1,391 @@
+import { afterEach, expect, test } from "bun:test";
+import { createHash } from "node:crypto";
+import { deflateSync } from "node:zlib";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { upsertLinkedAccount } from "../src/accounts/linked";
+import { encryptUtf8 } from "../src/crypto/aesgcm";
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import { parsePackfile } from "../src/git/packfile";
+import { decidePushReview } from "../src/git/pushReviews";
+import { summarizePush } from "../src/git/pushSummary";
+import { setGitSessionStatus } from "../src/git/sessions";
+import { buildDeclarativeProxyProvider } from "../src/providers/declarative/provider";
+import { ProviderDefinitionSchema } from "../src/providers/declarative/schema";
+import {
+  registerProxyProvider,
+  unregisterProxyProvider,
+} from "../src/proxy/providerRegistry";
+import { gitRouter, renderPushReviewText } from "../src/web/git";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+env.APP_BASE_URL ??= "https://broker.example";
+
+afterEach(() => {
+  unregisterProxyProvider("gitlab");
+});
+
+// --- Hand-built git objects and packs ---
+
+type GitObject = {
+  type: "commit" | "tree" | "blob";
+  data: Buffer;
+  sha: string;
+};
+
+function gitObject(type: GitObject["type"], data: Buffer): GitObject {
+  const sha = createHash("sha1")
+    .update(`${type} ${data.byteLength}\0`)
+    .update(data)
+    .digest("hex");
+  return { type, data, sha };
+}
+
+function blob(text: string): GitObject {
+  return gitObject("blob", Buffer.from(text));
+}
+
+function tree(entries: [mode: string, name: string, sha: string][]): GitObject {
+  return gitObject(
+    "tree",
+    Buffer.concat(
+      entries.map(([mode, name, sha]) =>
+        Buffer.concat([
+          Buffer.from(`${mode} ${name}\0`),
+          Buffer.from(sha, "hex"),
+        ])
+      )
+    )
+  );
+}
+
+function commit(
+  treeSha: string,
+  parents: string[],
+  message = "change"
+): GitObject {
+  const header = [
+    `tree ${treeSha}`,
+    ...parents.map((p) => `parent ${p}`),
+    "author Ada <ada@example.com> 1700000000 +0000",
+    "committer Ada <ada@example.com> 1700000000 +0000",
+  ].join("\n");
+  return gitObject("commit", Buffer.from(`${header}\n\n${message}\n`));
+}
+
+const TYPE_CODES = { commit: 1, tree: 2, blob: 3 } as const;
+
+function pack(objects: GitObject[]): Buffer {
+  const head = Buffer.alloc(12);
+  head.write("PACK", 0, "latin1");
+  head.writeUInt32BE(2, 4);
+  head.writeUInt32BE(objects.length, 8);
+  const parts: Buffer[] = [head];
+  for (const o of objects) {
+    const bytes: number[] = [];
+    let size = o.data.byteLength;
+    let c = (TYPE_CODES[o.type] << 4) | (size & 0x0f);
+    size >>= 4;
+    while (size) {
+      bytes.push(c | 0x80);
+      c = size & 0x7f;
+      size >>= 7;
+    }
+    bytes.push(c);
+    parts.push(Buffer.from(bytes), deflateSync(o.data));
+  }
+  const body = Buffer.concat(parts);
+  return Buffer.concat([body, createHash("sha1").update(body).digest()]);
+}
+
+function pkt(payload: string): string {
+  const n = new TextEncoder().encode(payload).byteLength + 4;
+  return `${n.toString(16).padStart(4, "0")}${payload}`;
+}
+
+// The remote has BASE on main; the push adds two commits on agent/work.
+const README = blob("hello\n");
+const BASE_TREE = tree([["100644", "README.md", README.sha]]);
+const BASE = commit(BASE_TREE.sha, []);
+
+const README_2 = blob("hello\nworld\n");
+const OLD_CODE = blob("a\nb\nc\n");
+const FIRST_TREE = tree([
+  ["100644", "README.md", README_2.sha],
+  ["100644", "old.ts", OLD_CODE.sha],
+]);
+const FIRST = commit(FIRST_TREE.sha, [BASE.sha], "Update readme");
+
+const NEW_CODE = blob("export const x = 1;\nexport const y = 2;\n");
+const SRC_DIR = tree([["100644", "x.ts", NEW_CODE.sha]]);
+const README_3 = blob("hello\nthere\n");
+const SECOND_TREE = tree([
+  ["100644", "README.md", README_3.sha],
+  ["40000", "src", SRC_DIR.sha],
+]);
+const SECOND = commit(SECOND_TREE.sha, [FIRST.sha], "Add <x> module");
+
+const PUSHED = [
+  SECOND,
+  SECOND_TREE,
+  SRC_DIR,
+  NEW_CODE,
+  README_3,
+  FIRST,
+  FIRST_TREE,
+  README_2,
+  OLD_CODE,
+];
+const REF = "refs/heads/agent/work";
+
+test("push summaries list commits with a diffstat", () => {
+  const summary = summarizePush({
+    commands: [{ oldSha: "0".repeat(40), newSha: SECOND.sha, ref: REF }],
+    pack: parsePackfile(pack(PUSHED), { maxInflatedBytes: 1024 * 1024 }),
+  });
+
+  expect(summary.commits.map((c) => [c.sha, c.subject, c.author])).toEqual([
+    [SECOND.sha, "Add <x> module", "Ada <ada@example.com>"],
+    [FIRST.sha, "Update readme", "Ada <ada@example.com>"],
+  ]);
+  // Both sides in the pack: exact statuses and line counts.
+  expect(summary.commits[0]?.files).toEqual([
+    { path: "README.md", status: "modified", additions: 1, deletions: 1 },
+    { path: "src/x.ts", status: "added", additions: 2, deletions: 0 },
+    { path: "old.ts", status: "deleted", additions: 0, deletions: 3 },
+  ]);
+  // The parent is on the remote: changed paths, new line counts only.
+  expect(summary.commits[1]?.files).toEqual([
+    { path: "README.md", status: "changed", additions: 2, deletions: null },
+    { path: "old.ts", status: "changed", additions: 3, deletions: null },
+  ]);
+
+  const text = renderPushReviewText({
+    provider: "gitlab",
+    repo: "acme/widgets",
+    summary,
+    timeoutSeconds: 300,
+  });
+  expect(text).toContain("Add &lt;x&gt; module");
+  expect(text).toContain("D <code>old.ts</code> (−3)");
+  expect(text).toContain("M <code>README.md</code> (+1 −1)");
+});
+
+type UpstreamCall = { path: string };
+
+function startGitServer(calls: UpstreamCall[]) {
+  return Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      calls.push({ path: url.pathname });
+      if (url.pathname.endsWith("/info/refs")) {
+        const body =
+          `${pkt("# service=git-receive-pack\n")}0000` +
+          `${pkt(`${BASE.sha} refs/heads/main\0report-status symref=HEAD:refs/heads/main\n`)}0000`;
+        return new Response(body, {
+          headers: {
+            "content-type": "application/x-git-receive-pack-advertisement",
+          },
+        });
+      }
+      await req.arrayBuffer();
+      return new Response(`${pkt("unpack ok\n")}0000`, {
+        headers: { "content-type": "application/x-git-receive-pack-result" },
+      });
+    },
+  });
+}
+
+function registerGitlab(baseUrl: string) {
+  const provider = buildDeclarativeProxyProvider(
+    ProviderDefinitionSchema.parse({
+      id: "gitlab",
+      hosts: ["gitlab.example.com"],
+      auth: { type: "api_key", credential_label: "Personal access token" },
+      git: { base_url: "https://gitlab.example.com" },
+    })
+  );
+  if (!provider.gitRemote) throw new Error("expected a git remote");
+  registerProxyProvider({
+    ...provider,
+    gitRemote: { ...provider.gitRemote, baseUrl },
+  });
+}
+
+async function setup(): Promise<{ userId: string }> {
+  await db().exec("DELETE FROM git_push_reviews;");
+  await db().exec("DELETE FROM git_sessions;");
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+    )
+    .run(
+      ulid(),
+      userId,
+      "keyA",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso()
+    );
+  await upsertLinkedAccount({
+    userId,
+    provider: "gitlab",
+    providerUserId: "key_1",
+    scopes: "static",
+    ciphertext: await encryptUtf8("glpat-secret"),
+  });
+  return { userId };
+}
+
+function app() {
+  const a = new Hono();
+  a.route("/v1/git", gitRouter);
+  return a;
+}
+
+const authHeaders = {
+  authorization: "Bearer pb_test_key_a",
+  "content-type": "application/json",
+};
+
+async function approvedPushSession(
+  userId: string,
+  body: JsonRecord,
+  reviewPush?: boolean
+): Promise<{ sessionId: string; remotePath: string }> {
+  const res = await app().request("/v1/git/sessions", {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({
+      provider: "gitlab",
+      operation: "push",
+      repo: "acme/widgets",
+      ...body,
+    }),
+  });
+  expect(res.status).toBe(200);
+  const sessionId = ((await res.json()) as JsonRecord).session_id as string;
+  expect(
+    await setGitSessionStatus({
+      sessionId,
+      userId,
+      status: "APPROVED",
+      reviewPush,
+    })
+  ).toBe(true);
+
+  const remote = await app().request(`/v1/git/sessions/${sessionId}/remote`, {
+    headers: authHeaders,
+  });
+  const remoteUrl = new URL(
+    ((await remote.json()) as JsonRecord).remote_url as string
+  );
+  return { sessionId, remotePath: remoteUrl.pathname };
+}
+
+async function pendingReviewId(sessionId: string): Promise<string> {
+  for (let i = 0; i < 100; i++) {
+    const row = (await db()
+      .query(
+        "SELECT id FROM git_push_reviews WHERE session_id = ? AND status = 'PENDING';"
+      )
+      .get(sessionId)) as { id: string } | null;
+    if (row) return row.id;
+    await new Promise((r) => setTimeout(r, 10));
+  }
+  throw new Error("no pending push review");
+}
+
+test("review_push sessions hold the push until it is forwarded", async () => {
+  const calls: UpstreamCall[] = [];
+  const server = startGitServer(calls);
+  try {
+    registerGitlab(`http://127.0.0.1:${server.port}/scm`);
+    const { userId } = await setup();
+    const body = Buffer.concat([
+      Buffer.from(
+        `${pkt(`${BASE.sha} ${SECOND.sha} ${REF}\0report-status\n`)}0000`
+      ),
+      pack(PUSHED),
+    ]);
+
+    // Rejected in review: nothing reaches the upstream.
+    const rejected = await approvedPushSession(userId, { review_push: true });
+    const refs = await app().request(
+      `${rejected.remotePath}/info/refs?service=git-receive-pack`
+    );
+    expect(await refs.text()).toContain("no-thin");
+    const held = app().request(`${rejected.remotePath}/git-receive-pack`, {
+      method: "POST",
+      body,
+    });
+    const rejectedReview = await pendingReviewId(rejected.sessionId);
+    expect(
+      await decidePushReview({
+        reviewId: rejectedReview,
+        userId,
+        status: "REJECTED",
+      })
+    ).toBe(true);
+    const denied = await held;
+    expect(denied.status).toBe(403);
+    expect(await denied.text()).toContain("rejected in review");
+    expect(calls).toHaveLength(1);
+
+    // Review chosen by the approver; forwarded after the decision.
+    const forwarded = await approvedPushSession(userId, {}, true);
+    const status = await app().request(
+      `/v1/git/sessions/${forwarded.sessionId}`,
+      { headers: authHeaders }
+    );
+    expect(await status.json()).toMatchObject({ review_push: true });
+
+    const push = app().request(`${forwarded.remotePath}/git-receive-pack`, {
+      method: "POST",
+      body,
+    });
+    const reviewId = await pendingReviewId(forwarded.sessionId);
+    const summary = (await db()
+      .query("SELECT summary_json FROM git_push_reviews WHERE id = ?;")
+      .get(reviewId)) as { summary_json: string };
+    expect(JSON.parse(summary.summary_json).commits).toHaveLength(2);
+    expect(
+      await decidePushReview({ reviewId, userId, status: "FORWARDED" })
+    ).toBe(true);
+    // Decisions are final.
+    expect(
+      await decidePushReview({ reviewId, userId, status: "REJECTED" })
+    ).toBe(false);
+
+    expect((await push).status).toBe(200);
+    expect(calls.map((c) => c.path)).toEqual([
+      "/scm/acme/widgets.git/info/refs",
+      "/scm/acme/widgets.git/git-receive-pack",
+    ]);
+  } finally {
+    server.stop(true);
+  }
+});
@@ -0,0 +1,270 @@
+import { afterEach, expect, test } from "bun:test";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { upsertLinkedAccount } from "../src/accounts/linked";
+import { encryptUtf8 } from "../src/crypto/aesgcm";
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import { setGitSessionStatus } from "../src/git/sessions";
+import { buildDeclarativeProxyProvider } from "../src/providers/declarative/provider";
+import { ProviderDefinitionSchema } from "../src/providers/declarative/schema";
+import {
+  registerProxyProvider,
+  unregisterProxyProvider,
+} from "../src/proxy/providerRegistry";
+import { gitRouter } from "../src/web/git";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+env.APP_BASE_URL ??= "https://broker.example";
+
+const SHA_A = "a".repeat(40);
+const SHA_B = "b".repeat(40);
+const ZERO = "0".repeat(40);
+
+function pkt(payload: string): string {
+  const n = new TextEncoder().encode(payload).byteLength + 4;
+  return `${n.toString(16).padStart(4, "0")}${payload}`;
+}
+
+function receivePackBody(oldSha: string, newSha: string, ref: string): string {
+  return `${pkt(`${oldSha} ${newSha} ${ref}\0report-status\n`)}0000PACK`;
+}
+
+type UpstreamCall = { path: string; authorization: string | null };
+
+// Stand-in smart-HTTP git server mounted under /scm.
+function startGitServer(calls: UpstreamCall[]) {
+  return Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      calls.push({
+        path: `${url.pathname}${url.search}`,
+        authorization: req.headers.get("authorization"),
+      });
+      if (url.pathname.endsWith("/info/refs")) {
+        const body =
+          `${pkt("# service=git-receive-pack\n")}0000` +
+          `${pkt(`${SHA_A} refs/heads/main\0report-status symref=HEAD:refs/heads/main\n`)}0000`;
+        return new Response(body, {
+          headers: {
+            "content-type": "application/x-git-receive-pack-advertisement",
+          },
+        });
+      }
+      await req.arrayBuffer();
+      return new Response(`${pkt("unpack ok\n")}0000`, {
+        headers: { "content-type": "application/x-git-receive-pack-result" },
+      });
+    },
+  });
+}
+
+// A provider definition with a git remote (GitLab style: `oauth2` user,
+// nested groups), pointed at the local stand-in server.
+function registerGitlab(baseUrl: string) {
+  const def = ProviderDefinitionSchema.parse({
+    id: "gitlab",
+    hosts: ["gitlab.example.com"],
+    auth: { type: "api_key", credential_label: "Personal access token" },
+    git: { base_url: "https://gitlab.example.com" },
+  });
+  const provider = buildDeclarativeProxyProvider(def);
+  if (!provider.gitRemote) throw new Error("expected a git remote");
+  expect(provider.gitRemote).toMatchObject({
+    baseUrl: "https://gitlab.example.com",
+    username: "oauth2",
+    nestedNamespaces: true,
+  });
+  registerProxyProvider({
+    ...provider,
+    gitRemote: { ...provider.gitRemote, baseUrl },
+  });
+}
+
+afterEach(() => {
+  unregisterProxyProvider("gitlab");
+});
+
+async function setup(): Promise<{ userId: string }> {
+  await db().exec("DELETE FROM git_sessions;");
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+    )
+    .run(
+      ulid(),
+      userId,
+      "keyA",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso()
+    );
+  await upsertLinkedAccount({
+    userId,
+    provider: "gitlab",
+    providerUserId: "key_1",
+    scopes: "static",
+    ciphertext: await encryptUtf8("glpat-secret"),
+  });
+  return { userId };
+}
+
+function app() {
+  const a = new Hono();
+  a.route("/v1/git", gitRouter);
+  return a;
+}
+
+const authHeaders = {
+  authorization: "Bearer pb_test_key_a",
+  "content-type": "application/json",
+};
+
+// Create and approve a push session; returns the remote path on the broker.
+async function approvedPushSession(userId: string): Promise<{
+  sessionId: string;
+  remotePath: string;
+}> {
+  const res = await app().request("/v1/git/sessions", {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({
+      provider: "gitlab",
+      operation: "push",
+      repo: "group/sub/widgets",
+    }),
+  });
+  expect(res.status).toBe(200);
+  const sessionId = ((await res.json()) as JsonRecord).session_id as string;
+  await setGitSessionStatus({ sessionId, userId, status: "APPROVED" });
+
+  const remote = await app().request(`/v1/git/sessions/${sessionId}/remote`, {
+    headers: authHeaders,
+  });
+  const remoteUrl = new URL(
+    ((await remote.json()) as JsonRecord).remote_url as string
+  );
+  expect(remoteUrl.pathname).toEndWith("/gitlab/group/sub/widgets.git");
+  return { sessionId, remotePath: remoteUrl.pathname };
+}
+
+test("git sessions proxy to a provider's git remote", async () => {
+  const calls: UpstreamCall[] = [];
+  const server = startGitServer(calls);
+  try {
+    registerGitlab(`http://127.0.0.1:${server.port}/scm`);
+    const { userId } = await setup();
+    const { sessionId, remotePath } = await approvedPushSession(userId);
+
+    const refs = await app().request(
+      `${remotePath}/info/refs?service=git-receive-pack`
+    );
+    expect(refs.status).toBe(200);
+    expect(calls[0]).toEqual({
+      path: "/scm/group/sub/widgets.git/info/refs?service=git-receive-pack",
+      authorization: `Basic ${Buffer.from("oauth2:glpat-secret").toString("base64")}`,
+    });
+
+    const push = await app().request(`${remotePath}/git-receive-pack`, {
+      method: "POST",
+      headers: { "content-type": "application/x-git-receive-pack-request" },
+      body: receivePackBody(SHA_A, SHA_B, "refs/heads/feature"),
+    });
+    expect(push.status).toBe(200);
+    expect(calls[1]?.path).toBe("/scm/group/sub/widgets.git/git-receive-pack");
+
+    const status = await app().request(`/v1/git/sessions/${sessionId}`, {
+      headers: authHeaders,
+    });
+    expect(await status.json()).toMatchObject({
+      provider: "gitlab",
+      repo: "group/sub/widgets",
+      status: "USED",
+      default_branch_ref: "refs/heads/main",
+    });
+  } finally {
+    server.stop(true);
+  }
+});
+
+test("receive-pack protections and repo checks apply to every remote", async () => {
+  const calls: UpstreamCall[] = [];
+  const server = startGitServer(calls);
+  try {
+    registerGitlab(`http://127.0.0.1:${server.port}/scm`);
+    const { userId } = await setup();
+    const { remotePath } = await approvedPushSession(userId);
+    await app().request(`${remotePath}/info/refs?service=git-receive-pack`);
+
+    const push = (body: string, path = remotePath) =>
+      app().request(`${path}/git-receive-pack`, { method: "POST", body });
+
+    expect(
+      (await push(receivePackBody(SHA_A, ZERO, "refs/heads/x"))).status
+    ).toBe(403);
+    expect(
+      (await push(receivePackBody(ZERO, SHA_B, "refs/tags/v1"))).status
+    ).toBe(403);
+    expect(
+      (await push(receivePackBody(SHA_A, SHA_B, "refs/heads/main"))).status
+    ).toBe(403);
+    // The session is bound to its provider and repository.
+    expect(
+      (
+        await push(
+          receivePackBody(SHA_A, SHA_B, "refs/heads/x"),
+          remotePath.replace("/gitlab/", "/github/")
+        )
+      ).status
+    ).toBe(403);
+    expect(
+      (
+        await push(
+          receivePackBody(SHA_A, SHA_B, "refs/heads/x"),
+          remotePath.replace("/sub/", "/other/")
+        )
+      ).status
+    ).toBe(403);
+    // Only the handshake reached the upstream.
+    expect(calls).toHaveLength(1);
+
+    const create = (body: JsonRecord) =>
+      app().request("/v1/git/sessions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify({ operation: "clone", ...body }),
+      });
+    expect((await create({ provider: "google", repo: "a/b" })).status).toBe(
+      400
+    );
+    // GitHub repositories have no nested groups.
+    expect((await create({ repo: "acme/tools/widgets" })).status).toBe(400);
+    expect(
+      (await create({ provider: "gitlab", repo: "group/../widgets" })).status
+    ).toBe(400);
+  } finally {
+    server.stop(true);
+  }
+});
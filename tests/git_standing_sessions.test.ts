@@ -0,0 +1,329 @@
+import { afterEach, expect, test } from "bun:test";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { upsertLinkedAccount } from "../src/accounts/linked";
+import { encryptUtf8 } from "../src/crypto/aesgcm";
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import {
+  listLiveGitSessions,
+  revokeGitSession,
+  setGitSessionStatus,
+} from "../src/git/sessions";
+import { sweepGitSessions } from "../src/git/sweeper";
+import { buildDeclarativeProxyProvider } from "../src/providers/declarative/provider";
+import { ProviderDefinitionSchema } from "../src/providers/declarative/schema";
+import {
+  registerProxyProvider,
+  unregisterProxyProvider,
+} from "../src/proxy/providerRegistry";
+import { gitRouter } from "../src/web/git";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+env.APP_BASE_URL ??= "https://broker.example";
+
+const SHA_A = "a".repeat(40);
+const SHA_B = "b".repeat(40);
+
+afterEach(() => {
+  unregisterProxyProvider("gitlab");
+});
+
+function pkt(payload: string): string {
+  const n = new TextEncoder().encode(payload).byteLength + 4;
+  return `${n.toString(16).padStart(4, "0")}${payload}`;
+}
+
+function receivePackBody(oldSha: string, newSha: string, ref: string): string {
+  return `${pkt(`${oldSha} ${newSha} ${ref}\0report-status\n`)}0000PACK`;
+}
+
+type UpstreamCall = { path: string };
+
+function startGitServer(calls: UpstreamCall[]) {
+  return Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      calls.push({ path: `${url.pathname}${url.search}` });
+      if (url.pathname.endsWith("/info/refs")) {
+        const service = url.searchParams.get("service");
+        const body =
+          `${pkt(`# service=${service}\n`)}0000` +
+          `${pkt(`${SHA_A} refs/heads/main\0report-status symref=HEAD:refs/heads/main\n`)}0000`;
+        return new Response(body, {
+          headers: {
+            "content-type": `application/x-${service}-advertisement`,
+          },
+        });
+      }
+      await req.arrayBuffer();
+      return new Response(`${pkt("unpack ok\n")}0000`, {
+        headers: { "content-type": "application/x-git-receive-pack-result" },
+      });
+    },
+  });
+}
+
+function registerGitlab(baseUrl: string) {
+  const provider = buildDeclarativeProxyProvider(
+    ProviderDefinitionSchema.parse({
+      id: "gitlab",
+      hosts: ["gitlab.example.com"],
+      auth: { type: "api_key", credential_label: "Personal access token" },
+      git: { base_url: "https://gitlab.example.com" },
+    })
+  );
+  if (!provider.gitRemote) throw new Error("expected a git remote");
+  registerProxyProvider({
+    ...provider,
+    gitRemote: { ...provider.gitRemote, baseUrl },
+  });
+}
+
+async function setup(): Promise<{ userId: string }> {
+  await db().exec("DELETE FROM git_sessions;");
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+    )
+    .run(
+      ulid(),
+      userId,
+      "keyA",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso()
+    );
+  await upsertLinkedAccount({
+    userId,
+    provider: "gitlab",
+    providerUserId: "key_1",
+    scopes: "static",
+    ciphertext: await encryptUtf8("glpat-secret"),
+  });
+  return { userId };
+}
+
+function app() {
+  const a = new Hono();
+  a.route("/v1/git", gitRouter);
+  return a;
+}
+
+const authHeaders = {
+  authorization: "Bearer pb_test_key_a",
+  "content-type": "application/json",
+};
+
+function createSession(body: JsonRecord) {
+  return app().request("/v1/git/sessions", {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({
+      provider: "gitlab",
+      operation: "push",
+      repo: "acme/widgets",
+      ...body,
+    }),
+  });
+}
+
+async function approvedStandingSession(
+  userId: string,
+  body: JsonRecord
+): Promise<{ sessionId: string; remotePath: string }> {
+  const res = await createSession({ standing: true, ...body });
+  expect(res.status).toBe(200);
+  const sessionId = ((await res.json()) as JsonRecord).session_id as string;
+  await setGitSessionStatus({ sessionId, userId, status: "APPROVED" });
+
+  const remote = await app().request(`/v1/git/sessions/${sessionId}/remote`, {
+    headers: authHeaders,
+  });
+  const remoteUrl = new URL(
+    ((await remote.json()) as JsonRecord).remote_url as string
+  );
+  return { sessionId, remotePath: remoteUrl.pathname };
+}
+
+test("standing push sessions serve fetches and pushes until the push budget", async () => {
+  const calls: UpstreamCall[] = [];
+  const server = startGitServer(calls);
+  try {
+    registerGitlab(`http://127.0.0.1:${server.port}/scm`);
+    const { userId } = await setup();
+
+    // A standing push grant needs a branch pattern; limits need standing.
+    expect((await createSession({ standing: true })).status).toBe(400);
+    expect((await createSession({ max_pushes: 3 })).status).toBe(400);
+    expect(
+      (
+        await createSession({
+          standing: true,
+          ref_patterns: ["agent/*"],
+          max_duration_seconds: env.GIT_STANDING_SESSION_MAX_SECONDS + 1,
+        })
+      ).status
+    ).toBe(400);
+
+    const { sessionId, remotePath } = await approvedStandingSession(userId, {
+      ref_patterns: ["agent/*"],
+      max_duration_seconds: 3600,
+      max_pushes: 2,
+    });
+    const status = await app().request(`/v1/git/sessions/${sessionId}`, {
+      headers: authHeaders,
+    });
+    const json = (await status.json()) as JsonRecord;
+    expect(json).toMatchObject({
+      standing: true,
+      max_pushes: 2,
+      pushes_used: 0,
+    });
+    const expiresIn = Date.parse(json.expires_at as string) - Date.now();
+    expect(expiresIn).toBeGreaterThan(3500_000);
+    expect(expiresIn).toBeLessThanOrEqual(3600_000);
+
+    const push = () =>
+      app().request(`${remotePath}/git-receive-pack`, {
+        method: "POST",
+        body: receivePackBody(SHA_A, SHA_B, "refs/heads/agent/work"),
+      });
+    for (let cycle = 0; cycle < 2; cycle++) {
+      const fetchRefs = await app().request(
+        `${remotePath}/info/refs?service=git-upload-pack`
+      );
+      expect(fetchRefs.status).toBe(200);
+      const pushRefs = await app().request(
+        `${remotePath}/info/refs?service=git-receive-pack`
+      );
+      expect(pushRefs.status).toBe(200);
+      expect((await push()).status).toBe(200);
+    }
+    expect(
+      calls.filter((c) => c.path.endsWith("/git-receive-pack"))
+    ).toHaveLength(2);
+
+    // The budget is spent.
+    expect((await push()).status).toBe(410);
+    const used = await app().request(`/v1/git/sessions/${sessionId}`, {
+      headers: authHeaders,
+    });
+    expect(await used.json()).toMatchObject({ status: "USED", pushes_used: 2 });
+  } finally {
+    server.stop(true);
+  }
+});
+
+test("standing sessions end when revoked or expired", async () => {
+  const calls: UpstreamCall[] = [];
+  const server = startGitServer(calls);
+  try {
+    registerGitlab(`http://127.0.0.1:${server.port}/scm`);
+    const { userId } = await setup();
+
+    const revoked = await approvedStandingSession(userId, {
+      operation: "fetch",
+    });
+    const expired = await approvedStandingSession(userId, {
+      operation: "fetch",
+    });
+    expect((await listLiveGitSessions(userId)).map((s) => s.id)).toEqual([
+      expired.sessionId,
+      revoked.sessionId,
+    ]);
+
+    expect(
+      await revokeGitSession({ sessionId: revoked.sessionId, userId })
+    ).toBe(true);
+    expect(
+      await revokeGitSession({ sessionId: revoked.sessionId, userId })
+    ).toBe(false);
+    const refs = await app().request(
+      `${revoked.remotePath}/info/refs?service=git-upload-pack`
+    );
+    expect(refs.status).toBe(403);
+    const remote = await app().request(
+      `/v1/git/sessions/${revoked.sessionId}/remote`,
+      { headers: authHeaders }
+    );
+    expect(await remote.json()).toEqual({ error: "revoked" });
+
+    // A stale Approve button can't revive a revoked session.
+    expect(
+      await setGitSessionStatus({
+        sessionId: revoked.sessionId,
+        userId,
+        status: "APPROVED",
+      })
+    ).toBe(false);
+    const pending = await createSession({
+      operation: "fetch",
+      standing: true,
+    });
+    const pendingId = ((await pending.json()) as JsonRecord)
+      .session_id as string;
+    expect(await revokeGitSession({ sessionId: pendingId, userId })).toBe(true);
+    expect(
+      await setGitSessionStatus({
+        sessionId: pendingId,
+        userId,
+        status: "APPROVED",
+      })
+    ).toBe(false);
+    expect(
+      await db()
+        .query("SELECT status, expires_at FROM git_sessions WHERE id = ?;")
+        .get(pendingId)
+    ).toEqual({ status: "REVOKED", expires_at: null });
+
+    // Standing sessions don't idle out, but end at expires_at.
+    await db()
+      .query(
+        "UPDATE git_sessions SET last_activity_at = ?, expires_at = ? WHERE id = ?;"
+      )
+      .run(
+        new Date(Date.now() - 3600_000).toISOString(),
+        new Date(Date.now() + 60_000).toISOString(),
+        expired.sessionId
+      );
+    await sweepGitSessions();
+    expect((await listLiveGitSessions(userId)).map((s) => s.id)).toEqual([
+      expired.sessionId,
+    ]);
+    await db()
+      .query("UPDATE git_sessions SET expires_at = ? WHERE id = ?;")
+      .run(new Date(Date.now() - 1000).toISOString(), expired.sessionId);
+    const late = await app().request(
+      `${expired.remotePath}/info/refs?service=git-upload-pack`
+    );
+    expect(late.status).toBe(408);
+    await sweepGitSessions();
+    expect(await listLiveGitSessions(userId)).toEqual([]);
+    expect(calls).toHaveLength(0);
+  } finally {
+    server.stop(true);
+  }
+});
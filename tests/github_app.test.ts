@@ -0,0 +1,200 @@
+import { expect, test } from "bun:test";
+import { generateKeyPairSync, verify } from "node:crypto";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { createConnectUrl } from "../src/connect/links";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import {
+  fetchGitHubInstallation,
+  type GitHubAppCredential,
+  githubAppScopeForGit,
+  githubAppScopeForRequest,
+  mintGitHubInstallationToken,
+  parseGitHubAppCredential,
+} from "../src/providers/github/app";
+import { accountRouter } from "../src/web/accounts";
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+env.APP_BASE_URL ??= "https://broker.example";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  // GitHub hands out PKCS#1 keys.
+  privateKeyEncoding: { type: "pkcs1", format: "pem" },
+  publicKeyEncoding: { type: "spki", format: "pem" },
+});
+
+const credential: GitHubAppCredential = {
+  type: "github_app",
+  appId: "4242",
+  installationId: "77",
+  privateKey,
+};
+
+function verifyAppJwt(authorization: string | null): boolean {
+  const jwt = authorization?.replace(/^Bearer /, "") ?? "";
+  const [header, payload, signature] = jwt.split(".");
+  if (!header || !payload || !signature) return false;
+  const ok = verify(
+    "sha256",
+    Buffer.from(`${header}.${payload}`),
+    publicKey,
+    Buffer.from(signature, "base64url")
+  );
+  const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as {
+    iss: string;
+    exp: number;
+  };
+  return ok && claims.iss === "4242" && claims.exp > Date.now() / 1000;
+}
+
+test("installation tokens are minted with a signed app JWT", async () => {
+  const minted: unknown[] = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      if (!verifyAppJwt(req.headers.get("authorization"))) {
+        return new Response("bad jwt", { status: 401 });
+      }
+      if (
+        req.method === "POST" &&
+        url.pathname === "/app/installations/77/access_tokens"
+      ) {
+        minted.push(await req.json());
+        return Response.json({
+          token: "ghs_installation",
+          expires_at: "2030-01-01T00:00:00Z",
+        });
+      }
+      if (url.pathname === "/app/installations/77") {
+        return Response.json({ id: 77, account: { login: "acme" } });
+      }
+      return new Response("not found", { status: 404 });
+    },
+  });
+
+  try {
+    const apiBaseUrl = `http://127.0.0.1:${server.port}`;
+    const stored = parseGitHubAppCredential(JSON.stringify(credential));
+    expect(stored).toEqual(credential);
+    expect(parseGitHubAppCredential("gho_oauth_token")).toBeNull();
+
+    const token = await mintGitHubInstallationToken({
+      credential,
+      scope: githubAppScopeForGit({ repo: "widgets", operation: "push" }),
+      apiBaseUrl,
+    });
+    expect(token.token).toBe("ghs_installation");
+    expect(minted).toEqual([
+      { repositories: ["widgets"], permissions: { contents: "write" } },
+    ]);
+
+    expect(await fetchGitHubInstallation({ credential, apiBaseUrl })).toEqual({
+      ok: true,
+      accountLogin: "acme",
+    });
+    expect(
+      await fetchGitHubInstallation({
+        credential: { ...credential, installationId: "78" },
+        apiBaseUrl,
+      })
+    ).toMatchObject({ ok: false, status: 404 });
+  } finally {
+    server.stop(true);
+  }
+});
+
+test("token scopes follow the request", () => {
+  const scope = (method: string, url: string) =>
+    githubAppScopeForRequest({ method, url: new URL(url) });
+
+  expect(
+    scope("POST", "https://api.github.com/repos/acme/widgets/issues")
+  ).toEqual({
+    repositories: ["widgets"],
+    permissions: { issues: "write" },
+  });
+  expect(
+    scope("GET", "https://api.github.com/repos/acme/widgets/pulls/3/files")
+  ).toEqual({
+    repositories: ["widgets"],
+    permissions: { pull_requests: "read" },
+  });
+  expect(
+    scope("PUT", "https://api.github.com/repos/acme/widgets/contents/a.md")
+  ).toEqual({
+    repositories: ["widgets"],
+    permissions: { contents: "write" },
+  });
+  expect(scope("GET", "https://api.github.com/repos/acme/widgets")).toEqual({
+    repositories: ["widgets"],
+    permissions: { metadata: "read" },
+  });
+  for (const method of ["PATCH", "DELETE"]) {
+    expect(scope(method, "https://api.github.com/repos/acme/widgets")).toEqual({
+      repositories: ["widgets"],
+      permissions: { administration: "write" },
+    });
+  }
+  expect(
+    scope("GET", "https://api.github.com/installation/repositories")
+  ).toEqual({ permissions: { metadata: "read" } });
+  // Endpoints without a mapping never get the installation's full token.
+  expect(() =>
+    scope("GET", "https://api.github.com/repos/acme/widgets/traffic/views")
+  ).toThrow("no GitHub App permission is mapped");
+  expect(() => scope("GET", "https://api.github.com/user")).toThrow(
+    "no GitHub App permission is mapped"
+  );
+  expect(() =>
+    scope("DELETE", "https://api.github.com/installation/token")
+  ).toThrow("no GitHub App permission is mapped");
+  expect(githubAppScopeForGit({ repo: "widgets", operation: "clone" })).toEqual(
+    {
+      repositories: ["widgets"],
+      permissions: { contents: "read" },
+    }
+  );
+});
+
+test("the connect link opens the installation form", async () => {
+  await db().exec("DELETE FROM connect_states;");
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM users;");
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, new Date().toISOString(), "active");
+
+  const app = new Hono();
+  app.route("/v1/accounts", accountRouter);
+
+  const url = new URL(
+    await createConnectUrl({ userId, providerId: "github-app" })
+  );
+  expect(url.pathname).toBe("/v1/accounts/connect/github-app");
+
+  const form = await app.request(`${url.pathname}${url.search}`);
+  expect(form.status).toBe(200);
+  expect(await form.text()).toContain('name="installation_id"');
+
+  const res = await app.request(url.pathname, {
+    method: "POST",
+    body: new URLSearchParams({
+      state: url.searchParams.get("state") ?? "",
+      app_id: "4242",
+      installation_id: "not-a-number",
+      private_key: privateKey,
+    }),
+  });
+  expect(res.status).toBe(400);
+  expect(await res.text()).toContain("must be numbers");
+});
@@ -0,0 +1,179 @@
+import { expect, test } from "bun:test";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import {
+  selectLinkedAccount,
+  UNKNOWN_PROVIDER_USER_ID,
+  upsertLinkedAccount,
+} from "../src/accounts/linked";
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { accountRouter } from "../src/web/accounts";
+import { proxyRouter } from "../src/web/proxy";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+
+async function setup(): Promise<{ userId: string }> {
+  await db().exec("DELETE FROM approvals;");
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+    )
+    .run(
+      ulid(),
+      userId,
+      "keyA",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso()
+    );
+  return { userId };
+}
+
+async function link(params: {
+  userId: string;
+  providerUserId: string;
+  label?: string;
+}) {
+  const linked = await upsertLinkedAccount({
+    userId: params.userId,
+    provider: "github",
+    providerUserId: params.providerUserId,
+    label: params.label,
+    scopes: "repo",
+    ciphertext: new Uint8Array([1, 2, 3]),
+  });
+  if (!linked) throw new Error("expected account to be stored");
+  return linked;
+}
+
+function app() {
+  const a = new Hono();
+  a.route("/v1/accounts", accountRouter);
+  a.route("/v1/proxy", proxyRouter);
+  return a;
+}
+
+const authHeaders = {
+  authorization: "Bearer pb_test_key_a",
+  "content-type": "application/json",
+};
+
+test("upsert: same identity updates, new identity adds, legacy row is adopted", async () => {
+  const { userId } = await setup();
+
+  const legacy = await link({
+    userId,
+    providerUserId: UNKNOWN_PROVIDER_USER_ID,
+  });
+  const personal = await link({ userId, providerUserId: "1", label: "alice" });
+  expect(personal).toEqual({ accountId: legacy.accountId, created: false });
+
+  const again = await link({ userId, providerUserId: "1", label: "renamed" });
+  expect(again.accountId).toBe(personal.accountId);
+
+  const work = await link({ userId, providerUserId: "2", label: "alice-work" });
+  expect(work.created).toBe(true);
+
+  const rows = await db()
+    .query(
+      "SELECT provider_user_id, label FROM linked_accounts WHERE user_id = ? ORDER BY provider_user_id;"
+    )
+    .all(userId);
+  // Existing labels are kept on reconnect.
+  expect(rows).toEqual([
+    { provider_user_id: "1", label: "alice" },
+    { provider_user_id: "2", label: "alice-work" },
+  ]);
+});
+
+test("select: by id, provider_user_id or label; ambiguous without selector", async () => {
+  const { userId } = await setup();
+  const personal = await link({
+    userId,
+    providerUserId: "1",
+    label: "Personal",
+  });
+  await link({ userId, providerUserId: "2", label: "work" });
+
+  const implicit = await selectLinkedAccount({ userId, provider: "github" });
+  expect(implicit.ok).toBe(false);
+  if (!implicit.ok) expect(implicit.error).toBe("ambiguous_account");
+
+  for (const selector of [personal.accountId, "1", "personal"]) {
+    const s = await selectLinkedAccount({
+      userId,
+      provider: "github",
+      selector,
+    });
+    expect(s.ok && s.account?.id).toBe(personal.accountId);
+  }
+
+  const missing = await selectLinkedAccount({
+    userId,
+    provider: "github",
+    selector: "nope",
+  });
+  expect(missing.ok).toBe(false);
+  if (!missing.ok) expect(missing.error).toBe("account_not_found");
+});
+
+test("proxy request: account selector is required and pinned when several are linked", async () => {
+  const { userId } = await setup();
+  await link({ userId, providerUserId: "1", label: "personal" });
+  const work = await link({ userId, providerUserId: "2", label: "work" });
+
+  const ambiguous = await app().request("/v1/proxy/request", {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({ upstream_url: "https://api.github.com/user" }),
+  });
+  expect(ambiguous.status).toBe(409);
+  const aj = (await ambiguous.json()) as JsonRecord;
+  expect(aj.error).toBe("ambiguous_account");
+  expect((aj.accounts as unknown[]).length).toBe(2);
+
+  const res = await app().request("/v1/proxy/request", {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({
+      upstream_url: "https://api.github.com/user",
+      account: "work",
+    }),
+  });
+  expect(res.status).toBe(200);
+  const j = (await res.json()) as JsonRecord;
+  expect(j.account_id).toBe(work.accountId);
+
+  const row = (await db()
+    .query("SELECT linked_account_id FROM proxy_requests WHERE id = ?;")
+    .get(j.request_id as string)) as { linked_account_id: string };
+  expect(row.linked_account_id).toBe(work.accountId);
+
+  const listed = await app().request("/v1/accounts", { headers: authHeaders });
+  const accounts = ((await listed.json()) as { accounts: JsonRecord[] })
+    .accounts;
+  expect(accounts.map((a) => a.label).sort()).toEqual(["personal", "work"]);
+  expect(accounts.find((a) => a.label === "work")?.id).toBe(work.accountId);
+});
@@ -0,0 +1,251 @@
+import { expect, test } from "bun:test";
+import { ulid } from "ulid";
+
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import { createGitSession, setGitSessionStatus } from "../src/git/sessions";
+import { upsertAlwaysAllowRule } from "../src/proxy/alwaysAllow";
+import { createApprovalGrant } from "../src/proxy/grants";
+import {
+  listLiveGrants,
+  revokeAllForApiKey,
+  revokeLiveGrant,
+} from "../src/proxy/liveGrants";
+import { createPolicyRule, listPolicyRules } from "../src/proxy/policy";
+import {
+  createProxyRequest,
+  denyOpenProxyRequests,
+  listOpenProxyRequests,
+} from "../src/proxy/requests";
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+
+const OWNER = { actorType: "telegram", actorId: "123" } as const;
+
+async function setupDb() {
+  await db().exec("DELETE FROM approvals;");
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM proxy_always_allow_rules;");
+  await db().exec("DELETE FROM proxy_approval_grants;");
+  await db().exec("DELETE FROM proxy_policy_rules;");
+  await db().exec("DELETE FROM git_sessions;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+}
+
+async function insertUser(telegramUserId = 123): Promise<string> {
+  const id = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(id, telegramUserId, nowIso(), "active");
+  return id;
+}
+
+async function insertApiKey(userId: string, label: string): Promise<string> {
+  const apiKeyId = ulid();
+  const now = nowIso();
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+    )
+    .run(apiKeyId, userId, label, await sha256Hex(`pb_${label}`), now, now);
+  return apiKeyId;
+}
+
+async function seedKey(userId: string, label: string) {
+  const apiKeyId = await insertApiKey(userId, label);
+  const url = new URL(`https://api.github.com/${label}`);
+  const rule = await upsertAlwaysAllowRule({
+    userId,
+    apiKeyId,
+    requesterIp: "203.0.113.10",
+    method: "GET",
+    url,
+  });
+  const policyRule = await createPolicyRule({
+    userId,
+    apiKeyId,
+    effect: "allow",
+    methods: ["GET"],
+    hostPattern: "api.github.com",
+    pathPattern: `/${label}/**`,
+  });
+  // Deny rules only restrict the key, so they aren't live grants.
+  await createPolicyRule({
+    userId,
+    apiKeyId,
+    effect: "deny",
+    methods: ["DELETE"],
+  });
+  const grant = await createApprovalGrant({
+    userId,
+    apiKeyId,
+    requesterIp: "203.0.113.10",
+    method: "POST",
+    url,
+    maxUses: 20,
+  });
+  const session = await createGitSession({
+    userId,
+    apiKeyId,
+    provider: "github",
+    operation: "fetch",
+    repoOwner: "acme",
+    repoName: label,
+    approvalTtlMs: 60_000,
+    inactivityTimeoutSeconds: 120,
+  });
+  await setGitSessionStatus({
+    sessionId: session.sessionId,
+    userId,
+    status: "APPROVED",
+  });
+
+  const requestIds: string[] = [];
+  for (let i = 0; i < 2; i++) {
+    const created = await createProxyRequest({
+      userId,
+      apiKeyId,
+      apiKeyLabelSnapshot: label,
+      upstreamUrl: `https://api.github.com/${label}/${i}`,
+      method: "GET",
+      approvalTtlMs: 60_000,
+    });
+    requestIds.push(created.requestId);
+  }
+  return {
+    apiKeyId,
+    ruleId: rule.ruleId,
+    policyRuleId: policyRule.ruleId,
+    grantId: grant.grantId,
+    sessionId: session.sessionId,
+    requestIds,
+  };
+}
+
+async function requestState(id: string) {
+  return (await db()
+    .query("SELECT status, error_code FROM proxy_requests WHERE id = ?;")
+    .get(id)) as { status: string; error_code: string | null };
+}
+
+test("live grants and open requests are listed, revoked and denied", async () => {
+  await setupDb();
+  const userId = await insertUser();
+  const a = await seedKey(userId, "agent");
+
+  expect((await listLiveGrants(userId)).map((g) => [g.kind, g.id])).toEqual([
+    ["git_session", a.sessionId],
+    ["always_allow", a.ruleId],
+    ["policy_rule", a.policyRuleId],
+    ["approval_grant", a.grantId],
+  ]);
+  expect((await listLiveGrants(userId))[1]?.description).toBe(
+    "always allow GET api.github.com/agent, ip 203.0.113.10, key agent"
+  );
+  expect((await listLiveGrants(userId))[2]?.description).toBe(
+    "rule ALLOW GET api.github.com/agent/** key=agent"
+  );
+
+  expect(
+    await revokeLiveGrant({ userId, kind: "always_allow", id: a.ruleId })
+  ).toBe(true);
+  expect(
+    await revokeLiveGrant({ userId, kind: "always_allow", id: a.ruleId })
+  ).toBe(false);
+  expect(
+    await revokeLiveGrant({ userId, kind: "git_session", id: a.sessionId })
+  ).toBe(true);
+  expect(
+    await revokeLiveGrant({ userId, kind: "policy_rule", id: a.policyRuleId })
+  ).toBe(true);
+  expect((await listLiveGrants(userId)).map((g) => g.id)).toEqual([a.grantId]);
+
+  // Pages are newest first; the second page holds the older request.
+  await db()
+    .query("UPDATE proxy_requests SET created_at = ? WHERE id = ?;")
+    .run("2020-01-01T00:00:00.000Z", a.requestIds[0]);
+  const page2 = await listOpenProxyRequests({ userId, limit: 1, offset: 1 });
+  expect(page2.total).toBe(2);
+  expect(page2.requests.map((r) => r.id)).toEqual([a.requestIds[0]]);
+
+  // Revoking an approved request denies it; bulk deny only takes pending ones.
+  await db()
+    .query("UPDATE proxy_requests SET status = 'APPROVED' WHERE id = ?;")
+    .run(a.requestIds[0]);
+  expect(
+    await denyOpenProxyRequests({ userId, pendingOnly: true, actor: OWNER })
+  ).toEqual([a.requestIds[1]]);
+  expect(await requestState(a.requestIds[1] ?? "")).toEqual({
+    status: "DENIED",
+    error_code: "DENIED",
+  });
+  expect((await requestState(a.requestIds[0] ?? "")).status).toBe("APPROVED");
+  expect(
+    await denyOpenProxyRequests({
+      userId,
+      requestId: a.requestIds[0],
+      actor: OWNER,
+    })
+  ).toEqual([a.requestIds[0]]);
+  expect(await requestState(a.requestIds[0] ?? "")).toEqual({
+    status: "DENIED",
+    error_code: "REVOKED",
+  });
+  expect(
+    (await listOpenProxyRequests({ userId, limit: 10, offset: 0 })).total
+  ).toBe(0);
+});
+
+test("revoking everything for a key leaves other keys alone", async () => {
+  await setupDb();
+  const userId = await insertUser();
+  const a = await seedKey(userId, "agent");
+  const b = await seedKey(userId, "other");
+
+  const res = await revokeAllForApiKey({
+    userId,
+    apiKeyId: a.apiKeyId,
+    actor: OWNER,
+  });
+  expect(res).toEqual({
+    gitSessions: 1,
+    alwaysAllowRules: 1,
+    policyRules: 1,
+    approvalGrants: 1,
+    requestIds: expect.arrayContaining(a.requestIds),
+  });
+  expect(res.requestIds).toHaveLength(2);
+
+  expect((await listLiveGrants(userId)).map((g) => g.id)).toEqual([
+    b.sessionId,
+    b.ruleId,
+    b.policyRuleId,
+    b.grantId,
+  ]);
+  // The key's deny rule stays in force.
+  expect(
+    (await listPolicyRules(userId))
+      .filter((r) => r.apiKeyId === a.apiKeyId)
+      .map((r) => r.effect)
+  ).toEqual(["deny"]);
+  const open = await listOpenProxyRequests({ userId, limit: 10, offset: 0 });
+  expect(open.requests.map((r) => r.api_key_id)).toEqual([
+    b.apiKeyId,
+    b.apiKeyId,
+  ]);
+  const session = (await db()
+    .query("SELECT status FROM git_sessions WHERE id = ?;")
+    .get(a.sessionId)) as { status: string };
+  expect(session.status).toBe("REVOKED");
+});
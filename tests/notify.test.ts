@@ -0,0 +1,175 @@
+import { expect, test } from "bun:test";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { encryptUtf8 } from "../src/crypto/aesgcm";
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import {
+  CALLBACK_SIGNATURE_HEADER,
+  countProxyRequestWaiters,
+  signCallbackPayload,
+} from "../src/proxy/notify";
+import { decideProxyRequest } from "../src/proxy/requests";
+import { proxyRouter } from "../src/web/proxy";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+
+async function setup(): Promise<{ userId: string; apiKeyId: string }> {
+  await db().exec("DELETE FROM approvals;");
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+
+  const apiKeyId = ulid();
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+    )
+    .run(
+      apiKeyId,
+      userId,
+      "keyA",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso()
+    );
+  return { userId, apiKeyId };
+}
+
+async function insertPendingRequest(params: {
+  userId: string;
+  apiKeyId: string;
+}): Promise<string> {
+  const id = ulid();
+  const now = nowIso();
+  await db()
+    .query(
+      "INSERT INTO proxy_requests (id, user_id, api_key_id, api_key_label_snapshot, upstream_url, request_hash, status, created_at, updated_at, approval_expires_at, result_state) " +
+        "VALUES (?, ?, ?, 'keyA', 'https://api.github.com/user', 'hash', 'PENDING_APPROVAL', ?, ?, ?, 'NONE');"
+    )
+    .run(
+      id,
+      params.userId,
+      params.apiKeyId,
+      now,
+      now,
+      new Date(Date.now() + 120_000).toISOString()
+    );
+  return id;
+}
+
+function app() {
+  const a = new Hono();
+  a.route("/v1/proxy", proxyRouter);
+  return a;
+}
+
+async function decide(requestId: string, userId: string) {
+  return await decideProxyRequest({
+    requestId,
+    userId,
+    decision: "approved",
+    telegramUserId: 123,
+    telegramChatId: 123,
+    telegramMessageId: 1,
+  });
+}
+
+test("wait: long-poll wakes on the decision path", async () => {
+  const { userId, apiKeyId } = await setup();
+  const requestId = await insertPendingRequest({ userId, apiKeyId });
+
+  const started = Date.now();
+  const pending = app().request(
+    `/v1/proxy/requests/${requestId}/wait?timeout=10`,
+    { headers: { authorization: "Bearer pb_test_key_a" } }
+  );
+
+  // Let the handler register its waiter before deciding.
+  for (let i = 0; i < 50 && countProxyRequestWaiters(requestId) === 0; i++) {
+    await new Promise((r) => setTimeout(r, 10));
+  }
+  expect(countProxyRequestWaiters(requestId)).toBe(1);
+  expect(await decide(requestId, userId)).toEqual({ ok: true });
+
+  const res = await pending;
+  expect(Date.now() - started).toBeLessThan(5_000);
+  expect(res.status).toBe(202);
+  expect(((await res.json()) as JsonRecord).status).toBe("APPROVED");
+  expect(countProxyRequestWaiters(requestId)).toBe(0);
+});
+
+test("wait: returns the pending status after the timeout", async () => {
+  const { userId, apiKeyId } = await setup();
+  const requestId = await insertPendingRequest({ userId, apiKeyId });
+
+  const res = await app().request(
+    `/v1/proxy/requests/${requestId}/wait?timeout=0.05`,
+    { headers: { authorization: "Bearer pb_test_key_a" } }
+  );
+  expect(res.status).toBe(202);
+  expect(((await res.json()) as JsonRecord).status).toBe("PENDING_APPROVAL");
+});
+
+test("callbacks: decisions are delivered with an HMAC signature", async () => {
+  env.APP_SECRET ??= "test-app-secret";
+  const { userId, apiKeyId } = await setup();
+  const requestId = await insertPendingRequest({ userId, apiKeyId });
+
+  let resolveDelivery: (v: { body: string; signature: string }) => void =
+    () => {};
+  const delivered = new Promise<{ body: string; signature: string }>((r) => {
+    resolveDelivery = r;
+  });
+  const receiver = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      resolveDelivery({
+        body: await req.text(),
+        signature: req.headers.get(CALLBACK_SIGNATURE_HEADER) ?? "",
+      });
+      return new Response("ok");
+    },
+  });
+
+  const secret = "whsec_test";
+  await db()
+    .query(
+      "UPDATE api_keys SET callback_url = ?, callback_secret_ciphertext = ? WHERE id = ?;"
+    )
+    .run(
+      `http://127.0.0.1:${receiver.port}/hook`,
+      await encryptUtf8(secret),
+      apiKeyId
+    );
+
+  expect(await decide(requestId, userId)).toEqual({ ok: true });
+  const { body, signature } = await delivered;
+  receiver.stop();
+
+  const payload = JSON.parse(body) as JsonRecord;
+  expect(payload.request_id).toBe(requestId);
+  expect(payload.status).toBe("APPROVED");
+
+  const t = Number(/t=(\d+)/.exec(signature)?.[1]);
+  expect(signature).toBe(
+    await signCallbackPayload({ secret, timestamp: t, body })
+  );
+});
@@ -0,0 +1,199 @@
+import { describe, expect, test } from "bun:test";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import {
+  createPolicyRule,
+  matchesPathPattern,
+  type PolicyRule,
+  parsePolicyRuleSpec,
+  ruleMatchesRequest,
+} from "../src/proxy/policy";
+import { proxyRouter } from "../src/web/proxy";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+
+function rule(overrides: Partial<PolicyRule>): PolicyRule {
+  return {
+    id: "r1",
+    userId: "u1",
+    apiKeyId: null,
+    requesterIp: null,
+    providerId: null,
+    effect: "allow",
+    priority: 0,
+    methods: null,
+    hostPattern: null,
+    pathPattern: null,
+    queryConstraints: null,
+    description: null,
+    createdAt: nowIso(),
+    ...overrides,
+  };
+}
+
+function req(url: string, method = "GET") {
+  return {
+    apiKeyId: "k1",
+    requesterIp: "203.0.113.10",
+    providerId: "google",
+    method,
+    url: new URL(url),
+  };
+}
+
+describe("policy matching", () => {
+  test("path templates and globs", () => {
+    expect(
+      matchesPathPattern("/drive/v3/files/{id}", "/drive/v3/files/abc")
+    ).toBe(true);
+    expect(
+      matchesPathPattern("/drive/v3/files/{id}", "/drive/v3/files/abc/export")
+    ).toBe(false);
+    expect(
+      matchesPathPattern("/drive/v3/files/**", "/drive/v3/files/abc/export")
+    ).toBe(true);
+    expect(matchesPathPattern("/repos/*/*/pulls", "/repos/o/r/pulls")).toBe(
+      true
+    );
+  });
+
+  test("methods, host and query constraints", () => {
+    const r = rule({
+      methods: ["GET"],
+      hostPattern: "*.googleapis.com",
+      pathPattern: "/drive/v3/files/{id}",
+      queryConstraints: { fields: "*", alt: null },
+    });
+
+    expect(
+      ruleMatchesRequest(
+        r,
+        req("https://www.googleapis.com/drive/v3/files/f1?fields=name")
+      )
+    ).toBe(true);
+    expect(
+      ruleMatchesRequest(
+        r,
+        req("https://www.googleapis.com/drive/v3/files/f1?fields=name", "POST")
+      )
+    ).toBe(false);
+    // Missing required param.
+    expect(
+      ruleMatchesRequest(r, req("https://www.googleapis.com/drive/v3/files/f1"))
+    ).toBe(false);
+    // Forbidden param present.
+    expect(
+      ruleMatchesRequest(
+        r,
+        req("https://www.googleapis.com/drive/v3/files/f1?fields=x&alt=media")
+      )
+    ).toBe(false);
+  });
+
+  test("parses the Telegram rule syntax", () => {
+    const { input, apiKeyLabel } = parsePolicyRuleSpec(
+      "deny POST,delete api.github.com/repos/** key=agent priority=10 noquery=force"
+    );
+    expect(input.effect).toBe("deny");
+    expect(input.methods).toEqual(["POST", "DELETE"]);
+    expect(input.hostPattern).toBe("api.github.com");
+    expect(input.pathPattern).toBe("/repos/**");
+    expect(input.priority).toBe(10);
+    expect(input.queryConstraints).toEqual({ force: null });
+    expect(apiKeyLabel).toBe("agent");
+
+    // Words that are not HTTP methods are hosts; lists must be all methods.
+    const local = parsePolicyRuleSpec("allow localhost/health").input;
+    expect(local.methods).toBeUndefined();
+    expect(local.hostPattern).toBe("localhost");
+    expect(local.pathPattern).toBe("/health");
+    expect(() => parsePolicyRuleSpec("allow GET,FETCH api.github.com")).toThrow(
+      "invalid method: FETCH"
+    );
+  });
+});
+
+test("policy rules: deny beats allow at equal priority", async () => {
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM proxy_policy_rules;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+
+  const apiKeyId = ulid();
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+    )
+    .run(
+      apiKeyId,
+      userId,
+      "keyA",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso()
+    );
+
+  await createPolicyRule({
+    userId,
+    effect: "allow",
+    providerId: "github",
+    methods: ["GET"],
+    pathPattern: "/repos/**",
+  });
+  const { ruleId: denyId } = await createPolicyRule({
+    userId,
+    effect: "deny",
+    hostPattern: "api.github.com",
+    pathPattern: "/repos/*/secret-repo/**",
+  });
+
+  const a = new Hono();
+  a.route("/v1/proxy", proxyRouter);
+
+  const send = (upstreamUrl: string) =>
+    a.request("/v1/proxy/request", {
+      method: "POST",
+      headers: {
+        authorization: "Bearer pb_test_key_a",
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({ upstream_url: upstreamUrl, method: "GET" }),
+    });
+
+  const allowed = await send("https://api.github.com/repos/o/r/issues");
+  expect(allowed.status).toBe(200);
+  const aj = (await allowed.json()) as JsonRecord;
+  expect(aj.status).toBe("APPROVED");
+  expect((aj.matched_rule as JsonRecord).source).toBe("policy_rule");
+
+  const denied = await send(
+    "https://api.github.com/repos/o/secret-repo/issues"
+  );
+  expect(denied.status).toBe(403);
+  const dj = (await denied.json()) as JsonRecord;
+  expect(dj.status).toBe("DENIED");
+  expect((dj.matched_rule as JsonRecord).rule_id).toBe(denyId);
+
+  const row = (await db()
+    .query("SELECT status, error_code FROM proxy_requests WHERE id = ?;")
+    .get(dj.request_id as string)) as { status: string; error_code: string };
+  expect(row).toEqual({ status: "DENIED", error_code: "DENIED_BY_POLICY" });
+});
@@ -0,0 +1,179 @@
+import { afterEach, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { getProvider, unregisterOAuthProvider } from "../src/oauth/registry";
+import {
+  loadProviderDefinitions,
+  registerProviderDefinition,
+} from "../src/providers/declarative/load";
+import { interpretProxyRequest } from "../src/proxy/interpret";
+import {
+  getProxyProviderById,
+  getProxyProviderForUrl,
+  listProxyProviderIds,
+  unregisterProxyProvider,
+} from "../src/proxy/providerRegistry";
+
+const NOTION = {
+  id: "notion",
+  hosts: ["api.notion.com"],
+  path_prefixes: ["/v1"],
+  allowed_methods: ["get", "POST", "PATCH"],
+  default_headers: { "Notion-Version": "2022-06-28" },
+  auth: {
+    type: "oauth2",
+    authorization_endpoint: "https://api.notion.com/v1/oauth/authorize",
+    token_endpoint: "https://api.notion.com/v1/oauth/token",
+    client_id_env: "TEST_NOTION_CLIENT_ID",
+    client_secret_env: "TEST_NOTION_CLIENT_SECRET",
+    refresh_tokens: false,
+  },
+  interpretations: [
+    {
+      method: "GET",
+      path: "/v1/pages/:page_id",
+      summary: "Read Notion page",
+      details: ["page: {page_id}"],
+    },
+    {
+      method: ["POST", "PATCH"],
+      path: "/v1/blocks/:block_id/*",
+      summary: "{method} Notion block {block_id}",
+    },
+  ],
+};
+
+afterEach(() => {
+  for (const id of ["notion", "linear"]) {
+    unregisterProxyProvider(id);
+    unregisterOAuthProvider(id);
+  }
+});
+
+test("definitions register proxy and OAuth providers", async () => {
+  registerProviderDefinition(NOTION);
+  expect(listProxyProviderIds()).toContain("notion");
+
+  const provider = getProxyProviderForUrl(
+    new URL("https://api.notion.com/v1/pages/p1")
+  );
+  expect(provider.id).toBe("notion");
+  expect([...provider.allowedMethods].sort()).toEqual(["GET", "PATCH", "POST"]);
+  expect(provider.extraAllowedRequestHeaders.has("notion-version")).toBe(true);
+
+  expect(
+    await provider.isAllowedUpstreamUrl({
+      userId: "u",
+      url: new URL("https://api.notion.com/v1/search"),
+    })
+  ).toEqual({ allowed: true });
+  expect(
+    (
+      await provider.isAllowedUpstreamUrl({
+        userId: "u",
+        url: new URL("https://api.notion.com/v10/search"),
+      })
+    ).allowed
+  ).toBe(false);
+
+  const headers: Record<string, string> = {};
+  provider.applyUpstreamRequestHeaderDefaults({ headers });
+  expect(headers).toEqual({ "notion-version": "2022-06-28" });
+
+  // No refresh tokens: the stored token is used as is.
+  expect(
+    await provider.getAuthorizationHeaderValue({ storedCredential: "tok$&" })
+  ).toBe("Bearer tok$&");
+
+  expect(
+    interpretProxyRequest({
+      url: new URL("https://api.notion.com/v1/pages/p%201"),
+      method: "GET",
+    })
+  ).toEqual({ summary: "Read Notion page", details: ["page: p 1"] });
+  expect(
+    interpretProxyRequest({
+      url: new URL("https://api.notion.com/v1/blocks/b1/children"),
+      method: "patch",
+    }).summary
+  ).toBe("PATCH Notion block b1");
+  expect(
+    interpretProxyRequest({
+      url: new URL("https://api.notion.com/v1/users"),
+      method: "GET",
+    }).summary
+  ).toBe("notion API request");
+
+  expect(() => getProvider("notion")).toThrow("TEST_NOTION_CLIENT_ID");
+  process.env.TEST_NOTION_CLIENT_ID = "cid";
+  process.env.TEST_NOTION_CLIENT_SECRET = "secret";
+  try {
+    expect(getProvider("notion")).toMatchObject({
+      id: "notion",
+      clientId: "cid",
+      issuer: "https://api.notion.com",
+      tokenEndpoint: "https://api.notion.com/v1/oauth/token",
+    });
+  } finally {
+    delete process.env.TEST_NOTION_CLIENT_ID;
+    delete process.env.TEST_NOTION_CLIENT_SECRET;
+  }
+});
+
+test("invalid or conflicting definitions are rejected", () => {
+  expect(() => registerProviderDefinition({ ...NOTION, id: "No" })).toThrow(
+    "id:"
+  );
+  expect(() =>
+    registerProviderDefinition({ ...NOTION, auth_header_template: "Bearer" })
+  ).toThrow("auth_header_template");
+  expect(() =>
+    registerProviderDefinition({ ...NOTION, hosts: ["api.github.com"] })
+  ).toThrow("belongs to github");
+  expect(() => registerProviderDefinition({ ...NOTION, id: "github" })).toThrow(
+    "already registered"
+  );
+  expect(() =>
+    registerProviderDefinition({
+      ...NOTION,
+      redaction_rules: [{ kind: "regex", pattern: ".*" }],
+    })
+  ).toThrow("invalid redaction rule");
+  expect(listProxyProviderIds()).not.toContain("notion");
+});
+
+test("definitions are loaded from a directory", async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), "pb-providers-"));
+  try {
+    await writeFile(
+      path.join(dir, "linear.json"),
+      JSON.stringify({
+        id: "linear",
+        hosts: ["api.linear.app"],
+        allowed_methods: ["POST"],
+        auth: { type: "api_key" },
+        auth_header_template: "{token}",
+      })
+    );
+    await writeFile(path.join(dir, "README.md"), "ignored");
+
+    const loaded = await loadProviderDefinitions(dir);
+    expect(loaded.map((d) => d.id)).toEqual(["linear"]);
+
+    const linear = getProxyProviderById("linear");
+    expect(
+      await linear.getAuthorizationHeaderValue({ storedCredential: "lin_api" })
+    ).toBe("lin_api");
+    expect(() => getProvider("linear")).toThrow("unknown provider");
+
+    await writeFile(path.join(dir, "zz.json"), JSON.stringify({ id: "x" }));
+    unregisterProxyProvider("linear");
+    await expect(loadProviderDefinitions(dir)).rejects.toThrow(
+      "provider definition zz.json"
+    );
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
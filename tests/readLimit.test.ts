@@ -1,6 +1,10 @@
 import { describe, expect, test } from "bun:test";
 
-import { readBodyWithLimit } from "../src/proxy/readLimit";
+import {
+  readBodyWithLimit,
+  type StreamOutcome,
+  streamBodyWithLimit,
+} from "../src/proxy/readLimit";
 
 function streamFromChunks(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
   return new ReadableStream({
@@ -28,3 +32,31 @@ describe("readBodyWithLimit", () => {
     );
   });
 });
+
+describe("streamBodyWithLimit", () => {
+  test("forwards chunks and reports bytes once", async () => {
+    const outcomes: StreamOutcome[] = [];
+    const out = streamBodyWithLimit({
+      body: streamFromChunks([new Uint8Array([1, 2]), new Uint8Array([3])]),
+      maxBytes: 10,
+      onDone: (o) => outcomes.push(o),
+    });
+    const bytes = new Uint8Array(await new Response(out).arrayBuffer());
+    expect([...bytes]).toEqual([1, 2, 3]);
+    expect(outcomes).toEqual([{ bytes: 3 }]);
+  });
+
+  test("errors the stream when exceeding limit", async () => {
+    const outcomes: StreamOutcome[] = [];
+    const out = streamBodyWithLimit({
+      body: streamFromChunks([new Uint8Array([1, 2]), new Uint8Array([3, 4])]),
+      maxBytes: 3,
+      onDone: (o) => outcomes.push(o),
+    });
+    await expect(new Response(out).arrayBuffer()).rejects.toThrow(
+      "response_too_large"
+    );
+    expect(outcomes.length).toBe(1);
+    expect(outcomes[0]?.error).toBe("response_too_large");
+  });
+});
@@ -0,0 +1,277 @@
+import { expect, test } from "bun:test";
+import type { Transformer } from "grammy";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { auditEvent } from "../src/audit/audit";
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import {
+  compileRedaction,
+  createRedactionRule,
+  parseRedactionRuleSpec,
+  REDACTED,
+  redactBodySummary,
+  redactHeaders,
+  redactJson,
+  redactUrl,
+} from "../src/proxy/redaction";
+import { telegramApi } from "../src/telegram/api";
+import { createBot } from "../src/telegram/bot";
+import { proxyRouter } from "../src/web/proxy";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+
+async function setup(): Promise<{ userId: string }> {
+  await db().exec("DELETE FROM audit_events;");
+  await db().exec("DELETE FROM redaction_rules;");
+  await db().exec("DELETE FROM approvals;");
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM proxy_batches;");
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+    )
+    .run(
+      ulid(),
+      userId,
+      "keyA",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso()
+    );
+  return { userId };
+}
+
+const EMAIL_REGEX = "[a-z0-9._%+-]+@[a-z0-9.-]+\\.[a-z]{2,}";
+
+// Telegram calls are recorded here instead of being sent.
+const telegramCalls: { method: string; payload: JsonRecord }[] = [];
+const recordTelegramCall: Transformer = async (_prev, method, payload) => {
+  telegramCalls.push({ method, payload: payload as JsonRecord });
+  return { ok: true, result: true as never };
+};
+
+let recordingTelegram = false;
+
+async function withTelegram(fn: () => Promise<void>): Promise<void> {
+  const token = env.TELEGRAM_BOT_TOKEN;
+  env.TELEGRAM_BOT_TOKEN = "1:test";
+  if (!recordingTelegram) {
+    telegramApi().config.use(recordTelegramCall);
+    recordingTelegram = true;
+  }
+  telegramCalls.length = 0;
+  try {
+    await fn();
+  } finally {
+    env.TELEGRAM_BOT_TOKEN = token;
+  }
+}
+
+test("rules: json paths, headers, query params and regexes", () => {
+  const redaction = compileRedaction([
+    { kind: "json_path", pattern: "$.message.to" },
+    { kind: "json_path", pattern: "items[*].secret" },
+    { kind: "json_path", pattern: "**.password" },
+    { kind: "header", pattern: "X-Secret" },
+    { kind: "query_param", pattern: "sig" },
+    { kind: "regex", pattern: EMAIL_REGEX },
+  ]);
+
+  expect(
+    redactJson(redaction, {
+      message: { to: "a@example.com", subject: "hi bob@example.com" },
+      items: [{ secret: "s1", keep: 1 }],
+      nested: { deep: { Password: "p" } },
+    })
+  ).toEqual({
+    message: { to: REDACTED, subject: `hi ${REDACTED}` },
+    items: [{ secret: REDACTED, keep: 1 }],
+    nested: { deep: { Password: REDACTED } },
+  });
+
+  expect(
+    redactHeaders(redaction, { "x-secret": "v", accept: "application/json" })
+  ).toEqual({ "x-secret": REDACTED, accept: "application/json" });
+
+  expect(
+    redactUrl(
+      redaction,
+      "https://www.googleapis.com/calendar/v3/calendars/me@example.com/events?sig=abc&maxResults=5"
+    )
+  ).toBe(
+    `https://www.googleapis.com/calendar/v3/calendars/${REDACTED}/events?sig=${REDACTED}&maxResults=5`
+  );
+
+  expect(
+    redactBodySummary(redaction, {
+      contentType: "application/x-www-form-urlencoded",
+      bodySummary: "sig=abc&email=x@example.com",
+    })
+  ).toBe(`sig=${REDACTED}&email=${REDACTED}`);
+
+  expect(parseRedactionRuleSpec("regex a b c provider=github")).toEqual({
+    kind: "regex",
+    pattern: "a b c",
+    providerId: "github",
+  });
+  expect(() => parseRedactionRuleSpec("regex .*")).toThrow();
+  expect(() => parseRedactionRuleSpec("cookie x")).toThrow();
+});
+
+test("audit events are stored with built-in and user rules applied", async () => {
+  const { userId } = await setup();
+  await createRedactionRule({ userId, kind: "regex", pattern: EMAIL_REGEX });
+
+  await auditEvent({
+    userId,
+    actorType: "api_key",
+    actorId: "k",
+    eventType: "proxy_request_created",
+    event: {
+      api_key_label: "agent",
+      upstream_url:
+        "https://www.googleapis.com/drive/v3/files?q=owner%3Dme%40example.com&access_token=ya29.secret",
+    },
+  });
+
+  const row = (await db()
+    .query("SELECT event_json FROM audit_events WHERE user_id = ?;")
+    .get(userId)) as { event_json: string };
+  expect(row.event_json).not.toContain("example.com");
+  expect(row.event_json).not.toContain("ya29");
+  expect(JSON.parse(row.event_json).upstream_url).toBe(
+    `https://www.googleapis.com/drive/v3/files?q=owner=${REDACTED}&access_token=${REDACTED}`
+  );
+});
+
+test("batch listing returns redacted upstream URLs", async () => {
+  await setup();
+  const a = new Hono();
+  a.route("/v1/proxy", proxyRouter);
+
+  const res = await a.request("/v1/proxy/batches", {
+    method: "POST",
+    headers: {
+      authorization: "Bearer pb_test_key_a",
+      "content-type": "application/json",
+    },
+    body: JSON.stringify({
+      requests: [
+        { upstream_url: "https://api.github.com/user?token=ghp_secret" },
+      ],
+    }),
+  });
+  expect(res.status).toBe(200);
+  const j = (await res.json()) as { items: JsonRecord[] };
+  expect(j.items[0].upstream_url).toBe(
+    `https://api.github.com/user?token=${REDACTED}`
+  );
+
+  // The stored request keeps the real URL for execution.
+  const stored = (await db()
+    .query("SELECT upstream_url FROM proxy_requests WHERE id = ?;")
+    .get(j.items[0].request_id as string)) as { upstream_url: string };
+  expect(stored.upstream_url).toContain("ghp_secret");
+});
+
+test("approval prompts redact the requester note", async () => {
+  const { userId } = await setup();
+  await createRedactionRule({ userId, kind: "regex", pattern: EMAIL_REGEX });
+  const a = new Hono();
+  a.route("/v1/proxy", proxyRouter);
+
+  await withTelegram(async () => {
+    const res = await a.request("/v1/proxy/request", {
+      method: "POST",
+      headers: {
+        authorization: "Bearer pb_test_key_a",
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({
+        upstream_url: "https://api.github.com/user",
+        consent_hint: "check the account of jane@example.com",
+      }),
+    });
+    expect(res.status).toBe(200);
+    // The prompt is sent after the response.
+    await new Promise((r) => setTimeout(r, 10));
+  });
+
+  const prompt = telegramCalls.find((c) => c.method === "sendMessage");
+  expect(prompt?.payload.text).toContain(
+    `<b>Requester note</b>: check the account of ${REDACTED}`
+  );
+  expect(prompt?.payload.text).not.toContain("jane@example.com");
+});
+
+test("the /requests listing is redacted", async () => {
+  const { userId } = await setup();
+  await createRedactionRule({ userId, kind: "query_param", pattern: "login" });
+  await createRedactionRule({ userId, kind: "regex", pattern: EMAIL_REGEX });
+  const a = new Hono();
+  a.route("/v1/proxy", proxyRouter);
+  const res = await a.request("/v1/proxy/request", {
+    method: "POST",
+    headers: {
+      authorization: "Bearer pb_test_key_a",
+      "content-type": "application/json",
+    },
+    body: JSON.stringify({
+      upstream_url: "https://api.github.com/search/users?login=janedoe",
+      consent_hint: "look up jane@x.io",
+    }),
+  });
+  expect(res.status).toBe(200);
+
+  await withTelegram(async () => {
+    const bot = createBot();
+    bot.api.config.use(recordTelegramCall);
+    bot.botInfo = {
+      id: 1,
+      is_bot: true,
+      first_name: "Broker",
+      username: "broker_bot",
+    } as typeof bot.botInfo;
+    const chat = { id: 123, type: "private" as const, first_name: "U" };
+    await bot.handleUpdate({
+      update_id: 1,
+      message: {
+        message_id: 1,
+        date: 0,
+        chat,
+        from: { id: 123, is_bot: false, first_name: "U" },
+        text: "/requests",
+        entities: [{ type: "bot_command", offset: 0, length: 9 }],
+      },
+    });
+  });
+
+  const reply = telegramCalls.find((c) => c.method === "sendMessage");
+  expect(reply?.payload.text).toContain(
+    `https://api.github.com/search/users?login=${REDACTED}`
+  );
+  expect(reply?.payload.text).toContain(`look up ${REDACTED}`);
+  expect(reply?.payload.text).not.toContain("jane");
+});
@@ -0,0 +1,180 @@
+import { expect, test } from "bun:test";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { encryptUtf8 } from "../src/crypto/aesgcm";
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import { decideProxyRequest } from "../src/proxy/requests";
+import { sweepExpiredResults } from "../src/proxy/results";
+import { proxyRouter } from "../src/web/proxy";
+
+type JsonRecord = Record<string, unknown>;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+
+async function setup(): Promise<{ userId: string; apiKeyId: string }> {
+  env.APP_SECRET ??= "test-app-secret";
+  await db().exec("DELETE FROM approvals;");
+  await db().exec("DELETE FROM proxy_request_results;");
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+
+  const apiKeyId = ulid();
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+    )
+    .run(
+      apiKeyId,
+      userId,
+      "keyA",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso()
+    );
+  return { userId, apiKeyId };
+}
+
+async function insertRequest(params: {
+  userId: string;
+  apiKeyId: string;
+  upstreamUrl: string;
+  status: string;
+}): Promise<string> {
+  const id = ulid();
+  const now = nowIso();
+  await db()
+    .query(
+      "INSERT INTO proxy_requests (id, user_id, api_key_id, api_key_label_snapshot, upstream_url, request_hash, status, created_at, updated_at, approval_expires_at, result_state, execute_on_approval) " +
+        "VALUES (?, ?, ?, 'keyA', ?, 'hash', ?, ?, ?, ?, 'NONE', 1);"
+    )
+    .run(
+      id,
+      params.userId,
+      params.apiKeyId,
+      params.upstreamUrl,
+      params.status,
+      now,
+      now,
+      new Date(Date.now() + 120_000).toISOString()
+    );
+  return id;
+}
+
+function app() {
+  const a = new Hono();
+  a.route("/v1/proxy", proxyRouter);
+  return a;
+}
+
+const authHeaders = { authorization: "Bearer pb_test_key_a" };
+
+test("execute_on_approval: result is stored on approval and served once", async () => {
+  const { userId, apiKeyId } = await setup();
+
+  const upstream = Bun.serve({
+    port: 0,
+    fetch() {
+      return new Response('{"ok":true}', {
+        status: 201,
+        headers: { "content-type": "application/json" },
+      });
+    },
+  });
+
+  const requestId = await insertRequest({
+    userId,
+    apiKeyId,
+    upstreamUrl: `http://127.0.0.1:${upstream.port}/`,
+    status: "PENDING_APPROVAL",
+  });
+
+  expect(
+    await decideProxyRequest({
+      requestId,
+      userId,
+      decision: "approved",
+      telegramUserId: 123,
+      telegramChatId: 123,
+      telegramMessageId: 1,
+    })
+  ).toEqual({ ok: true });
+
+  // /wait keeps waiting through APPROVED/EXECUTING until the result is stored.
+  const waited = await app().request(
+    `/v1/proxy/requests/${requestId}/wait?timeout=10`,
+    { headers: authHeaders }
+  );
+  expect(waited.status).toBe(200);
+  const wj = (await waited.json()) as JsonRecord;
+  expect(wj.status).toBe("SUCCEEDED");
+  expect(wj.result_state).toBe("STORED");
+
+  const exec = await app().request(`/v1/proxy/requests/${requestId}/execute`, {
+    method: "POST",
+    headers: authHeaders,
+  });
+  expect(exec.status).toBe(409);
+
+  const first = await app().request(`/v1/proxy/requests/${requestId}/result`, {
+    headers: authHeaders,
+  });
+  expect(first.status).toBe(201);
+  expect(first.headers.get("content-type")).toBe("application/json");
+  expect(await first.text()).toBe('{"ok":true}');
+
+  const second = await app().request(`/v1/proxy/requests/${requestId}/result`, {
+    headers: authHeaders,
+  });
+  expect(second.status).toBe(410);
+  expect(((await second.json()) as JsonRecord).error).toBe("result_consumed");
+
+  upstream.stop();
+});
+
+test("execute_on_approval: sweeper purges expired results", async () => {
+  const { userId, apiKeyId } = await setup();
+  const requestId = await insertRequest({
+    userId,
+    apiKeyId,
+    upstreamUrl: "https://api.github.com/user",
+    status: "SUCCEEDED",
+  });
+  await db()
+    .query("UPDATE proxy_requests SET result_state = 'STORED' WHERE id = ?;")
+    .run(requestId);
+  await db()
+    .query(
+      "INSERT INTO proxy_request_results (request_id, body_ciphertext, content_type, http_status, bytes, created_at, expires_at) VALUES (?, ?, NULL, 200, 2, ?, ?);"
+    )
+    .run(
+      requestId,
+      await encryptUtf8(Buffer.from("hi").toString("base64")),
+      nowIso(),
+      new Date(Date.now() - 1_000).toISOString()
+    );
+
+  expect(await sweepExpiredResults()).toBe(1);
+
+  const res = await app().request(`/v1/proxy/requests/${requestId}/result`, {
+    headers: authHeaders,
+  });
+  expect(res.status).toBe(410);
+  expect(((await res.json()) as JsonRecord).error).toBe("result_expired");
+});
@@ -0,0 +1,170 @@
+import { afterEach, expect, test } from "bun:test";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { listActiveLinkedAccounts } from "../src/accounts/linked";
+import { createConnectUrl } from "../src/connect/links";
+import { decryptUtf8 } from "../src/crypto/aesgcm";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import { registerProviderDefinition } from "../src/providers/declarative/load";
+import {
+  getProxyProviderById,
+  unregisterProxyProvider,
+} from "../src/proxy/providerRegistry";
+import { loadRedaction, REDACTED, redactHeaders } from "../src/proxy/redaction";
+import { accountRouter } from "../src/web/accounts";
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+env.APP_BASE_URL ??= "https://broker.example";
+
+const INTERNAL_API = {
+  id: "internal",
+  hosts: ["api.internal.example"],
+  allowed_methods: ["GET"],
+  auth: {
+    type: "api_key",
+    header_name: "X-Service-Token",
+    credential_label: "Service token",
+    help: "Create one under Settings > Tokens.",
+  },
+  auth_header_template: "Token {token}",
+};
+
+afterEach(() => {
+  unregisterProxyProvider("internal");
+});
+
+async function setup(): Promise<{ userId: string }> {
+  await db().exec("DELETE FROM audit_events;");
+  await db().exec("DELETE FROM connect_states;");
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+  return { userId };
+}
+
+function app() {
+  const a = new Hono();
+  a.route("/v1/accounts", accountRouter);
+  return a;
+}
+
+async function connect(params: {
+  userId: string;
+  credential: string;
+  label?: string;
+}): Promise<Response> {
+  const url = new URL(
+    await createConnectUrl({ userId: params.userId, providerId: "internal" })
+  );
+  expect(url.pathname).toBe("/v1/accounts/connect/internal");
+  const state = url.searchParams.get("state") ?? "";
+
+  const form = await app().request(`${url.pathname}${url.search}`);
+  expect(form.status).toBe(200);
+  expect(await form.text()).toContain("Service token");
+
+  return app().request(url.pathname, {
+    method: "POST",
+    body: new URLSearchParams({
+      state,
+      credential: params.credential,
+      label: params.label ?? "",
+    }),
+  });
+}
+
+async function storedCredential(accountId: string): Promise<string> {
+  const row = (await db()
+    .query("SELECT refresh_token_ciphertext FROM linked_accounts WHERE id = ?;")
+    .get(accountId)) as { refresh_token_ciphertext: Uint8Array };
+  return decryptUtf8(row.refresh_token_ciphertext);
+}
+
+test("static credentials are linked through the connect form", async () => {
+  registerProviderDefinition(INTERNAL_API);
+  const { userId } = await setup();
+
+  const res = await connect({ userId, credential: "tok_1", label: "prod" });
+  expect(res.status).toBe(200);
+  expect(await res.text()).toContain("internal connected.");
+
+  let accounts = await listActiveLinkedAccounts({
+    userId,
+    provider: "internal",
+  });
+  expect(accounts).toHaveLength(1);
+  expect(accounts[0].label).toBe("prod");
+  expect(accounts[0].providerUserId).not.toContain("tok_1");
+  expect(await storedCredential(accounts[0].id)).toBe("tok_1");
+
+  // Same label: the credential is replaced in place.
+  await connect({ userId, credential: "tok_2", label: "prod" });
+  accounts = await listActiveLinkedAccounts({ userId, provider: "internal" });
+  expect(accounts).toHaveLength(1);
+  expect(await storedCredential(accounts[0].id)).toBe("tok_2");
+
+  // A different credential without a label is another account.
+  await connect({ userId, credential: "tok_3" });
+  expect(
+    await listActiveLinkedAccounts({ userId, provider: "internal" })
+  ).toHaveLength(2);
+
+  // The state is single-use.
+  const url = new URL(
+    await createConnectUrl({ userId, providerId: "internal" })
+  );
+  const body = new URLSearchParams({
+    state: url.searchParams.get("state") ?? "",
+    credential: "tok_4",
+  });
+  expect(
+    (await app().request(url.pathname, { method: "POST", body })).status
+  ).toBe(200);
+  expect(
+    (await app().request(url.pathname, { method: "POST", body })).status
+  ).toBe(400);
+});
+
+test("the credential is sent in the configured header and redacted", async () => {
+  registerProviderDefinition(INTERNAL_API);
+  const provider = getProxyProviderById("internal");
+
+  expect(provider.authHeaderName).toBe("x-service-token");
+  expect(
+    await provider.getAuthorizationHeaderValue({ storedCredential: "tok_1" })
+  ).toBe("Token tok_1");
+
+  const redaction = await loadRedaction({ providerId: "internal" });
+  expect(
+    redactHeaders(redaction, { "X-Service-Token": "Token tok_1" })
+  ).toEqual({ "X-Service-Token": REDACTED });
+
+  // The credential header can't also be a caller-supplied header.
+  unregisterProxyProvider("internal");
+  expect(() =>
+    registerProviderDefinition({
+      ...INTERNAL_API,
+      extra_allowed_request_headers: ["x-service-token"],
+    })
+  ).toThrow("cannot be forwarded");
+
+  // Unknown or OAuth providers have no static connect form.
+  expect(
+    (await app().request("/v1/accounts/connect/github?state=x")).status
+  ).toBe(404);
+});
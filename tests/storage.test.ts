@@ -0,0 +1,116 @@
+import { expect, test } from "bun:test";
+import { ulid } from "ulid";
+
+import { db } from "../src/db/client";
+import { isoPlusSecondsSql, jsonTextSql } from "../src/db/dialect";
+import {
+  migrate,
+  migrationFiles,
+  missingPostgresMigrations,
+} from "../src/db/migrate";
+import { toPositionalParams } from "../src/db/postgres";
+
+// Runs against whichever backend DB_PATH selects (SQLite by default).
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+
+async function userCount(): Promise<number> {
+  const row = (await db()
+    .query("SELECT COUNT(*) AS n FROM users WHERE telegram_user_id >= ?;")
+    .get(900_000_000_000)) as { n: number };
+  return row.n;
+}
+
+async function insertUser(telegramUserId: number): Promise<void> {
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, 'active');"
+    )
+    .run(ulid(), telegramUserId, nowIso());
+}
+
+test("transactions commit, roll back and hold off queries from outside", async () => {
+  await db().exec("DELETE FROM users;");
+
+  // A query issued while a transaction is open waits for it to end, so it
+  // never sees rows that are then rolled back.
+  let release = () => {};
+  const gate = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const rolledBack = db().transaction(async () => {
+    await insertUser(900_000_000_001);
+    expect(await userCount()).toBe(1);
+    await gate;
+    throw new Error("boom");
+  });
+  await new Promise((r) => setTimeout(r, 10));
+  const outside = userCount();
+  release();
+  await expect(rolledBack).rejects.toThrow("boom");
+  expect(await outside).toBe(0);
+
+  await db().transaction(async () => {
+    await insertUser(900_000_000_002);
+    // Nested calls join the outer transaction.
+    await db().transaction(() => insertUser(900_000_000_003));
+  });
+  expect(await userCount()).toBe(2);
+
+  // Transactions started together run one after another.
+  await Promise.all(
+    [4, 5, 6].map((n) =>
+      db().transaction(async () => {
+        await insertUser(900_000_000_000 + n);
+        await new Promise((r) => setTimeout(r, 1));
+      })
+    )
+  );
+  expect(await userCount()).toBe(5);
+  await db()
+    .query("DELETE FROM users WHERE telegram_user_id > ?;")
+    .run(900_000_000_003);
+
+  // Telegram ids exceed 32 bits and come back as numbers.
+  const row = (await db()
+    .query("SELECT MAX(telegram_user_id) AS id FROM users;")
+    .get()) as { id: number };
+  expect(row.id).toBe(900_000_000_003);
+});
+
+test("dialect helpers agree with JavaScript", async () => {
+  const { dialect } = db();
+  const row = (await db()
+    .query(
+      `SELECT ${isoPlusSecondsSql(dialect, "?", "90")} AS later, ${jsonTextSql(dialect, "?", "sessionId")} AS session_id;`
+    )
+    .get(
+      "2024-01-31T23:59:30.250Z",
+      JSON.stringify({ sessionId: "gs_1" })
+    )) as {
+    later: string;
+    session_id: string;
+  };
+  expect(row).toEqual({
+    later: "2024-02-01T00:01:00.250Z",
+    session_id: "gs_1",
+  });
+
+  expect(
+    toPositionalParams("SELECT '?' AS q, \"a?\" FROM t WHERE a = ? AND b = ?;")
+  ).toBe("SELECT '?' AS q, \"a?\" FROM t WHERE a = $1 AND b = $2;");
+});
+
+test("every schema change ships for both backends and is applied", async () => {
+  expect(missingPostgresMigrations()).toEqual([]);
+
+  const applied = (await db()
+    .query("SELECT id FROM schema_migrations ORDER BY id;")
+    .all()) as { id: string }[];
+  expect(applied.map((r) => r.id)).toEqual(migrationFiles(db().dialect));
+});
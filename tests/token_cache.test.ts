@@ -0,0 +1,139 @@
+import { expect, test } from "bun:test";
+import type * as oauth from "oauth4webapi";
+import { ulid } from "ulid";
+
+import { upsertLinkedAccount } from "../src/accounts/linked";
+import { decryptUtf8, encryptUtf8 } from "../src/crypto/aesgcm";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import { getCachedAccessToken } from "../src/oauth/tokenCache";
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+
+async function setup(): Promise<{ userId: string; accountId: string }> {
+  await db().exec("DELETE FROM linked_accounts;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+
+  const linked = await upsertLinkedAccount({
+    userId,
+    provider: "google",
+    providerUserId: "1",
+    scopes: "drive",
+    ciphertext: await encryptUtf8("rt1"),
+  });
+  if (!linked) throw new Error("expected account to be stored");
+  return { userId, accountId: linked.accountId };
+}
+
+function fakeRefresh(tokens: Partial<oauth.TokenEndpointResponse>[]) {
+  let calls = 0;
+  const refresh = async (): Promise<oauth.TokenEndpointResponse> => {
+    const t = tokens[Math.min(calls, tokens.length - 1)];
+    calls += 1;
+    await Bun.sleep(5);
+    return {
+      access_token: `at${calls}`,
+      token_type: "bearer",
+      expires_in: 3600,
+      ...t,
+    } as oauth.TokenEndpointResponse;
+  };
+  return { refresh, calls: () => calls };
+}
+
+async function tokenRow(accountId: string) {
+  return (await db()
+    .query(
+      "SELECT access_token_ciphertext, access_token_expires_at, refresh_token_ciphertext FROM linked_accounts WHERE id = ?;"
+    )
+    .get(accountId)) as {
+    access_token_ciphertext: Uint8Array | null;
+    access_token_expires_at: string | null;
+    refresh_token_ciphertext: Uint8Array;
+  };
+}
+
+test("access tokens are cached encrypted until they near expiry", async () => {
+  const { accountId } = await setup();
+  const fake = fakeRefresh([{}]);
+
+  expect(
+    await getCachedAccessToken({ linkedAccountId: accountId, ...fake })
+  ).toBe("at1");
+  expect(
+    await getCachedAccessToken({ linkedAccountId: accountId, ...fake })
+  ).toBe("at1");
+  expect(fake.calls()).toBe(1);
+
+  const row = await tokenRow(accountId);
+  expect(row.access_token_ciphertext).not.toBeNull();
+  expect(
+    Buffer.from(row.access_token_ciphertext ?? []).toString()
+  ).not.toContain("at1");
+
+  // Expired: refreshed synchronously.
+  await db()
+    .query(
+      "UPDATE linked_accounts SET access_token_expires_at = ? WHERE id = ?;"
+    )
+    .run(new Date(Date.now() - 1000).toISOString(), accountId);
+  expect(
+    await getCachedAccessToken({ linkedAccountId: accountId, ...fake })
+  ).toBe("at2");
+
+  // Close to expiry: the cached token is still returned, and a refresh runs
+  // in the background.
+  await db()
+    .query(
+      "UPDATE linked_accounts SET access_token_expires_at = ? WHERE id = ?;"
+    )
+    .run(new Date(Date.now() + 2 * 60_000).toISOString(), accountId);
+  expect(
+    await getCachedAccessToken({ linkedAccountId: accountId, ...fake })
+  ).toBe("at2");
+  await Bun.sleep(50);
+  expect(fake.calls()).toBe(3);
+  expect(
+    await getCachedAccessToken({ linkedAccountId: accountId, ...fake })
+  ).toBe("at3");
+});
+
+test("concurrent refreshes are de-duplicated and rotated refresh tokens persisted", async () => {
+  const { userId, accountId } = await setup();
+  const fake = fakeRefresh([{ refresh_token: "rt2" }]);
+
+  const tokens = await Promise.all(
+    [1, 2, 3].map(() =>
+      getCachedAccessToken({ linkedAccountId: accountId, ...fake })
+    )
+  );
+  expect(tokens).toEqual(["at1", "at1", "at1"]);
+  expect(fake.calls()).toBe(1);
+
+  const row = await tokenRow(accountId);
+  expect(await decryptUtf8(row.refresh_token_ciphertext)).toBe("rt2");
+
+  // Relinking drops the cached access token.
+  await upsertLinkedAccount({
+    userId,
+    provider: "google",
+    providerUserId: "1",
+    scopes: "drive",
+    ciphertext: await encryptUtf8("rt3"),
+  });
+  expect((await tokenRow(accountId)).access_token_ciphertext).toBeNull();
+});
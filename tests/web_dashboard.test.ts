@@ -0,0 +1,224 @@
+import { expect, test } from "bun:test";
+import { Hono } from "hono";
+import { ulid } from "ulid";
+
+import { createWebLoginUrl } from "../src/auth/webSession";
+import { sha256Hex } from "../src/crypto/sha256";
+import { db } from "../src/db/client";
+import { migrate } from "../src/db/migrate";
+import { env } from "../src/env";
+import { createGitSession } from "../src/git/sessions";
+import { createProxyRequest } from "../src/proxy/requests";
+import { uiRouter } from "../src/web/ui";
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// Create schema once for this test file.
+await migrate();
+env.APP_SECRET ??= "test-app-secret";
+env.APP_BASE_URL ??= "https://broker.example";
+
+async function setupDb(): Promise<{ userId: string; apiKeyId: string }> {
+  await db().exec("DELETE FROM web_sessions;");
+  await db().exec("DELETE FROM web_login_tokens;");
+  await db().exec("DELETE FROM audit_events;");
+  await db().exec("DELETE FROM approvals;");
+  await db().exec("DELETE FROM proxy_requests;");
+  await db().exec("DELETE FROM git_sessions;");
+  await db().exec("DELETE FROM api_keys;");
+  await db().exec("DELETE FROM users;");
+
+  const userId = ulid();
+  await db()
+    .query(
+      "INSERT INTO users (id, telegram_user_id, created_at, status) VALUES (?, ?, ?, ?);"
+    )
+    .run(userId, 123, nowIso(), "active");
+  const apiKeyId = ulid();
+  await db()
+    .query(
+      "INSERT INTO api_keys (id, user_id, label, key_hash, created_at, updated_at, revoked_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?, NULL, NULL);"
+    )
+    .run(
+      apiKeyId,
+      userId,
+      "agent",
+      await sha256Hex("pb_test_key_a"),
+      nowIso(),
+      nowIso()
+    );
+  return { userId, apiKeyId };
+}
+
+function app() {
+  const a = new Hono();
+  a.route("/ui", uiRouter);
+  return a;
+}
+
+function form(fields: Record<string, string>) {
+  return {
+    method: "POST",
+    headers: { "content-type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(fields).toString(),
+  };
+}
+
+async function signIn(userId: string): Promise<{ cookie: string }> {
+  const { url } = await createWebLoginUrl({ userId });
+  const token = new URL(url).searchParams.get("token") ?? "";
+  const res = await app().request("/ui/login", form({ token }));
+  expect(res.status).toBe(303);
+  const setCookie = res.headers.get("set-cookie") ?? "";
+  expect(setCookie).toContain("HttpOnly");
+  return { cookie: setCookie.split(";", 1)[0] ?? "" };
+}
+
+async function getPage(path: string, cookie: string) {
+  const res = await app().request(path, { headers: { cookie } });
+  const html = await res.text();
+  const csrf = /name="csrf" value="([^"]+)"/.exec(html)?.[1] ?? "";
+  return { res, html, csrf };
+}
+
+test("magic links sign in once; pages and posts need the session", async () => {
+  const { userId } = await setupDb();
+
+  const { url } = await createWebLoginUrl({ userId });
+  expect(url.startsWith("https://broker.example/ui/login?token=")).toBe(true);
+  const token = new URL(url).searchParams.get("token") ?? "";
+
+  // Opening the link only shows a confirmation form (safe for previews).
+  const landing = await app().request(`/ui/login?token=${token}`);
+  expect(landing.status).toBe(200);
+  expect(await landing.text()).toContain('action="/ui/login"');
+
+  const ok = await app().request("/ui/login", form({ token }));
+  expect(ok.status).toBe(303);
+  const cookie = (ok.headers.get("set-cookie") ?? "").split(";", 1)[0] ?? "";
+  expect((await app().request("/ui/login", form({ token }))).status).toBe(400);
+
+  expect((await app().request("/ui")).status).toBe(401);
+  const page = await getPage("/ui/audit", cookie);
+  expect(page.res.status).toBe(200);
+  expect(page.html).toContain("web_session_started");
+
+  // Form posts without the session's token are rejected.
+  const noCsrf = await app().request("/ui/logout", {
+    ...form({}),
+    headers: {
+      cookie,
+      "content-type": "application/x-www-form-urlencoded",
+    },
+  });
+  expect(noCsrf.status).toBe(403);
+
+  const logout = await app().request("/ui/logout", {
+    ...form({ csrf: page.csrf }),
+    headers: {
+      cookie,
+      "content-type": "application/x-www-form-urlencoded",
+    },
+  });
+  expect(logout.status).toBe(200);
+  expect((await getPage("/ui", cookie)).res.status).toBe(401);
+});
+
+test("pending approvals are decided through the shared decision paths", async () => {
+  const { userId, apiKeyId } = await setupDb();
+  const request = await createProxyRequest({
+    userId,
+    apiKeyId,
+    apiKeyLabelSnapshot: "agent",
+    upstreamUrl: "https://api.github.com/repos/acme/widgets/issues",
+    method: "GET",
+    approvalTtlMs: 60_000,
+  });
+  const session = await createGitSession({
+    userId,
+    apiKeyId,
+    provider: "github",
+    operation: "push",
+    repoOwner: "acme",
+    repoName: "widgets",
+    approvalTtlMs: 60_000,
+    inactivityTimeoutSeconds: 120,
+  });
+
+  const { cookie } = await signIn(userId);
+  const page = await getPage("/ui", cookie);
+  expect(page.html).toContain(
+    "https://api.github.com/repos/acme/widgets/issues"
+  );
+  expect(page.html).toContain("git push github:acme/widgets");
+  expect(page.html).toContain("approve_push_review");
+
+  const post = (path: string, fields: Record<string, string>) =>
+    app().request(path, {
+      ...form({ csrf: page.csrf, ...fields }),
+      headers: {
+        cookie,
+        "content-type": "application/x-www-form-urlencoded",
+      },
+    });
+
+  const approved = await post(`/ui/requests/${request.requestId}/decide`, {
+    decision: "approve",
+  });
+  expect(approved.status).toBe(303);
+  expect(approved.headers.get("location")).toContain("Request%20approved");
+  const row = (await db()
+    .query("SELECT status FROM proxy_requests WHERE id = ?;")
+    .get(request.requestId)) as { status: string };
+  expect(row.status).toBe("APPROVED");
+  const approval = await db()
+    .query(
+      "SELECT decision, decided_by_telegram_user_id FROM approvals WHERE request_id = ?;"
+    )
+    .get(request.requestId);
+  expect(approval).toEqual({
+    decision: "approved",
+    decided_by_telegram_user_id: 123,
+  });
+
+  // Already decided.
+  const again = await post(`/ui/requests/${request.requestId}/decide`, {
+    decision: "deny",
+  });
+  expect(again.headers.get("location")).toContain("not_pending");
+
+  // Clone-only actions don't apply to push sessions.
+  expect(
+    (
+      await post(`/ui/git/${session.sessionId}/decide`, {
+        action: "approve_clone",
+      })
+    ).status
+  ).toBe(400);
+  await post(`/ui/git/${session.sessionId}/decide`, {
+    action: "approve_push_review",
+  });
+  const sess = await db()
+    .query(
+      "SELECT status, allow_default_branch_push, review_push FROM git_sessions WHERE id = ?;"
+    )
+    .get(session.sessionId);
+  expect(sess).toEqual({
+    status: "APPROVED",
+    allow_default_branch_push: 0,
+    review_push: 1,
+  });
+
+  const events = await db()
+    .query(
+      "SELECT actor_type, event_type FROM audit_events WHERE user_id = ? AND actor_type = 'web' ORDER BY id;"
+    )
+    .all(userId);
+  expect(events).toEqual([
+    { actor_type: "web", event_type: "web_session_started" },
+    { actor_type: "web", event_type: "proxy_request_approved" },
+    { actor_type: "web", event_type: "git_session_approved" },
+  ]);
+});